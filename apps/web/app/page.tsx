@@ -1,7 +1,8 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import dynamic from 'next/dynamic';
+import type { Profiler } from '@repo/ecs';
 import { useGameStore, useArcadeAudio } from '@repo/hooks';
 import { useInputStore, TouchControls, useTouchInput } from '@repo/input';
 import { InteractionPrompt, GameOverlay } from '@repo/ui';
@@ -31,6 +32,7 @@ export default function ArcadePage() {
   const activeCabinet = useGameStore((state) => state.activeCabinet);
   const stopPlaying = useGameStore((state) => state.stopPlaying);
   const [gameCanvases, setGameCanvases] = useState<Record<string, HTMLCanvasElement | null>>({});
+  const [gameProfilers, setGameProfilers] = useState<Record<string, Profiler>>({});
   const [score, setScore] = useState(0);
 
   // Get input source info for control hints
@@ -62,6 +64,16 @@ export default function ArcadePage() {
     setGameCanvases((prev) => ({ ...prev, 'tetromino-1': canvas }));
   }, []);
 
+  // Handle game worlds' profilers, shown by the game overlay. Each game id
+  // keeps one handler, so the games don't recreate their worlds on re-render
+  const handleProfilerReady = useMemo(() => {
+    const handlers: Record<string, (profiler: Profiler) => void> = {};
+    return (gameId: string) =>
+      (handlers[gameId] ??= (profiler) => {
+        setGameProfilers((prev) => ({ ...prev, [gameId]: profiler }));
+      });
+  }, []);
+
   // Check if games are active
   const isSnakeActive = mode === 'playing' && activeCabinet?.id === 'snake-1';
   const isFlappyActive = mode === 'playing' && activeCabinet?.id === 'flappy-1';
@@ -212,7 +224,10 @@ export default function ArcadePage() {
 
       {/* UI Overlays */}
       <InteractionPrompt />
-      <GameOverlay score={score} />
+      <GameOverlay
+        score={score}
+        profiler={activeCabinet ? gameProfilers[activeCabinet.id] : null}
+      />
 
       {/* Touch Controls - handles its own positioning */}
       <TouchControls
@@ -226,30 +241,35 @@ export default function ArcadePage() {
         isActive={isSnakeActive}
         onCanvasReady={handleSnakeCanvasReady}
         onScoreChange={setScore}
+        onProfilerReady={handleProfilerReady('snake-1')}
         playSound={playSound}
       />
       <FlappyBirdGame
         isActive={isFlappyActive}
         onCanvasReady={handleFlappyCanvasReady}
         onScoreChange={setScore}
+        onProfilerReady={handleProfilerReady('flappy-1')}
         playSound={playSound}
       />
       <PacManGame
         isActive={isPacManActive}
         onCanvasReady={handlePacManCanvasReady}
         onScoreChange={setScore}
+        onProfilerReady={handleProfilerReady('pacman-1')}
         playSound={playSound}
       />
       <SoulKnightGame
         isActive={isSoulKnightActive}
         onCanvasReady={handleSoulKnightCanvasReady}
         onScoreChange={setScore}
+        onProfilerReady={handleProfilerReady('soulknight-1')}
         playSound={playSound}
       />
       <TetrominoGame
         isActive={isTetrominoActive}
         onCanvasReady={handleTetrominoCanvasReady}
         onScoreChange={setScore}
+        onProfilerReady={handleProfilerReady('tetromino-1')}
         playSound={playSound}
       />
 
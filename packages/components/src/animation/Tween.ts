@@ -0,0 +1,79 @@
+import { defineComponent } from '@repo/ecs';
+
+/** Easing curves a tween track can follow (see `easings` in @repo/systems) */
+export type Easing =
+  | 'linear'
+  | 'easeInQuad'
+  | 'easeOutQuad'
+  | 'easeInOutQuad'
+  | 'easeInCubic'
+  | 'easeOutCubic'
+  | 'easeInOutCubic'
+  | 'easeInSine'
+  | 'easeOutSine'
+  | 'easeInOutSine'
+  | 'easeOutBack'
+  | 'easeOutBounce';
+
+/**
+ * TweenTrack animates one numeric component field from one value to
+ * another. Tracks in a timeline play one after another unless given `at`.
+ */
+export interface TweenTrack {
+  /** Component to animate, by name (e.g. 'Transform') */
+  component: string;
+  /** Numeric field of the component */
+  field: string;
+  /** Start value (defaults to the field's value when the track starts) */
+  from?: number;
+  /** End value */
+  to: number;
+  /** Seconds the track takes */
+  duration: number;
+  /** Seconds into the timeline the track starts (defaults to when the previous track ends) */
+  at?: number;
+  /** Seconds to wait after `at` before starting (default 0) */
+  delay?: number;
+  /** Easing curve (default 'linear') */
+  easing?: Easing;
+}
+
+/**
+ * TweenTimeline is a named set of tracks played together, as data
+ * (JSON-compatible, so timelines can live in blueprints and snapshots).
+ *
+ * @example
+ * const chomp: TweenTimeline = {
+ *   name: 'chomp',
+ *   tracks: [{ component: 'PacManMouth', field: 'angle', from: 45, to: 5, duration: 0.3 }],
+ *   repeat: -1,
+ *   yoyo: true,
+ * };
+ */
+export interface TweenTimeline {
+  /** Name to control the timeline by (playing one replaces the entity's timeline of the same name) */
+  name: string;
+  tracks: TweenTrack[];
+  /** Times to play again after the first play (-1 = forever; default 0) */
+  repeat?: number;
+  /** Play every other repeat backwards (default false) */
+  yoyo?: boolean;
+  /** Hold the timeline where it is (default false) */
+  paused?: boolean;
+  /** Seconds into the current play (kept by the TweenSystem) */
+  elapsed?: number;
+  /** Plays finished so far (kept by the TweenSystem) */
+  plays?: number;
+}
+
+/**
+ * Tween component holds the timelines animating an entity's component
+ * fields (see the TweenSystem in @repo/systems). Finished timelines are
+ * removed, with a TweenCompleteEvent.
+ */
+export const Tween = defineComponent('Tween', {
+  /** Timelines playing on the entity */
+  timelines: [] as TweenTimeline[],
+});
+
+export type TweenData = typeof Tween.defaultValue;
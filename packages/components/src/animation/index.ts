@@ -0,0 +1 @@
+export { Tween, type TweenData, type TweenTimeline, type TweenTrack, type Easing } from './Tween';
@@ -1,12 +1,13 @@
 import { defineComponent } from '@repo/ecs';
+import type { SoundType } from '../events/PlaySoundEvent';
 
 /**
  * SoundEffect component triggers audio playback.
  * The AudioSystem processes these and plays sounds.
  */
 export const SoundEffect = defineComponent('SoundEffect', {
-  /** Sound type identifier */
-  type: '' as string,
+  /** Which sound to play */
+  type: 'start' as SoundType,
   /** Whether the sound should play */
   triggered: false,
   /** Remove component after playing */
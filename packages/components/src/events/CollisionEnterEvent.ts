@@ -0,0 +1,14 @@
+import { defineEvent, type Entity } from '@repo/ecs';
+
+/**
+ * CollisionEnterEvent fires when two colliders start touching.
+ * Emitted by the CollisionSystem once per pair, with `a` the lower entity.
+ */
+export const CollisionEnterEvent = defineEvent<{
+  a: Entity;
+  b: Entity;
+  /** Whether the pair only overlaps (a trigger or a collider without a RigidBody) */
+  trigger: boolean;
+}>('collisionEnter');
+
+export type CollisionEnterEventData = NonNullable<typeof CollisionEnterEvent.payload>;
@@ -0,0 +1,13 @@
+import { defineEvent, type Entity } from '@repo/ecs';
+
+/**
+ * CollisionExitEvent fires when two colliders stop touching, including when
+ * one of them was despawned or lost its Collider.
+ * Emitted by the CollisionSystem once per pair, with `a` the lower entity.
+ */
+export const CollisionExitEvent = defineEvent<{
+  a: Entity;
+  b: Entity;
+}>('collisionExit');
+
+export type CollisionExitEventData = NonNullable<typeof CollisionExitEvent.payload>;
@@ -0,0 +1,23 @@
+import { defineEvent } from '@repo/ecs';
+
+/** What ended a game */
+export type GameOverReason =
+  | 'wall' // Snake hit the edge
+  | 'self' // Snake ran into itself
+  | 'ghost' // a ghost caught Pac-Man on the last life
+  | 'ground' // Flappy Bird hit the ground
+  | 'ceiling' // or flew off the top
+  | 'pipe' // or hit a pipe
+  | 'death' // Soul Knight's player died
+  | 'overflow'; // Tetromino's stack reached the top
+
+/**
+ * GameOverEvent ends the current run.
+ * Game over systems handle it to save high scores and stop play.
+ */
+export const GameOverEvent = defineEvent<{
+  /** What ended the game */
+  reason: GameOverReason;
+}>('gameOver');
+
+export type GameOverEventData = NonNullable<typeof GameOverEvent.payload>;
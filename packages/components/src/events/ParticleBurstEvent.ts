@@ -0,0 +1,17 @@
+import { defineEvent } from '@repo/ecs';
+
+/**
+ * ParticleBurstEvent requests a one-off burst of particles, e.g. when an
+ * enemy dies. The ParticleSystem emits it on the next frame.
+ */
+export const ParticleBurstEvent = defineEvent<{
+  /** Effect name, in the particle system's effects */
+  effect: string;
+  /** Emit point (px) */
+  x: number;
+  y: number;
+  /** Particles to emit (defaults to the effect's `count`) */
+  count?: number;
+}>('particleBurst');
+
+export type ParticleBurstEventData = NonNullable<typeof ParticleBurstEvent.payload>;
@@ -0,0 +1,36 @@
+import { defineEvent } from '@repo/ecs';
+
+/** Every sound effect the games play (useArcadeAudio synthesizes them) */
+export type SoundType =
+  | 'start'
+  | 'gameOver'
+  | 'move'
+  | 'eat'
+  | 'flap'
+  | 'score'
+  | 'attack'
+  | 'hit'
+  | 'kill'
+  | 'damage'
+  | 'roll'
+  | 'wave'
+  | 'rotate'
+  | 'lock'
+  | 'lineClear'
+  | 'levelUp'
+  | 'hardDrop'
+  | 'powerUp'
+  | 'eatGhost'
+  | 'levelComplete'
+  | 'death';
+
+/**
+ * PlaySoundEvent requests a one-off sound effect.
+ * The AudioSystem plays it immediately.
+ */
+export const PlaySoundEvent = defineEvent<{
+  /** Which sound to play */
+  type: SoundType;
+}>('playSound');
+
+export type PlaySoundEventData = NonNullable<typeof PlaySoundEvent.payload>;
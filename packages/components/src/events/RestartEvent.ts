@@ -0,0 +1,7 @@
+import { defineEvent } from '@repo/ecs';
+
+/**
+ * RestartEvent requests a fresh run after game over.
+ * The game instance resets entities and resources when it fires.
+ */
+export const RestartEvent = defineEvent('restart');
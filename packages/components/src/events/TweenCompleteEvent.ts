@@ -0,0 +1,13 @@
+import { defineEvent, type Entity } from '@repo/ecs';
+
+/**
+ * TweenCompleteEvent fires when a tween timeline finishes its last play.
+ * Timelines that repeat forever never complete.
+ */
+export const TweenCompleteEvent = defineEvent<{
+  entity: Entity;
+  /** The timeline's name */
+  name: string;
+}>('tweenComplete');
+
+export type TweenCompleteEventData = NonNullable<typeof TweenCompleteEvent.payload>;
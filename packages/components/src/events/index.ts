@@ -0,0 +1,7 @@
+export { GameOverEvent, type GameOverEventData, type GameOverReason } from './GameOverEvent';
+export { RestartEvent } from './RestartEvent';
+export { PlaySoundEvent, type PlaySoundEventData, type SoundType } from './PlaySoundEvent';
+export { CollisionEnterEvent, type CollisionEnterEventData } from './CollisionEnterEvent';
+export { CollisionExitEvent, type CollisionExitEventData } from './CollisionExitEvent';
+export { ParticleBurstEvent, type ParticleBurstEventData } from './ParticleBurstEvent';
+export { TweenCompleteEvent, type TweenCompleteEventData } from './TweenCompleteEvent';
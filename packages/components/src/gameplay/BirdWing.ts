@@ -0,0 +1,12 @@
+import { defineComponent } from '@repo/ecs';
+
+/**
+ * BirdWing component for where the Flappy Bird's wing is drawn, flapped
+ * by a Tween.
+ */
+export const BirdWing = defineComponent('BirdWing', {
+  /** Wing offset below the middle of the bird (px) */
+  offset: 0,
+});
+
+export type BirdWingData = typeof BirdWing.defaultValue;
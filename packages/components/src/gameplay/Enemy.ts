@@ -0,0 +1,26 @@
+import { defineComponent } from '@repo/ecs';
+
+/**
+ * Enemy component with the stats of an enemy variant.
+ * Variants are usually defined as blueprints overriding these defaults.
+ */
+export const Enemy = defineComponent('Enemy', {
+  /** Variant name, e.g. for rendering */
+  variant: 'hollow',
+  /** Movement speed while chasing (pixels per second) */
+  speed: 60,
+  /** Distance within which it chases the player */
+  chaseRange: 150,
+  /** Attack length in simulation steps (it attacks when touching the player) */
+  attackDuration: 20,
+  /** Steps between attacks */
+  attackCooldown: 60,
+  /** Damage dealt to the player per hit */
+  damage: 1,
+  /** Hits it takes to kill */
+  health: 2,
+  /** Score awarded for a kill */
+  scorePerKill: 100,
+});
+
+export type EnemyData = typeof Enemy.defaultValue;
@@ -8,10 +8,6 @@ export const PacMan = defineComponent('PacMan', {
   direction: 'LEFT' as 'UP' | 'DOWN' | 'LEFT' | 'RIGHT',
   /** Requested direction (buffered input) */
   nextDirection: null as 'UP' | 'DOWN' | 'LEFT' | 'RIGHT' | null,
-  /** Mouth animation angle (0-45 degrees) */
-  mouthAngle: 45,
-  /** Whether mouth is opening or closing */
-  mouthOpening: false,
   /** Whether currently powered up */
   powered: false,
   /** Remaining lives */
@@ -21,3 +17,14 @@ export const PacMan = defineComponent('PacMan', {
 });
 
 export type PacManData = typeof PacMan.defaultValue;
+
+/**
+ * PacManMouth component for how wide Pac-Man's mouth is drawn.
+ * Kept apart from PacMan so a Tween can animate it.
+ */
+export const PacManMouth = defineComponent('PacManMouth', {
+  /** Mouth angle each side of the heading (5-45 degrees) */
+  angle: 45,
+});
+
+export type PacManMouthData = typeof PacManMouth.defaultValue;
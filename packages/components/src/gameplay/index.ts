@@ -4,6 +4,8 @@ export { Score, type ScoreData } from './Score';
 export { Food, type FoodData } from './Food';
 export { SnakeSegment, type SnakeSegmentData, type Direction } from './SnakeSegment';
 export { Pipe, type PipeData } from './Pipe';
+export { BirdWing, type BirdWingData } from './BirdWing';
 export { Ghost, type GhostData, type GhostMode, type GhostName } from './Ghost';
 export { Pellet, type PelletData, type PelletType } from './Pellet';
-export { PacMan, type PacManData } from './PacMan';
+export { PacMan, PacManMouth, type PacManData, type PacManMouthData } from './PacMan';
+export { Enemy, type EnemyData } from './Enemy';
@@ -4,6 +4,9 @@ export * from './transform';
 // Rendering components
 export * from './rendering';
 
+// Animation components
+export * from './animation';
+
 // Physics components
 export * from './physics';
 
@@ -15,3 +18,12 @@ export * from './input';
 
 // Audio components
 export * from './audio';
+
+// Shared events
+export * from './events';
+
+// Shared resources
+export * from './resources';
+
+// Tilemaps for grid games
+export * from './tilemap';
@@ -1,8 +1,8 @@
 import { defineComponent } from '@repo/ecs';
 
 /**
- * Collider component for collision detection.
- * Supports box and circle colliders.
+ * Collider component for collision detection (see CollisionSystem).
+ * Supports box and circle colliders. Add a RigidBody to make it solid.
  */
 export const Collider = defineComponent('Collider', {
   /** Collider type */
@@ -13,13 +13,13 @@ export const Collider = defineComponent('Collider', {
   height: 32,
   /** Radius for circle collider */
   radius: 16,
-  /** X offset from entity position */
+  /** X offset from entity position (of a box's top-left corner, or a circle's center) */
   offsetX: 0,
   /** Y offset from entity position */
   offsetY: 0,
   /** Collision layer (bitmask) */
   layer: 1,
-  /** Which layers this collider interacts with (bitmask) */
+  /** Which layers this collider interacts with (bitmask); both sides must match */
   mask: 0xffffffff,
 });
 
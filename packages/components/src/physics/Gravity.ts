@@ -2,13 +2,13 @@ import { defineComponent } from '@repo/ecs';
 
 /**
  * Gravity component marks an entity as affected by gravity.
- * GravitySystem applies this to the entity's Velocity each frame.
+ * GravitySystem applies this to the entity's Velocity each step.
  */
 export const Gravity = defineComponent('Gravity', {
-  /** Gravity strength (pixels per frame squared) */
-  strength: 0.15,
-  /** Maximum fall speed */
-  maxFallSpeed: 10,
+  /** Gravity strength (pixels per second squared) */
+  strength: 540,
+  /** Terminal velocity: the fastest it falls (pixels per second) */
+  maxFallSpeed: 600,
   /** Whether gravity is currently enabled */
   enabled: true,
 });
@@ -2,15 +2,17 @@ import { defineComponent } from '@repo/ecs';
 
 /**
  * RigidBody component for physics simulation.
+ * Makes an entity's Collider solid: the CollisionSystem pushes overlapping
+ * solid bodies apart.
  */
 export const RigidBody = defineComponent('RigidBody', {
   /** Mass of the body */
   mass: 1,
-  /** Friction coefficient */
+  /** Drag: how fast VelocitySystem slows it down, per second (0 for none) */
   friction: 0,
   /** Bounciness (0-1) */
   restitution: 0,
-  /** Static bodies don't move */
+  /** Static bodies don't move, even with a Velocity */
   isStatic: false,
   /** Triggers detect collision but don't block movement */
   isTrigger: false,
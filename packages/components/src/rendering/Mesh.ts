@@ -2,10 +2,11 @@ import { defineComponent } from '@repo/ecs';
 
 /**
  * Mesh component for 3D Three.js rendering.
- * References a mesh by ID for the ThreeJSRenderSystem.
+ * References a mesh by ID for the ThreeJSRenderSystem, which places it by
+ * the entity's Transform.
  */
 export const Mesh = defineComponent('Mesh', {
-  /** Mesh identifier (maps to a Three.js mesh) */
+  /** Mesh identifier (registered in the system's MeshRegistry) */
   meshId: '',
   /** Material color (hex) */
   color: 0xffffff,
@@ -0,0 +1,61 @@
+import { defineComponent } from '@repo/ecs';
+
+/**
+ * ParticleEffect describes a kind of particle as data (JSON-compatible).
+ * Each particle launches from the emit point (anywhere in `width` x
+ * `height` around it) and moves, falls and fades over its lifetime.
+ *
+ * @example
+ * const spark: ParticleEffect = {
+ *   count: 12, lifetime: 0.5, speedMin: 40, speedMax: 120,
+ *   colorStart: '#ffee88', colorEnd: '#ff4400', sizeStart: 3, sizeEnd: 1,
+ * };
+ */
+export interface ParticleEffect {
+  /** Particles a burst emits (see ParticleBurstEvent) */
+  count: number;
+  /** Seconds a particle lives */
+  lifetime: number;
+  /** Launch speed range (px/s) */
+  speedMin: number;
+  speedMax: number;
+  /** Launch direction in degrees (0 = right, 90 = down; default 0) */
+  angle?: number;
+  /** Launch directions spread around `angle`, in degrees (default 360, all around) */
+  spread?: number;
+  /** Downward acceleration (px/s²; default 0) */
+  gravity?: number;
+  /** Size of the area particles spawn in, centered on the emit point (default 0) */
+  width?: number;
+  height?: number;
+  /** Color over life, from birth to death (hex; `colorEnd` defaults to `colorStart`) */
+  colorStart: string;
+  colorEnd?: string;
+  /** Size over life (px; `sizeEnd` defaults to `sizeStart`) */
+  sizeStart: number;
+  sizeEnd?: number;
+  /** Opacity over life (defaults 1 to 0) */
+  alphaStart?: number;
+  alphaEnd?: number;
+}
+
+/**
+ * ParticleEmitter component emits particles of an effect from the entity's
+ * Transform (see the ParticleSystem in @repo/systems): a burst when the
+ * emitter is added, then `rate` particles per second while `emitting`.
+ */
+export const ParticleEmitter = defineComponent('ParticleEmitter', {
+  /** Effect name, in the particle system's effects */
+  effect: '',
+  /** Whether to emit continuously */
+  emitting: true,
+  /** Particles per second while emitting */
+  rate: 0,
+  /** Particles emitted once, when the emitter is added */
+  burst: 0,
+  /** Emit point relative to the Transform (px) */
+  offsetX: 0,
+  offsetY: 0,
+});
+
+export type ParticleEmitterData = typeof ParticleEmitter.defaultValue;
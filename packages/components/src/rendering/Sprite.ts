@@ -2,7 +2,9 @@ import { defineComponent } from '@repo/ecs';
 
 /**
  * Sprite component for 2D canvas rendering.
- * Supports rectangles, circles, and rounded rectangles.
+ * Draws a rectangle, circle or rounded rectangle, or a frame of an image
+ * atlas when `atlas` is set. Transform rotation and scale apply around the
+ * sprite's center.
  */
 export const Sprite = defineComponent('Sprite', {
   /** Width in pixels */
@@ -25,6 +27,14 @@ export const Sprite = defineComponent('Sprite', {
   layer: 0,
   /** Opacity (0-1) */
   opacity: 1,
+  /** Atlas to draw a frame of (see AtlasCache); empty draws `shape` */
+  atlas: '',
+  /** Frame name in the atlas, drawn stretched to width x height */
+  frame: '',
+  /** Mirror horizontally */
+  flipX: false,
+  /** Mirror vertically */
+  flipY: false,
 });
 
 export type SpriteData = typeof Sprite.defaultValue;
@@ -1,2 +1,7 @@
 export { Sprite, type SpriteData } from './Sprite';
 export { Mesh, type MeshData } from './Mesh';
+export {
+  ParticleEmitter,
+  type ParticleEmitterData,
+  type ParticleEffect,
+} from './ParticleEmitter';
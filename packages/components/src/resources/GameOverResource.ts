@@ -0,0 +1,7 @@
+import { defineResource } from '@repo/ecs';
+
+/**
+ * GameOverResource is true once the current run has ended.
+ * Set by game over systems when handling GameOverEvent.
+ */
+export const GameOverResource = defineResource('gameOver', false);
@@ -0,0 +1,7 @@
+import { defineResource } from '@repo/ecs';
+
+/**
+ * GameStartedResource is true once the player has started the run,
+ * for games that wait on a title screen (e.g. Flappy Bird).
+ */
+export const GameStartedResource = defineResource('gameStarted', false);
@@ -0,0 +1,6 @@
+import { defineResource } from '@repo/ecs';
+
+/**
+ * HighScoreResource holds the best score, loaded from and saved to localStorage.
+ */
+export const HighScoreResource = defineResource('highScore', 0);
@@ -0,0 +1,7 @@
+import { defineResource } from '@repo/ecs';
+
+/**
+ * ScoreResource holds the current run's score.
+ * React wrappers subscribe to it with `world.onResourceChange`.
+ */
+export const ScoreResource = defineResource('score', 0);
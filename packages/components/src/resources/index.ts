@@ -0,0 +1,4 @@
+export { ScoreResource } from './ScoreResource';
+export { HighScoreResource } from './HighScoreResource';
+export { GameOverResource } from './GameOverResource';
+export { GameStartedResource } from './GameStartedResource';
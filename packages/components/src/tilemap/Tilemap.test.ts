@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createTilemap,
+  createTileLayer,
+  createEmptyTileLayer,
+  getTile,
+  setTile,
+  isWalkable,
+  getNeighbor,
+  getWalkableNeighbors,
+  findTiles,
+} from './Tilemap';
+
+type Tile = 'wall' | 'door' | 'dot' | 'tunnel';
+
+/**
+ * A 5x3 maze: walls around a corridor with a ghost door in the middle,
+ * and tunnels at both ends of the corridor.
+ */
+function createMaze() {
+  return createTilemap<Tile>({
+    cols: 5,
+    rows: 3,
+    cellWidth: 8,
+    cellHeight: 8,
+    tileset: {
+      wall: { solid: true },
+      door: { solid: true },
+      dot: { spawn: 'pellet' },
+      tunnel: { tunnel: true },
+    },
+    layers: {
+      floor: createTileLayer(['#####', 'T.-.T', '#####'], {
+        '#': 'wall',
+        '.': 'dot',
+        '-': 'door',
+        T: 'tunnel',
+      }),
+      items: createEmptyTileLayer(5, 3),
+    },
+  });
+}
+
+describe('tilemap', () => {
+  it('refuses layers of the wrong size or with unknown tiles', () => {
+    const options = { cols: 2, rows: 1, cellWidth: 8, cellHeight: 8, tileset: { a: {} } };
+    expect(() => createTilemap({ ...options, layers: { floor: [['a']] } })).toThrow(
+      'Tile layer "floor" is not 2x1'
+    );
+    expect(() =>
+      createTilemap({ ...options, layers: { floor: [['a', 'b' as 'a']] } })
+    ).toThrow('Tile layer "floor" uses tile "b", which is not in the tileset');
+    expect(() => createTileLayer(['ab'], { a: 'a' } as Record<string, 'a'>)).toThrow(
+      'Tile key "b" is not in the legend'
+    );
+  });
+
+  it('gets and sets tiles, bumping the version on each change', () => {
+    const map = createMaze();
+    expect(getTile(map, 'floor', 1, 1)).toBe('dot');
+    expect(getTile(map, 'floor', 9, 9)).toBeNull();
+
+    setTile(map, 'items', 1, 1, 'dot');
+    setTile(map, 'floor', 1, 1, null);
+    expect(getTile(map, 'items', 1, 1)).toBe('dot');
+    expect(getTile(map, 'floor', 1, 1)).toBeNull();
+    expect(map.version).toBe(2);
+
+    expect(() => setTile(map, 'floor', 5, 0, 'wall')).toThrow('Cell 5,0 is outside the tilemap');
+    expect(() => getTile(map, 'roof', 0, 0)).toThrow('Tilemap has no layer "roof"');
+  });
+
+  it('blocks solid tiles in any layer, unless walked through', () => {
+    const map = createMaze();
+    expect(isWalkable(map, 1, 1)).toBe(true);
+    expect(isWalkable(map, 1, 0)).toBe(false);
+    expect(isWalkable(map, 2, 1)).toBe(false);
+    expect(isWalkable(map, 2, 1, { through: ['door'] })).toBe(true);
+    expect(isWalkable(map, -1, 1)).toBe(false);
+
+    setTile(map, 'items', 3, 1, 'wall');
+    expect(isWalkable(map, 3, 1)).toBe(false);
+  });
+
+  it('wraps through tunnels at the map edge, and nowhere else', () => {
+    const map = createMaze();
+    expect(getNeighbor(map, 0, 1, 'LEFT')).toEqual({ col: 4, row: 1 });
+    expect(getNeighbor(map, 4, 1, 'RIGHT')).toEqual({ col: 0, row: 1 });
+    expect(getNeighbor(map, 1, 0, 'UP')).toBeNull();
+
+    expect(getWalkableNeighbors(map, 0, 1)).toEqual([
+      { direction: 'LEFT', col: 4, row: 1 },
+      { direction: 'RIGHT', col: 1, row: 1 },
+    ]);
+    expect(getWalkableNeighbors(map, 1, 1)).toEqual([{ direction: 'LEFT', col: 0, row: 1 }]);
+    expect(getWalkableNeighbors(map, 1, 1, { through: ['door'] })).toHaveLength(2);
+  });
+
+  it('finds tiles row by row from the top-left', () => {
+    const map = createMaze();
+    expect(findTiles(map, 'floor', (_tile, type) => type.spawn === 'pellet')).toEqual([
+      { col: 1, row: 1, tile: 'dot' },
+      { col: 3, row: 1, tile: 'dot' },
+    ]);
+  });
+});
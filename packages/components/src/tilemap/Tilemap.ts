@@ -0,0 +1,278 @@
+import { defineResource } from '@repo/ecs';
+import type { Direction } from '../gameplay/SnakeSegment';
+
+/**
+ * Properties of a kind of tile (JSON-compatible; all optional).
+ */
+export interface TileType {
+  /** Blocks movement (see isWalkable) */
+  solid?: boolean;
+  /** Stepping off the map edge from this tile wraps to the opposite edge (see getNeighbor) */
+  tunnel?: boolean;
+  /** Spawn point name, e.g. 'pellet' (see findTiles) */
+  spawn?: string;
+  /** Fill color, for renderers that draw tiles as plain cells */
+  color?: string;
+  /** Atlas and frame to draw the tile from (see AtlasCache in @repo/systems) */
+  atlas?: string;
+  frame?: string;
+}
+
+/** Rows of tile names, null where the layer has no tile */
+export type TileLayer<T extends string = string> = (T | null)[][];
+
+/**
+ * Tilemap is a grid of tiles in named layers, with the properties of each
+ * kind of tile in a tileset. It is plain data, so snapshots capture it;
+ * change tiles with setTile, which bumps `version` for render caches.
+ *
+ * @example
+ * const map = createTilemap({
+ *   cols: 3, rows: 2, cellWidth: 16, cellHeight: 16,
+ *   tileset: { wall: { solid: true }, dot: { spawn: 'pellet' } },
+ *   layers: { maze: createTileLayer(['#.#', '#.#'], { '#': 'wall', '.': 'dot' }) },
+ * });
+ * isWalkable(map, 1, 0); // true
+ */
+export interface Tilemap<T extends string = string> {
+  cols: number;
+  rows: number;
+  /** Cell size in pixels, as GridPosition's cellWidth/cellHeight */
+  cellWidth: number;
+  cellHeight: number;
+  /** Tile types by name */
+  tileset: Record<T, TileType>;
+  /** Layers by name, in drawing order (bottom first) */
+  layers: Record<string, TileLayer<T>>;
+  /** Bumped whenever a tile changes */
+  version: number;
+}
+
+export interface TilemapOptions<T extends string> {
+  cols: number;
+  rows: number;
+  cellWidth: number;
+  cellHeight: number;
+  tileset: Record<T, TileType>;
+  layers?: Record<string, TileLayer<T>>;
+}
+
+/** A tile found by findTiles */
+export interface TileMatch<T extends string = string> {
+  col: number;
+  row: number;
+  tile: T;
+}
+
+export interface WalkOptions<T extends string = string> {
+  /** Solid tiles to walk through anyway (e.g. a door only ghosts use) */
+  through?: readonly T[];
+}
+
+const OFFSETS: Record<Direction, { col: number; row: number }> = {
+  UP: { col: 0, row: -1 },
+  DOWN: { col: 0, row: 1 },
+  LEFT: { col: -1, row: 0 },
+  RIGHT: { col: 1, row: 0 },
+};
+
+/** Directions in the order neighbor queries list them */
+const DIRECTIONS: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+
+/**
+ * Create a tilemap. Throws if a layer isn't cols x rows or uses a tile
+ * missing from the tileset.
+ */
+export function createTilemap<T extends string>(options: TilemapOptions<T>): Tilemap<T> {
+  const layers = options.layers ?? {};
+
+  for (const [name, layer] of Object.entries(layers)) {
+    if (layer.length !== options.rows || layer.some((row) => row.length !== options.cols)) {
+      throw new Error(`Tile layer "${name}" is not ${options.cols}x${options.rows}`);
+    }
+    for (const row of layer) {
+      for (const tile of row) {
+        if (tile !== null && !Object.hasOwn(options.tileset, tile)) {
+          throw new Error(`Tile layer "${name}" uses tile "${tile}", which is not in the tileset`);
+        }
+      }
+    }
+  }
+
+  return {
+    cols: options.cols,
+    rows: options.rows,
+    cellWidth: options.cellWidth,
+    cellHeight: options.cellHeight,
+    tileset: options.tileset,
+    layers,
+    version: 0,
+  };
+}
+
+/**
+ * Build a layer from rows of keys (strings of characters, or arrays of
+ * numbers) and a legend mapping each key to a tile name or null.
+ * Throws for keys missing from the legend.
+ */
+export function createTileLayer<K extends string | number, T extends string>(
+  rows: readonly ArrayLike<K>[],
+  legend: Record<K, T | null>
+): TileLayer<T> {
+  return rows.map((row) =>
+    Array.from(row, (key) => {
+      const tile = legend[key];
+      if (tile === undefined) {
+        throw new Error(`Tile key "${String(key)}" is not in the legend`);
+      }
+      return tile;
+    })
+  );
+}
+
+/**
+ * Create a layer with no tiles.
+ */
+export function createEmptyTileLayer<T extends string = string>(
+  cols: number,
+  rows: number
+): TileLayer<T> {
+  return Array.from({ length: rows }, () => Array<T | null>(cols).fill(null));
+}
+
+function getLayer<T extends string>(map: Tilemap<T>, layer: string): TileLayer<T> {
+  const tiles = map.layers[layer];
+  if (!tiles) {
+    throw new Error(`Tilemap has no layer "${layer}"`);
+  }
+  return tiles;
+}
+
+/**
+ * Whether a cell is on the map.
+ */
+export function inBounds(map: Tilemap, col: number, row: number): boolean {
+  return col >= 0 && col < map.cols && row >= 0 && row < map.rows;
+}
+
+/**
+ * The tile in a layer at a cell, or null for no tile or off the map.
+ */
+export function getTile<T extends string>(
+  map: Tilemap<T>,
+  layer: string,
+  col: number,
+  row: number
+): T | null {
+  return getLayer(map, layer)[row]?.[col] ?? null;
+}
+
+/**
+ * Set (or with null, clear) the tile in a layer at a cell.
+ */
+export function setTile<T extends string>(
+  map: Tilemap<T>,
+  layer: string,
+  col: number,
+  row: number,
+  tile: T | null
+): void {
+  if (!inBounds(map, col, row)) {
+    throw new Error(`Cell ${col},${row} is outside the tilemap`);
+  }
+  getLayer(map, layer)[row]![col] = tile;
+  map.version++;
+}
+
+/** Tile types at a cell, across layers */
+function getTileTypes<T extends string>(map: Tilemap<T>, col: number, row: number) {
+  const types: { tile: T; type: TileType }[] = [];
+  for (const layer of Object.values<TileLayer<T>>(map.layers)) {
+    const tile = layer[row]?.[col];
+    if (tile != null) types.push({ tile, type: map.tileset[tile] });
+  }
+  return types;
+}
+
+/**
+ * Whether a cell is on the map and no layer has a solid tile there.
+ */
+export function isWalkable<T extends string>(
+  map: Tilemap<T>,
+  col: number,
+  row: number,
+  options: WalkOptions<T> = {}
+): boolean {
+  if (!inBounds(map, col, row)) return false;
+  return getTileTypes(map, col, row).every(
+    ({ tile, type }) => !type.solid || (options.through?.includes(tile) ?? false)
+  );
+}
+
+/**
+ * The cell next to a cell in a direction. Stepping off the map from a
+ * tunnel tile wraps to the opposite edge; otherwise off the map is null.
+ */
+export function getNeighbor(
+  map: Tilemap,
+  col: number,
+  row: number,
+  direction: Direction
+): { col: number; row: number } | null {
+  const next = { col: col + OFFSETS[direction].col, row: row + OFFSETS[direction].row };
+  if (inBounds(map, next.col, next.row)) return next;
+
+  if (!getTileTypes(map, col, row).some(({ type }) => type.tunnel)) return null;
+  return {
+    col: (next.col + map.cols) % map.cols,
+    row: (next.row + map.rows) % map.rows,
+  };
+}
+
+/**
+ * The walkable cells next to a cell (through tunnels), in the order
+ * UP, DOWN, LEFT, RIGHT.
+ */
+export function getWalkableNeighbors<T extends string>(
+  map: Tilemap<T>,
+  col: number,
+  row: number,
+  options: WalkOptions<T> = {}
+): { direction: Direction; col: number; row: number }[] {
+  const neighbors: { direction: Direction; col: number; row: number }[] = [];
+  for (const direction of DIRECTIONS) {
+    const next = getNeighbor(map, col, row, direction);
+    if (next && isWalkable(map, next.col, next.row, options)) {
+      neighbors.push({ direction, ...next });
+    }
+  }
+  return neighbors;
+}
+
+/**
+ * Tiles in a layer matching a test, row by row from the top-left.
+ *
+ * @example
+ * const pellets = findTiles(map, 'maze', (tile, type) => type.spawn === 'pellet');
+ */
+export function findTiles<T extends string>(
+  map: Tilemap<T>,
+  layer: string,
+  test: (tile: T, type: TileType) => boolean
+): TileMatch<T>[] {
+  const matches: TileMatch<T>[] = [];
+  getLayer(map, layer).forEach((tiles, row) => {
+    tiles.forEach((tile, col) => {
+      if (tile !== null && test(tile, map.tileset[tile])) matches.push({ col, row, tile });
+    });
+  });
+  return matches;
+}
+
+/**
+ * The world's tilemap, for grid games (set by the game; empty by default).
+ */
+export const TilemapResource = defineResource<Tilemap>(
+  'tilemap',
+  createTilemap({ cols: 0, rows: 0, cellWidth: 16, cellHeight: 16, tileset: {} })
+);
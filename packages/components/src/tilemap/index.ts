@@ -0,0 +1,19 @@
+export {
+  TilemapResource,
+  createTilemap,
+  createTileLayer,
+  createEmptyTileLayer,
+  inBounds,
+  getTile,
+  setTile,
+  isWalkable,
+  getNeighbor,
+  getWalkableNeighbors,
+  findTiles,
+  type Tilemap,
+  type TilemapOptions,
+  type TileType,
+  type TileLayer,
+  type TileMatch,
+  type WalkOptions,
+} from './Tilemap';
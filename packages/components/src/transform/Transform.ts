@@ -3,6 +3,8 @@ import { defineComponent } from '@repo/ecs';
 /**
  * Transform component for continuous 2D/3D position.
  * Use for physics-based games (Flappy Bird, platformers).
+ * For entities with a parent it is relative to the parent (see WorldTransform).
+ * Rotation is in degrees.
  */
 export const Transform = defineComponent('Transform', {
   x: 0,
@@ -1,8 +1,8 @@
 import { defineComponent } from '@repo/ecs';
 
 /**
- * Velocity component for movement speed.
- * Applied to Transform each frame by VelocitySystem.
+ * Velocity component for movement speed, in pixels per second.
+ * Applied to Transform each step by VelocitySystem.
  */
 export const Velocity = defineComponent('Velocity', {
   x: 0,
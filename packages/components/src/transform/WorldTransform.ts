@@ -0,0 +1,18 @@
+import { defineComponent } from '@repo/ecs';
+
+/**
+ * WorldTransform component for an entity's final position in the world.
+ * Computed from the Transform of the entity and its ancestors by
+ * TransformPropagationSystem; read it instead of Transform for entities
+ * that have a parent.
+ */
+export const WorldTransform = defineComponent('WorldTransform', {
+  x: 0,
+  y: 0,
+  z: 0,
+  rotation: 0,
+  scaleX: 1,
+  scaleY: 1,
+});
+
+export type WorldTransformData = typeof WorldTransform.defaultValue;
@@ -1,3 +1,4 @@
 export { Transform, type TransformData } from './Transform';
+export { WorldTransform, type WorldTransformData } from './WorldTransform';
 export { GridPosition, type GridPositionData } from './GridPosition';
 export { Velocity, type VelocityData } from './Velocity';
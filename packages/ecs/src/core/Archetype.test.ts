@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { createArchetype, getArchetypeId, type ComponentCell } from './Archetype';
+import { defineComponent } from './Component';
+import { createWorld } from './World';
+import type { Entity } from './Entity';
+
+const Position = defineComponent('Position', { x: 0, y: 0 });
+const Velocity = defineComponent('Velocity', { x: 0, y: 0 });
+
+function cells(values: Record<string, unknown>): Map<string, ComponentCell> {
+  return new Map(
+    Object.entries(values).map(([name, value]) => [
+      name,
+      { value, ticks: { added: 1, changed: 1 } },
+    ])
+  );
+}
+
+describe('archetype tables', () => {
+  it('are identified by their sorted component names', () => {
+    expect(createArchetype([Velocity, Position]).id).toBe('Position,Velocity');
+    expect(getArchetypeId(['Velocity', 'Position'])).toBe('Position,Velocity');
+  });
+
+  it('keep columns dense by swapping the last row into a removed one', () => {
+    const table = createArchetype([Position]);
+    const [a, b, c]: [Entity, Entity, Entity] = [1, 2, 3];
+    table.push(a, cells({ Position: { x: 1, y: 0 } }));
+    table.push(b, cells({ Position: { x: 2, y: 0 } }));
+    table.push(c, cells({ Position: { x: 3, y: 0 } }));
+
+    expect(table.removeRow(0)).toBe(c);
+    expect(table.entities).toEqual([c, b]);
+    expect(table.column('Position')).toEqual([
+      { x: 3, y: 0 },
+      { x: 2, y: 0 },
+    ]);
+
+    // The last row has nothing to swap in
+    expect(table.removeRow(1)).toBeUndefined();
+    expect(table.entities).toEqual([c]);
+  });
+});
+
+describe('world storage', () => {
+  it('moves an entity between tables as components are added and removed, keeping its data', () => {
+    const world = createWorld();
+    const entity = world.entities.create();
+    const position = { x: 1, y: 2 };
+    world.addComponent(entity, Position, position);
+    world.addComponent(entity, Velocity, { x: 3, y: 4 });
+
+    expect(world.getComponent(entity, Position)).toBe(position);
+    expect(world.hasComponent(entity, Velocity)).toBe(true);
+
+    world.removeComponent(entity, Velocity);
+    expect(world.getComponent(entity, Position)).toBe(position);
+    expect(world.hasComponent(entity, Velocity)).toBe(false);
+    expect(world.getComponent(entity, Velocity)).toBeUndefined();
+  });
+
+  it('keeps other entities readable after a row is swapped out', () => {
+    const world = createWorld();
+    const entities = [0, 1, 2].map((x) => {
+      const entity = world.entities.create();
+      world.addComponent(entity, Position, { x, y: 0 });
+      return entity;
+    });
+
+    world.despawn(entities[0]!);
+    expect(world.getComponent(entities[1]!, Position)).toEqual({ x: 1, y: 0 });
+    expect(world.getComponent(entities[2]!, Position)).toEqual({ x: 2, y: 0 });
+  });
+});
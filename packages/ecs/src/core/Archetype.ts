@@ -0,0 +1,145 @@
+import type { Entity } from './Entity';
+import type { ComponentType } from './Component';
+
+/**
+ * Change ticks of one component on one entity.
+ * Ticks come from the World's change tick (see `World.changed()`).
+ */
+export interface ComponentTicks {
+  /** Tick when the component was added */
+  added: number;
+  /** Tick when the component was last written */
+  changed: number;
+}
+
+/**
+ * A component's data and change ticks, used to move rows between tables.
+ */
+export interface ComponentCell {
+  value: unknown;
+  ticks: ComponentTicks;
+}
+
+/**
+ * Archetype is a table of all entities that share the exact same set of
+ * component types. Each component type is stored in its own column and
+ * every entity occupies one row, so iterating a query walks contiguous
+ * arrays instead of looking each entity up in a per-component map.
+ */
+export interface Archetype {
+  /** Unique key built from the sorted component names */
+  readonly id: string;
+  /** Component types stored in this archetype, sorted by name */
+  readonly types: readonly ComponentType<unknown>[];
+  /** Entity in each row */
+  readonly entities: Entity[];
+  /** Cached transitions to neighbouring archetypes, keyed by component name */
+  readonly edges: {
+    readonly add: Map<string, Archetype>;
+    readonly remove: Map<string, Archetype>;
+  };
+  /** Check if this archetype stores a component */
+  has(name: string): boolean;
+  /** Get the column holding a component's data */
+  column<T>(name: string): T[] | undefined;
+  /** Get the column holding a component's change ticks */
+  ticks(name: string): ComponentTicks[] | undefined;
+  /** Append a row and return its index */
+  push(entity: Entity, cells: ReadonlyMap<string, ComponentCell>): number;
+  /**
+   * Remove a row by swapping the last row into its place.
+   * Returns the entity that moved into the row, if any.
+   */
+  removeRow(row: number): Entity | undefined;
+  /** Remove all rows */
+  clear(): void;
+}
+
+/**
+ * Build the archetype key for a set of component names.
+ */
+export function getArchetypeId(names: Iterable<string>): string {
+  return Array.from(names).sort().join(',');
+}
+
+/**
+ * Create an empty archetype table for the given component types.
+ */
+export function createArchetype(types: ComponentType<unknown>[]): Archetype {
+  const sortedTypes = [...types].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  const entities: Entity[] = [];
+  const columns = new Map<string, unknown[]>();
+  const tickColumns = new Map<string, ComponentTicks[]>();
+
+  for (const type of sortedTypes) {
+    columns.set(type.name, []);
+    tickColumns.set(type.name, []);
+  }
+
+  return {
+    id: getArchetypeId(columns.keys()),
+    types: sortedTypes,
+    entities,
+    edges: { add: new Map(), remove: new Map() },
+
+    has(name) {
+      return columns.has(name);
+    },
+
+    column<T>(name: string) {
+      return columns.get(name) as T[] | undefined;
+    },
+
+    ticks(name) {
+      return tickColumns.get(name);
+    },
+
+    push(entity, cells) {
+      const row = entities.length;
+      entities.push(entity);
+      for (const [name, column] of columns) {
+        const cell = cells.get(name);
+        column.push(cell?.value);
+        tickColumns.get(name)!.push(cell?.ticks ?? { added: 0, changed: 0 });
+      }
+      return row;
+    },
+
+    removeRow(row) {
+      const lastRow = entities.length - 1;
+      if (row < 0 || row > lastRow) return undefined;
+
+      if (row === lastRow) {
+        entities.pop();
+        for (const column of columns.values()) {
+          column.pop();
+        }
+        for (const column of tickColumns.values()) {
+          column.pop();
+        }
+        return undefined;
+      }
+
+      // Swap the last row into the hole to keep columns dense
+      const moved = entities.pop()!;
+      entities[row] = moved;
+      for (const column of columns.values()) {
+        column[row] = column.pop();
+      }
+      for (const column of tickColumns.values()) {
+        column[row] = column.pop()!;
+      }
+      return moved;
+    },
+
+    clear() {
+      entities.length = 0;
+      for (const column of columns.values()) {
+        column.length = 0;
+      }
+      for (const column of tickColumns.values()) {
+        column.length = 0;
+      }
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld, type World } from './World';
+import { defineComponent } from './Component';
+
+const Health = defineComponent('Health', { current: 1, max: 1 });
+const Speed = defineComponent('Speed', 1);
+const Boss = defineComponent('Boss', {});
+
+function createEnemyWorld(): World {
+  const world = createWorld();
+  world.registerComponent(Health);
+  world.registerComponent(Speed);
+  world.registerComponent(Boss);
+  world.registerBlueprint({
+    name: 'enemy',
+    components: { Health: { current: 2, max: 2 }, Speed: 3, Boss: {} },
+  });
+  return world;
+}
+
+describe('blueprints', () => {
+  it('spawn entities with overrides merged over component defaults', () => {
+    const world = createEnemyWorld();
+    const entity = world.spawn('enemy', { Health: { current: 1 } });
+
+    expect(world.getComponent(entity, Health)).toEqual({ current: 1, max: 2 });
+    expect(world.getComponent(entity, Speed)).toBe(3);
+  });
+
+  it('let variants extend a blueprint, replacing or dropping components', () => {
+    const world = createEnemyWorld();
+    world.registerBlueprint({
+      name: 'enemy:fast',
+      extends: 'enemy',
+      components: { Speed: 6, Boss: null },
+    });
+    const entity = world.spawn('enemy:fast');
+
+    expect(world.getComponent(entity, Health)).toEqual({ current: 2, max: 2 });
+    expect(world.getComponent(entity, Speed)).toBe(6);
+    expect(world.hasComponent(entity, Boss)).toBe(false);
+  });
+
+  it('give every entity its own component data', () => {
+    const world = createEnemyWorld();
+    const first = world.spawn('enemy');
+    const second = world.spawn('enemy');
+    world.getMutable(first, Health)!.current = 0;
+
+    expect(world.getComponent(second, Health)!.current).toBe(2);
+  });
+
+  it('are validated against the registered components when registered', () => {
+    const world = createEnemyWorld();
+    const register = (components: Record<string, unknown>, extendsName?: string) => () =>
+      world.registerBlueprint({ name: 'bad', extends: extendsName, components });
+
+    expect(register({ Armor: {} })).toThrow('uses component "Armor", which is not registered');
+    expect(register({ Health: { shield: 1 } })).toThrow('has no field "shield"');
+    expect(register({ Health: { max: '2' } })).toThrow('expects number, got string');
+    expect(register({ Speed: {} })).toThrow('expects number, got object');
+    expect(register({}, 'missing')).toThrow('extends "missing", which is not registered');
+    expect(() => world.registerBlueprint({ name: 'enemy', components: {} })).toThrow(
+      'already registered'
+    );
+  });
+});
@@ -0,0 +1,223 @@
+import type { ComponentType } from './Component';
+
+/**
+ * Component overrides by component name.
+ * Each value is merged over the component's default value (object fields
+ * are replaced one by one, like updateComponent). `null` leaves out a
+ * component inherited from the extended blueprint.
+ */
+export type BlueprintComponents = Record<string, unknown>;
+
+/**
+ * Blueprint is a declarative, JSON-compatible entity template: the
+ * components an entity spawns with, as overrides of their defaults.
+ * Variants extend another blueprint and only list what differs.
+ * Register blueprints with world.registerBlueprint and create entities
+ * from them with world.spawn.
+ *
+ * @example
+ * world.registerBlueprint({
+ *   name: 'enemy',
+ *   components: { Transform: {}, Velocity: {}, Health: { current: 2, max: 2 } },
+ * });
+ * world.registerBlueprint({
+ *   name: 'enemy:brute',
+ *   extends: 'enemy',
+ *   components: { Health: { current: 5, max: 5 } },
+ * });
+ * const brute = world.spawn('enemy:brute', { Transform: { x: 40, y: 60 } });
+ */
+export interface Blueprint {
+  /** Unique name, used by `extends` and world.spawn */
+  name: string;
+  /** Name of a registered blueprint whose components this one starts from */
+  extends?: string;
+  /** Component overrides by component name */
+  components: BlueprintComponents;
+}
+
+/**
+ * A component an entity spawns with, resolved from a blueprint.
+ */
+export interface ResolvedComponent {
+  type: ComponentType<unknown>;
+  data: unknown;
+}
+
+/**
+ * BlueprintRegistry validates blueprints against the registered component
+ * types and resolves them (with inheritance) into component data.
+ */
+export interface BlueprintRegistry {
+  /**
+   * Register a blueprint. Throws if its name is taken, it extends an
+   * unregistered blueprint, or its components don't match their schemas.
+   */
+  register(blueprint: Blueprint): void;
+  /** Check if a blueprint is registered */
+  has(name: string): boolean;
+  /**
+   * Resolve a blueprint (by name, or an unregistered one) and overrides into
+   * fresh component data, in the order the components were first listed.
+   */
+  resolve(blueprint: string | Blueprint, overrides?: BlueprintComponents): ResolvedComponent[];
+  /** Remove all blueprints */
+  clear(): void;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/** typeof, with arrays and null told apart from objects */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check an override against a component's default value, which serves as
+ * its schema. Fields whose default is null or undefined accept any value.
+ */
+function validateOverride(source: string, type: ComponentType<unknown>, override: unknown) {
+  const schema = type.defaultValue;
+
+  if (!isPlainObject(schema)) {
+    if (schema != null && describeType(override) !== describeType(schema)) {
+      throw new Error(
+        `${source}: component "${type.name}" expects ${describeType(schema)}, ` +
+          `got ${describeType(override)}`
+      );
+    }
+    return;
+  }
+
+  if (!isPlainObject(override)) {
+    throw new Error(
+      `${source}: component "${type.name}" expects an object of field overrides, ` +
+        `got ${describeType(override)}`
+    );
+  }
+
+  for (const [field, value] of Object.entries(override)) {
+    if (!(field in schema)) {
+      throw new Error(`${source}: component "${type.name}" has no field "${field}"`);
+    }
+
+    const fieldDefault = schema[field];
+    if (fieldDefault != null && describeType(value) !== describeType(fieldDefault)) {
+      throw new Error(
+        `${source}: field "${type.name}.${field}" expects ${describeType(fieldDefault)}, ` +
+          `got ${describeType(value)}`
+      );
+    }
+  }
+}
+
+function mergeOverride(base: unknown, override: unknown): unknown {
+  if (isPlainObject(base) && isPlainObject(override)) {
+    return { ...base, ...override };
+  }
+  return override;
+}
+
+/**
+ * Create a blueprint registry. Used by the World, which looks up
+ * component types by name with `getType`.
+ */
+export function createBlueprintRegistry(
+  getType: (name: string) => ComponentType<unknown> | undefined
+): BlueprintRegistry {
+  const blueprints = new Map<string, Blueprint>();
+
+  function validate(source: string, components: BlueprintComponents) {
+    for (const [name, override] of Object.entries(components)) {
+      const type = getType(name);
+      if (!type) {
+        throw new Error(`${source} uses component "${name}", which is not registered`);
+      }
+      if (override !== null) {
+        validateOverride(source, type, override);
+      }
+    }
+  }
+
+  function getParent(blueprint: Blueprint): Blueprint | undefined {
+    if (blueprint.extends === undefined) return undefined;
+
+    const parent = blueprints.get(blueprint.extends);
+    if (!parent) {
+      throw new Error(
+        `Blueprint "${blueprint.name}" extends "${blueprint.extends}", which is not registered`
+      );
+    }
+    return parent;
+  }
+
+  /** Apply one layer of overrides onto merged component data */
+  function apply(merged: Map<string, unknown>, components: BlueprintComponents) {
+    for (const [name, override] of Object.entries(components)) {
+      if (override === null) {
+        merged.delete(name);
+        continue;
+      }
+      const base = merged.has(name) ? merged.get(name) : getType(name)!.defaultValue;
+      merged.set(name, mergeOverride(base, override));
+    }
+  }
+
+  function merge(blueprint: Blueprint): Map<string, unknown> {
+    const parent = getParent(blueprint);
+    const merged = parent ? merge(parent) : new Map<string, unknown>();
+    apply(merged, blueprint.components);
+    return merged;
+  }
+
+  return {
+    register(blueprint) {
+      if (blueprints.has(blueprint.name)) {
+        throw new Error(`Blueprint "${blueprint.name}" is already registered`);
+      }
+      // Parents must be registered first, which also rules out cycles
+      getParent(blueprint);
+      validate(`Blueprint "${blueprint.name}"`, blueprint.components);
+      blueprints.set(blueprint.name, blueprint);
+    },
+
+    has(name) {
+      return blueprints.has(name);
+    },
+
+    resolve(blueprint, overrides = {}) {
+      let resolved: Blueprint;
+      if (typeof blueprint === 'string') {
+        const registered = blueprints.get(blueprint);
+        if (!registered) {
+          throw new Error(`Cannot spawn blueprint "${blueprint}", which is not registered`);
+        }
+        resolved = registered;
+      } else {
+        // Unregistered blueprints are checked on every spawn
+        validate(`Blueprint "${blueprint.name}"`, blueprint.components);
+        resolved = blueprint;
+      }
+      validate(`Overrides for blueprint "${resolved.name}"`, overrides);
+
+      const merged = merge(resolved);
+      apply(merged, overrides);
+
+      // Copy, so spawned entities don't share arrays or objects
+      return Array.from(merged, ([name, data]) => ({
+        type: getType(name)!,
+        data: structuredClone(data),
+      }));
+    },
+
+    clear() {
+      blueprints.clear();
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld, type World } from './World';
+import { defineComponent } from './Component';
+import { SystemPriorities, type System } from './System';
+import type { Entity } from './Entity';
+
+const Health = defineComponent('Health', { value: 10 });
+
+/** A system that records what changed() etc. return on each run */
+function createWatcher(read: (world: World) => Entity[]): System & { seen: Entity[][] } {
+  const seen: Entity[][] = [];
+  return {
+    name: 'Watcher',
+    priority: SystemPriorities.RENDER,
+    seen,
+    update(world) {
+      seen.push(read(world));
+    },
+  };
+}
+
+describe('change detection', () => {
+  it('reports each write to a system exactly once', () => {
+    const world = createWorld();
+    const entity = world.entities.create();
+    world.addComponent(entity, Health, { value: 10 });
+    const watcher = createWatcher((w) => w.changed(Health));
+    world.addSystem(watcher);
+
+    world.update(1 / 60);
+    world.update(1 / 60);
+    world.updateComponent(entity, Health, { value: 5 });
+    world.update(1 / 60);
+    world.getComponent(entity, Health);
+    world.update(1 / 60);
+    world.getMutable(entity, Health)!.value = 4;
+    world.update(1 / 60);
+
+    // Added before the first run, unchanged, written, only read, mutated
+    expect(watcher.seen).toEqual([[entity], [], [entity], [], [entity]]);
+  });
+
+  it("doesn't report a system's own writes back to it", () => {
+    const world = createWorld();
+    const entity = world.entities.create();
+    world.addComponent(entity, Health, { value: 10 });
+    const seen: Entity[][] = [];
+    world.addSystem({
+      name: 'Regeneration',
+      priority: SystemPriorities.GAME_LOGIC,
+      update(w) {
+        seen.push(w.changed(Health));
+        w.updateComponent(entity, Health, { value: 10 });
+      },
+    });
+
+    world.update(1 / 60);
+    world.update(1 / 60);
+    expect(seen).toEqual([[entity], []]);
+  });
+
+  it('reports additions and removals separately', () => {
+    const world = createWorld();
+    const added = createWatcher((w) => w.added(Health));
+    const removed = createWatcher((w) => w.removed(Health));
+    world.addSystem(added);
+    world.addSystem({ ...removed, name: 'RemovalWatcher' });
+
+    const entity = world.entities.create();
+    world.addComponent(entity, Health, { value: 10 });
+    world.update(1 / 60);
+    world.updateComponent(entity, Health, { value: 5 });
+    world.update(1 / 60);
+    world.removeComponent(entity, Health);
+    world.update(1 / 60);
+
+    expect(added.seen).toEqual([[entity], [], []]);
+    expect(removed.seen).toEqual([[], [], [entity]]);
+  });
+});
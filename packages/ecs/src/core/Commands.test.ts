@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld } from './World';
+import { defineComponent } from './Component';
+import { SystemPriorities } from './System';
+
+const Health = defineComponent('Health', { value: 10 });
+const Dead = defineComponent('Dead', {});
+
+describe('commands', () => {
+  it('apply after the system that queued them, so its loop sees every entity', () => {
+    const world = createWorld();
+    for (const value of [0, 5, 0]) {
+      world.addComponent(world.entities.create(), Health, { value });
+    }
+
+    const visited: number[] = [];
+    let countAfterLoop = 0;
+    world.addSystem({
+      name: 'Reaper',
+      priority: SystemPriorities.GAME_LOGIC,
+      update(w) {
+        for (const [entity, health] of w.view(Health)) {
+          visited.push(health.value);
+          if (health.value === 0) w.commands.despawn(entity);
+        }
+        countAfterLoop = w.view(Health).count();
+      },
+    });
+    world.update(1 / 60);
+
+    expect(visited).toEqual([0, 5, 0]);
+    expect(countAfterLoop).toBe(3);
+    expect(world.view(Health).count()).toBe(1);
+  });
+
+  it('let a spawned entity be given components before it exists', () => {
+    const world = createWorld();
+    const entity = world.commands.spawn();
+    world.commands.insert(entity, Health, { value: 3 });
+    expect(world.getComponent(entity, Health)).toBeUndefined();
+
+    world.applyCommands();
+    expect(world.getComponent(entity, Health)).toEqual({ value: 3 });
+  });
+
+  it('apply in the order they were queued', () => {
+    const world = createWorld();
+    const entity = world.entities.create();
+    world.addComponent(entity, Health, { value: 1 });
+
+    world.commands.insert(entity, Dead, {});
+    world.commands.remove(entity, Health);
+    world.commands.insert(entity, Health, { value: 2 });
+    world.applyCommands();
+
+    expect(world.hasComponent(entity, Dead)).toBe(true);
+    expect(world.getComponent(entity, Health)).toEqual({ value: 2 });
+  });
+
+  it('despawn children with despawnRecursive', () => {
+    const world = createWorld();
+    const parent = world.entities.create();
+    const child = world.entities.create();
+    world.setParent(child, parent);
+
+    world.commands.despawnRecursive(parent);
+    world.applyCommands();
+    expect(world.entities.exists(parent)).toBe(false);
+    expect(world.entities.exists(child)).toBe(false);
+  });
+});
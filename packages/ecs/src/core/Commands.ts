@@ -0,0 +1,112 @@
+import type { Entity, EntityManager } from './Entity';
+import type { ComponentType } from './Component';
+import type { World } from './World';
+
+/**
+ * Commands queue structural changes (spawning, despawning, adding and
+ * removing components) instead of applying them immediately.
+ * The world applies queued commands after each system runs, so systems can
+ * safely change the world while iterating queries.
+ *
+ * @example
+ * for (const [entity, transform] of world.view(Pipe, Transform)) {
+ *   if (transform.x < 0) world.commands.despawn(entity);
+ * }
+ */
+export interface Commands {
+  /**
+   * Reserve a new entity. The handle is usable right away (e.g. with insert),
+   * but the entity has no components until commands are applied.
+   */
+  spawn(): Entity;
+  /** Queue removing an entity and all of its components */
+  despawn(entity: Entity): void;
+  /** Queue removing an entity and all of its descendants */
+  despawnRecursive(entity: Entity): void;
+  /** Queue adding (or overwriting) a component */
+  insert<T>(entity: Entity, type: ComponentType<T>, data: T): void;
+  /** Queue removing a component */
+  remove<T>(entity: Entity, type: ComponentType<T>): void;
+}
+
+type Command =
+  | { kind: 'despawn'; entity: Entity }
+  | { kind: 'despawnRecursive'; entity: Entity }
+  | { kind: 'insert'; entity: Entity; type: ComponentType<unknown>; data: unknown }
+  | { kind: 'remove'; entity: Entity; type: ComponentType<unknown> };
+
+/**
+ * Command queue owned by a World.
+ */
+export interface CommandBuffer extends Commands {
+  /** Number of queued commands */
+  readonly length: number;
+  /** Apply queued commands in order, including any queued while applying */
+  apply(world: World): void;
+  /** Drop all queued commands */
+  clear(): void;
+}
+
+/**
+ * Create a command buffer. Used by the World.
+ */
+export function createCommandBuffer(entities: EntityManager): CommandBuffer {
+  let queue: Command[] = [];
+
+  return {
+    get length() {
+      return queue.length;
+    },
+
+    spawn() {
+      return entities.create();
+    },
+
+    despawn(entity) {
+      queue.push({ kind: 'despawn', entity });
+    },
+
+    despawnRecursive(entity) {
+      queue.push({ kind: 'despawnRecursive', entity });
+    },
+
+    insert<T>(entity: Entity, type: ComponentType<T>, data: T) {
+      queue.push({ kind: 'insert', entity, type, data });
+    },
+
+    remove<T>(entity: Entity, type: ComponentType<T>) {
+      queue.push({ kind: 'remove', entity, type });
+    },
+
+    apply(world) {
+      while (queue.length > 0) {
+        const commands = queue;
+        queue = [];
+
+        for (const command of commands) {
+          // An earlier command may already have despawned the entity
+          if (!entities.exists(command.entity)) continue;
+
+          switch (command.kind) {
+            case 'despawn':
+              world.despawn(command.entity);
+              break;
+            case 'despawnRecursive':
+              world.despawnRecursive(command.entity);
+              break;
+            case 'insert':
+              world.addComponent(command.entity, command.type, command.data);
+              break;
+            case 'remove':
+              world.removeComponent(command.entity, command.type);
+              break;
+          }
+        }
+      }
+    },
+
+    clear() {
+      queue = [];
+    },
+  };
+}
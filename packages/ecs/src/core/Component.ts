@@ -1,4 +1,5 @@
 import type { Entity } from './Entity';
+import type { Serializer } from './Snapshot';
 
 /**
  * ComponentType defines a component's schema.
@@ -7,6 +8,16 @@ import type { Entity } from './Entity';
 export interface ComponentType<T = unknown> {
   readonly name: string;
   readonly defaultValue: T;
+  /** Converts the data for world snapshots (defaults to jsonSerializer) */
+  readonly serializer?: Serializer<T>;
+}
+
+/**
+ * Options for defineComponent().
+ */
+export interface ComponentOptions<T> {
+  /** Serializer for data jsonSerializer can't represent */
+  serializer?: Serializer<T>;
 }
 
 /**
@@ -17,13 +28,18 @@ export interface ComponentType<T = unknown> {
  * const Transform = defineComponent('Transform', { x: 0, y: 0, rotation: 0 });
  * const Velocity = defineComponent('Velocity', { x: 0, y: 0 });
  */
-export function defineComponent<T>(name: string, defaultValue: T): ComponentType<T> {
-  return { name, defaultValue };
+export function defineComponent<T>(
+  name: string,
+  defaultValue: T,
+  options: ComponentOptions<T> = {}
+): ComponentType<T> {
+  return { name, defaultValue, serializer: options.serializer };
 }
 
 /**
- * ComponentStorage manages component data for all entities.
- * Uses a Map for O(1) lookup by entity ID.
+ * ComponentStorage is a standalone Map-based store for a single component type.
+ * The World itself keeps component data in archetype tables (see Archetype.ts);
+ * this is useful for side tables that are keyed by entity.
  */
 export interface ComponentStorage<T> {
   /** Get component data for an entity */
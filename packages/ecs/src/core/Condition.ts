@@ -0,0 +1,38 @@
+import type { World } from './World';
+import type { ResourceType } from './Resource';
+
+/**
+ * RunCondition decides whether a system runs this step.
+ * It is checked right before the system would run, so it sees changes made
+ * by the systems before it.
+ *
+ * @example
+ * const notGameOver = not(resourceEquals(GameOverResource, true));
+ * const MovementSystem: System = {
+ *   name: 'MovementSystem',
+ *   priority: SystemPriorities.PHYSICS,
+ *   runIf: notGameOver,
+ *   update(world) {},
+ * };
+ */
+export type RunCondition = (world: World) => boolean;
+
+/** Condition that holds while a resource equals a value (compared with Object.is) */
+export function resourceEquals<T>(resource: ResourceType<T>, value: T): RunCondition {
+  return (world) => Object.is(world.getResource(resource), value);
+}
+
+/** Condition that holds while `condition` does not */
+export function not(condition: RunCondition): RunCondition {
+  return (world) => !condition(world);
+}
+
+/** Condition that holds while every one of `conditions` holds */
+export function and(...conditions: RunCondition[]): RunCondition {
+  return (world) => conditions.every((condition) => condition(world));
+}
+
+/** Condition that holds while any one of `conditions` holds */
+export function or(...conditions: RunCondition[]): RunCondition {
+  return (world) => conditions.some((condition) => condition(world));
+}
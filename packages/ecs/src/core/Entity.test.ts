@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createEntityManager, getEntityIndex, getEntityGeneration } from './Entity';
+import { createWorld } from './World';
+import { defineComponent } from './Component';
+
+const Health = defineComponent('Health', { value: 10 });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('entity handles', () => {
+  it('reuse a destroyed slot with the next generation', () => {
+    const entities = createEntityManager();
+    const first = entities.create();
+    entities.destroy(first);
+    const second = entities.create();
+
+    expect(getEntityIndex(second)).toBe(getEntityIndex(first));
+    expect(getEntityGeneration(second)).toBe(getEntityGeneration(first) + 1);
+    expect(second).not.toBe(first);
+    expect(entities.exists(first)).toBe(false);
+    expect(entities.isStale(first)).toBe(true);
+    expect(entities.isStale(second)).toBe(false);
+  });
+
+  it('all go stale on clear', () => {
+    const entities = createEntityManager();
+    const entity = entities.create();
+    entities.clear();
+
+    expect(entities.isStale(entity)).toBe(true);
+    expect(entities.count()).toBe(0);
+  });
+
+  it('restore with their allocation state, so stale handles stay stale', () => {
+    const entities = createEntityManager();
+    const destroyed = entities.create();
+    const alive = entities.create();
+    entities.destroy(destroyed);
+
+    const restored = createEntityManager();
+    restored.restore(entities.snapshot());
+    expect(restored.getAll()).toEqual([alive]);
+    expect(restored.isStale(destroyed)).toBe(true);
+    expect(restored.create()).toBe(entities.create());
+  });
+});
+
+describe('stale handles in the world', () => {
+  it('never reach the entity that reuses the slot, and warn once', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const world = createWorld({ warnOnStaleEntities: true });
+    const stale = world.entities.create();
+    world.addComponent(stale, Health, { value: 1 });
+    world.despawn(stale);
+    const reused = world.entities.create();
+    world.addComponent(reused, Health, { value: 2 });
+
+    expect(world.getComponent(stale, Health)).toBeUndefined();
+    world.addComponent(stale, Health, { value: 3 });
+    expect(world.getComponent(reused, Health)).toEqual({ value: 2 });
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
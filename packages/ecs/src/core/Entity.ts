@@ -2,54 +2,143 @@
  * Entity is just a unique numeric ID - no data attached.
  * This is the core principle of ECS: entities are identifiers,
  * components hold data, systems contain logic.
+ *
+ * The ID is a generational handle: the low bits hold a slot index that is
+ * recycled after the entity is destroyed, the high bits hold the slot's
+ * generation. A handle kept after its entity was destroyed (e.g. in a
+ * resource) never aliases the entity that later reuses the slot.
  */
 export type Entity = number;
 
+/** Number of low bits holding the slot index */
+const INDEX_BITS = 20;
+const INDEX_LIMIT = 2 ** INDEX_BITS;
+
+/**
+ * Get the recycled slot index of an entity handle.
+ */
+export function getEntityIndex(entity: Entity): number {
+  return entity % INDEX_LIMIT;
+}
+
+/**
+ * Get the generation of an entity handle.
+ */
+export function getEntityGeneration(entity: Entity): number {
+  return Math.floor(entity / INDEX_LIMIT);
+}
+
+function makeEntity(index: number, generation: number): Entity {
+  return generation * INDEX_LIMIT + index;
+}
+
+/**
+ * Saved state of an EntityManager: live handles plus slot generations and
+ * free slots, so restored handles (and stale ones) keep their meaning.
+ */
+export interface EntityManagerState {
+  /** Live entity handles, in creation order */
+  alive: Entity[];
+  /** Current generation of each slot */
+  generations: number[];
+  /** Slots ready for reuse, in reuse order (last is reused first) */
+  freeIndices: number[];
+}
+
 export interface EntityManager {
   /** Create a new entity and return its ID */
   create(): Entity;
   /** Destroy an entity by ID */
   destroy(entity: Entity): void;
-  /** Check if an entity exists */
+  /** Check if an entity exists (stale handles never exist) */
   exists(entity: Entity): boolean;
+  /** Check if a handle refers to an entity that has since been destroyed */
+  isStale(entity: Entity): boolean;
   /** Get all active entity IDs */
   getAll(): Entity[];
-  /** Remove all entities */
+  /** Remove all entities (existing handles become stale) */
   clear(): void;
   /** Get the count of active entities */
   count(): number;
+  /** Save the live handles and allocation state */
+  snapshot(): EntityManagerState;
+  /** Replace all entities and allocation state with a saved state */
+  restore(state: EntityManagerState): void;
 }
 
 export function createEntityManager(): EntityManager {
-  let nextId = 0;
   const entities = new Set<Entity>();
+  /** Current generation of each slot */
+  let generations: number[] = [];
+  /** Slots of destroyed entities, ready for reuse */
+  let freeIndices: number[] = [];
+
+  function release(entity: Entity) {
+    const index = getEntityIndex(entity);
+    generations[index] = generations[index]! + 1;
+    freeIndices.push(index);
+  }
 
   return {
     create() {
-      const entity = nextId++;
+      let index = freeIndices.pop();
+      if (index === undefined) {
+        index = generations.length;
+        if (index >= INDEX_LIMIT) {
+          throw new Error(`Cannot create more than ${INDEX_LIMIT} entities`);
+        }
+        generations.push(0);
+      }
+
+      const entity = makeEntity(index, generations[index]!);
       entities.add(entity);
       return entity;
     },
 
     destroy(entity) {
-      entities.delete(entity);
+      if (!entities.delete(entity)) return;
+      release(entity);
     },
 
     exists(entity) {
       return entities.has(entity);
     },
 
+    isStale(entity) {
+      const generation = generations[getEntityIndex(entity)];
+      return generation !== undefined && getEntityGeneration(entity) < generation;
+    },
+
     getAll() {
       return Array.from(entities);
     },
 
     clear() {
+      for (const entity of entities) {
+        release(entity);
+      }
       entities.clear();
-      nextId = 0;
     },
 
     count() {
       return entities.size;
     },
+
+    snapshot() {
+      return {
+        alive: Array.from(entities),
+        generations: generations.slice(),
+        freeIndices: freeIndices.slice(),
+      };
+    },
+
+    restore(state) {
+      entities.clear();
+      for (const entity of state.alive) {
+        entities.add(entity);
+      }
+      generations = state.generations.slice();
+      freeIndices = state.freeIndices.slice();
+    },
   };
 }
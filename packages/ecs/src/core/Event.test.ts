@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld } from './World';
+import { defineEvent } from './Event';
+import { SystemPriorities } from './System';
+
+const ScoreEvent = defineEvent<{ points: number }>('score');
+const RestartEvent = defineEvent('restart');
+
+describe('events', () => {
+  it('run handlers as they are emitted, until unsubscribed', () => {
+    const world = createWorld();
+    const points: number[] = [];
+    const unsubscribe = world.on(ScoreEvent, (event) => points.push(event.points));
+
+    world.emit(ScoreEvent, { points: 10 });
+    expect(points).toEqual([10]);
+    unsubscribe();
+    world.emit(ScoreEvent, { points: 20 });
+    expect(points).toEqual([10]);
+  });
+
+  it("are read once by each system, including ones emitted after the reader's run", () => {
+    const world = createWorld();
+    const read: number[][] = [];
+    world.addSystem({
+      name: 'Reader',
+      priority: SystemPriorities.GAME_LOGIC,
+      update(w) {
+        read.push(w.read(ScoreEvent).map((event) => event.points));
+      },
+    });
+    let step = 0;
+    world.addSystem({
+      name: 'Scorer',
+      priority: SystemPriorities.POST_RENDER,
+      update(w) {
+        step++;
+        if (step === 1) w.emit(ScoreEvent, { points: step });
+      },
+    });
+
+    world.update(1 / 60);
+    world.update(1 / 60);
+    world.update(1 / 60);
+    expect(read).toEqual([[], [1], []]);
+  });
+
+  it("drop a system's subscriptions when it is removed", () => {
+    const world = createWorld();
+    let restarts = 0;
+    world.addSystem({
+      name: 'Listener',
+      priority: SystemPriorities.GAME_LOGIC,
+      init(w) {
+        w.on(RestartEvent, () => restarts++);
+      },
+      update() {},
+    });
+
+    world.emit(RestartEvent);
+    world.removeSystem('Listener');
+    world.emit(RestartEvent);
+    expect(restarts).toBe(1);
+  });
+
+  it('type-check payloads', () => {
+    const world = createWorld();
+    // @ts-expect-error points must be a number
+    world.emit(ScoreEvent, { points: '10' });
+    // @ts-expect-error payloadless events take no data
+    world.emit(RestartEvent, {});
+    // @ts-expect-error the payload is required
+    world.emit(ScoreEvent);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * EventType is a typed event definition.
+ * Define each event once and share it between the systems that emit
+ * and handle it, so payloads are type-checked on both sides.
+ *
+ * @example
+ * const ScoreEvent = defineEvent<{ points: number }>('score');
+ * world.emit(ScoreEvent, { points: 10 });
+ * world.on(ScoreEvent, ({ points }) => console.log(points));
+ */
+export interface EventType<T = void> {
+  /** Unique name for this event */
+  readonly name: string;
+  /** Payload type marker (type-level only, never set) */
+  readonly payload?: T;
+}
+
+/** Handler for an event's payload */
+export type EventHandler<T> = (data: T) => void;
+
+/** Arguments after the event in `emit()`: none for `void` events */
+export type EventArgs<T> = [T] extends [void] ? [] : [data: T];
+
+/**
+ * Define a new event type.
+ * Use `void` (the default) for events without a payload.
+ */
+export function defineEvent<T = void>(name: string): EventType<T> {
+  return { name };
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld, type World } from './World';
+import { createGameLoop, TimeResource } from './GameLoop';
+import { SystemPriorities } from './System';
+
+/** Count simulation steps and render frames, recording each frame's delta */
+function track(world: World) {
+  const counts = { steps: 0, renders: 0, deltas: [] as number[] };
+  world.addSystem({
+    name: 'Simulation',
+    priority: SystemPriorities.GAME_LOGIC,
+    update: () => counts.steps++,
+  });
+  world.addSystem({
+    name: 'Render',
+    priority: SystemPriorities.RENDER,
+    phase: 'render',
+    update: (w) => {
+      counts.renders++;
+      counts.deltas.push(w.getResource(TimeResource).delta);
+    },
+  });
+  return counts;
+}
+
+describe('game loop', () => {
+  it('runs one simulation step per whole step of elapsed time, then renders once', () => {
+    const world = createWorld();
+    const counts = track(world);
+    const loop = createGameLoop(world, { step: 0.25 });
+
+    loop.advance(0.5);
+    expect(counts).toMatchObject({ steps: 2, renders: 1 });
+
+    // Less than a step is carried over, and shown as alpha
+    loop.advance(0.125);
+    expect(counts).toMatchObject({ steps: 2, renders: 2 });
+    expect(world.getResource(TimeResource).alpha).toBe(0.5);
+    loop.advance(0.125);
+    expect(counts.steps).toBe(3);
+  });
+
+  it('drops time beyond maxSteps so a stall does not freeze the game', () => {
+    const world = createWorld();
+    const counts = track(world);
+    const loop = createGameLoop(world, { step: 0.25, maxSteps: 3 });
+
+    loop.advance(10);
+    expect(counts.steps).toBe(3);
+    loop.advance(0);
+    expect(counts.steps).toBe(3);
+  });
+
+  it('scales time by timeScale and stops it while paused', () => {
+    const world = createWorld();
+    const counts = track(world);
+    const loop = createGameLoop(world, { step: 0.25 });
+
+    loop.timeScale = 2;
+    loop.advance(0.5);
+    expect(counts.steps).toBe(4);
+
+    loop.paused = true;
+    loop.advance(0.5);
+    expect(counts.steps).toBe(4);
+
+    // Frame stepping runs exactly one step while paused
+    loop.step();
+    expect(counts).toMatchObject({ steps: 5, renders: 3, deltas: [1, 0, 0.25] });
+  });
+});
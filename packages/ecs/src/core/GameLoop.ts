@@ -0,0 +1,177 @@
+import type { World } from './World';
+import { defineResource } from './Resource';
+
+/**
+ * Timing of the game loop, readable by systems.
+ * Render systems can use `alpha` to draw between the last two simulation
+ * steps (e.g. `x + velocity.x * alpha * step`, velocity being per second).
+ */
+export const TimeResource = defineResource('time', {
+  /** Fixed simulation step in seconds */
+  step: 1 / 60,
+  /** Fraction of a step accumulated but not yet simulated (0 to 1) */
+  alpha: 0,
+  /**
+   * Game time this frame covered in seconds: the real time scaled by
+   * `timeScale`, 0 while paused. Render systems that animate in game time
+   * (e.g. particles) use it instead of their real-time deltaTime.
+   */
+  delta: 0,
+});
+
+export interface GameLoopOptions {
+  /** Fixed simulation step in seconds (default 1/60) */
+  step?: number;
+  /**
+   * Most simulation steps run per frame. Time beyond that is dropped, so a
+   * long stall (e.g. a background tab) doesn't freeze the game catching up.
+   * Default 5.
+   */
+  maxSteps?: number;
+}
+
+/**
+ * GameLoop drives a World with a fixed simulation step.
+ * Each frame, elapsed time is added to an accumulator and the 'simulation'
+ * systems run once per whole step in it; the 'render' systems then run once.
+ * Gameplay speed therefore doesn't depend on the display's refresh rate.
+ */
+export interface GameLoop {
+  /** Whether the loop is requesting animation frames */
+  readonly running: boolean;
+  /**
+   * Simulation speed multiplier (default 1), e.g. 4 to fast-forward.
+   * Frames still render once each.
+   */
+  timeScale: number;
+  /** While paused, frames render but the simulation only advances by step() */
+  paused: boolean;
+  /** Start requesting animation frames (does nothing if already running) */
+  start(): void;
+  /** Stop requesting animation frames and drop accumulated time */
+  stop(): void;
+  /**
+   * Advance by `elapsed` seconds: run the simulation steps that fit, then
+   * render once. Called on every animation frame; call it directly to drive
+   * the world without requestAnimationFrame.
+   */
+  advance(elapsed: number): void;
+  /** Run one simulation step, then render (frame stepping while paused) */
+  step(): void;
+}
+
+/**
+ * Create a fixed-timestep game loop for a world.
+ *
+ * @example
+ * const loop = createGameLoop(world);
+ * loop.start();
+ */
+export function createGameLoop(world: World, options: GameLoopOptions = {}): GameLoop {
+  const step = options.step ?? 1 / 60;
+  const maxSteps = options.maxSteps ?? 5;
+
+  let running = false;
+  let animationFrame: number | null = null;
+  let lastTime = 0;
+  let accumulator = 0;
+  // Changes on every start/stop, so a frame interrupted by a restart
+  // (e.g. a system handling RestartEvent) stops stepping the new run
+  let runId = 0;
+
+  world.setResource(TimeResource, { step, alpha: 0, delta: 0 });
+
+  function frame(time: number) {
+    if (!running) return;
+
+    const id = runId;
+    const elapsed = (time - lastTime) / 1000;
+    lastTime = time;
+
+    loop.advance(elapsed);
+
+    // start() already requested a frame if the loop restarted during advance
+    if (running && id === runId) {
+      animationFrame = requestAnimationFrame(frame);
+    }
+  }
+
+  const loop: GameLoop = {
+    get running() {
+      return running;
+    },
+
+    timeScale: 1,
+    paused: false,
+
+    start() {
+      if (running) return;
+
+      running = true;
+      runId++;
+      accumulator = 0;
+      lastTime = performance.now();
+      animationFrame = requestAnimationFrame(frame);
+    },
+
+    stop() {
+      running = false;
+      runId++;
+      accumulator = 0;
+      if (animationFrame !== null) {
+        cancelAnimationFrame(animationFrame);
+        animationFrame = null;
+      }
+    },
+
+    advance(elapsed) {
+      const id = runId;
+      const timeScale = Math.max(0, loop.timeScale);
+      const delta = loop.paused ? 0 : Math.max(0, elapsed) * timeScale;
+      accumulator = loop.paused ? 0 : accumulator + delta;
+      world.getResource(TimeResource).delta = delta;
+
+      // Fast-forwarding runs more steps per frame before it counts as falling behind
+      const stepLimit = Math.ceil(maxSteps * Math.max(1, timeScale));
+
+      let steps = 0;
+      while (accumulator >= step) {
+        // Paused by a system (e.g. when a replay ends)
+        if (loop.paused) {
+          accumulator = 0;
+          break;
+        }
+        if (steps === stepLimit) {
+          // Too far behind: drop the remaining whole steps
+          accumulator %= step;
+          break;
+        }
+
+        world.runPhase('simulation', step);
+        accumulator -= step;
+        steps++;
+
+        // The run was restarted or stopped by a system
+        if (id !== runId) return;
+      }
+
+      world.getResource(TimeResource).alpha = accumulator / step;
+      world.runPhase('render', elapsed);
+      world.profiler.endFrame();
+    },
+
+    step() {
+      const id = runId;
+      world.runPhase('simulation', step);
+      if (id !== runId) return;
+
+      const time = world.getResource(TimeResource);
+      time.alpha = 0;
+      time.delta = step;
+      world.runPhase('render', step);
+      world.profiler.endFrame();
+    },
+  };
+
+  return loop;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld } from './World';
+import { Children } from './Hierarchy';
+
+describe('hierarchy', () => {
+  it('keeps Parent and Children in sync when attaching, moving and detaching', () => {
+    const world = createWorld();
+    const [first, second, child] = [
+      world.entities.create(),
+      world.entities.create(),
+      world.entities.create(),
+    ];
+
+    world.setParent(child, first);
+    expect(world.getParent(child)).toBe(first);
+    expect(world.getChildren(first)).toEqual([child]);
+
+    world.setParent(child, second);
+    expect(world.getChildren(first)).toEqual([]);
+    expect(world.hasComponent(first, Children)).toBe(false);
+    expect(world.getChildren(second)).toEqual([child]);
+
+    world.setParent(child, null);
+    expect(world.getParent(child)).toBeUndefined();
+    expect(world.getChildren(second)).toEqual([]);
+  });
+
+  it('lists children in attachment order', () => {
+    const world = createWorld();
+    const parent = world.entities.create();
+    const children = [0, 1, 2].map(() => world.entities.create());
+    for (const child of [...children].reverse()) {
+      world.setParent(child, parent);
+    }
+
+    expect(world.getChildren(parent)).toEqual([...children].reverse());
+  });
+
+  it('throws when an entity would become its own ancestor', () => {
+    const world = createWorld();
+    const root = world.entities.create();
+    const child = world.entities.create();
+    world.setParent(child, root);
+
+    expect(() => world.setParent(root, child)).toThrow(/own descendant/);
+    expect(() => world.setParent(root, root)).toThrow(/own descendant/);
+  });
+
+  it('detaches children on despawn, or despawns them with despawnRecursive', () => {
+    const world = createWorld();
+    const parent = world.entities.create();
+    const child = world.entities.create();
+    const grandchild = world.entities.create();
+    world.setParent(child, parent);
+    world.setParent(grandchild, child);
+
+    world.despawn(parent);
+    expect(world.entities.exists(child)).toBe(true);
+    expect(world.getParent(child)).toBeUndefined();
+
+    world.despawnRecursive(child);
+    expect(world.entities.exists(child)).toBe(false);
+    expect(world.entities.exists(grandchild)).toBe(false);
+  });
+});
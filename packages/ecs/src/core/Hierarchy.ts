@@ -0,0 +1,22 @@
+import type { Entity } from './Entity';
+import { defineComponent } from './Component';
+
+/**
+ * Parent links a child entity to its parent.
+ * Managed by `world.setParent()`; don't add or remove it directly.
+ */
+export const Parent = defineComponent('Parent', {
+  entity: 0 as Entity,
+});
+
+export type ParentData = typeof Parent.defaultValue;
+
+/**
+ * Children lists an entity's children in the order they were attached.
+ * Managed by `world.setParent()`; don't add or remove it directly.
+ */
+export const Children = defineComponent('Children', {
+  entities: [] as Entity[],
+});
+
+export type ChildrenData = typeof Children.defaultValue;
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld, type World } from './World';
+import { createProfiler } from './Profiler';
+import { createGameLoop } from './GameLoop';
+import { defineComponent } from './Component';
+import { defineEvent } from './Event';
+import { SystemPriorities } from './System';
+
+const Position = defineComponent('Position', { x: 0, y: 0 });
+const Frozen = defineComponent('Frozen', {});
+const HitEvent = defineEvent('hit');
+
+/** A world whose system emits a hit on every other update */
+function createProfiledWorld(enabled: boolean): World {
+  const world = createWorld({ profile: enabled });
+  let updates = 0;
+  world.addSystem({
+    name: 'Hitter',
+    priority: SystemPriorities.GAME_LOGIC,
+    update(w) {
+      if (updates++ % 2 === 1) w.emit(HitEvent);
+    },
+  });
+  return world;
+}
+
+describe('profiler', () => {
+  it('records nothing until enabled', () => {
+    const world = createProfiledWorld(false);
+    world.update(1 / 60);
+
+    expect(world.profiler.report()).toMatchObject({ frames: 0, systems: [], events: [] });
+  });
+
+  it('reports systems, events per frame and query sizes', () => {
+    const world = createProfiledWorld(true);
+    world.addComponent(world.entities.create(), Position, { x: 0, y: 0 });
+    world.view(Position).without(Frozen).count();
+    for (let i = 0; i < 4; i++) world.update(1 / 60);
+
+    const report = world.profiler.report();
+    expect(report.frames).toBe(4);
+    expect(report.systems.map(({ name, phase }) => ({ name, phase }))).toEqual([
+      { name: 'Hitter', phase: 'simulation' },
+    ]);
+    expect(report.events).toEqual([
+      { name: 'hit', count: { last: 1, min: 0, avg: 0.5, p95: 1, max: 1 } },
+    ]);
+    expect(report.queries).toContainEqual({ query: 'Position without Frozen', entities: 1 });
+  });
+
+  it('counts the simulation steps in each game loop frame', () => {
+    const world = createProfiledWorld(true);
+    const loop = createGameLoop(world, { step: 0.25 });
+    loop.advance(0.5);
+    loop.advance(0.25);
+
+    expect(world.profiler.report().steps).toMatchObject({ last: 1, min: 1, max: 2 });
+  });
+
+  it('keeps a rolling window of frames, and forgets them on reset', () => {
+    const profiler = createProfiler(() => [], { enabled: true, window: 3 });
+    for (let i = 0; i < 5; i++) {
+      for (let event = 0; event < i; event++) profiler.recordEvent('tick');
+      profiler.endFrame();
+    }
+    expect(profiler.report()).toMatchObject({
+      frames: 3,
+      events: [{ name: 'tick', count: { last: 4, min: 2, max: 4 } }],
+    });
+
+    profiler.reset();
+    expect(profiler.report()).toMatchObject({ frames: 0, events: [] });
+  });
+});
@@ -0,0 +1,255 @@
+import type { LiveQuery } from './Query';
+import type { System, SystemPhase } from './System';
+
+/**
+ * Rolling statistics over the profiler's window of frames.
+ */
+export interface ProfileStats {
+  /** Value in the latest frame */
+  last: number;
+  min: number;
+  avg: number;
+  /** 95th percentile: only 1 in 20 frames was worse */
+  p95: number;
+  max: number;
+}
+
+/**
+ * Time spent in one system per frame, in milliseconds. Includes applying
+ * the commands it queued. Frames in which it didn't run count as 0 ms.
+ */
+export interface SystemProfile {
+  name: string;
+  phase: SystemPhase;
+  time: ProfileStats;
+}
+
+/**
+ * ProfileReport summarizes the world's recent frames.
+ * Systems and events are sorted with the most expensive first.
+ */
+export interface ProfileReport {
+  /** Frames in the window (up to the window size) */
+  frames: number;
+  /** Milliseconds spent updating the world per frame */
+  frame: ProfileStats;
+  /** Simulation steps run per frame */
+  steps: ProfileStats;
+  systems: SystemProfile[];
+  /** Entities currently matching each live query (views use them too) */
+  queries: { query: string; entities: number }[];
+  /** Events emitted per frame, by event name */
+  events: { name: string; count: ProfileStats }[];
+}
+
+/**
+ * Profiler records how long each system takes, how many events are emitted
+ * and how many entities each query matches, over a rolling window of frames.
+ * It is off by default; while off, the world doesn't time anything.
+ *
+ * A frame ends with each world.update() call, or with each game loop frame
+ * (one render after any number of simulation steps).
+ *
+ * @example
+ * world.profiler.enabled = true;
+ * const { systems } = world.profiler.report();
+ * console.table(systems.map(({ name, time }) => ({ name, ...time })));
+ */
+export interface Profiler {
+  /** Whether timings are recorded */
+  enabled: boolean;
+  /** Summarize the frames in the window */
+  report(): ProfileReport;
+  /** Drop all recorded frames */
+  reset(): void;
+  /** End the current frame (called by createGameLoop and world.update) */
+  endFrame(): void;
+}
+
+/**
+ * Profiler owned by a World, with the hooks the world records through.
+ */
+export interface ProfilerRecorder extends Profiler {
+  /** Record a system's run time in milliseconds */
+  recordSystem(system: System, duration: number): void;
+  /**
+   * Record time spent in a phase run, in milliseconds
+   * (null for world.update(), which counts as a simulation step)
+   */
+  recordRun(phase: SystemPhase | null, duration: number): void;
+  /** Record an emitted event */
+  recordEvent(name: string): void;
+}
+
+export interface ProfilerOptions {
+  /** Start recording right away (default false) */
+  enabled?: boolean;
+  /** Number of frames the statistics cover (default 120) */
+  window?: number;
+}
+
+/** Current time in milliseconds, as precise as the platform allows */
+export function now(): number {
+  return typeof performance === 'undefined' ? Date.now() : performance.now();
+}
+
+/**
+ * A fixed-size ring of per-frame samples.
+ */
+function createSeries(size: number) {
+  const values: number[] = [];
+  let next = 0;
+
+  return {
+    push(value: number) {
+      if (values.length < size) {
+        values.push(value);
+      } else {
+        values[next] = value;
+      }
+      next = (next + 1) % size;
+    },
+
+    stats(): ProfileStats {
+      if (values.length === 0) return { last: 0, min: 0, avg: 0, p95: 0, max: 0 };
+
+      const sorted = values.slice().sort((a, b) => a - b);
+      const sum = sorted.reduce((total, value) => total + value, 0);
+      return {
+        last: values[(next + size - 1) % size] ?? 0,
+        min: sorted[0]!,
+        avg: sum / sorted.length,
+        p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))]!,
+        max: sorted[sorted.length - 1]!,
+      };
+    },
+  };
+}
+
+type Series = ReturnType<typeof createSeries>;
+
+/**
+ * Create a profiler. Used by the World, which passes its live queries.
+ */
+export function createProfiler(
+  getQueries: () => Iterable<LiveQuery>,
+  options: ProfilerOptions = {}
+): ProfilerRecorder {
+  const windowSize = options.window ?? 120;
+
+  let frames = 0;
+  let frameTimes = createSeries(windowSize);
+  let stepCounts = createSeries(windowSize);
+  let systemTimes = new Map<string, { phase: SystemPhase; series: Series }>();
+  let eventCounts = new Map<string, Series>();
+
+  // Totals of the frame in progress
+  let frameTime = 0;
+  let frameSteps = 0;
+  const frameSystems = new Map<string, number>();
+  const frameEvents = new Map<string, number>();
+
+  /** A new series, with zeros for the frames before its first sample */
+  function createPaddedSeries(): Series {
+    const series = createSeries(windowSize);
+    for (let i = 0; i < frames; i++) series.push(0);
+    return series;
+  }
+
+  function describeQuery(query: LiveQuery): string {
+    const names = (types: LiveQuery['with']) => types.map((type) => type.name).join(', ');
+    return query.without.length > 0
+      ? `${names(query.with)} without ${names(query.without)}`
+      : names(query.with);
+  }
+
+  const profiler: ProfilerRecorder = {
+    enabled: options.enabled ?? false,
+
+    recordSystem(system, duration) {
+      frameSystems.set(system.name, (frameSystems.get(system.name) ?? 0) + duration);
+      if (!systemTimes.has(system.name)) {
+        systemTimes.set(system.name, {
+          phase: system.phase ?? 'simulation',
+          series: createPaddedSeries(),
+        });
+      }
+    },
+
+    recordRun(phase, duration) {
+      frameTime += duration;
+      if (phase !== 'render') frameSteps++;
+    },
+
+    recordEvent(name) {
+      frameEvents.set(name, (frameEvents.get(name) ?? 0) + 1);
+    },
+
+    endFrame() {
+      if (!profiler.enabled) return;
+
+      frameTimes.push(frameTime);
+      stepCounts.push(frameSteps);
+      for (const [name, { series }] of systemTimes) {
+        series.push(frameSystems.get(name) ?? 0);
+      }
+      for (const name of frameEvents.keys()) {
+        if (!eventCounts.has(name)) eventCounts.set(name, createPaddedSeries());
+      }
+      for (const [name, series] of eventCounts) {
+        series.push(frameEvents.get(name) ?? 0);
+      }
+      // Counted last, so series first seen this frame are padded for the earlier ones
+      frames = Math.min(frames + 1, windowSize);
+
+      frameTime = 0;
+      frameSteps = 0;
+      frameSystems.clear();
+      frameEvents.clear();
+    },
+
+    report() {
+      const systems = Array.from(systemTimes, ([name, { phase, series }]) => ({
+        name,
+        phase,
+        time: series.stats(),
+      }));
+      systems.sort((a, b) => b.time.avg - a.time.avg);
+
+      const events = Array.from(eventCounts, ([name, series]) => ({
+        name,
+        count: series.stats(),
+      }));
+      events.sort((a, b) => b.count.avg - a.count.avg);
+
+      const queries = Array.from(getQueries(), (query) => ({
+        query: describeQuery(query),
+        entities: query.entities.length,
+      }));
+      queries.sort((a, b) => b.entities - a.entities);
+
+      return {
+        frames,
+        frame: frameTimes.stats(),
+        steps: stepCounts.stats(),
+        systems,
+        queries,
+        events,
+      };
+    },
+
+    reset() {
+      frames = 0;
+      frameTimes = createSeries(windowSize);
+      stepCounts = createSeries(windowSize);
+      systemTimes = new Map();
+      eventCounts = new Map();
+      frameTime = 0;
+      frameSteps = 0;
+      frameSystems.clear();
+      frameEvents.clear();
+    },
+  };
+
+  return profiler;
+}
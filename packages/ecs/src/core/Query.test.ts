@@ -0,0 +1,139 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { createWorld } from './World';
+import { defineComponent } from './Component';
+import { optional } from './Query';
+import type { Entity } from './Entity';
+
+const Position = defineComponent('Position', { x: 0, y: 0 });
+const Velocity = defineComponent('Velocity', { x: 0, y: 0 });
+const Frozen = defineComponent('Frozen', {});
+
+describe('live queries', () => {
+  it('follow entities between archetypes and report changes a frame later', () => {
+    const world = createWorld();
+    const moving = world.defineQuery([Position, Velocity], [Frozen]);
+
+    const a = world.entities.create();
+    world.addComponent(a, Position, { x: 1, y: 0 });
+    world.addComponent(a, Velocity, { x: 1, y: 0 });
+    const b = world.entities.create();
+    world.addComponent(b, Velocity, { x: 0, y: 1 });
+    world.addComponent(b, Position, { x: 0, y: 1 });
+    expect(moving.entities).toEqual([a, b]);
+
+    world.update(1 / 60);
+    expect(moving.added).toEqual([a, b]);
+
+    world.addComponent(a, Frozen, {});
+    world.update(1 / 60);
+    expect(moving.entities).toEqual([b]);
+    expect(moving.added).toEqual([]);
+    expect(moving.removed).toEqual([a]);
+  });
+
+  it('return the same query for the same components in any order', () => {
+    const world = createWorld();
+    expect(world.defineQuery([Velocity, Position])).toBe(world.defineQuery([Position, Velocity]));
+  });
+
+  it('include entities that existed before the query was defined', () => {
+    const world = createWorld();
+    const entity = world.entities.create();
+    world.addComponent(entity, Position, { x: 0, y: 0 });
+
+    expect(world.defineQuery([Position]).entities).toEqual([entity]);
+  });
+});
+
+describe('views', () => {
+  it('yield typed rows from every matching archetype, table by table', () => {
+    const world = createWorld();
+    const a = world.entities.create();
+    world.addComponent(a, Position, { x: 1, y: 1 });
+    const b = world.entities.create();
+    world.addComponent(b, Position, { x: 2, y: 2 });
+    world.addComponent(b, Velocity, { x: 3, y: 3 });
+
+    expect(world.view(Position, optional(Velocity)).toArray()).toEqual([
+      [a, { x: 1, y: 1 }, undefined],
+      [b, { x: 2, y: 2 }, { x: 3, y: 3 }],
+    ]);
+    expect(world.view(Position).without(Velocity).toArray()).toEqual([[a, { x: 1, y: 1 }]]);
+  });
+
+  it('type rows from their terms, with optional terms possibly undefined', () => {
+    const world = createWorld();
+    type Vector = { x: number; y: number };
+
+    expectTypeOf(world.view(Position, optional(Velocity)).toArray()).toEqualTypeOf<
+      [Entity, Vector, Vector | undefined][]
+    >();
+    expectTypeOf(world.view(Velocity).first()).toEqualTypeOf<[Entity, Vector] | undefined>();
+  });
+
+  it('count matches, read the first row and filter to children', () => {
+    const world = createWorld();
+    expect(world.view(Position).first()).toBeUndefined();
+
+    const parent = world.entities.create();
+    world.addComponent(parent, Position, { x: 0, y: 0 });
+    const child = world.entities.create();
+    world.addComponent(child, Position, { x: 1, y: 0 });
+    world.setParent(child, parent);
+    const other = world.entities.create();
+    world.addComponent(other, Velocity, { x: 0, y: 0 });
+    world.setParent(other, parent);
+
+    expect(world.view(Position).count()).toBe(2);
+    // The child's table (Parent, Position) was created before the parent's
+    expect(world.view(Position).first()).toEqual([child, { x: 1, y: 0 }]);
+    expect(world.view(Position).childrenOf(parent)).toEqual([[child, { x: 1, y: 0 }]]);
+  });
+
+  it('skip entities that stop matching while being iterated', () => {
+    const world = createWorld();
+    const entities = [0, 1, 2].map((x) => {
+      const entity = world.entities.create();
+      world.addComponent(entity, Position, { x, y: 0 });
+      return entity;
+    });
+
+    const seen: number[] = [];
+    for (const [entity, position] of world.view(Position)) {
+      seen.push(position.x);
+      if (entity === entities[0]) world.despawn(entities[1]!);
+    }
+    expect(seen).toEqual([0, 2]);
+  });
+
+  it('visit entities once when they move tables while being iterated', () => {
+    const world = createWorld();
+    for (let x = 0; x < 3; x++) {
+      world.addComponent(world.entities.create(), Position, { x, y: 0 });
+    }
+
+    const seen: number[] = [];
+    for (const [entity, position] of world.view(Position)) {
+      seen.push(position.x);
+      world.addComponent(entity, Velocity, { x: 1, y: 0 });
+      world.addComponent(world.entities.create(), Position, { x: 10, y: 0 });
+    }
+    expect(seen).toEqual([0, 1, 2]);
+    expect(world.view(Position, Velocity).count()).toBe(3);
+  });
+
+  it('reuse the yielded row, while toArray returns rows to keep', () => {
+    const world = createWorld();
+    const a = world.entities.create();
+    world.addComponent(a, Position, { x: 1, y: 0 });
+    const b = world.entities.create();
+    world.addComponent(b, Position, { x: 2, y: 0 });
+
+    const rows = world.view(Position).toArray();
+    expect(rows).toEqual([
+      [a, { x: 1, y: 0 }],
+      [b, { x: 2, y: 0 }],
+    ]);
+    expect(new Set(world.view(Position)).size).toBe(1);
+  });
+});
@@ -1,6 +1,209 @@
 import type { Entity } from './Entity';
 import type { ComponentType } from './Component';
 import type { World } from './World';
+import type { Archetype } from './Archetype';
+
+/**
+ * Marks a component as optional in a typed view.
+ * Optional components don't filter entities; their data is `undefined`
+ * when the entity doesn't have them.
+ */
+export interface OptionalTerm<T> {
+  readonly optional: ComponentType<T>;
+}
+
+/**
+ * Wrap a component type so a view yields it when present.
+ *
+ * @example
+ * for (const [entity, sprite, grid] of world.view(Sprite, optional(GridPosition))) {}
+ */
+export function optional<T>(type: ComponentType<T>): OptionalTerm<T> {
+  return { optional: type };
+}
+
+/** A view term: a required component or an optional() component */
+export type QueryTerm = ComponentType<unknown> | OptionalTerm<unknown>;
+
+/** Data type yielded for a single view term */
+export type TermData<T> =
+  T extends OptionalTerm<infer D> ? D | undefined : T extends ComponentType<infer D> ? D : never;
+
+/** A view row: the entity followed by the data for each term, in order */
+export type QueryRow<T extends readonly QueryTerm[]> = [
+  Entity,
+  ...{ [K in keyof T]: TermData<T[K]> },
+];
+
+/**
+ * View is a typed, iterable query created by `world.view()`.
+ * Rows are `[entity, ...components]` tuples typed from the view's terms,
+ * so systems never need non-null assertions on component data.
+ *
+ * Iteration walks the matching archetype tables row by row, yielding one
+ * row array that is refilled for each entity (copy it, or use toArray(), to
+ * keep rows). The world may be changed meanwhile: entities that stop
+ * matching are skipped, and ones that start matching are not visited.
+ *
+ * @example
+ * for (const [entity, transform, velocity] of world.view(Transform, Velocity).without(Static)) {
+ *   transform.x += velocity.x;
+ * }
+ */
+export interface View<T extends readonly QueryTerm[]> extends Iterable<QueryRow<T>> {
+  /** Exclude entities that have any of these components */
+  without(...components: ComponentType<unknown>[]): View<T>;
+  /** Get the first matching row, if any */
+  first(): QueryRow<T> | undefined;
+  /** Collect all matching rows */
+  toArray(): QueryRow<T>[];
+  /** Number of matching entities */
+  count(): number;
+  /** Rows for the children of an entity that match, in attachment order */
+  childrenOf(parent: Entity): QueryRow<T>[];
+}
+
+/**
+ * Check if a view term is wrapped with optional().
+ */
+export function isOptionalTerm(term: QueryTerm): term is OptionalTerm<unknown> {
+  return 'optional' in term;
+}
+
+/**
+ * LiveQuery is a query registered with `world.defineQuery()`.
+ * The world keeps its entity list up to date as components are added and
+ * removed, so reading it costs nothing and the array is the same every frame.
+ *
+ * `added` and `removed` are double-buffered: during a frame they hold the
+ * changes made during the previous frame (including changes made between
+ * frames, e.g. when a game spawns its entities). Component data of removed
+ * entities is no longer available.
+ *
+ * @example
+ * const pellets = world.defineQuery([Pellet, GridPosition]);
+ * for (const entity of pellets.added) index(entity);
+ */
+export interface LiveQuery {
+  /** Components every matching entity has */
+  readonly with: readonly ComponentType<unknown>[];
+  /** Components no matching entity has */
+  readonly without: readonly ComponentType<unknown>[];
+  /** Entities currently matching (live, do not mutate) */
+  readonly entities: readonly Entity[];
+  /** Entities that started matching during the previous frame */
+  readonly added: readonly Entity[];
+  /** Entities that stopped matching during the previous frame */
+  readonly removed: readonly Entity[];
+}
+
+/**
+ * Internal bookkeeping for a LiveQuery, driven by the World.
+ */
+export interface LiveQueryState extends LiveQuery {
+  /** Check if an archetype satisfies this query */
+  matches(archetype: Archetype): boolean;
+  /** Called when an entity starts matching */
+  enter(entity: Entity): void;
+  /** Called when an entity stops matching */
+  exit(entity: Entity): void;
+  /** Publish pending changes as `added`/`removed` (start of a frame) */
+  flush(): void;
+  /** Drop all entities and pending changes */
+  clear(): void;
+}
+
+/**
+ * Build the cache key for a with/without component combination.
+ */
+export function getQueryKey(
+  withComponents: readonly ComponentType<unknown>[],
+  withoutComponents: readonly ComponentType<unknown>[] = []
+): string {
+  const names = (types: readonly ComponentType<unknown>[]) =>
+    Array.from(new Set(types.map((t) => t.name))).sort().join(',');
+  return `${names(withComponents)}|${names(withoutComponents)}`;
+}
+
+/**
+ * Create the state for a live query. Used by the World.
+ */
+export function createLiveQuery(
+  withComponents: readonly ComponentType<unknown>[],
+  withoutComponents: readonly ComponentType<unknown>[] = []
+): LiveQueryState {
+  const entities: Entity[] = [];
+  const indices = new Map<Entity, number>();
+  const added: Entity[] = [];
+  const removed: Entity[] = [];
+  const pendingAdded = new Set<Entity>();
+  const pendingRemoved = new Set<Entity>();
+
+  return {
+    with: [...withComponents],
+    without: [...withoutComponents],
+    entities,
+    added,
+    removed,
+
+    matches(archetype) {
+      return (
+        withComponents.every((c) => archetype.has(c.name)) &&
+        !withoutComponents.some((c) => archetype.has(c.name))
+      );
+    },
+
+    enter(entity) {
+      if (indices.has(entity)) return;
+      indices.set(entity, entities.length);
+      entities.push(entity);
+
+      // Leaving and re-entering within a frame cancels out
+      if (pendingRemoved.has(entity)) {
+        pendingRemoved.delete(entity);
+      } else {
+        pendingAdded.add(entity);
+      }
+    },
+
+    exit(entity) {
+      const index = indices.get(entity);
+      if (index === undefined) return;
+
+      // Swap-remove to keep the list dense
+      const last = entities.pop()!;
+      if (last !== entity) {
+        entities[index] = last;
+        indices.set(last, index);
+      }
+      indices.delete(entity);
+
+      if (pendingAdded.has(entity)) {
+        pendingAdded.delete(entity);
+      } else {
+        pendingRemoved.add(entity);
+      }
+    },
+
+    flush() {
+      added.length = 0;
+      removed.length = 0;
+      added.push(...pendingAdded);
+      removed.push(...pendingRemoved);
+      pendingAdded.clear();
+      pendingRemoved.clear();
+    },
+
+    clear() {
+      entities.length = 0;
+      indices.clear();
+      added.length = 0;
+      removed.length = 0;
+      pendingAdded.clear();
+      pendingRemoved.clear();
+    },
+  };
+}
 
 /**
  * QueryBuilder provides a fluent API for querying entities.
@@ -40,6 +243,11 @@ export function query(): QueryBuilder {
     },
 
     execute(world) {
+      // Reuse the world's registered query when there is something to index by
+      if (withComponents.length > 0) {
+        return world.defineQuery(withComponents, withoutComponents).entities.slice();
+      }
+
       return world.entities.getAll().filter((entity) => {
         // Must have all "with" components
         const hasAll = withComponents.every((c) => world.hasComponent(entity, c));
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { createRandom, seedRandom, getRandom, type Random } from './Random';
+import { createWorld } from './World';
+
+function draw(random: Random, count = 5): number[] {
+  return Array.from({ length: count }, () => random.next());
+}
+
+describe('random', () => {
+  it('repeats the same numbers from the same seed', () => {
+    expect(draw(createRandom(42))).toEqual(draw(createRandom(42)));
+    expect(draw(createRandom(42))).not.toEqual(draw(createRandom(43)));
+  });
+
+  it('draws within range', () => {
+    const random = createRandom(1);
+    for (let i = 0; i < 1000; i++) {
+      const int = random.int(6);
+      expect(Number.isInteger(int) && int >= 0 && int < 6).toBe(true);
+      const float = random.range(-2, 2);
+      expect(float >= -2 && float < 2).toBe(true);
+    }
+    expect(random.chance(0)).toBe(false);
+    expect(random.chance(1)).toBe(true);
+    expect(() => random.pick([])).toThrow('Cannot pick from an empty list');
+  });
+
+  it("keeps the world's gameplay stream apart from cosmetic draws", () => {
+    const quiet = createWorld();
+    const busy = createWorld();
+    seedRandom(quiet, 7);
+    seedRandom(busy, 7);
+
+    draw(getRandom(busy, 'cosmetic'), 100);
+    expect(draw(getRandom(busy))).toEqual(draw(getRandom(quiet)));
+  });
+
+  it('carries on from a snapshot of the streams', () => {
+    const world = createWorld();
+    seedRandom(world, 7);
+    draw(getRandom(world));
+    const saved = world.snapshot();
+    const expected = draw(getRandom(world));
+
+    const restored = createWorld();
+    restored.restore(JSON.parse(JSON.stringify(saved)));
+    expect(draw(getRandom(restored))).toEqual(expected);
+  });
+});
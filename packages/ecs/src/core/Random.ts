@@ -0,0 +1,124 @@
+import type { World } from './World';
+import { defineResource } from './Resource';
+
+/**
+ * Random number generator. Streams from the same seed always produce the
+ * same numbers, so seeded runs are reproducible.
+ */
+export interface Random {
+  /** Float in [0, 1) */
+  next(): number;
+  /** Integer in [0, max) */
+  int(max: number): number;
+  /** Float in [min, max) */
+  range(min: number, max: number): number;
+  /** Random item of a non-empty list */
+  pick<T>(items: readonly T[]): T;
+  /** True with the given probability (0 to 1) */
+  chance(probability: number): boolean;
+}
+
+/**
+ * The world's random streams. Gameplay randomness (spawns, AI choices) uses
+ * 'gameplay'; visual-only randomness uses 'cosmetic', so the number of
+ * frames rendered never changes how the game plays out.
+ */
+export type RandomStream = 'gameplay' | 'cosmetic';
+
+/** Mulberry32 increment, added to the state on each draw */
+const INCREMENT = 0x6d2b79f5;
+
+/** Mulberry32 output: mix a state into a float in [0, 1) */
+function mix(state: number): number {
+  let t = Math.imul(state ^ (state >>> 15), state | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/** Starting state of a stream, hashed from the seed so streams don't overlap */
+function deriveState(seed: number, stream: number): number {
+  let h = Math.imul((seed | 0) ^ Math.imul(stream, 0x9e3779b9), 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h | 0;
+}
+
+function createRandomState(seed: number) {
+  return {
+    /** Seed the streams started from */
+    seed,
+    /** State of the gameplay stream */
+    gameplay: deriveState(seed, 1),
+    /** State of the cosmetic stream */
+    cosmetic: deriveState(seed, 2),
+  };
+}
+
+/**
+ * State of the world's random streams. Plain numbers, so world snapshots
+ * capture and restore it. Seed it with seedRandom and draw with getRandom.
+ */
+export const RandomResource = defineResource('random', createRandomState(0));
+
+/** A generator over a state that `advance` steps and returns */
+function createGenerator(advance: () => number): Random {
+  const next = () => mix(advance());
+
+  return {
+    next,
+
+    int(max) {
+      return Math.floor(next() * max);
+    },
+
+    range(min, max) {
+      return min + next() * (max - min);
+    },
+
+    pick(items) {
+      if (items.length === 0) {
+        throw new Error('Cannot pick from an empty list');
+      }
+      return items[Math.floor(next() * items.length)]!;
+    },
+
+    chance(probability) {
+      return next() < probability;
+    },
+  };
+}
+
+/**
+ * Create a standalone generator, independent of any world.
+ * Seeds are integers; only their low 32 bits count.
+ */
+export function createRandom(seed: number): Random {
+  let state = deriveState(seed, 0);
+  return createGenerator(() => (state = (state + INCREMENT) | 0));
+}
+
+/**
+ * Restart the world's random streams from a seed.
+ *
+ * @example
+ * seedRandom(world, options.seed ?? Date.now());
+ */
+export function seedRandom(world: World, seed: number): void {
+  world.setResource(RandomResource, createRandomState(seed));
+}
+
+/**
+ * Get a generator that draws from one of the world's random streams
+ * (default 'gameplay'), advancing the state in RandomResource.
+ *
+ * @example
+ * const direction = getRandom(world).pick(validDirections);
+ */
+export function getRandom(world: World, stream: RandomStream = 'gameplay'): Random {
+  return createGenerator(() => {
+    const state = world.getResource(RandomResource);
+    state[stream] = (state[stream] + INCREMENT) | 0;
+    return state[stream];
+  });
+}
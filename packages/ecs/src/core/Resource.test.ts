@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld } from './World';
+import { defineResource } from './Resource';
+
+const ScoreResource = defineResource('score', 0);
+const BoardResource = defineResource('board', { cells: [] as number[] });
+
+describe('resources', () => {
+  it('read as their default until set', () => {
+    const world = createWorld();
+    expect(world.getResource(ScoreResource)).toBe(0);
+    expect(world.hasResource(ScoreResource)).toBe(false);
+
+    world.setResource(ScoreResource, 10);
+    expect(world.getResource(ScoreResource)).toBe(10);
+    expect(world.hasResource(ScoreResource)).toBe(true);
+  });
+
+  it('copy object defaults per world and on reset', () => {
+    const first = createWorld();
+    const second = createWorld();
+    first.getResource(BoardResource).cells.push(1);
+
+    expect(second.getResource(BoardResource).cells).toEqual([]);
+    first.resetResource(BoardResource);
+    expect(first.getResource(BoardResource).cells).toEqual([]);
+    expect(BoardResource.defaultValue.cells).toEqual([]);
+  });
+
+  it('notify change handlers when the value differs', () => {
+    const world = createWorld();
+    const changes: [number, number][] = [];
+    world.onResourceChange(ScoreResource, (value, previous) => changes.push([value, previous]));
+
+    world.setResource(ScoreResource, 10);
+    world.setResource(ScoreResource, 10);
+    world.resetResource(ScoreResource);
+    expect(changes).toEqual([
+      [10, 0],
+      [0, 10],
+    ]);
+  });
+
+  it('type-check values', () => {
+    const world = createWorld();
+    // @ts-expect-error the score is a number
+    world.setResource(ScoreResource, '10');
+  });
+});
@@ -0,0 +1,44 @@
+import type { Serializer } from './Snapshot';
+
+/**
+ * ResourceType is a typed handle for a resource: singleton data shared
+ * across systems (score, game state, timers).
+ * The default value is used until the resource is set, so reads never
+ * need a fallback.
+ *
+ * @example
+ * const ScoreResource = defineResource('score', 0);
+ * world.setResource(ScoreResource, world.getResource(ScoreResource) + 10);
+ */
+export interface ResourceType<T = unknown> {
+  readonly name: string;
+  readonly defaultValue: T;
+  /** Converts the value for world snapshots (defaults to jsonSerializer) */
+  readonly serializer?: Serializer<T>;
+}
+
+/**
+ * Options for defineResource().
+ */
+export interface ResourceOptions<T> {
+  /** Serializer for values jsonSerializer can't represent */
+  serializer?: Serializer<T>;
+}
+
+/** Handler for a resource's new and previous value */
+export type ResourceChangeHandler<T> = (value: T, previous: T) => void;
+
+/**
+ * Define a new resource type with a name and default value.
+ * Object defaults are copied per world, so they are never shared.
+ *
+ * @example
+ * const BoardResource = defineResource<(string | null)[][]>('tetromino:board', []);
+ */
+export function defineResource<T>(
+  name: string,
+  defaultValue: T,
+  options: ResourceOptions<T> = {}
+): ResourceType<T> {
+  return { name, defaultValue, serializer: options.serializer };
+}
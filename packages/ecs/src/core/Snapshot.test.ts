@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld } from './World';
+import { defineComponent } from './Component';
+import { defineResource } from './Resource';
+import type { Serializer } from './Snapshot';
+
+/** A value jsonSerializer can't represent */
+class Vector {
+  constructor(
+    public x: number,
+    public y: number
+  ) {}
+}
+
+const vectorSerializer: Serializer<Vector> = {
+  serialize: (vector) => [vector.x, vector.y],
+  deserialize: (data) => {
+    const [x, y] = data as [number, number];
+    return new Vector(x, y);
+  },
+};
+
+const Position = defineComponent('Position', new Vector(0, 0), { serializer: vectorSerializer });
+const Spawn = defineResource('spawn', new Vector(0, 0), { serializer: vectorSerializer });
+
+function throughJSON<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+describe('snapshot and restore', () => {
+  it('uses custom serializers in a fresh world that registered the types', () => {
+    const world = createWorld();
+    const entity = world.entities.create();
+    world.addComponent(entity, Position, new Vector(3, 4));
+    world.setResource(Spawn, new Vector(5, 6));
+    const snapshot = throughJSON(world.snapshot());
+
+    const fresh = createWorld();
+    fresh.registerComponent(Position);
+    fresh.registerResource(Spawn);
+    fresh.restore(snapshot);
+
+    expect(fresh.getComponent(entity, Position)).toEqual(new Vector(3, 4));
+    expect(fresh.getComponent(entity, Position)).toBeInstanceOf(Vector);
+    expect(fresh.getResource(Spawn)).toBeInstanceOf(Vector);
+    expect(fresh.snapshot()).toEqual(world.snapshot());
+  });
+
+  it('decodes resources the world has not seen with jsonSerializer', () => {
+    const world = createWorld();
+    world.setResource(Spawn, new Vector(5, 6));
+    const snapshot = throughJSON(world.snapshot());
+
+    const fresh = createWorld();
+    fresh.restore(snapshot);
+
+    // Left as the serialized data until the type is registered
+    expect(fresh.getResource(Spawn)).toEqual([5, 6]);
+  });
+
+  it('throws on components the world has not registered, leaving it unchanged', () => {
+    const world = createWorld();
+    world.addComponent(world.entities.create(), Position, new Vector(1, 2));
+    const snapshot = throughJSON(world.snapshot());
+
+    const fresh = createWorld();
+    const before = fresh.snapshot();
+    expect(() => fresh.restore(snapshot)).toThrow(
+      'Cannot restore component "Position", which is not registered'
+    );
+    expect(fresh.snapshot()).toEqual(before);
+  });
+
+  it('restores the hierarchy into a fresh world', () => {
+    const world = createWorld();
+    const parent = world.entities.create();
+    const child = world.entities.create();
+    world.setParent(child, parent);
+
+    const fresh = createWorld();
+    fresh.restore(throughJSON(world.snapshot()));
+
+    expect(fresh.getParent(child)).toBe(parent);
+    expect(fresh.getChildren(parent)).toEqual([child]);
+  });
+});
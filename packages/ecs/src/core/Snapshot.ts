@@ -0,0 +1,116 @@
+import type { Entity, EntityManagerState } from './Entity';
+
+/**
+ * Serializer converts a component or resource value to and from
+ * JSON-compatible data for world snapshots.
+ * Pass one to defineComponent/defineResource for values the default
+ * (jsonSerializer) can't represent, such as class instances.
+ *
+ * @example
+ * const Body = defineComponent('Body', createBody(), {
+ *   serializer: {
+ *     serialize: (body) => body.toJSON(),
+ *     deserialize: (data) => Body.fromJSON(data),
+ *   },
+ * });
+ */
+export interface Serializer<T> {
+  /** Convert a value to JSON-compatible data (must not share mutable state with it) */
+  serialize(value: T): unknown;
+  /** Rebuild a value from the output of serialize() */
+  deserialize(data: unknown): T;
+}
+
+/** Tagged encodings of values JSON has no syntax for */
+type EncodedMap = { $map: [unknown, unknown][] };
+type EncodedSet = { $set: unknown[] };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function encodeValue(value: unknown): unknown {
+  if (value instanceof Map) {
+    const encoded: EncodedMap = {
+      $map: Array.from(value, ([key, item]) => [encodeValue(key), encodeValue(item)]),
+    };
+    return encoded;
+  }
+  if (value instanceof Set) {
+    const encoded: EncodedSet = { $set: Array.from(value, encodeValue) };
+    return encoded;
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeValue);
+  }
+  if (isPlainObject(value)) {
+    const encoded: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      encoded[key] = encodeValue(item);
+    }
+    return encoded;
+  }
+  if (typeof value === 'object' && value !== null) {
+    throw new Error(`Cannot serialize ${value.constructor.name} without a custom serializer`);
+  }
+  return value;
+}
+
+function decodeValue(data: unknown): unknown {
+  if (Array.isArray(data)) {
+    return data.map(decodeValue);
+  }
+  if (isPlainObject(data)) {
+    if ('$map' in data && Array.isArray(data.$map)) {
+      const entries = data.$map as [unknown, unknown][];
+      return new Map(entries.map(([key, item]) => [decodeValue(key), decodeValue(item)]));
+    }
+    if ('$set' in data && Array.isArray(data.$set)) {
+      return new Set(data.$set.map(decodeValue));
+    }
+
+    const decoded: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(data)) {
+      decoded[key] = decodeValue(item);
+    }
+    return decoded;
+  }
+  return data;
+}
+
+/**
+ * Default serializer for components and resources.
+ * Copies plain objects, arrays and primitives, and encodes Maps and Sets
+ * as `{ $map: [[key, value], ...] }` and `{ $set: [...] }`.
+ * Throws on other objects (class instances, DOM nodes).
+ */
+export const jsonSerializer: Serializer<unknown> = {
+  serialize: encodeValue,
+  deserialize: decodeValue,
+};
+
+/**
+ * WorldSnapshot is the JSON-serializable state of a World: its entities
+ * (with their handles, so handles stored in resources stay valid),
+ * component data and resources. Systems, event handlers and pending
+ * events are not included.
+ *
+ * @example
+ * const saved = JSON.stringify(world.snapshot());
+ * world.restore(JSON.parse(saved));
+ */
+export interface WorldSnapshot {
+  /** Format version, checked by restore() */
+  version: number;
+  /** Entity handles and slot allocation state */
+  entities: EntityManagerState;
+  /** Serialized component data of each entity that has components, by component name */
+  components: { entity: Entity; data: Record<string, unknown> }[];
+  /** Serialized resources (set or read), by resource name */
+  resources: Record<string, unknown>;
+}
+
+/** Current WorldSnapshot format version */
+export const SNAPSHOT_VERSION = 1;
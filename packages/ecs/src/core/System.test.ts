@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld, type World } from './World';
+import { defineResource } from './Resource';
+import { SystemPriorities, type System } from './System';
+import { resourceEquals, not, and, or } from './Condition';
+
+const PausedResource = defineResource('paused', false);
+const LevelResource = defineResource('level', 1);
+
+/** Add systems that record their names to `ran` when they run */
+function addRecorders(world: World, systems: Omit<System, 'update'>[]): string[] {
+  const ran: string[] = [];
+  for (const system of systems) {
+    world.addSystem({ ...system, update: () => ran.push(system.name) });
+  }
+  return ran;
+}
+
+describe('system scheduling', () => {
+  it('runs by priority, then in the order added, adjusted for before/after', () => {
+    const world = createWorld();
+    const ran = addRecorders(world, [
+      { name: 'Render', priority: SystemPriorities.RENDER },
+      { name: 'Score', priority: SystemPriorities.GAME_LOGIC },
+      { name: 'Collisions', priority: SystemPriorities.GAME_LOGIC },
+      { name: 'Movement', priority: SystemPriorities.GAME_LOGIC, before: ['Collisions'] },
+      { name: 'Audio', priority: SystemPriorities.INPUT, after: ['Render'] },
+    ]);
+
+    world.update(1 / 60);
+    expect(ran).toEqual(['Score', 'Movement', 'Collisions', 'Render', 'Audio']);
+  });
+
+  it('throws on a cycle, leaving the systems as they were', () => {
+    const world = createWorld();
+    const ran = addRecorders(world, [
+      { name: 'A', priority: SystemPriorities.INPUT, before: ['B'] },
+      { name: 'B', priority: SystemPriorities.INPUT },
+    ]);
+
+    expect(() =>
+      world.addSystem({
+        name: 'C',
+        priority: SystemPriorities.INPUT,
+        after: ['B'],
+        before: ['A'],
+        update() {},
+      })
+    ).toThrow('System ordering constraints form a cycle: A -> B -> C -> A');
+
+    world.update(1 / 60);
+    expect(ran).toEqual(['A', 'B']);
+  });
+
+  it('skips systems whose run condition fails or that are disabled', () => {
+    const world = createWorld();
+    const ran = addRecorders(world, [
+      {
+        name: 'Movement',
+        priority: SystemPriorities.PHYSICS,
+        runIf: not(resourceEquals(PausedResource, true)),
+      },
+      {
+        name: 'Menu',
+        priority: SystemPriorities.RENDER,
+        runIf: resourceEquals(PausedResource, true),
+      },
+      {
+        name: 'Boss',
+        priority: SystemPriorities.GAME_LOGIC,
+        runIf: and(
+          not(resourceEquals(PausedResource, true)),
+          or(resourceEquals(LevelResource, 5), resourceEquals(LevelResource, 10))
+        ),
+      },
+    ]);
+
+    world.update(1 / 60);
+    world.setResource(PausedResource, true);
+    world.update(1 / 60);
+    world.setResource(PausedResource, false);
+    world.setResource(LevelResource, 5);
+    world.setSystemEnabled('Movement', false);
+    world.update(1 / 60);
+
+    expect(ran).toEqual(['Movement', 'Menu', 'Boss']);
+    expect(world.isSystemEnabled('Movement')).toBe(false);
+  });
+});
@@ -1,4 +1,6 @@
 import type { World } from './World';
+import type { ResourceType } from './Resource';
+import type { RunCondition } from './Condition';
 
 /**
  * System priority determines execution order.
@@ -6,16 +8,37 @@ import type { World } from './World';
  */
 export type SystemPriority = number;
 
+/**
+ * System phase determines when a system runs in the game loop.
+ * Simulation systems run once per fixed step (possibly several times per
+ * frame); render systems run once per displayed frame.
+ */
+export type SystemPhase = 'simulation' | 'render';
+
 /**
  * System interface - contains game logic that operates on entities.
  * Systems are stateless processors that query entities by components
  * and update their data each frame.
+ *
+ * Systems run in priority order, adjusted so every `before`/`after`
+ * constraint holds; systems with equal priority keep the order they were
+ * added in.
  */
 export interface System {
   /** Unique name for this system */
   readonly name: string;
-  /** Execution priority (lower = runs earlier) */
+  /** Execution priority (lower = runs earlier, unless constraints say otherwise) */
   readonly priority: SystemPriority;
+  /** Names of systems this one must run before (ignored if not added) */
+  readonly before?: readonly string[];
+  /** Names of systems this one must run after (ignored if not added) */
+  readonly after?: readonly string[];
+  /** Skip the system unless this returns true (checked each time it would run) */
+  readonly runIf?: RunCondition;
+  /** Game loop phase (defaults to 'simulation') */
+  readonly phase?: SystemPhase;
+  /** Resources that must be set before the system is added (checked by addSystem) */
+  readonly requires?: readonly ResourceType[];
 
   /** Called once when system is added to world */
   init?(world: World): void;
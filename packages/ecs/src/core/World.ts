@@ -1,24 +1,108 @@
-import { type Entity, type EntityManager, createEntityManager } from './Entity';
 import {
-  type ComponentType,
-  type ComponentStorage,
-  createComponentStorage,
-} from './Component';
-import type { System } from './System';
+  type Entity,
+  type EntityManager,
+  createEntityManager,
+  getEntityGeneration,
+  getEntityIndex,
+} from './Entity';
+import type { ComponentType } from './Component';
+import { Children, Parent } from './Hierarchy';
+import { type Archetype, type ComponentCell, createArchetype, getArchetypeId } from './Archetype';
+import {
+  type LiveQuery,
+  type LiveQueryState,
+  type QueryRow,
+  type QueryTerm,
+  type View,
+  createLiveQuery,
+  getQueryKey,
+  isOptionalTerm,
+} from './Query';
+import type { System, SystemPhase } from './System';
+import { type Commands, createCommandBuffer } from './Commands';
+import type { EventArgs, EventHandler, EventType } from './Event';
+import type { ResourceChangeHandler, ResourceType } from './Resource';
+import { type Serializer, type WorldSnapshot, SNAPSHOT_VERSION, jsonSerializer } from './Snapshot';
+import { type Blueprint, type BlueprintComponents, createBlueprintRegistry } from './Blueprint';
+import { type Profiler, createProfiler, now } from './Profiler';
+
+// Bundlers inline process.env.NODE_ENV; it may not exist at all elsewhere
+declare const process: { env: { NODE_ENV?: string } } | undefined;
+
+/**
+ * Options for createWorld().
+ */
+export interface WorldOptions {
+  /**
+   * Warn (once per handle) when a destroyed entity's handle is used with
+   * getComponent/addComponent. Defaults to true outside production builds.
+   */
+  warnOnStaleEntities?: boolean;
+  /** Record profiling data from the start (see world.profiler). Defaults to false. */
+  profile?: boolean;
+}
+
+/**
+ * Location of an entity's component data: its archetype table and row.
+ */
+interface EntityLocation {
+  archetype: Archetype;
+  row: number;
+}
 
-type EventHandler = (data?: unknown) => void;
+/**
+ * Position of a view iteration in progress. Iteration walks the rows of the
+ * matching tables until the world's first structural change, which copies
+ * the entities still to visit into `pending`.
+ */
+interface ViewCursor {
+  tables: readonly Archetype[];
+  /** Table being walked */
+  table: number;
+  /** Next row to visit in that table */
+  row: number;
+  pending: Entity[] | null;
+}
+
+/**
+ * A component removal, kept so systems can read it via `world.removed()`.
+ */
+interface RemovedEntry {
+  entity: Entity;
+  tick: number;
+}
+
+/**
+ * An emitted event, kept so systems can read it via `world.read()`.
+ */
+interface EventEntry {
+  data: unknown;
+  tick: number;
+}
 
 /**
  * World is the container for all ECS data.
  * It manages entities, components, systems, events, and resources.
+ * Component data is stored in archetype tables (see Archetype.ts).
+ *
+ * Every component write is stamped with the world's change tick, which
+ * advances after each system runs. `changed()`, `added()` and `removed()`
+ * compare against the tick of the calling system's previous run, so each
+ * system sees every change exactly once (and never its own writes).
  */
 export interface World {
   /** Entity manager for creating/destroying entities */
   readonly entities: EntityManager;
+  /** Deferred structural changes, applied after each system runs */
+  readonly commands: Commands;
+  /** Per-system timings, query sizes and event counts (off until enabled) */
+  readonly profiler: Profiler;
 
   // Component management
   /** Register a component type (call before using) */
   registerComponent<T>(type: ComponentType<T>): void;
+  /** Look up a registered component type by name */
+  getComponentType(name: string): ComponentType | undefined;
   /** Add a component to an entity */
   addComponent<T>(entity: Entity, type: ComponentType<T>, data: T): void;
   /** Get component data from an entity */
@@ -29,6 +113,51 @@ export interface World {
   removeComponent<T>(entity: Entity, type: ComponentType<T>): void;
   /** Remove all components from an entity */
   removeAllComponents(entity: Entity): void;
+  /** Remove all components from an entity and destroy it (its children are detached) */
+  despawn(entity: Entity): void;
+  /** Destroy an entity and all of its descendants */
+  despawnRecursive(entity: Entity): void;
+  /** Apply queued commands now (systems' commands are applied automatically) */
+  applyCommands(): void;
+  /** Merge changes into an existing component and mark it changed */
+  updateComponent<T>(entity: Entity, type: ComponentType<T>, changes: Partial<T>): void;
+  /** Get component data for in-place mutation, marking it changed */
+  getMutable<T>(entity: Entity, type: ComponentType<T>): T | undefined;
+
+  // Change detection (relative to the running system's previous run,
+  // or to the start of the last update when called outside a system)
+  /** Entities whose component was added or written since */
+  changed(type: ComponentType<unknown>): Entity[];
+  /** Entities that gained the component since */
+  added(type: ComponentType<unknown>): Entity[];
+  /** Entities that lost the component (or were cleared) since */
+  removed(type: ComponentType<unknown>): Entity[];
+
+  // Hierarchy
+  /**
+   * Attach an entity to a parent, or detach it with null.
+   * Keeps the Parent and Children components of both sides in sync.
+   * Throws if the parent is the entity itself or one of its descendants.
+   */
+  setParent(child: Entity, parent: Entity | null): void;
+  /** Get an entity's parent, if it has one */
+  getParent(entity: Entity): Entity | undefined;
+  /** Get an entity's children, in the order they were attached */
+  getChildren(entity: Entity): Entity[];
+
+  // Blueprints (data-defined entity templates)
+  /**
+   * Register a blueprint for world.spawn. Its components must already be
+   * registered (see registerComponent), and the blueprint it extends too.
+   */
+  registerBlueprint(blueprint: Blueprint): void;
+  /** Check if a blueprint is registered */
+  hasBlueprint(name: string): boolean;
+  /**
+   * Create an entity from a blueprint (by name, or an unregistered one that
+   * may extend registered ones), with per-entity component overrides.
+   */
+  spawn(blueprint: string | Blueprint, overrides?: BlueprintComponents): Entity;
 
   // System management
   /** Add a system to the world */
@@ -37,120 +166,778 @@ export interface World {
   removeSystem(name: string): void;
   /** Get a system by name */
   getSystem<T extends System>(name: string): T | undefined;
+  /**
+   * Enable or disable a system by name (e.g. for pause menus).
+   * Disabled systems stay added but are skipped, like a failing `runIf`.
+   */
+  setSystemEnabled(name: string, enabled: boolean): void;
+  /** Whether a system is enabled (systems are enabled by default) */
+  isSystemEnabled(name: string): boolean;
 
   // Query
   /** Query entities that have all specified components */
   query(...components: ComponentType<unknown>[]): Entity[];
+  /**
+   * Register a query that the world keeps up to date incrementally.
+   * Defining the same with/without combination again returns the same query.
+   */
+  defineQuery(
+    withComponents: ComponentType<unknown>[],
+    withoutComponents?: ComponentType<unknown>[]
+  ): LiveQuery;
+  /**
+   * Create a typed view yielding `[entity, ...components]` rows.
+   * Wrap a component with optional() to yield it without filtering by it.
+   */
+  view<T extends QueryTerm[]>(...terms: T): View<T>;
 
   // Lifecycle
   /** Update all systems (call once per frame) */
   update(deltaTime: number): void;
+  /**
+   * Update only the systems of one phase (see createGameLoop).
+   * Live query deltas advance with each simulation run.
+   */
+  runPhase(phase: SystemPhase, deltaTime: number): void;
   /** Destroy the world and cleanup all resources */
   destroy(): void;
 
   // Events (decoupled communication between systems)
-  /** Emit an event */
-  emit(event: string, data?: unknown): void;
-  /** Subscribe to an event, returns unsubscribe function */
-  on(event: string, handler: EventHandler): () => void;
+  /** Emit an event: handlers run immediately and it is buffered for read() */
+  emit<T>(event: EventType<T>, ...data: EventArgs<NoInfer<T>>): void;
+  /**
+   * Subscribe to an event, returns unsubscribe function.
+   * Subscriptions made by a system (in init or update) are removed with it.
+   */
+  on<T>(event: EventType<T>, handler: EventHandler<T>): () => void;
+  /**
+   * Events emitted since the calling system's previous run
+   * (or since the start of the last update when called outside a system).
+   */
+  read<T>(event: EventType<T>): T[];
 
   // Resources (shared singleton data)
-  /** Set a named resource */
-  setResource<T>(name: string, value: T): void;
-  /** Get a named resource */
-  getResource<T>(name: string): T | undefined;
+  /** Set a resource, notifying change handlers if the value differs */
+  setResource<T>(resource: ResourceType<T>, value: T): void;
+  /** Get a resource (a copy of its default value until it is set) */
+  getResource<T>(resource: ResourceType<T>): T;
+  /** Check if a resource has been set */
+  hasResource<T>(resource: ResourceType<T>): boolean;
+  /** Set a resource back to a fresh copy of its default value */
+  resetResource<T>(resource: ResourceType<T>): void;
+  /**
+   * Subscribe to a resource's changes, returns unsubscribe function.
+   * Handlers run on setResource/resetResource, not on in-place mutation.
+   * Subscriptions made by a system (in init or update) are removed with it.
+   */
+  onResourceChange<T>(resource: ResourceType<T>, handler: ResourceChangeHandler<T>): () => void;
+  /**
+   * Register a resource type without setting it, so restore() decodes it
+   * with the type's serializer. Setting or reading a resource registers it.
+   */
+  registerResource<T>(resource: ResourceType<T>): void;
+
+  // Snapshots (save states, bug reproductions, rollback)
+  /**
+   * Capture entities, components and resources as JSON-serializable data.
+   * Take snapshots between updates: queued commands are not included.
+   */
+  snapshot(): WorldSnapshot;
+  /**
+   * Replace all entities, components and resources with a snapshot's.
+   * Components are matched by name with the types registered in this world
+   * (throwing for unregistered ones), and resources with the resource types
+   * it has seen; other resources are decoded with jsonSerializer.
+   * Queries and change detection see the difference as removals and
+   * additions, and resource change handlers are notified. Queued commands
+   * and buffered events are dropped.
+   */
+  restore(snapshot: WorldSnapshot): void;
+}
+
+/** A type's serializer for snapshots, or the default one */
+function getSerializer<T>(type: { serializer?: Serializer<T> } | undefined): Serializer<T> {
+  return type?.serializer ?? (jsonSerializer as Serializer<T>);
 }
 
 /**
  * Create a new ECS World.
  */
-export function createWorld(): World {
+export function createWorld(options: WorldOptions = {}): World {
+  const warnOnStaleEntities =
+    options.warnOnStaleEntities ??
+    (typeof process === 'undefined' || process.env.NODE_ENV !== 'production');
   const entityManager = createEntityManager();
-  const componentStorages = new Map<string, ComponentStorage<unknown>>();
+  const commandBuffer = createCommandBuffer(entityManager);
+  const componentTypes = new Map<string, ComponentType<unknown>>();
+  const blueprints = createBlueprintRegistry((name) => componentTypes.get(name));
+  const archetypes = new Map<string, Archetype>();
+  const entityLocations = new Map<Entity, EntityLocation>();
+  const liveQueries = new Map<string, LiveQueryState>();
+  const profiler = createProfiler(() => liveQueries.values(), { enabled: options.profile });
+  const archetypeQueries = new Map<Archetype, LiveQueryState[]>();
+  /** Tables each live query matches, in creation order, for views to walk */
+  const queryArchetypes = new Map<LiveQueryState, Archetype[]>();
+  /** View iterations that still walk table rows directly */
+  const viewCursors = new Set<ViewCursor>();
+  /** Systems in run order */
   const systems: System[] = [];
-  const eventHandlers = new Map<string, Set<EventHandler>>();
+  /** Systems in the order they were added, the tie-breaker for run order */
+  const addedSystems: System[] = [];
+  const disabledSystems = new Set<string>();
+  const systemTicks = new Map<System, number>();
+  const removedLog = new Map<string, RemovedEntry[]>();
+  const eventLog = new Map<string, EventEntry[]>();
+  const eventHandlers = new Map<string, Set<EventHandler<unknown>>>();
+  const systemSubscriptions = new Map<System, (() => void)[]>();
   const resources = new Map<string, unknown>();
+  /** Copies of default values for resources read before being set */
+  const resourceDefaults = new Map<string, unknown>();
+  const resourceHandlers = new Map<string, Set<ResourceChangeHandler<unknown>>>();
+  /** Resource types seen by this world, for their serializers and defaults */
+  const resourceTypes = new Map<string, ResourceType<unknown>>();
+
+  // Change detection state
+  let changeTick = 1;
+  let frameStartTick = 1;
+  let currentSystem: System | null = null;
+
+  // Stale handles already reported, so each is only warned about once
+  const warnedStaleEntities = new Set<Entity>();
 
-  // Track component types for cleanup
-  const registeredComponents: ComponentType<unknown>[] = [];
+  /** Report a stale entity handle; returns true if the handle is stale */
+  function checkStale(entity: Entity, action: string): boolean {
+    if (!entityManager.isStale(entity)) return false;
 
-  function getStorage<T>(type: ComponentType<T>): ComponentStorage<T> {
-    let storage = componentStorages.get(type.name);
-    if (!storage) {
-      storage = createComponentStorage<T>();
-      componentStorages.set(type.name, storage);
-      registeredComponents.push(type);
+    if (warnOnStaleEntities && !warnedStaleEntities.has(entity)) {
+      warnedStaleEntities.add(entity);
+      console.warn(
+        `${action} uses stale entity ${getEntityIndex(entity)}v${getEntityGeneration(entity)}; ` +
+          'the entity was destroyed and its handle should no longer be kept'
+      );
     }
-    return storage as ComponentStorage<T>;
+    return true;
+  }
+
+  function registerType(type: ComponentType<unknown>) {
+    if (!componentTypes.has(type.name)) {
+      componentTypes.set(type.name, type);
+    }
+  }
+
+  // The hierarchy is built in, so every world can restore it
+  registerType(Parent);
+  registerType(Children);
+
+  function getArchetype(types: ComponentType<unknown>[]): Archetype {
+    const id = getArchetypeId(types.map((t) => t.name));
+    let archetype = archetypes.get(id);
+    if (!archetype) {
+      archetype = createArchetype(types);
+      archetypes.set(id, archetype);
+
+      // Record the live queries the new table satisfies, to notify as entities move in and out
+      const matching: LiveQueryState[] = [];
+      for (const liveQuery of liveQueries.values()) {
+        if (liveQuery.matches(archetype)) {
+          matching.push(liveQuery);
+          queryArchetypes.get(liveQuery)!.push(archetype);
+        }
+      }
+      archetypeQueries.set(archetype, matching);
+    }
+    return archetype;
+  }
+
+  function getArchetypeWith(from: Archetype | undefined, type: ComponentType<unknown>): Archetype {
+    if (!from) return getArchetype([type]);
+
+    let target = from.edges.add.get(type.name);
+    if (!target) {
+      target = getArchetype([...from.types, type]);
+      from.edges.add.set(type.name, target);
+      target.edges.remove.set(type.name, from);
+    }
+    return target;
+  }
+
+  function getArchetypeWithout(from: Archetype, name: string): Archetype | undefined {
+    const remaining = from.types.filter((t) => t.name !== name);
+    if (remaining.length === 0) return undefined;
+
+    let target = from.edges.remove.get(name);
+    if (!target) {
+      target = getArchetype(remaining);
+      from.edges.remove.set(name, target);
+      target.edges.add.set(name, from);
+    }
+    return target;
+  }
+
+  /**
+   * Called before table rows move: views being iterated copy the entities
+   * they have yet to visit, then read them through their locations.
+   */
+  function detachViewCursors() {
+    for (const cursor of viewCursors) {
+      const pending: Entity[] = [];
+      for (let table = cursor.table; table < cursor.tables.length; table++) {
+        const entities = cursor.tables[table]!.entities;
+        for (let row = table === cursor.table ? cursor.row : 0; row < entities.length; row++) {
+          pending.push(entities[row]!);
+        }
+      }
+      cursor.pending = pending;
+    }
+    viewCursors.clear();
+  }
+
+  /** Remove an entity's row, fixing up the location of the row swapped in */
+  function removeFromArchetype(location: EntityLocation) {
+    detachViewCursors();
+    const moved = location.archetype.removeRow(location.row);
+    if (moved !== undefined) {
+      entityLocations.get(moved)!.row = location.row;
+    }
+  }
+
+  /** Collect an entity's current component data and ticks by name */
+  function readRow(location: EntityLocation): Map<string, ComponentCell> {
+    const cells = new Map<string, ComponentCell>();
+    for (const type of location.archetype.types) {
+      cells.set(type.name, {
+        value: location.archetype.column(type.name)![location.row],
+        ticks: location.archetype.ticks(type.name)![location.row]!,
+      });
+    }
+    return cells;
+  }
+
+  /** Tick that change queries compare against */
+  function getLastRunTick(): number {
+    if (currentSystem) return systemTicks.get(currentSystem) ?? 0;
+    return frameStartTick - 1;
+  }
+
+  /**
+   * Newest tick that every system has already seen: the start of the last
+   * update, or earlier if a system hasn't run since (e.g. a render system
+   * while several simulation steps ran).
+   */
+  function getSeenByAllTick(): number {
+    let seen = frameStartTick - 1;
+    for (const system of systems) {
+      const tick = systemTicks.get(system);
+      if (tick !== undefined && tick < seen) seen = tick;
+    }
+    return seen;
+  }
+
+  /** Drop log entries every system has seen, so each system sees them once */
+  function pruneLog<E extends { tick: number }>(log: Map<string, E[]>, seen: number) {
+    for (const [name, entries] of log) {
+      const kept = entries.filter((entry) => entry.tick > seen);
+      if (kept.length > 0) {
+        log.set(name, kept);
+      } else {
+        log.delete(name);
+      }
+    }
+  }
+
+  /** Tie a subscription to the running system, so it is removed with it */
+  function trackSubscription(unsubscribe: () => void) {
+    if (!currentSystem) return;
+
+    let subscriptions = systemSubscriptions.get(currentSystem);
+    if (!subscriptions) {
+      subscriptions = [];
+      systemSubscriptions.set(currentSystem, subscriptions);
+    }
+    subscriptions.push(unsubscribe);
+  }
+
+  /** Check that a system's required resources have been set */
+  function assertRequiredResources(system: System) {
+    for (const resource of system.requires ?? []) {
+      if (!resources.has(resource.name)) {
+        throw new Error(
+          `System "${system.name}" requires resource "${resource.name}", which has not been set`
+        );
+      }
+    }
+  }
+
+  /**
+   * Order systems by priority (then by when they were added), adjusted so
+   * every before/after constraint between them holds.
+   * Throws if the constraints form a cycle.
+   */
+  function scheduleSystems(toSchedule: System[]): System[] {
+    const byName = new Map(toSchedule.map((system) => [system.name, system]));
+    const successors = new Map<System, System[]>(toSchedule.map((system) => [system, []]));
+    const predecessors = new Map<System, System[]>(toSchedule.map((system) => [system, []]));
+    const pending = new Map<System, number>(toSchedule.map((system) => [system, 0]));
+
+    const addEdge = (from: System | undefined, to: System | undefined) => {
+      if (!from || !to) return;
+      successors.get(from)!.push(to);
+      predecessors.get(to)!.push(from);
+      pending.set(to, pending.get(to)! + 1);
+    };
+    for (const system of toSchedule) {
+      for (const name of system.before ?? []) addEdge(system, byName.get(name));
+      for (const name of system.after ?? []) addEdge(byName.get(name), system);
+    }
+
+    // Kahn's algorithm, always taking the earliest ready system
+    const ordered: System[] = [];
+    const ready = toSchedule.filter((system) => pending.get(system) === 0);
+    while (ready.length > 0) {
+      let next = 0;
+      for (let i = 1; i < ready.length; i++) {
+        if (ready[i]!.priority < ready[next]!.priority) next = i;
+        else if (
+          ready[i]!.priority === ready[next]!.priority &&
+          toSchedule.indexOf(ready[i]!) < toSchedule.indexOf(ready[next]!)
+        ) {
+          next = i;
+        }
+      }
+
+      const system = ready.splice(next, 1)[0]!;
+      ordered.push(system);
+      for (const successor of successors.get(system)!) {
+        const count = pending.get(successor)! - 1;
+        pending.set(successor, count);
+        if (count === 0) ready.push(successor);
+      }
+    }
+
+    if (ordered.length < toSchedule.length) {
+      // Every unscheduled system waits on another one: walk back through
+      // them until one repeats to report the cycle
+      const path: System[] = [];
+      let system = toSchedule.find((s) => pending.get(s)! > 0)!;
+      while (!path.includes(system)) {
+        path.push(system);
+        system = predecessors.get(system)!.find((s) => pending.get(s)! > 0)!;
+      }
+      const cycle = [...path.slice(path.indexOf(system)), system]
+        .reverse()
+        .map((s) => s.name);
+      throw new Error(`System ordering constraints form a cycle: ${cycle.join(' -> ')}`);
+    }
+
+    return ordered;
+  }
+
+  /** Whether a system should run now (enabled and its run condition holds) */
+  function shouldRun(system: System): boolean {
+    if (disabledSystems.has(system.name)) return false;
+    return system.runIf?.(world) ?? true;
+  }
+
+  /** Run systems in order, applying their commands after each one */
+  function runSystems(toRun: System[], deltaTime: number, phase: SystemPhase | null) {
+    const profiling = profiler.enabled;
+    const runStart = profiling ? now() : 0;
+
+    // Publish the previous run's query changes
+    if (phase !== 'render') {
+      for (const liveQuery of liveQueries.values()) {
+        liveQuery.flush();
+      }
+    }
+
+    // Keep removals and events until every system has seen them
+    const seen = getSeenByAllTick();
+    pruneLog(removedLog, seen);
+    pruneLog(eventLog, seen);
+    frameStartTick = changeTick;
+
+    try {
+      for (const system of toRun) {
+        if (!shouldRun(system)) {
+          // Mark skipped systems as up to date, so they don't hold back
+          // pruning (changes and events made while skipped are not replayed)
+          systemTicks.set(system, changeTick - 1);
+          continue;
+        }
+
+        currentSystem = system;
+        const systemStart = profiling ? now() : 0;
+        system.update(world, deltaTime);
+
+        // Sync point: structural changes queued by the system take effect
+        commandBuffer.apply(world);
+        if (profiling) profiler.recordSystem(system, now() - systemStart);
+        systemTicks.set(system, changeTick);
+        changeTick++;
+      }
+    } finally {
+      currentSystem = null;
+    }
+
+    if (profiling) profiler.recordRun(phase, now() - runStart);
+  }
+
+  /** Run a system's cleanup and drop everything the world tracks for it */
+  function detachSystem(system: System) {
+    system.cleanup?.(world);
+    for (const unsubscribe of systemSubscriptions.get(system) ?? []) {
+      unsubscribe();
+    }
+    systemSubscriptions.delete(system);
+    systemTicks.delete(system);
+  }
+
+  /** Remove a child from its parent's Children list */
+  function detachChild(parent: Entity, child: Entity) {
+    const siblings = world.getComponent(parent, Children)?.entities ?? [];
+    const remaining = siblings.filter((sibling) => sibling !== child);
+    if (remaining.length > 0) {
+      world.addComponent(parent, Children, { entities: remaining });
+    } else {
+      world.removeComponent(parent, Children);
+    }
+  }
+
+  function logRemoval(entity: Entity, name: string) {
+    let entries = removedLog.get(name);
+    if (!entries) {
+      entries = [];
+      removedLog.set(name, entries);
+    }
+    entries.push({ entity, tick: changeTick });
+  }
+
+  /** Entities with a component whose `added`/`changed` tick is newer than the last run */
+  function collectByTick(type: ComponentType<unknown>, field: 'added' | 'changed'): Entity[] {
+    const since = getLastRunTick();
+    const result: Entity[] = [];
+    for (const archetype of archetypes.values()) {
+      const ticks = archetype.ticks(type.name);
+      if (!ticks) continue;
+      for (let row = 0; row < ticks.length; row++) {
+        if (ticks[row]![field] > since) result.push(archetype.entities[row]!);
+      }
+    }
+    return result;
+  }
+
+  /** Notify live queries that an entity moved between archetypes */
+  function updateLiveQueries(entity: Entity, from: Archetype | undefined, to: Archetype | undefined) {
+    const before = from ? archetypeQueries.get(from)! : [];
+    const after = to ? archetypeQueries.get(to)! : [];
+
+    for (const liveQuery of before) {
+      if (!after.includes(liveQuery)) liveQuery.exit(entity);
+    }
+    for (const liveQuery of after) {
+      if (!before.includes(liveQuery)) liveQuery.enter(entity);
+    }
+  }
+
+  /** Move an entity to another archetype, carrying over shared components */
+  function moveEntity(
+    entity: Entity,
+    location: EntityLocation | undefined,
+    target: Archetype | undefined,
+    cells: Map<string, ComponentCell>
+  ) {
+    if (location) {
+      removeFromArchetype(location);
+    }
+
+    if (!target) {
+      entityLocations.delete(entity);
+    } else {
+      detachViewCursors();
+      const row = target.push(entity, cells);
+      entityLocations.set(entity, { archetype: target, row });
+    }
+
+    updateLiveQueries(entity, location?.archetype, target);
+  }
+
+  function defineLiveQuery(
+    withComponents: ComponentType<unknown>[],
+    withoutComponents: ComponentType<unknown>[] = []
+  ): LiveQueryState {
+    const key = getQueryKey(withComponents, withoutComponents);
+    const existing = liveQueries.get(key);
+    if (existing) return existing;
+
+    if (withComponents.length === 0) {
+      throw new Error('defineQuery requires at least one component');
+    }
+
+    const created = createLiveQuery(withComponents, withoutComponents);
+    const tables: Archetype[] = [];
+    liveQueries.set(key, created);
+    queryArchetypes.set(created, tables);
+
+    // Seed with existing tables; entities already present count as added
+    for (const [archetype, matching] of archetypeQueries) {
+      if (!created.matches(archetype)) continue;
+      matching.push(created);
+      tables.push(archetype);
+      for (const entity of archetype.entities) {
+        created.enter(entity);
+      }
+    }
+
+    return created;
+  }
+
+  function createView<T extends QueryTerm[]>(
+    terms: T,
+    withoutComponents: ComponentType<unknown>[]
+  ): View<T> {
+    const types = terms.map((term) => (isOptionalTerm(term) ? term.optional : term));
+    const required = terms.filter((term) => !isOptionalTerm(term)) as ComponentType<unknown>[];
+    const liveQuery = defineLiveQuery(required, withoutComponents);
+    const tables = queryArchetypes.get(liveQuery)!;
+
+    /** Fill a row with an entity's data, if it still matches */
+    function readViewRow(entity: Entity, row: unknown[] = []): QueryRow<T> | undefined {
+      const location = entityLocations.get(entity);
+      if (!location || !liveQuery.matches(location.archetype)) return undefined;
+
+      row[0] = entity;
+      for (let i = 0; i < types.length; i++) {
+        row[i + 1] = location.archetype.column(types[i]!.name)?.[location.row];
+      }
+      return row as QueryRow<T>;
+    }
+
+    const view: View<T> = {
+      *[Symbol.iterator]() {
+        // One row, refilled for each entity
+        const row: unknown[] = [];
+        const cursor: ViewCursor = { tables, table: 0, row: 0, pending: null };
+        viewCursors.add(cursor);
+        try {
+          for (; cursor.table < tables.length && !cursor.pending; cursor.table++) {
+            const archetype = tables[cursor.table]!;
+            const { entities } = archetype;
+            const columns = types.map((type) => archetype.column(type.name));
+            for (cursor.row = 0; cursor.row < entities.length && !cursor.pending; ) {
+              const index = cursor.row++;
+              row[0] = entities[index];
+              for (let i = 0; i < columns.length; i++) {
+                row[i + 1] = columns[i]?.[index];
+              }
+              yield row as QueryRow<T>;
+            }
+          }
+
+          // The world changed structurally: visit the rest by their locations,
+          // skipping entities that stopped matching
+          for (const entity of cursor.pending ?? []) {
+            if (readViewRow(entity, row)) yield row as QueryRow<T>;
+          }
+        } finally {
+          viewCursors.delete(cursor);
+        }
+      },
+
+      without(...components) {
+        return createView(terms, [...withoutComponents, ...components]);
+      },
+
+      first() {
+        const table = tables.find((archetype) => archetype.entities.length > 0);
+        return table && readViewRow(table.entities[0]!);
+      },
+
+      toArray() {
+        return Array.from(view, (row) => row.slice() as QueryRow<T>);
+      },
+
+      count() {
+        return liveQuery.entities.length;
+      },
+
+      childrenOf(parent) {
+        const rows: QueryRow<T>[] = [];
+        for (const child of world.getChildren(parent)) {
+          const row = readViewRow(child);
+          if (row) rows.push(row);
+        }
+        return rows;
+      },
+    };
+
+    return view;
   }
 
   const world: World = {
     entities: entityManager,
+    commands: commandBuffer,
+    profiler,
 
     registerComponent<T>(type: ComponentType<T>) {
-      if (!componentStorages.has(type.name)) {
-        componentStorages.set(type.name, createComponentStorage<T>());
-        registeredComponents.push(type);
-      }
+      registerType(type);
+    },
+
+    getComponentType(name: string) {
+      return componentTypes.get(name);
     },
 
     addComponent<T>(entity: Entity, type: ComponentType<T>, data: T) {
       if (!entityManager.exists(entity)) {
-        console.warn(`Cannot add component to non-existent entity ${entity}`);
+        if (!checkStale(entity, `addComponent(${type.name})`)) {
+          console.warn(`Cannot add component to non-existent entity ${entity}`);
+        }
+        return;
+      }
+      registerType(type);
+
+      const location = entityLocations.get(entity);
+
+      // Overwriting an existing component stays in the same table
+      if (location?.archetype.has(type.name)) {
+        location.archetype.column<T>(type.name)![location.row] = data;
+        location.archetype.ticks(type.name)![location.row]!.changed = changeTick;
         return;
       }
-      const storage = getStorage(type);
-      storage.set(entity, data);
+
+      const cells = location ? readRow(location) : new Map<string, ComponentCell>();
+      cells.set(type.name, { value: data, ticks: { added: changeTick, changed: changeTick } });
+      moveEntity(entity, location, getArchetypeWith(location?.archetype, type), cells);
     },
 
     getComponent<T>(entity: Entity, type: ComponentType<T>): T | undefined {
-      const storage = getStorage(type);
-      return storage.get(entity);
+      const location = entityLocations.get(entity);
+      if (!location) {
+        checkStale(entity, `getComponent(${type.name})`);
+        return undefined;
+      }
+      return location.archetype.column<T>(type.name)?.[location.row];
     },
 
     hasComponent<T>(entity: Entity, type: ComponentType<T>): boolean {
-      const storage = componentStorages.get(type.name);
-      return storage?.has(entity) ?? false;
+      return entityLocations.get(entity)?.archetype.has(type.name) ?? false;
     },
 
     removeComponent<T>(entity: Entity, type: ComponentType<T>) {
-      const storage = componentStorages.get(type.name);
-      storage?.remove(entity);
+      const location = entityLocations.get(entity);
+      if (!location?.archetype.has(type.name)) return;
+
+      const cells = readRow(location);
+      cells.delete(type.name);
+      moveEntity(entity, location, getArchetypeWithout(location.archetype, type.name), cells);
+      logRemoval(entity, type.name);
     },
 
     removeAllComponents(entity: Entity) {
-      for (const storage of componentStorages.values()) {
-        storage.remove(entity);
+      const location = entityLocations.get(entity);
+      if (!location) return;
+
+      removeFromArchetype(location);
+      entityLocations.delete(entity);
+      updateLiveQueries(entity, location.archetype, undefined);
+      for (const type of location.archetype.types) {
+        logRemoval(entity, type.name);
       }
     },
 
+    despawn(entity: Entity) {
+      if (!entityManager.exists(entity)) return;
+
+      // Unlink from the hierarchy so no handle to this entity is left behind
+      const parent = world.getParent(entity);
+      if (parent !== undefined) {
+        detachChild(parent, entity);
+      }
+      for (const child of world.getChildren(entity)) {
+        world.removeComponent(child, Parent);
+      }
+
+      world.removeAllComponents(entity);
+      entityManager.destroy(entity);
+    },
+
+    despawnRecursive(entity: Entity) {
+      for (const child of world.getChildren(entity)) {
+        world.despawnRecursive(child);
+      }
+      world.despawn(entity);
+    },
+
+    applyCommands() {
+      commandBuffer.apply(world);
+    },
+
+    updateComponent<T>(entity: Entity, type: ComponentType<T>, changes: Partial<T>) {
+      const location = entityLocations.get(entity);
+      if (!location?.archetype.has(type.name)) {
+        console.warn(`Cannot update missing component ${type.name} on entity ${entity}`);
+        return;
+      }
+
+      const column = location.archetype.column<T>(type.name)!;
+      column[location.row] = { ...column[location.row]!, ...changes };
+      location.archetype.ticks(type.name)![location.row]!.changed = changeTick;
+    },
+
+    getMutable<T>(entity: Entity, type: ComponentType<T>): T | undefined {
+      const location = entityLocations.get(entity);
+      if (!location?.archetype.has(type.name)) return undefined;
+
+      location.archetype.ticks(type.name)![location.row]!.changed = changeTick;
+      return location.archetype.column<T>(type.name)![location.row];
+    },
+
+    changed(type: ComponentType<unknown>): Entity[] {
+      return collectByTick(type, 'changed');
+    },
+
+    added(type: ComponentType<unknown>): Entity[] {
+      return collectByTick(type, 'added');
+    },
+
+    removed(type: ComponentType<unknown>): Entity[] {
+      const since = getLastRunTick();
+      const entries = removedLog.get(type.name) ?? [];
+      return entries.filter((entry) => entry.tick > since).map((entry) => entry.entity);
+    },
+
     addSystem(system: System) {
+      assertRequiredResources(system);
+
+      // Schedule first, so a cycle leaves the world unchanged
+      const existing = addedSystems.find((s) => s.name === system.name);
+      const nextAdded = [...addedSystems.filter((s) => s !== existing), system];
+      const ordered = scheduleSystems(nextAdded);
+
       // Remove existing system with same name
-      const existingIndex = systems.findIndex((s) => s.name === system.name);
-      if (existingIndex !== -1) {
-        const existing = systems[existingIndex]!;
-        existing.cleanup?.(world);
-        systems.splice(existingIndex, 1);
+      if (existing) {
+        detachSystem(existing);
       }
+      addedSystems.splice(0, addedSystems.length, ...nextAdded);
+      systems.splice(0, systems.length, ...ordered);
 
-      // Insert in priority order
-      const insertIndex = systems.findIndex((s) => s.priority > system.priority);
-      if (insertIndex === -1) {
-        systems.push(system);
-      } else {
-        systems.splice(insertIndex, 0, system);
+      // Initialize the system (subscriptions made here belong to it)
+      const previousSystem = currentSystem;
+      currentSystem = system;
+      try {
+        system.init?.(world);
+      } finally {
+        currentSystem = previousSystem;
       }
-
-      // Initialize the system
-      system.init?.(world);
+      commandBuffer.apply(world);
     },
 
     removeSystem(name: string) {
-      const index = systems.findIndex((s) => s.name === name);
+      const index = addedSystems.findIndex((s) => s.name === name);
       if (index !== -1) {
-        const system = systems[index]!;
-        system.cleanup?.(world);
-        systems.splice(index, 1);
+        detachSystem(addedSystems[index]!);
+        addedSystems.splice(index, 1);
+        // Constraints through the removed system no longer apply
+        systems.splice(0, systems.length, ...scheduleSystems(addedSystems));
       }
     },
 
@@ -158,83 +945,356 @@ export function createWorld(): World {
       return systems.find((s) => s.name === name) as T | undefined;
     },
 
+    setParent(child: Entity, parent: Entity | null) {
+      if (!entityManager.exists(child)) {
+        if (!checkStale(child, 'setParent')) {
+          console.warn(`Cannot set the parent of non-existent entity ${child}`);
+        }
+        return;
+      }
+      if (parent !== null && !entityManager.exists(parent)) {
+        if (!checkStale(parent, 'setParent')) {
+          console.warn(`Cannot attach entity ${child} to non-existent entity ${parent}`);
+        }
+        return;
+      }
+
+      // A parent can't be its own ancestor
+      let ancestor = parent ?? undefined;
+      while (ancestor !== undefined) {
+        if (ancestor === child) {
+          throw new Error(`Cannot attach entity ${child} to its own descendant ${parent}`);
+        }
+        ancestor = world.getParent(ancestor);
+      }
+
+      const current = world.getParent(child);
+      if (current === (parent ?? undefined)) return;
+
+      if (current !== undefined) {
+        detachChild(current, child);
+      }
+      if (parent === null) {
+        world.removeComponent(child, Parent);
+        return;
+      }
+
+      world.addComponent(child, Parent, { entity: parent });
+      const siblings = world.getComponent(parent, Children)?.entities ?? [];
+      world.addComponent(parent, Children, { entities: [...siblings, child] });
+    },
+
+    getParent(entity: Entity): Entity | undefined {
+      return world.getComponent(entity, Parent)?.entity;
+    },
+
+    getChildren(entity: Entity): Entity[] {
+      return world.getComponent(entity, Children)?.entities.slice() ?? [];
+    },
+
+    registerBlueprint(blueprint: Blueprint) {
+      blueprints.register(blueprint);
+    },
+
+    hasBlueprint(name: string) {
+      return blueprints.has(name);
+    },
+
+    spawn(blueprint: string | Blueprint, overrides?: BlueprintComponents) {
+      // Resolve first, so an invalid blueprint doesn't leave an empty entity
+      const components = blueprints.resolve(blueprint, overrides);
+      const entity = entityManager.create();
+      if (components.length === 0) return entity;
+
+      const cells = new Map<string, ComponentCell>();
+      for (const { type, data } of components) {
+        cells.set(type.name, { value: data, ticks: { added: changeTick, changed: changeTick } });
+      }
+      moveEntity(
+        entity,
+        undefined,
+        getArchetype(components.map(({ type }) => type)),
+        cells
+      );
+      return entity;
+    },
+
+    setSystemEnabled(name: string, enabled: boolean) {
+      if (enabled) {
+        disabledSystems.delete(name);
+      } else {
+        disabledSystems.add(name);
+      }
+    },
+
+    isSystemEnabled(name: string): boolean {
+      return !disabledSystems.has(name);
+    },
+
     query(...components: ComponentType<unknown>[]): Entity[] {
       if (components.length === 0) {
         return entityManager.getAll();
       }
 
-      // Start with entities that have the first component
-      const firstComponent = components[0]!;
-      const firstStorage = componentStorages.get(firstComponent.name);
-      if (!firstStorage) return [];
+      // A new array, so callers can mutate the world while iterating
+      const result: Entity[] = [];
+      for (const archetype of queryArchetypes.get(defineLiveQuery(components))!) {
+        for (const entity of archetype.entities) result.push(entity);
+      }
+      return result;
+    },
 
-      const candidates = firstStorage.entities();
+    defineQuery(withComponents, withoutComponents = []) {
+      return defineLiveQuery(withComponents, withoutComponents);
+    },
 
-      // Filter to entities that have all components
-      return candidates.filter((entity) =>
-        components.every((comp) => {
-          const storage = componentStorages.get(comp.name);
-          return storage?.has(entity) ?? false;
-        })
-      );
+    view(...terms) {
+      return createView(terms, []);
     },
 
     update(deltaTime: number) {
-      for (const system of systems) {
-        system.update(world, deltaTime);
-      }
+      runSystems(systems, deltaTime, null);
+      profiler.endFrame();
+    },
+
+    runPhase(phase: SystemPhase, deltaTime: number) {
+      const phaseSystems = systems.filter((system) => (system.phase ?? 'simulation') === phase);
+      runSystems(phaseSystems, deltaTime, phase);
     },
 
     destroy() {
       // Cleanup all systems
       for (const system of systems) {
-        system.cleanup?.(world);
+        detachSystem(system);
       }
       systems.length = 0;
+      addedSystems.length = 0;
+      disabledSystems.clear();
+      commandBuffer.clear();
+      removedLog.clear();
 
-      // Clear all component storage
-      for (const storage of componentStorages.values()) {
-        storage.clear();
+      // Clear all component tables
+      for (const archetype of archetypes.values()) {
+        archetype.clear();
       }
-      componentStorages.clear();
+      archetypes.clear();
+      entityLocations.clear();
+      warnedStaleEntities.clear();
+      for (const liveQuery of liveQueries.values()) {
+        liveQuery.clear();
+      }
+      liveQueries.clear();
+      archetypeQueries.clear();
+      queryArchetypes.clear();
+      viewCursors.clear();
+      componentTypes.clear();
+      blueprints.clear();
 
       // Clear entities
       entityManager.clear();
 
       // Clear events and resources
       eventHandlers.clear();
+      eventLog.clear();
       resources.clear();
+      resourceDefaults.clear();
+      resourceHandlers.clear();
+      resourceTypes.clear();
+      profiler.reset();
     },
 
-    emit(event: string, data?: unknown) {
-      const handlers = eventHandlers.get(event);
+    emit<T>(event: EventType<T>, ...args: EventArgs<NoInfer<T>>) {
+      const data = args[0];
+      if (profiler.enabled) profiler.recordEvent(event.name);
+
+      let entries = eventLog.get(event.name);
+      if (!entries) {
+        entries = [];
+        eventLog.set(event.name, entries);
+      }
+      entries.push({ data, tick: changeTick });
+
+      const handlers = eventHandlers.get(event.name);
       if (handlers) {
-        for (const handler of handlers) {
+        // Copy so handlers may subscribe/unsubscribe while dispatching
+        for (const handler of [...handlers]) {
           handler(data);
         }
       }
     },
 
-    on(event: string, handler: EventHandler): () => void {
-      let handlers = eventHandlers.get(event);
+    on<T>(event: EventType<T>, handler: EventHandler<T>): () => void {
+      let handlers = eventHandlers.get(event.name);
       if (!handlers) {
         handlers = new Set();
-        eventHandlers.set(event, handlers);
+        eventHandlers.set(event.name, handlers);
       }
-      handlers.add(handler);
+      handlers.add(handler as EventHandler<unknown>);
+
+      const unsubscribe = () => {
+        handlers?.delete(handler as EventHandler<unknown>);
+      };
+
+      trackSubscription(unsubscribe);
 
       // Return unsubscribe function
-      return () => {
-        handlers?.delete(handler);
+      return unsubscribe;
+    },
+
+    read<T>(event: EventType<T>): T[] {
+      const since = getLastRunTick();
+      const entries = eventLog.get(event.name) ?? [];
+      return entries.filter((entry) => entry.tick > since).map((entry) => entry.data as T);
+    },
+
+    setResource<T>(resource: ResourceType<T>, value: T) {
+      resourceTypes.set(resource.name, resource as ResourceType<unknown>);
+      const previous = world.getResource(resource);
+      resources.set(resource.name, value);
+      resourceDefaults.delete(resource.name);
+      if (Object.is(value, previous)) return;
+
+      const handlers = resourceHandlers.get(resource.name);
+      if (handlers) {
+        for (const handler of [...handlers]) {
+          handler(value, previous);
+        }
+      }
+    },
+
+    getResource<T>(resource: ResourceType<T>): T {
+      resourceTypes.set(resource.name, resource as ResourceType<unknown>);
+      if (resources.has(resource.name)) {
+        return resources.get(resource.name) as T;
+      }
+
+      // Copy the default so object resources are never shared between worlds
+      if (!resourceDefaults.has(resource.name)) {
+        resourceDefaults.set(resource.name, structuredClone(resource.defaultValue));
+      }
+      return resourceDefaults.get(resource.name) as T;
+    },
+
+    hasResource<T>(resource: ResourceType<T>): boolean {
+      return resources.has(resource.name);
+    },
+
+    resetResource<T>(resource: ResourceType<T>) {
+      world.setResource(resource, structuredClone(resource.defaultValue));
+    },
+
+    onResourceChange<T>(resource: ResourceType<T>, handler: ResourceChangeHandler<T>): () => void {
+      resourceTypes.set(resource.name, resource as ResourceType<unknown>);
+      let handlers = resourceHandlers.get(resource.name);
+      if (!handlers) {
+        handlers = new Set();
+        resourceHandlers.set(resource.name, handlers);
+      }
+      handlers.add(handler as ResourceChangeHandler<unknown>);
+
+      const unsubscribe = () => {
+        handlers?.delete(handler as ResourceChangeHandler<unknown>);
       };
+      trackSubscription(unsubscribe);
+      return unsubscribe;
     },
 
-    setResource<T>(name: string, value: T) {
-      resources.set(name, value);
+    registerResource<T>(resource: ResourceType<T>) {
+      resourceTypes.set(resource.name, resource as ResourceType<unknown>);
     },
 
-    getResource<T>(name: string): T | undefined {
-      return resources.get(name) as T | undefined;
+    snapshot(): WorldSnapshot {
+      const components: WorldSnapshot['components'] = [];
+      for (const entity of entityManager.getAll()) {
+        const location = entityLocations.get(entity);
+        if (!location) continue;
+
+        const data: Record<string, unknown> = {};
+        for (const type of location.archetype.types) {
+          const value = location.archetype.column(type.name)![location.row];
+          data[type.name] = getSerializer(type).serialize(value);
+        }
+        components.push({ entity, data });
+      }
+
+      // Defaults that were read may have been mutated in place, so save them too
+      const savedResources: Record<string, unknown> = {};
+      for (const values of [resourceDefaults, resources]) {
+        for (const [name, value] of values) {
+          savedResources[name] = getSerializer(resourceTypes.get(name)).serialize(value);
+        }
+      }
+
+      return {
+        version: SNAPSHOT_VERSION,
+        entities: entityManager.snapshot(),
+        components,
+        resources: savedResources,
+      };
+    },
+
+    restore(snapshot: WorldSnapshot) {
+      if (snapshot.version !== SNAPSHOT_VERSION) {
+        throw new Error(
+          `Cannot restore snapshot version ${snapshot.version} (expected ${SNAPSHOT_VERSION})`
+        );
+      }
+
+      // Decode everything first, so a bad snapshot leaves the world unchanged
+      const rows = snapshot.components.map(({ entity, data }) => {
+        const types: ComponentType<unknown>[] = [];
+        const cells = new Map<string, ComponentCell>();
+        for (const [name, value] of Object.entries(data)) {
+          const type = componentTypes.get(name);
+          if (!type) {
+            throw new Error(`Cannot restore component "${name}", which is not registered`);
+          }
+          types.push(type);
+          cells.set(name, {
+            value: getSerializer(type).deserialize(value),
+            ticks: { added: changeTick, changed: changeTick },
+          });
+        }
+        return { entity, types, cells };
+      });
+      const restoredResources = Object.entries(snapshot.resources).map(
+        ([name, data]) => [name, getSerializer(resourceTypes.get(name)).deserialize(data)] as const
+      );
+
+      commandBuffer.clear();
+      eventLog.clear();
+
+      // Replace entities and their components
+      for (const entity of entityManager.getAll()) {
+        world.removeAllComponents(entity);
+      }
+      entityManager.restore(snapshot.entities);
+      warnedStaleEntities.clear();
+      for (const { entity, types, cells } of rows) {
+        if (types.length === 0) continue;
+        moveEntity(entity, undefined, getArchetype(types), cells);
+      }
+
+      // Replace resources, then notify handlers of the ones that changed
+      const previousResources = new Map(resources);
+      resources.clear();
+      resourceDefaults.clear();
+      for (const [name, value] of restoredResources) {
+        resources.set(name, value);
+      }
+
+      for (const [name, handlers] of resourceHandlers) {
+        const type = resourceTypes.get(name)!;
+        const value = world.getResource(type);
+        const previous = previousResources.has(name)
+          ? previousResources.get(name)
+          : type.defaultValue;
+        if (Object.is(value, previous)) continue;
+
+        for (const handler of [...handlers]) {
+          handler(value, previous);
+        }
+      }
     },
   };
 
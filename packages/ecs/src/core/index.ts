@@ -1,24 +1,91 @@
 // Entity
-export { type Entity, type EntityManager, createEntityManager } from './Entity';
+export {
+  type Entity,
+  type EntityManager,
+  type EntityManagerState,
+  createEntityManager,
+  getEntityIndex,
+  getEntityGeneration,
+} from './Entity';
 
 // Component
 export {
   type ComponentType,
   type ComponentStorage,
+  type ComponentOptions,
   defineComponent,
   createComponentStorage,
 } from './Component';
 
+// Blueprints
+export { type Blueprint, type BlueprintComponents } from './Blueprint';
+
+// Hierarchy
+export { Parent, Children, type ParentData, type ChildrenData } from './Hierarchy';
+
 // System
 export {
   type System,
   type SystemPriority,
+  type SystemPhase,
   SystemPriorities,
   createSystem,
 } from './System';
 
+// Run conditions
+export { type RunCondition, resourceEquals, not, and, or } from './Condition';
+
+// Event
+export { type EventType, type EventHandler, type EventArgs, defineEvent } from './Event';
+
+// Resource
+export {
+  type ResourceType,
+  type ResourceChangeHandler,
+  type ResourceOptions,
+  defineResource,
+} from './Resource';
+
+// Randomness
+export {
+  type Random,
+  type RandomStream,
+  RandomResource,
+  createRandom,
+  seedRandom,
+  getRandom,
+} from './Random';
+
+// Profiling
+export {
+  type Profiler,
+  type ProfilerOptions,
+  type ProfileReport,
+  type ProfileStats,
+  type SystemProfile,
+} from './Profiler';
+
+// Snapshots
+export { type Serializer, type WorldSnapshot, SNAPSHOT_VERSION, jsonSerializer } from './Snapshot';
+
+// Commands
+export { type Commands } from './Commands';
+
+// Game loop
+export { type GameLoop, type GameLoopOptions, TimeResource, createGameLoop } from './GameLoop';
+
 // World
-export { type World, createWorld } from './World';
+export { type World, type WorldOptions, createWorld } from './World';
 
 // Query
-export { type QueryBuilder, query } from './Query';
+export {
+  type QueryBuilder,
+  type LiveQuery,
+  type View,
+  type QueryRow,
+  type QueryTerm,
+  type OptionalTerm,
+  type TermData,
+  query,
+  optional,
+} from './Query';
@@ -1,7 +1,17 @@
+import type { ParticleEffect } from '@repo/components';
+import { perSecond, perSecondSquared } from '@repo/systems';
+
 /**
  * Flappy Bird game configuration constants.
+ * Speeds were tuned per 60 Hz step; perSecond converts them to the
+ * movement systems' units.
  */
 export const FLAPPY_CONFIG = {
+  /** Replay compatibility: bump gameVersion when a change makes old replays play differently */
+  replay: {
+    game: 'flappy',
+    gameVersion: 1,
+  },
   canvas: {
     width: 400,
     height: 360,
@@ -10,17 +20,17 @@ export const FLAPPY_CONFIG = {
     x: 80,
     width: 34,
     height: 24,
-    flapVelocity: -4,
+    flapVelocity: perSecond(-4),
   },
   physics: {
-    gravity: 0.15,
-    maxFallVelocity: 4,
+    gravity: perSecondSquared(0.15),
+    maxFallVelocity: perSecond(4),
   },
   pipes: {
     width: 52,
     gap: 140,
-    speed: 2,
-    spawnInterval: 150, // frames
+    speed: perSecond(2),
+    spawnInterval: 150, // simulation steps (60 per second)
     minHeight: 50,
   },
   ground: {
@@ -50,3 +60,21 @@ export const FLAPPY_CONFIG = {
 } as const;
 
 export type FlappyConfig = typeof FLAPPY_CONFIG;
+
+/**
+ * Particle effects, by the names the systems emit ParticleBurstEvents with.
+ */
+export const FLAPPY_PARTICLES = {
+  /** Feathers knocked loose when the bird hits a pipe or the ground */
+  crash: {
+    count: 16,
+    lifetime: 0.6,
+    speedMin: 60,
+    speedMax: 160,
+    gravity: 400,
+    colorStart: FLAPPY_CONFIG.colors.bird,
+    colorEnd: '#ffffff',
+    sizeStart: 4,
+    sizeEnd: 2,
+  },
+} satisfies Record<string, ParticleEffect>;
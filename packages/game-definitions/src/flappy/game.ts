@@ -1,8 +1,40 @@
-import { createWorld, type World } from '@repo/ecs';
-import { InputSystem, GravitySystem, VelocitySystem, createAudioSystem } from '@repo/systems';
+import { createWorld, createGameLoop, seedRandom, type World, type GameLoop } from '@repo/ecs';
+import {
+  RestartEvent,
+  GameOverResource,
+  GameStartedResource,
+  HighScoreResource,
+  ScoreResource,
+  Player,
+  InputReceiver,
+  ActionInput,
+  Transform,
+  WorldTransform,
+  Velocity,
+  Gravity,
+  Collider,
+  Sprite,
+  BirdWing,
+  Pipe,
+  Tween,
+  type SoundType,
+} from '@repo/components';
+import {
+  InputSystem,
+  createInputSystem,
+  GravitySystem,
+  VelocitySystem,
+  TransformPropagationSystem,
+  CollisionSystem,
+  createAudioSystem,
+  TweenSystem,
+  createParticlePool,
+  createParticleSystem,
+  CollisionContactsResource,
+  type GameInput,
+} from '@repo/systems';
 import {
   BirdFlapSystem,
-  BirdRotationSystem,
   PipeSpawnSystem,
   PipeCleanupSystem,
   createScoringSystem,
@@ -10,21 +42,26 @@ import {
   createFlappyGameOverSystem,
   FlappyRestartSystem,
   GroundScrollSystem,
-  WingAnimationSystem,
 } from './systems';
 import { createFlappyRenderSystem } from './render';
 import { createBird } from './prefabs';
-import { FLAPPY_CONFIG } from './config';
+import { FLAPPY_PARTICLES } from './config';
+import { GroundOffsetResource, PipeSpawnFrameResource } from './resources';
 
 export interface FlappyGameOptions {
-  canvas: HTMLCanvasElement;
-  playSound: (type: string) => void;
-  onScoreChange?: (score: number) => void;
-  onGameOver?: () => void;
+  /** Canvas to render to. Without one the game runs headless (see createHeadlessRunner). */
+  canvas?: HTMLCanvasElement;
+  playSound?: (type: SoundType) => void;
+  /** Read input from here instead of the input store (e.g. scripted input) */
+  input?: () => GameInput;
+  /** Seed for the game's random streams (defaults to the current time) */
+  seed?: number;
 }
 
 export interface FlappyGameInstance {
   world: World;
+  /** The game loop, for pausing, fast-forwarding and frame stepping */
+  loop: GameLoop;
   start: () => void;
   stop: () => void;
   reset: () => void;
@@ -36,9 +73,8 @@ export interface FlappyGameInstance {
  */
 export function createFlappyGame(options: FlappyGameOptions): FlappyGameInstance {
   const world = createWorld();
-  let animationFrame: number | null = null;
-  let lastTime = 0;
-  let isRunning = false;
+  const loop = createGameLoop(world);
+  seedRandom(world, options.seed ?? Date.now());
 
   // Load high score
   let initialHighScore = 0;
@@ -50,91 +86,86 @@ export function createFlappyGame(options: FlappyGameOptions): FlappyGameInstance
   }
 
   // Initialize resources
-  world.setResource('score', 0);
-  world.setResource('highScore', initialHighScore);
-  world.setResource('gameOver', false);
-  world.setResource('gameStarted', false);
-  world.setResource('groundOffset', 0);
-  world.setResource('wingFrame', 0);
-  world.setResource('pipeSpawnFrame', 0);
-  world.setResource('wingAnimFrame', 0);
+  world.setResource(ScoreResource, 0);
+  world.setResource(HighScoreResource, initialHighScore);
+  world.setResource(GameOverResource, false);
+  world.setResource(GameStartedResource, false);
+  world.setResource(GroundOffsetResource, 0);
+  world.setResource(PipeSpawnFrameResource, 0);
+
+  // Register what start() and the systems create later, so snapshots also
+  // restore into a game that hasn't started (restore matches types by name)
+  world.registerComponent(Player);
+  world.registerComponent(InputReceiver);
+  world.registerComponent(ActionInput);
+  world.registerComponent(Transform);
+  world.registerComponent(WorldTransform);
+  world.registerComponent(Velocity);
+  world.registerComponent(Gravity);
+  world.registerComponent(Collider);
+  world.registerComponent(Sprite);
+  world.registerComponent(BirdWing);
+  world.registerComponent(Pipe);
+  world.registerComponent(Tween);
+  world.registerResource(CollisionContactsResource);
 
   // Add systems in priority order
-  world.addSystem(InputSystem);
+  world.addSystem(options.input ? createInputSystem({ source: options.input }) : InputSystem);
   world.addSystem(BirdFlapSystem);
   world.addSystem(FlappyRestartSystem);
   world.addSystem(GravitySystem);
   world.addSystem(VelocitySystem);
-  world.addSystem(BirdRotationSystem);
+  world.addSystem(TransformPropagationSystem);
   world.addSystem(PipeSpawnSystem);
   world.addSystem(PipeCleanupSystem);
-  world.addSystem(createScoringSystem(options.onScoreChange));
+  world.addSystem(createScoringSystem());
+  world.addSystem(CollisionSystem);
   world.addSystem(FlappyCollisionSystem);
-  world.addSystem(createFlappyGameOverSystem(options.onGameOver));
+  world.addSystem(createFlappyGameOverSystem());
   world.addSystem(GroundScrollSystem);
-  world.addSystem(WingAnimationSystem);
-  world.addSystem(createFlappyRenderSystem({ canvas: options.canvas }));
-  world.addSystem(createAudioSystem({ playSound: options.playSound }));
+  world.addSystem(TweenSystem);
+  if (options.canvas) {
+    const particles = createParticlePool();
+    world.addSystem(createParticleSystem({ pool: particles, effects: FLAPPY_PARTICLES }));
+    world.addSystem(createFlappyRenderSystem({ canvas: options.canvas, particles }));
+  }
+  if (options.playSound) {
+    world.addSystem(createAudioSystem({ playSound: options.playSound }));
+  }
 
   // Handle restart
-  world.on('restart', () => {
+  world.on(RestartEvent, () => {
     reset();
   });
 
   function initEntities() {
     // Clear all entities
     for (const entity of world.entities.getAll()) {
-      world.removeAllComponents(entity);
-      world.entities.destroy(entity);
+      world.despawn(entity);
     }
 
     // Reset resources
-    world.setResource('score', 0);
-    world.setResource('gameOver', false);
-    world.setResource('gameStarted', false);
-    world.setResource('groundOffset', 0);
-    world.setResource('wingFrame', 0);
-    world.setResource('pipeSpawnFrame', 0);
-    world.setResource('wingAnimFrame', 0);
+    world.resetResource(ScoreResource);
+    world.resetResource(GameOverResource);
+    world.resetResource(GameStartedResource);
+    world.resetResource(GroundOffsetResource);
+    world.resetResource(PipeSpawnFrameResource);
 
     // Create bird
     createBird(world);
   }
 
-  function gameLoop(time: number) {
-    if (!isRunning) return;
-
-    // Store current frame ID to detect if restart happened during update
-    const currentFrame = animationFrame;
-
-    const deltaTime = (time - lastTime) / 1000;
-    lastTime = time;
-
-    world.update(deltaTime);
-
-    // Only schedule next frame if no restart happened during update
-    // (restart changes animationFrame via stop() -> start())
-    if (isRunning && animationFrame === currentFrame) {
-      animationFrame = requestAnimationFrame(gameLoop);
-    }
-  }
-
   function start() {
-    if (isRunning) return;
+    if (loop.running) return;
 
     initEntities();
-    options.playSound('start');
-    isRunning = true;
-    lastTime = performance.now();
-    animationFrame = requestAnimationFrame(gameLoop);
+    options.playSound?.('start');
+    // Headless games are stepped by their caller
+    if (options.canvas) loop.start();
   }
 
   function stop() {
-    isRunning = false;
-    if (animationFrame !== null) {
-      cancelAnimationFrame(animationFrame);
-      animationFrame = null;
-    }
+    loop.stop();
   }
 
   function reset() {
@@ -147,7 +178,7 @@ export function createFlappyGame(options: FlappyGameOptions): FlappyGameInstance
     world.destroy();
   }
 
-  return { world, start, stop, reset, destroy };
+  return { world, loop, start, stop, reset, destroy };
 }
 
-export { FLAPPY_CONFIG } from './config';
+export { FLAPPY_CONFIG, FLAPPY_PARTICLES } from './config';
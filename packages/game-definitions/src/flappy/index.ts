@@ -1,8 +1,7 @@
-export { createFlappyGame, FLAPPY_CONFIG, type FlappyGameOptions, type FlappyGameInstance } from './game';
+export { createFlappyGame, FLAPPY_CONFIG, FLAPPY_PARTICLES, type FlappyGameOptions, type FlappyGameInstance } from './game';
 export { createBird, createPipePair, getRandomGapY } from './prefabs';
 export {
   BirdFlapSystem,
-  BirdRotationSystem,
   PipeSpawnSystem,
   PipeCleanupSystem,
   createScoringSystem,
@@ -10,6 +9,6 @@ export {
   createFlappyGameOverSystem,
   FlappyRestartSystem,
   GroundScrollSystem,
-  WingAnimationSystem,
 } from './systems';
 export { createFlappyRenderSystem, type FlappyRenderConfig } from './render';
+export { GroundOffsetResource, PipeSpawnFrameResource } from './resources';
@@ -1,6 +1,7 @@
-import type { World, Entity } from '@repo/ecs';
+import type { World, Entity, Random } from '@repo/ecs';
 import {
   Transform,
+  WorldTransform,
   Velocity,
   Gravity,
   Sprite,
@@ -9,9 +10,45 @@ import {
   InputReceiver,
   ActionInput,
   Pipe,
+  BirdWing,
+  type TweenTimeline,
 } from '@repo/components';
+import { playTween } from '@repo/systems';
 import { FLAPPY_CONFIG } from './config';
 
+/** The wing beating up and down, for as long as the bird lives */
+const WING_BEAT: TweenTimeline = {
+  name: 'wingBeat',
+  tracks: [
+    {
+      component: 'BirdWing',
+      field: 'offset',
+      from: -4,
+      to: 2,
+      duration: 8 / 60,
+      easing: 'easeInOutSine',
+    },
+  ],
+  repeat: -1,
+  yoyo: true,
+};
+
+/** A flap tips the bird's nose up, then it dives as it falls */
+export const FLAP_TILT: TweenTimeline = {
+  name: 'flapTilt',
+  tracks: [
+    { component: 'Transform', field: 'rotation', to: -30, duration: 0.1, easing: 'easeOutQuad' },
+    {
+      component: 'Transform',
+      field: 'rotation',
+      to: 90,
+      duration: 0.45,
+      delay: 0.25,
+      easing: 'easeInQuad',
+    },
+  ],
+};
+
 /**
  * Create the bird entity with physics components.
  */
@@ -51,6 +88,10 @@ export function createBird(world: World): Entity {
     borderColor: undefined,
     borderWidth: 0,
     cornerRadius: 0,
+    atlas: '',
+    frame: '',
+    flipX: false,
+    flipY: false,
   });
 
   world.addComponent(entity, Collider, {
@@ -73,21 +114,48 @@ export function createBird(world: World): Entity {
     back: false,
   });
 
+  world.addComponent(entity, BirdWing, { offset: -4 });
+  playTween(world, entity, WING_BEAT);
+
   return entity;
 }
 
 /**
- * Create a pipe pair (top and bottom).
+ * Create a pipe pair: a moving parent entity with the top and bottom pipes
+ * as children, so the pair moves and despawns as one.
  */
-export function createPipePair(world: World, gapY: number): { top: Entity; bottom: Entity } {
+export function createPipePair(
+  world: World,
+  gapY: number
+): { pair: Entity; top: Entity; bottom: Entity } {
   const { pipes, canvas, ground } = FLAPPY_CONFIG;
 
+  // Pair (carries the movement)
+  const pairEntity = world.entities.create();
+  const pairTransform = {
+    x: canvas.width,
+    y: 0,
+    z: 0,
+    rotation: 0,
+    scaleX: 1,
+    scaleY: 1,
+  };
+
+  world.addComponent(pairEntity, Transform, pairTransform);
+  world.addComponent(pairEntity, WorldTransform, { ...pairTransform });
+
+  world.addComponent(pairEntity, Velocity, {
+    x: -pipes.speed,
+    y: 0,
+    z: 0,
+  });
+
   // Top pipe
   const topEntity = world.entities.create();
   const topHeight = gapY - pipes.gap / 2;
 
   world.addComponent(topEntity, Transform, {
-    x: canvas.width,
+    x: 0,
     y: 0,
     z: 0,
     rotation: 0,
@@ -95,11 +163,8 @@ export function createPipePair(world: World, gapY: number): { top: Entity; botto
     scaleY: 1,
   });
 
-  world.addComponent(topEntity, Velocity, {
-    x: -pipes.speed,
-    y: 0,
-    z: 0,
-  });
+  // Placed now so it draws in place before the next propagation
+  world.addComponent(topEntity, WorldTransform, { ...pairTransform });
 
   world.addComponent(topEntity, Sprite, {
     width: pipes.width,
@@ -112,6 +177,10 @@ export function createPipePair(world: World, gapY: number): { top: Entity; botto
     borderColor: undefined,
     borderWidth: 0,
     cornerRadius: 0,
+    atlas: '',
+    frame: '',
+    flipX: false,
+    flipY: false,
   });
 
   world.addComponent(topEntity, Collider, {
@@ -138,7 +207,7 @@ export function createPipePair(world: World, gapY: number): { top: Entity; botto
   const bottomHeight = canvas.height - ground.height - bottomY;
 
   world.addComponent(bottomEntity, Transform, {
-    x: canvas.width,
+    x: 0,
     y: bottomY,
     z: 0,
     rotation: 0,
@@ -146,11 +215,7 @@ export function createPipePair(world: World, gapY: number): { top: Entity; botto
     scaleY: 1,
   });
 
-  world.addComponent(bottomEntity, Velocity, {
-    x: -pipes.speed,
-    y: 0,
-    z: 0,
-  });
+  world.addComponent(bottomEntity, WorldTransform, { ...pairTransform, y: bottomY });
 
   world.addComponent(bottomEntity, Sprite, {
     width: pipes.width,
@@ -163,6 +228,10 @@ export function createPipePair(world: World, gapY: number): { top: Entity; botto
     borderColor: undefined,
     borderWidth: 0,
     cornerRadius: 0,
+    atlas: '',
+    frame: '',
+    flipX: false,
+    flipY: false,
   });
 
   world.addComponent(bottomEntity, Collider, {
@@ -183,15 +252,18 @@ export function createPipePair(world: World, gapY: number): { top: Entity; botto
     isTop: false,
   });
 
-  return { top: topEntity, bottom: bottomEntity };
+  world.setParent(topEntity, pairEntity);
+  world.setParent(bottomEntity, pairEntity);
+
+  return { pair: pairEntity, top: topEntity, bottom: bottomEntity };
 }
 
 /**
  * Generate a random gap Y position for pipes.
  */
-export function getRandomGapY(): number {
+export function getRandomGapY(random: Random): number {
   const { pipes, canvas, ground } = FLAPPY_CONFIG;
   const minGapY = pipes.minHeight + pipes.gap / 2;
   const maxGapY = canvas.height - ground.height - pipes.minHeight - pipes.gap / 2;
-  return Math.random() * (maxGapY - minGapY) + minGapY;
+  return random.range(minGapY, maxGapY);
 }
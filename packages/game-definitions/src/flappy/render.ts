@@ -1,9 +1,25 @@
-import { type System, type World, SystemPriorities } from '@repo/ecs';
-import { Transform, Sprite, Player, Pipe } from '@repo/components';
+import { type System, type World, SystemPriorities, TimeResource, optional } from '@repo/ecs';
+import {
+  Transform,
+  WorldTransform,
+  Velocity,
+  Sprite,
+  Player,
+  Pipe,
+  BirdWing,
+  GameOverResource,
+  GameStartedResource,
+  HighScoreResource,
+  ScoreResource,
+} from '@repo/components';
+import { drawParticles, type ParticlePool } from '@repo/systems';
 import { FLAPPY_CONFIG } from './config';
+import { GroundOffsetResource } from './resources';
 
 export interface FlappyRenderConfig {
   canvas: HTMLCanvasElement;
+  /** Particles to draw (see createParticleSystem) */
+  particles?: ParticlePool;
 }
 
 /**
@@ -18,6 +34,7 @@ export function createFlappyRenderSystem(config: FlappyRenderConfig): System {
   return {
     name: 'FlappyRenderSystem',
     priority: SystemPriorities.RENDER,
+    phase: 'render',
 
     init(_world: World) {
       ctx = config.canvas.getContext('2d');
@@ -30,12 +47,14 @@ export function createFlappyRenderSystem(config: FlappyRenderConfig): System {
     update(world) {
       if (!ctx) return;
 
-      const gameStarted = world.getResource<boolean>('gameStarted') ?? false;
-      const gameOver = world.getResource<boolean>('gameOver') ?? false;
-      const score = world.getResource<number>('score') ?? 0;
-      const highScore = world.getResource<number>('highScore') ?? 0;
-      const groundOffset = world.getResource<number>('groundOffset') ?? 0;
-      const wingFrame = world.getResource<number>('wingFrame') ?? 0;
+      const gameStarted = world.getResource(GameStartedResource);
+      const gameOver = world.getResource(GameOverResource);
+      const score = world.getResource(ScoreResource);
+      const highScore = world.getResource(HighScoreResource);
+      const groundOffset = world.getResource(GroundOffsetResource);
+      // Moving things are drawn ahead by the part of a step not yet simulated
+      const { alpha, step } = world.getResource(TimeResource);
+      const ahead = alpha * step;
 
       // Draw sky gradient
       const gradient = ctx.createLinearGradient(0, 0, 0, height - ground.height);
@@ -50,25 +69,30 @@ export function createFlappyRenderSystem(config: FlappyRenderConfig): System {
       drawCloud(ctx, 280, 100, 0.8);
       drawCloud(ctx, 180, 40, 0.7);
 
-      // Draw pipes
-      const pipeEntities = world.query(Pipe, Transform, Sprite);
-      for (const entity of pipeEntities) {
-        const transform = world.getComponent(entity, Transform)!;
-        const sprite = world.getComponent(entity, Sprite)!;
-        const pipe = world.getComponent(entity, Pipe)!;
-
-        drawPipe(ctx, transform.x, transform.y, sprite.width, sprite.height, pipe.isTop);
+      // Draw pipes (moving with their pair)
+      for (const [entity, pipe, transform, sprite] of world.view(Pipe, WorldTransform, Sprite)) {
+        const pair = world.getParent(entity);
+        const velocity = pair === undefined ? undefined : world.getComponent(pair, Velocity);
+        const x = transform.x + (velocity?.x ?? 0) * ahead;
+        drawPipe(ctx, x, transform.y, sprite.width, sprite.height, pipe.isTop);
       }
 
       // Draw ground
       drawGround(ctx, groundOffset);
 
       // Draw bird
-      const birds = world.query(Player, Transform, Sprite);
-      if (birds.length > 0) {
-        const birdEntity = birds[0]!;
-        const transform = world.getComponent(birdEntity, Transform)!;
-        drawBird(ctx, transform.x, transform.y, transform.rotation, wingFrame);
+      const bird = world
+        .view(Player, Transform, Sprite, optional(Velocity), optional(BirdWing))
+        .first();
+      if (bird) {
+        const [, , transform, , velocity, wing] = bird;
+        const y = transform.y + (velocity?.y ?? 0) * ahead;
+        drawBird(ctx, transform.x, y, transform.rotation, wing?.offset ?? 0);
+      }
+
+      // Draw particles
+      if (config.particles) {
+        drawParticles(ctx, config.particles);
       }
 
       // Draw score (when game started)
@@ -176,7 +200,7 @@ export function createFlappyRenderSystem(config: FlappyRenderConfig): System {
     x: number,
     y: number,
     rotation: number,
-    wingFrame: number
+    wingOffset: number
   ) {
     ctx.save();
     ctx.translate(x + bird.width / 2, y + bird.height / 2);
@@ -196,9 +220,8 @@ export function createFlappyRenderSystem(config: FlappyRenderConfig): System {
 
     // Wing (animated)
     ctx.fillStyle = colors.birdWing;
-    const wingY = wingFrame % 2 === 0 ? bird.height / 2 - 4 : bird.height / 2 + 2;
     ctx.beginPath();
-    ctx.ellipse(bird.width / 2 - 4, wingY, 10, 6, 0, 0, Math.PI * 2);
+    ctx.ellipse(bird.width / 2 - 4, bird.height / 2 + wingOffset, 10, 6, 0, 0, Math.PI * 2);
     ctx.fill();
 
     // Eye
@@ -0,0 +1,7 @@
+import { defineResource } from '@repo/ecs';
+
+/** Horizontal scroll offset of the ground, in pixels */
+export const GroundOffsetResource = defineResource('flappy:groundOffset', 0);
+
+/** Frames since the game started, for pipe spawning */
+export const PipeSpawnFrameResource = defineResource('flappy:pipeSpawnFrame', 0);
@@ -1,39 +1,46 @@
-import { type System, type World, SystemPriorities } from '@repo/ecs';
+import { type System, type World, SystemPriorities, and, getRandom } from '@repo/ecs';
 import {
   Transform,
+  WorldTransform,
   Velocity,
   Gravity,
-  Sprite,
-  Collider,
   Player,
   ActionInput,
   Pipe,
+  GameOverEvent,
+  RestartEvent,
+  CollisionEnterEvent,
+  ParticleBurstEvent,
+  PlaySoundEvent,
+  GameOverResource,
+  GameStartedResource,
+  HighScoreResource,
+  ScoreResource,
 } from '@repo/components';
+import { notGameOver, isGameOver, gameStarted, playTween } from '@repo/systems';
 import { FLAPPY_CONFIG } from './config';
-import { createPipePair, getRandomGapY } from './prefabs';
+import { FLAP_TILT, createPipePair, getRandomGapY } from './prefabs';
+import { GroundOffsetResource, PipeSpawnFrameResource } from './resources';
 
 /**
- * Bird flap system - handles action input for flapping.
+ * Bird flap system - handles action input for flapping, and tilts the
+ * bird up with it.
  */
 export const BirdFlapSystem: System = {
   name: 'BirdFlapSystem',
-  priority: SystemPriorities.INPUT + 10,
+  priority: SystemPriorities.INPUT,
+  after: ['InputSystem'],
+  runIf: notGameOver,
 
   update(world) {
-    if (world.getResource<boolean>('gameOver')) return;
+    const birds = world.view(Player, ActionInput, Velocity, Gravity);
 
-    const birds = world.query(Player, ActionInput, Velocity, Gravity);
-
-    for (const entity of birds) {
-      const input = world.getComponent(entity, ActionInput);
-      if (!input?.actionJustPressed) continue;
-
-      const velocity = world.getComponent(entity, Velocity)!;
-      const gravity = world.getComponent(entity, Gravity)!;
+    for (const [entity, , input, velocity, gravity] of birds) {
+      if (!input.actionJustPressed) continue;
 
       // Start the game on first flap
-      if (!world.getResource<boolean>('gameStarted')) {
-        world.setResource('gameStarted', true);
+      if (!world.getResource(GameStartedResource)) {
+        world.setResource(GameStartedResource, true);
         world.addComponent(entity, Gravity, { ...gravity, enabled: true });
       }
 
@@ -42,33 +49,9 @@ export const BirdFlapSystem: System = {
         ...velocity,
         y: FLAPPY_CONFIG.bird.flapVelocity,
       });
+      playTween(world, entity, FLAP_TILT);
 
-      world.emit('playSound', { type: 'flap' });
-    }
-  },
-};
-
-/**
- * Bird rotation system - rotates bird based on velocity.
- */
-export const BirdRotationSystem: System = {
-  name: 'BirdRotationSystem',
-  priority: SystemPriorities.POST_PHYSICS,
-
-  update(world) {
-    const birds = world.query(Player, Velocity, Transform);
-
-    for (const entity of birds) {
-      const velocity = world.getComponent(entity, Velocity)!;
-      const transform = world.getComponent(entity, Transform)!;
-
-      // Rotation: -30 (up) to +90 (down) based on velocity
-      const rotation = Math.min(Math.max(velocity.y * 20, -30), 90);
-
-      world.addComponent(entity, Transform, {
-        ...transform,
-        rotation,
-      });
+      world.emit(PlaySoundEvent, { type: 'flap' });
     }
   },
 };
@@ -80,38 +63,32 @@ export const BirdRotationSystem: System = {
 export const PipeSpawnSystem: System = {
   name: 'PipeSpawnSystem',
   priority: SystemPriorities.GAME_LOGIC,
+  runIf: and(gameStarted, notGameOver),
 
   update(world) {
-    if (!world.getResource<boolean>('gameStarted')) return;
-    if (world.getResource<boolean>('gameOver')) return;
-
-    const frameCount = (world.getResource<number>('pipeSpawnFrame') ?? 0) + 1;
-    world.setResource('pipeSpawnFrame', frameCount);
+    const frameCount = world.getResource(PipeSpawnFrameResource) + 1;
+    world.setResource(PipeSpawnFrameResource, frameCount);
 
     if (frameCount % FLAPPY_CONFIG.pipes.spawnInterval === 0) {
-      const gapY = getRandomGapY();
+      const gapY = getRandomGapY(getRandom(world));
       createPipePair(world, gapY);
     }
   },
 };
 
 /**
- * Pipe cleanup system - removes off-screen pipes.
+ * Pipe cleanup system - removes off-screen pipe pairs.
  */
 export const PipeCleanupSystem: System = {
   name: 'PipeCleanupSystem',
-  priority: SystemPriorities.GAME_LOGIC + 5,
+  priority: SystemPriorities.GAME_LOGIC,
+  after: ['PipeSpawnSystem'],
 
   update(world) {
-    const pipes = world.query(Pipe, Transform);
-
-    for (const entity of pipes) {
-      const transform = world.getComponent(entity, Transform)!;
-
-      // Remove if off-screen
+    for (const [entity, , transform] of world.view(Pipe, WorldTransform)) {
+      // Remove the whole pair if off-screen
       if (transform.x + FLAPPY_CONFIG.pipes.width < 0) {
-        world.removeAllComponents(entity);
-        world.entities.destroy(entity);
+        world.commands.despawnRecursive(world.getParent(entity) ?? entity);
       }
     }
   },
@@ -120,26 +97,19 @@ export const PipeCleanupSystem: System = {
 /**
  * Scoring system - detects when bird passes pipes.
  */
-export function createScoringSystem(onScoreChange?: (score: number) => void): System {
+export function createScoringSystem(): System {
   return {
     name: 'ScoringSystem',
-    priority: SystemPriorities.GAME_LOGIC + 10,
+    priority: SystemPriorities.GAME_LOGIC,
+    runIf: notGameOver,
 
     update(world) {
-      if (world.getResource<boolean>('gameOver')) return;
-
-      const birds = world.query(Player, Transform);
-      if (birds.length === 0) return;
+      const bird = world.view(Player, Transform).first();
+      if (!bird) return;
 
-      const birdEntity = birds[0]!;
-      const birdTransform = world.getComponent(birdEntity, Transform)!;
-
-      const pipes = world.query(Pipe, Transform);
-
-      for (const entity of pipes) {
-        const pipe = world.getComponent(entity, Pipe)!;
-        const transform = world.getComponent(entity, Transform)!;
+      const [, , birdTransform] = bird;
 
+      for (const [entity, pipe, transform] of world.view(Pipe, WorldTransform)) {
         // Only check top pipes (avoid double scoring)
         if (!pipe.isTop || pipe.passed) continue;
 
@@ -147,11 +117,10 @@ export function createScoringSystem(onScoreChange?: (score: number) => void): Sy
         if (transform.x + FLAPPY_CONFIG.pipes.width < birdTransform.x) {
           world.addComponent(entity, Pipe, { ...pipe, passed: true });
 
-          const score = (world.getResource<number>('score') ?? 0) + 1;
-          world.setResource('score', score);
-          onScoreChange?.(score);
+          const score = world.getResource(ScoreResource) + 1;
+          world.setResource(ScoreResource, score);
 
-          world.emit('playSound', { type: 'score' });
+          world.emit(PlaySoundEvent, { type: 'score' });
         }
       }
     },
@@ -159,58 +128,49 @@ export function createScoringSystem(onScoreChange?: (score: number) => void): Sy
 }
 
 /**
- * Collision detection system for Flappy Bird.
+ * Collision handling for Flappy Bird: the ground and ceiling end the run,
+ * and so do pipe hits reported by the CollisionSystem. Crashing into the
+ * ground or a pipe knocks feathers loose.
  */
 export const FlappyCollisionSystem: System = {
   name: 'FlappyCollisionSystem',
-  priority: SystemPriorities.POST_PHYSICS + 10,
+  priority: SystemPriorities.POST_PHYSICS,
+  after: ['CollisionSystem'],
+  runIf: and(gameStarted, notGameOver),
 
   update(world) {
-    if (!world.getResource<boolean>('gameStarted')) return;
-    if (world.getResource<boolean>('gameOver')) return;
+    const player = world.view(Player, Transform).first();
+    if (!player) return;
 
-    const birds = world.query(Player, Transform, Collider);
-    if (birds.length === 0) return;
-
-    const birdEntity = birds[0]!;
-    const birdTransform = world.getComponent(birdEntity, Transform)!;
-    const birdCollider = world.getComponent(birdEntity, Collider)!;
+    const [birdEntity, , birdTransform] = player;
 
     const { canvas, ground, bird } = FLAPPY_CONFIG;
+    const crash = () =>
+      world.emit(ParticleBurstEvent, {
+        effect: 'crash',
+        x: birdTransform.x + bird.width / 2,
+        y: birdTransform.y + bird.height / 2,
+      });
 
     // Ground collision
     if (birdTransform.y + bird.height >= canvas.height - ground.height) {
-      world.emit('gameOver', { reason: 'ground' });
+      crash();
+      world.emit(GameOverEvent, { reason: 'ground' });
       return;
     }
 
     // Ceiling collision
     if (birdTransform.y <= 0) {
-      world.emit('gameOver', { reason: 'ceiling' });
+      world.emit(GameOverEvent, { reason: 'ceiling' });
       return;
     }
 
     // Pipe collision
-    const pipes = world.query(Pipe, Transform, Sprite);
-
-    for (const pipeEntity of pipes) {
-      const pipeTransform = world.getComponent(pipeEntity, Transform)!;
-      const pipeSprite = world.getComponent(pipeEntity, Sprite)!;
-
-      // AABB collision check
-      const birdLeft = birdTransform.x + birdCollider.offsetX;
-      const birdRight = birdLeft + birdCollider.width;
-      const birdTop = birdTransform.y + birdCollider.offsetY;
-      const birdBottom = birdTop + birdCollider.height;
-
-      const pipeLeft = pipeTransform.x;
-      const pipeRight = pipeLeft + pipeSprite.width;
-      const pipeTop = pipeTransform.y;
-      const pipeBottom = pipeTop + pipeSprite.height;
-
-      if (birdRight > pipeLeft && birdLeft < pipeRight &&
-          birdBottom > pipeTop && birdTop < pipeBottom) {
-        world.emit('gameOver', { reason: 'pipe' });
+    for (const { a, b } of world.read(CollisionEnterEvent)) {
+      if (a !== birdEntity && b !== birdEntity) continue;
+      if (world.hasComponent(a === birdEntity ? b : a, Pipe)) {
+        crash();
+        world.emit(GameOverEvent, { reason: 'pipe' });
         return;
       }
     }
@@ -220,46 +180,46 @@ export const FlappyCollisionSystem: System = {
 /**
  * Game over handler system.
  */
-export function createFlappyGameOverSystem(onGameOver?: () => void): System {
+export function createFlappyGameOverSystem(): System {
   return {
     name: 'FlappyGameOverSystem',
-    priority: SystemPriorities.GAME_LOGIC + 20,
+    priority: SystemPriorities.GAME_LOGIC,
+    // High score is loaded from localStorage by the game
+    requires: [HighScoreResource],
 
     init(world: World) {
-      world.on('gameOver', () => {
-        world.setResource('gameOver', true);
-
-        // Stop all pipes
-        const pipes = world.query(Pipe, Velocity);
-        for (const entity of pipes) {
-          world.addComponent(entity, Velocity, { x: 0, y: 0, z: 0 });
+      world.on(GameOverEvent, () => {
+        world.setResource(GameOverResource, true);
+
+        // Stop all pipe pairs
+        for (const [entity] of world.view(Pipe)) {
+          const pair = world.getParent(entity);
+          if (pair !== undefined) {
+            world.addComponent(pair, Velocity, { x: 0, y: 0, z: 0 });
+          }
         }
 
         // Disable bird gravity
-        const birds = world.query(Player, Gravity);
-        for (const entity of birds) {
-          const gravity = world.getComponent(entity, Gravity)!;
+        for (const [entity, , gravity] of world.view(Player, Gravity)) {
           world.addComponent(entity, Gravity, { ...gravity, enabled: false });
         }
 
         // Stop bird velocity
-        const birdVelocities = world.query(Player, Velocity);
-        for (const entity of birdVelocities) {
+        for (const [entity] of world.view(Player, Velocity)) {
           world.addComponent(entity, Velocity, { x: 0, y: 0, z: 0 });
         }
 
         // Update high score
-        const score = world.getResource<number>('score') ?? 0;
-        const highScore = world.getResource<number>('highScore') ?? 0;
+        const score = world.getResource(ScoreResource);
+        const highScore = world.getResource(HighScoreResource);
         if (score > highScore) {
-          world.setResource('highScore', score);
+          world.setResource(HighScoreResource, score);
           if (typeof window !== 'undefined') {
             localStorage.setItem('flappybird-high-score', String(score));
           }
         }
 
-        world.emit('playSound', { type: 'gameOver' });
-        onGameOver?.();
+        world.emit(PlaySoundEvent, { type: 'gameOver' });
       });
     },
 
@@ -272,16 +232,14 @@ export function createFlappyGameOverSystem(onGameOver?: () => void): System {
  */
 export const FlappyRestartSystem: System = {
   name: 'FlappyRestartSystem',
-  priority: SystemPriorities.INPUT + 20,
+  priority: SystemPriorities.INPUT,
+  after: ['InputSystem'],
+  runIf: isGameOver,
 
   update(world) {
-    if (!world.getResource<boolean>('gameOver')) return;
-
-    const birds = world.query(Player, ActionInput);
-    for (const entity of birds) {
-      const input = world.getComponent(entity, ActionInput);
-      if (input?.actionJustPressed) {
-        world.emit('restart');
+    for (const [, , input] of world.view(Player, ActionInput)) {
+      if (input.actionJustPressed) {
+        world.emit(RestartEvent);
       }
     }
   },
@@ -293,31 +251,10 @@ export const FlappyRestartSystem: System = {
 export const GroundScrollSystem: System = {
   name: 'GroundScrollSystem',
   priority: SystemPriorities.PRE_RENDER,
+  runIf: and(gameStarted, notGameOver),
 
   update(world) {
-    if (!world.getResource<boolean>('gameStarted')) return;
-    if (world.getResource<boolean>('gameOver')) return;
-
-    const offset = world.getResource<number>('groundOffset') ?? 0;
-    world.setResource('groundOffset', offset + FLAPPY_CONFIG.ground.scrollSpeed);
-  },
-};
-
-/**
- * Wing animation system.
- * Uses world resource 'wingAnimFrame' for frame counting (reset on restart).
- */
-export const WingAnimationSystem: System = {
-  name: 'WingAnimationSystem',
-  priority: SystemPriorities.PRE_RENDER,
-
-  update(world) {
-    const frameCount = (world.getResource<number>('wingAnimFrame') ?? 0) + 1;
-    world.setResource('wingAnimFrame', frameCount);
-
-    if (frameCount % 8 === 0) {
-      const wingFrame = world.getResource<number>('wingFrame') ?? 0;
-      world.setResource('wingFrame', wingFrame + 1);
-    }
+    const offset = world.getResource(GroundOffsetResource);
+    world.setResource(GroundOffsetResource, offset + FLAPPY_CONFIG.ground.scrollSpeed);
   },
 };
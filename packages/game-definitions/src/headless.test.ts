@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { Food, GridPosition, ScoreResource, TilemapResource, setTile } from '@repo/components';
+import { createHeadlessRunner } from './headless';
+import { createSnakeGame, SNAKE_CONFIG } from './snake';
+import {
+  createTetrominoGame,
+  getFullRows,
+  CurrentPieceResource,
+  LevelResource,
+  TotalLinesResource,
+  TETROMINO_CONFIG,
+} from './tetromino';
+
+describe('headless runner', () => {
+  it('snake eats food at step 27', () => {
+    const runner = createHeadlessRunner(createSnakeGame);
+    const { startPosition } = SNAKE_CONFIG.gameplay;
+
+    // Three cells ahead of the head; each 150ms move takes 9 steps of 1/60s
+    const [food] = runner.world.view(Food).first()!;
+    runner.world.updateComponent(food, GridPosition, {
+      col: startPosition.col + 3,
+      row: startPosition.row,
+    });
+
+    runner.step(26);
+    expect(runner.world.getResource(ScoreResource)).toBe(0);
+    runner.step();
+    expect(runner.world.getResource(ScoreResource)).toBe(10);
+
+    runner.destroy();
+  });
+
+  it.each([1, 3])('tetromino 4-line clear scores 800 × level %i', (level) => {
+    const runner = createHeadlessRunner(createTetrominoGame);
+    const { world } = runner;
+    const { cols, rows } = TETROMINO_CONFIG.grid;
+    const linesBefore = (level - 1) * TETROMINO_CONFIG.gameplay.linesPerLevel;
+
+    // Fill the bottom four rows but for the last column
+    const board = world.getResource(TilemapResource);
+    for (let row = rows - 4; row < rows; row++) {
+      for (let col = 0; col < cols - 1; col++) {
+        setTile(board, 'blocks', col, row, 'O');
+      }
+    }
+    world.setResource(LevelResource, level);
+    world.setResource(TotalLinesResource, linesBefore);
+    // An upright I piece (its blocks are 2 columns right of col) over the gap
+    world.setResource(CurrentPieceResource, { type: 'I', rotation: 1, col: cols - 3, row: 0 });
+
+    runner.setInput({ interact: true });
+    runner.step();
+
+    expect(world.getResource(ScoreResource)).toBe(800 * level);
+    expect(world.getResource(TotalLinesResource)).toBe(linesBefore + 4);
+    expect(getFullRows(board)).toEqual([]);
+
+    runner.destroy();
+  });
+});
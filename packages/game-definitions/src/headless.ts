@@ -0,0 +1,133 @@
+import { type World, TimeResource } from '@repo/ecs';
+import type { GameInput } from '@repo/systems';
+
+/**
+ * The parts of a game instance the headless runner uses.
+ * Every game factory's instance fits.
+ */
+export interface HeadlessGame {
+  world: World;
+  start: () => void;
+  destroy: () => void;
+}
+
+/**
+ * Options the runner passes to a game factory: no canvas (so no render
+ * system and no animation frames), scripted input and a fixed seed.
+ */
+export interface HeadlessGameOptions {
+  input: () => GameInput;
+  seed: number;
+}
+
+/**
+ * An input change at a given step. The input stays as set (like held
+ * buttons) until a later change.
+ */
+export interface InputScriptEntry {
+  /** Step at which the change takes effect (0 is the first step) */
+  step: number;
+  input: Partial<GameInput>;
+}
+
+export interface HeadlessRunnerOptions {
+  /** Input changes to apply as the run reaches their steps */
+  script?: InputScriptEntry[];
+  /** Seed for the game's random streams (default 0), so runs are reproducible */
+  seed?: number;
+}
+
+/**
+ * HeadlessRunner runs a game without a canvas or requestAnimationFrame,
+ * one fixed simulation step at a time, with scripted input. Use it for
+ * automated simulation and tests (e.g. in Node).
+ *
+ * @example
+ * const runner = createHeadlessRunner(createSnakeGame, {
+ *   script: [{ step: 10, input: { direction: 'DOWN' } }],
+ * });
+ * runner.runUntil((world) => world.getResource(ScoreResource) > 0, 600);
+ */
+export interface HeadlessRunner<G extends HeadlessGame> {
+  /** The game instance, already started */
+  readonly game: G;
+  /** The game's world, for inspecting resources and entities */
+  readonly world: World;
+  /** Simulation steps run so far */
+  readonly steps: number;
+  /** Input the next step will read */
+  readonly input: Readonly<GameInput>;
+  /** Change the input from the next step on (unset fields keep their value) */
+  setInput(input: Partial<GameInput>): void;
+  /** Run simulation steps (default 1) */
+  step(count?: number): void;
+  /**
+   * Run steps until `condition` holds (checked after each step), at most
+   * `maxSteps` of them. Returns whether the condition was met.
+   */
+  runUntil(condition: (world: World) => boolean, maxSteps: number): boolean;
+  /** Destroy the game */
+  destroy(): void;
+}
+
+/**
+ * Create a game headless and start it.
+ */
+export function createHeadlessRunner<G extends HeadlessGame>(
+  createGame: (options: HeadlessGameOptions) => G,
+  options: HeadlessRunnerOptions = {}
+): HeadlessRunner<G> {
+  const script = [...(options.script ?? [])].sort((a, b) => a.step - b.step);
+  let nextEntry = 0;
+  let steps = 0;
+  let input: GameInput = { direction: null, action: false, interact: false, back: false };
+
+  const game = createGame({ input: () => input, seed: options.seed ?? 0 });
+  const world = game.world;
+  game.start();
+
+  function runStep() {
+    while (nextEntry < script.length && script[nextEntry]!.step <= steps) {
+      input = { ...input, ...script[nextEntry]!.input };
+      nextEntry++;
+    }
+
+    world.runPhase('simulation', world.getResource(TimeResource).step);
+    steps++;
+  }
+
+  return {
+    game,
+    world,
+
+    get steps() {
+      return steps;
+    },
+
+    get input() {
+      return input;
+    },
+
+    setInput(changes) {
+      input = { ...input, ...changes };
+    },
+
+    step(count = 1) {
+      for (let i = 0; i < count; i++) {
+        runStep();
+      }
+    },
+
+    runUntil(condition, maxSteps) {
+      for (let i = 0; i < maxSteps; i++) {
+        runStep();
+        if (condition(world)) return true;
+      }
+      return false;
+    },
+
+    destroy() {
+      game.destroy();
+    },
+  };
+}
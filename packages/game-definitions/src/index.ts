@@ -12,3 +12,22 @@ export * from './soul-knight';
 
 // Tetromino (Tetris) game
 export * from './tetromino';
+
+// Headless runner (automated simulation and tests)
+export {
+  createHeadlessRunner,
+  type HeadlessRunner,
+  type HeadlessRunnerOptions,
+  type HeadlessGame,
+  type HeadlessGameOptions,
+  type InputScriptEntry,
+} from './headless';
+
+// Replay playback
+export {
+  createReplayPlayer,
+  type ReplayPlayer,
+  type ReplayPlayerOptions,
+  type ReplayableGame,
+  type ReplayGameOptions,
+} from './replay';
@@ -3,6 +3,11 @@
  * All visual and gameplay parameters in one place.
  */
 export const PACMAN_CONFIG = {
+  /** Replay compatibility: bump gameVersion when a change makes old replays play differently */
+  replay: {
+    game: 'pacman',
+    gameVersion: 2,
+  },
   canvas: {
     width: 400,
     height: 360,
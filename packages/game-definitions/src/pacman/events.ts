@@ -0,0 +1,13 @@
+import { defineEvent } from '@repo/ecs';
+
+/** Every pellet in the maze has been eaten */
+export const LevelCompleteEvent = defineEvent('pacman:levelComplete');
+
+/** Pac-Man ate a power pellet; ghosts become frightened */
+export const PowerPelletEatenEvent = defineEvent('pacman:powerPelletEaten');
+
+/** Pac-Man lost a life but has lives left */
+export const PacManDiedEvent = defineEvent('pacman:died');
+
+/** Pac-Man and the ghosts should return to their start positions */
+export const ResetPositionsEvent = defineEvent('pacman:resetPositions');
@@ -1,5 +1,31 @@
-import { createWorld, type World } from '@repo/ecs';
-import { InputSystem, createAudioSystem } from '@repo/systems';
+import { createWorld, createGameLoop, seedRandom, type World, type GameLoop } from '@repo/ecs';
+import {
+  RestartEvent,
+  GameOverResource,
+  HighScoreResource,
+  ScoreResource,
+  TilemapResource,
+  findTiles,
+  Player,
+  InputReceiver,
+  DirectionInput,
+  ActionInput,
+  GridPosition,
+  Sprite,
+  PacMan,
+  PacManMouth,
+  Ghost,
+  Pellet,
+  Tween,
+  type SoundType,
+} from '@repo/components';
+import {
+  InputSystem,
+  createInputSystem,
+  createAudioSystem,
+  TweenSystem,
+  type GameInput,
+} from '@repo/systems';
 import {
   PacManDirectionSystem,
   createPacManMovementSystem,
@@ -11,18 +37,28 @@ import {
   PacManRestartSystem,
 } from './systems';
 import { createPacManRenderSystem } from './render';
-import { createPacMan, createAllGhosts, createMazePellets } from './prefabs';
-import { PACMAN_CONFIG } from './config';
+import { createPacMan, createAllGhosts, createMazePellets, createPacManTilemap } from './prefabs';
+import {
+  GhostMoveTimerResource,
+  LevelCompleteResource,
+  PacManMoveTimerResource,
+  PelletsLeftResource,
+} from './resources';
 
 export interface PacManGameOptions {
-  canvas: HTMLCanvasElement;
-  playSound: (type: string) => void;
-  onScoreChange?: (score: number) => void;
-  onGameOver?: () => void;
+  /** Canvas to render to. Without one the game runs headless (see createHeadlessRunner). */
+  canvas?: HTMLCanvasElement;
+  playSound?: (type: SoundType) => void;
+  /** Read input from here instead of the input store (e.g. scripted input) */
+  input?: () => GameInput;
+  /** Seed for the game's random streams (defaults to the current time) */
+  seed?: number;
 }
 
 export interface PacManGameInstance {
   world: World;
+  /** The game loop, for pausing, fast-forwarding and frame stepping */
+  loop: GameLoop;
   start: () => void;
   stop: () => void;
   reset: () => void;
@@ -35,9 +71,8 @@ export interface PacManGameInstance {
  */
 export function createPacManGame(options: PacManGameOptions): PacManGameInstance {
   const world = createWorld();
-  let animationFrame: number | null = null;
-  let lastTime = 0;
-  let isRunning = false;
+  const loop = createGameLoop(world);
+  seedRandom(world, options.seed ?? Date.now());
 
   // Load high score from localStorage
   let initialHighScore = 0;
@@ -49,84 +84,88 @@ export function createPacManGame(options: PacManGameOptions): PacManGameInstance
   }
 
   // Count total pellets in maze
-  let totalPellets = 0;
-  for (const row of PACMAN_CONFIG.maze) {
-    for (const cell of row) {
-      if (cell === 2 || cell === 3) totalPellets++;
-    }
-  }
+  const maze = createPacManTilemap();
+  const totalPellets = findTiles(maze, 'maze', (_tile, type) => type.spawn !== undefined).length;
 
   // Initialize resources
-  world.setResource('score', 0);
-  world.setResource('highScore', initialHighScore);
-  world.setResource('gameOver', false);
-  world.setResource('levelComplete', false);
-  world.setResource('pelletsLeft', totalPellets);
+  world.setResource(TilemapResource, maze);
+  world.setResource(ScoreResource, 0);
+  world.setResource(HighScoreResource, initialHighScore);
+  world.setResource(GameOverResource, false);
+  world.setResource(LevelCompleteResource, false);
+  world.setResource(PelletsLeftResource, totalPellets);
+
+  // Register what start() and the systems create later, so snapshots also
+  // restore into a game that hasn't started (restore matches types by name)
+  world.registerComponent(Player);
+  world.registerComponent(InputReceiver);
+  world.registerComponent(DirectionInput);
+  world.registerComponent(ActionInput);
+  world.registerComponent(GridPosition);
+  world.registerComponent(Sprite);
+  world.registerComponent(PacMan);
+  world.registerComponent(PacManMouth);
+  world.registerComponent(Ghost);
+  world.registerComponent(Pellet);
+  world.registerComponent(Tween);
+  world.registerResource(PacManMoveTimerResource);
+  world.registerResource(GhostMoveTimerResource);
 
   // Add systems in priority order
-  world.addSystem(InputSystem);
+  world.addSystem(options.input ? createInputSystem({ source: options.input }) : InputSystem);
   world.addSystem(PacManDirectionSystem);
   world.addSystem(PacManRestartSystem);
   world.addSystem(createPacManMovementSystem());
   world.addSystem(createGhostMovementSystem());
-  world.addSystem(createPelletSystem(options.onScoreChange));
-  world.addSystem(createGhostCollisionSystem(options.onScoreChange));
-  world.addSystem(createPacManGameOverSystem(options.onGameOver));
+  world.addSystem(createPelletSystem());
+  world.addSystem(createGhostCollisionSystem());
+  world.addSystem(createPacManGameOverSystem());
   world.addSystem(ResetPositionsSystem);
-  world.addSystem(createPacManRenderSystem({ canvas: options.canvas }));
-  world.addSystem(createAudioSystem({ playSound: options.playSound }));
+  world.addSystem(TweenSystem);
+  if (options.canvas) {
+    world.addSystem(createPacManRenderSystem({ canvas: options.canvas }));
+  }
+  if (options.playSound) {
+    world.addSystem(createAudioSystem({ playSound: options.playSound }));
+  }
 
   // Handle restart
-  world.on('restart', () => {
+  world.on(RestartEvent, () => {
     reset();
   });
 
   function initEntities() {
     // Clear all entities
     for (const entity of world.entities.getAll()) {
-      world.removeAllComponents(entity);
-      world.entities.destroy(entity);
+      world.despawn(entity);
     }
 
     // Reset resources
-    world.setResource('score', 0);
-    world.setResource('gameOver', false);
-    world.setResource('levelComplete', false);
-    world.setResource('pelletsLeft', totalPellets);
+    world.resetResource(ScoreResource);
+    world.resetResource(GameOverResource);
+    world.resetResource(LevelCompleteResource);
+    world.setResource(PelletsLeftResource, totalPellets);
+    world.resetResource(PacManMoveTimerResource);
+    world.resetResource(GhostMoveTimerResource);
+    world.setResource(TilemapResource, createPacManTilemap());
 
     // Create initial entities
     createPacMan(world);
     createAllGhosts(world);
-    createMazePellets(world);
-  }
-
-  function gameLoop(time: number) {
-    if (!isRunning) return;
-
-    const deltaTime = (time - lastTime) / 1000;
-    lastTime = time;
-
-    world.update(deltaTime);
-
-    animationFrame = requestAnimationFrame(gameLoop);
+    createMazePellets(world, world.getResource(TilemapResource));
   }
 
   function start() {
-    if (isRunning) return;
+    if (loop.running) return;
 
     initEntities();
-    options.playSound('start');
-    isRunning = true;
-    lastTime = performance.now();
-    animationFrame = requestAnimationFrame(gameLoop);
+    options.playSound?.('start');
+    // Headless games are stepped by their caller
+    if (options.canvas) loop.start();
   }
 
   function stop() {
-    isRunning = false;
-    if (animationFrame !== null) {
-      cancelAnimationFrame(animationFrame);
-      animationFrame = null;
-    }
+    loop.stop();
   }
 
   function reset() {
@@ -139,7 +178,7 @@ export function createPacManGame(options: PacManGameOptions): PacManGameInstance
     world.destroy();
   }
 
-  return { world, start, stop, reset, destroy };
+  return { world, loop, start, stop, reset, destroy };
 }
 
 // Re-export config for consumers
@@ -5,11 +5,13 @@ export {
   createAllGhosts,
   createPellet,
   createMazePellets,
+  createPacManTilemap,
   isWall,
   isGhostHouse,
-  canMoveTo,
-  wrapTunnel,
+  getNextCell,
   getValidDirections,
+  PACMAN_TILESET,
+  type PacManTile,
 } from './prefabs';
 export {
   PacManDirectionSystem,
@@ -22,3 +24,10 @@ export {
   PacManRestartSystem,
 } from './systems';
 export { createPacManRenderSystem, type PacManRenderConfig } from './render';
+export {
+  LevelCompleteEvent,
+  PowerPelletEatenEvent,
+  PacManDiedEvent,
+  ResetPositionsEvent,
+} from './events';
+export { LevelCompleteResource, PelletsLeftResource } from './resources';
@@ -9,10 +9,41 @@ import {
   Ghost,
   Pellet,
   PacMan,
+  PacManMouth,
+  createTilemap,
+  createTileLayer,
+  findTiles,
+  getNeighbor,
+  getTile,
+  isWalkable,
+  type Direction,
   type GhostName,
+  type Tilemap,
+  type TileType,
+  type TweenTimeline,
 } from '@repo/components';
+import { playTween } from '@repo/systems';
 import { PACMAN_CONFIG } from './config';
 
+/**
+ * Pac-Man's mouth closing and opening again, over three moves each way.
+ * The movement system pauses it while he's stopped.
+ */
+export const CHOMP: TweenTimeline = {
+  name: 'chomp',
+  tracks: [
+    {
+      component: 'PacManMouth',
+      field: 'angle',
+      from: 45,
+      to: 5,
+      duration: (PACMAN_CONFIG.gameplay.pacmanSpeed * 3) / 1000,
+    },
+  ],
+  repeat: -1,
+  yoyo: true,
+};
+
 /**
  * Create the Pac-Man player entity with all required components.
  */
@@ -39,18 +70,23 @@ export function createPacMan(world: World): Entity {
     borderColor: undefined,
     borderWidth: 0,
     cornerRadius: 0,
+    atlas: '',
+    frame: '',
+    flipX: false,
+    flipY: false,
   });
 
   world.addComponent(entity, PacMan, {
     direction: startDirection,
     nextDirection: null,
-    mouthAngle: 45,
-    mouthOpening: false,
     powered: false,
     lives,
     ghostCombo: 1,
   });
 
+  world.addComponent(entity, PacManMouth, { angle: 45 });
+  playTween(world, entity, CHOMP);
+
   world.addComponent(entity, Player, { id: 0 });
   world.addComponent(entity, InputReceiver, { active: true, playerId: 0 });
   world.addComponent(entity, DirectionInput, {
@@ -99,6 +135,10 @@ export function createGhost(
     borderColor: undefined,
     borderWidth: 0,
     cornerRadius: 0,
+    atlas: '',
+    frame: '',
+    flipX: false,
+    flipY: false,
   });
 
   world.addComponent(entity, Ghost, {
@@ -178,6 +218,10 @@ export function createPellet(
     borderColor: undefined,
     borderWidth: 0,
     cornerRadius: 0,
+    atlas: '',
+    frame: '',
+    flipX: false,
+    flipY: false,
   });
 
   world.addComponent(entity, Pellet, {
@@ -189,131 +233,109 @@ export function createPellet(
   return entity;
 }
 
+/** Tiles of the Pac-Man maze */
+export type PacManTile = 'wall' | 'dot' | 'power' | 'house' | 'tunnel';
+
+/** Maze tile types. The ghost house is solid, and only ghosts walk through it. */
+export const PACMAN_TILESET: Record<PacManTile, TileType> = {
+  wall: { solid: true },
+  dot: { spawn: 'dot' },
+  power: { spawn: 'power' },
+  house: { solid: true },
+  tunnel: { tunnel: true },
+};
+
 /**
- * Create all pellets from the maze layout.
+ * Create the maze tilemap from the config's layout, as a single 'maze' layer.
  */
-export function createMazePellets(world: World): Entity[] {
-  const pellets: Entity[] = [];
-  const { maze } = PACMAN_CONFIG;
-
-  for (let row = 0; row < maze.length; row++) {
-    for (let col = 0; col < maze[row]!.length; col++) {
-      const cell = maze[row]![col];
-      if (cell === 2) {
-        // Regular dot
-        pellets.push(createPellet(world, col, row, false));
-      } else if (cell === 3) {
-        // Power pellet
-        pellets.push(createPellet(world, col, row, true));
-      }
-    }
-  }
+export function createPacManTilemap(): Tilemap<PacManTile> {
+  const { cols, rows, cellSize } = PACMAN_CONFIG.grid;
 
-  return pellets;
+  return createTilemap({
+    cols,
+    rows,
+    cellWidth: cellSize,
+    cellHeight: cellSize,
+    tileset: PACMAN_TILESET,
+    layers: {
+      maze: createTileLayer(PACMAN_CONFIG.maze, {
+        0: null,
+        1: 'wall',
+        2: 'dot',
+        3: 'power',
+        4: 'house',
+        5: 'tunnel',
+      }),
+    },
+  });
 }
 
 /**
- * Check if a position is a wall.
+ * Create all pellets from the maze's pellet spawn tiles.
  */
-export function isWall(col: number, row: number): boolean {
-  const { cols, rows } = PACMAN_CONFIG.grid;
-  if (col < 0 || col >= cols || row < 0 || row >= rows) {
-    // Check for tunnel
-    if (row === 9 && (col === -1 || col === cols)) {
-      return false; // Tunnel passage
-    }
-    return true;
-  }
-  const cell = PACMAN_CONFIG.maze[row]?.[col];
-  return cell === 1;
+export function createMazePellets(world: World, maze: Tilemap): Entity[] {
+  return findTiles(maze, 'maze', (_tile, type) => type.spawn !== undefined).map(
+    ({ col, row, tile }) => createPellet(world, col, row, tile === 'power')
+  );
 }
 
 /**
- * Check if a position is the ghost house.
+ * Check if a position is a wall.
  */
-export function isGhostHouse(col: number, row: number): boolean {
-  const cell = PACMAN_CONFIG.maze[row]?.[col];
-  return cell === 4;
+export function isWall(maze: Tilemap, col: number, row: number): boolean {
+  return getTile(maze, 'maze', col, row) === 'wall';
 }
 
 /**
- * Check if a position is valid for movement.
+ * Check if a position is the ghost house.
  */
-export function canMoveTo(col: number, row: number, isGhost: boolean = false): boolean {
-  const { cols } = PACMAN_CONFIG.grid;
-
-  // Handle tunnel wrapping
-  if (row === 9 && (col < 0 || col >= cols)) {
-    return true;
-  }
-
-  if (col < 0 || col >= cols || row < 0 || row >= PACMAN_CONFIG.maze.length) {
-    return false;
-  }
-
-  const cell = PACMAN_CONFIG.maze[row]?.[col];
-
-  // Walls are never passable
-  if (cell === 1) return false;
-
-  // Ghost house is only passable by ghosts
-  if (cell === 4) return isGhost;
-
-  return true;
+export function isGhostHouse(maze: Tilemap, col: number, row: number): boolean {
+  return getTile(maze, 'maze', col, row) === 'house';
 }
 
 /**
- * Wrap position through tunnel.
+ * The cell one step from a position (wrapping through the tunnel), or null
+ * if it's blocked. Only ghosts can enter the ghost house.
  */
-export function wrapTunnel(col: number, row: number): { col: number; row: number } {
-  const { cols } = PACMAN_CONFIG.grid;
-
-  if (row === 9) {
-    if (col < 0) return { col: cols - 1, row };
-    if (col >= cols) return { col: 0, row };
-  }
-
-  return { col, row };
+export function getNextCell(
+  maze: Tilemap,
+  col: number,
+  row: number,
+  direction: Direction,
+  isGhost: boolean = false
+): { col: number; row: number } | null {
+  const next = getNeighbor(maze, col, row, direction);
+  if (!next) return null;
+  return isWalkable(maze, next.col, next.row, { through: isGhost ? ['house'] : [] }) ? next : null;
 }
 
 /**
  * Get valid directions from a position.
  */
 export function getValidDirections(
+  maze: Tilemap,
   col: number,
   row: number,
-  currentDirection: 'UP' | 'DOWN' | 'LEFT' | 'RIGHT',
+  currentDirection: Direction,
   isGhost: boolean = false
-): ('UP' | 'DOWN' | 'LEFT' | 'RIGHT')[] {
-  const directions: ('UP' | 'DOWN' | 'LEFT' | 'RIGHT')[] = [];
-  const opposite: Record<string, string> = {
+): Direction[] {
+  const opposite: Record<Direction, Direction> = {
     UP: 'DOWN',
     DOWN: 'UP',
     LEFT: 'RIGHT',
     RIGHT: 'LEFT',
   };
 
-  if (canMoveTo(col, row - 1, isGhost) && currentDirection !== 'DOWN') {
-    directions.push('UP');
-  }
-  if (canMoveTo(col, row + 1, isGhost) && currentDirection !== 'UP') {
-    directions.push('DOWN');
-  }
-  if (canMoveTo(col - 1, row, isGhost) && currentDirection !== 'RIGHT') {
-    directions.push('LEFT');
-  }
-  if (canMoveTo(col + 1, row, isGhost) && currentDirection !== 'LEFT') {
-    directions.push('RIGHT');
-  }
+  const directions = (['UP', 'DOWN', 'LEFT', 'RIGHT'] as const).filter(
+    (direction) =>
+      direction !== opposite[currentDirection] &&
+      getNextCell(maze, col, row, direction, isGhost) !== null
+  );
 
   // If no valid directions (dead end), allow reversing
   if (directions.length === 0) {
-    const reverseDir = opposite[currentDirection] as 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
-    if (canMoveTo(
-      col + (reverseDir === 'RIGHT' ? 1 : reverseDir === 'LEFT' ? -1 : 0),
-      row + (reverseDir === 'DOWN' ? 1 : reverseDir === 'UP' ? -1 : 0),
-      isGhost
-    )) {
+    const reverseDir = opposite[currentDirection];
+    if (getNextCell(maze, col, row, reverseDir, isGhost)) {
       directions.push(reverseDir);
     }
   }
@@ -1,6 +1,18 @@
-import { type System, type World, SystemPriorities } from '@repo/ecs';
-import { GridPosition, Ghost, Pellet, PacMan } from '@repo/components';
+import { type System, type World, SystemPriorities, optional } from '@repo/ecs';
+import {
+  GridPosition,
+  Ghost,
+  Pellet,
+  PacMan,
+  PacManMouth,
+  GameOverResource,
+  HighScoreResource,
+  ScoreResource,
+  TilemapResource,
+  type Tilemap,
+} from '@repo/components';
 import { PACMAN_CONFIG } from './config';
+import { isWall } from './prefabs';
 
 export interface PacManRenderConfig {
   canvas: HTMLCanvasElement;
@@ -13,6 +25,11 @@ export function createPacManRenderSystem(config: PacManRenderConfig): System {
   let ctx: CanvasRenderingContext2D | null = null;
   let powerPelletBlink = 0;
 
+  // Maze and regular pellets are cached and redrawn only when they change
+  let mazeLayer: HTMLCanvasElement | null = null;
+  let drawnMaze: Tilemap | null = null;
+  let drawnMazeVersion = 0;
+
   const { width, height } = PACMAN_CONFIG.canvas;
   const { cellSize, cols, rows, offsetX, offsetY } = PACMAN_CONFIG.grid;
 
@@ -47,25 +64,24 @@ export function createPacManRenderSystem(config: PacManRenderConfig): System {
   }
 
   // Draw maze walls
-  function drawMaze(context: CanvasRenderingContext2D) {
-    const { maze, colors } = PACMAN_CONFIG;
+  function drawMaze(context: CanvasRenderingContext2D, maze: Tilemap) {
+    const { colors } = PACMAN_CONFIG;
 
     context.strokeStyle = colors.maze;
     context.lineWidth = 2;
 
-    for (let row = 0; row < maze.length; row++) {
-      for (let col = 0; col < maze[row]!.length; col++) {
-        const cell = maze[row]![col];
-        if (cell !== 1) continue;
+    for (let row = 0; row < maze.rows; row++) {
+      for (let col = 0; col < maze.cols; col++) {
+        if (!isWall(maze, col, row)) continue;
 
         const x = offsetX + col * cellSize;
         const y = offsetY + row * cellSize;
 
         // Check neighbors to draw proper wall segments
-        const hasTop = row > 0 && maze[row - 1]![col] === 1;
-        const hasBottom = row < maze.length - 1 && maze[row + 1]![col] === 1;
-        const hasLeft = col > 0 && maze[row]![col - 1] === 1;
-        const hasRight = col < maze[row]!.length - 1 && maze[row]![col + 1] === 1;
+        const hasTop = isWall(maze, col, row - 1);
+        const hasBottom = isWall(maze, col, row + 1);
+        const hasLeft = isWall(maze, col - 1, row);
+        const hasRight = isWall(maze, col + 1, row);
 
         context.beginPath();
 
@@ -248,9 +264,28 @@ export function createPacManRenderSystem(config: PacManRenderConfig): System {
     }
   }
 
+  // Redraw the cached background, maze and regular pellets
+  function drawMazeLayer(world: World, maze: Tilemap) {
+    const layerCtx = mazeLayer?.getContext('2d');
+    if (!layerCtx) return;
+
+    layerCtx.fillStyle = PACMAN_CONFIG.colors.background;
+    layerCtx.fillRect(0, 0, width, height);
+    drawMaze(layerCtx, maze);
+
+    for (const [, pellet, pos] of world.view(Pellet, GridPosition)) {
+      if (pellet.eaten || pellet.type === 'power') continue;
+      drawPellet(layerCtx, pos.col, pos.row);
+    }
+
+    drawnMaze = maze;
+    drawnMazeVersion = maze.version;
+  }
+
   return {
     name: 'PacManRenderSystem',
     priority: SystemPriorities.RENDER,
+    phase: 'render',
 
     init(world: World) {
       ctx = config.canvas.getContext('2d');
@@ -258,6 +293,11 @@ export function createPacManRenderSystem(config: PacManRenderConfig): System {
 
       config.canvas.width = width;
       config.canvas.height = height;
+
+      mazeLayer = document.createElement('canvas');
+      mazeLayer.width = width;
+      mazeLayer.height = height;
+      drawnMaze = null;
     },
 
     update(world) {
@@ -265,50 +305,41 @@ export function createPacManRenderSystem(config: PacManRenderConfig): System {
 
       powerPelletBlink++;
 
-      const gameOver = world.getResource<boolean>('gameOver') ?? false;
-      const score = world.getResource<number>('score') ?? 0;
-      const highScore = world.getResource<number>('highScore') ?? 0;
+      const gameOver = world.getResource(GameOverResource);
+      const score = world.getResource(ScoreResource);
+      const highScore = world.getResource(HighScoreResource);
       const { colors } = PACMAN_CONFIG;
 
-      // Clear with background
-      ctx.fillStyle = colors.background;
-      ctx.fillRect(0, 0, width, height);
-
-      // Draw maze
-      drawMaze(ctx);
-
-      // Draw pellets
-      const pellets = world.query(Pellet, GridPosition);
-      for (const entity of pellets) {
-        const pellet = world.getComponent(entity, Pellet);
-        const pos = world.getComponent(entity, GridPosition);
-        if (!pellet || !pos || pellet.eaten) continue;
+      // Draw background, maze and pellets (cached until the maze or a pellet changes)
+      const maze = world.getResource(TilemapResource);
+      if (
+        maze !== drawnMaze ||
+        maze.version !== drawnMazeVersion ||
+        world.changed(Pellet).length > 0 ||
+        world.removed(Pellet).length > 0
+      ) {
+        drawMazeLayer(world, maze);
+      }
+      if (mazeLayer) {
+        ctx.drawImage(mazeLayer, 0, 0);
+      }
 
-        if (pellet.type === 'power') {
-          drawPowerPellet(ctx, pos.col, pos.row);
-        } else {
-          drawPellet(ctx, pos.col, pos.row);
-        }
+      // Power pellets blink, so they are drawn every frame
+      for (const [, pellet, pos] of world.view(Pellet, GridPosition)) {
+        if (pellet.eaten || pellet.type !== 'power') continue;
+        drawPowerPellet(ctx, pos.col, pos.row);
       }
 
       // Draw ghosts
-      const ghosts = world.query(Ghost, GridPosition);
-      for (const entity of ghosts) {
-        const ghost = world.getComponent(entity, Ghost);
-        const pos = world.getComponent(entity, GridPosition);
-        if (!ghost || !pos) continue;
-
+      for (const [, ghost, pos] of world.view(Ghost, GridPosition)) {
         drawGhost(ctx, pos.col, pos.row, ghost.color, ghost.mode, ghost.frightenedTimer);
       }
 
       // Draw Pac-Man
-      const pacmans = world.query(PacMan, GridPosition);
-      for (const entity of pacmans) {
-        const pacman = world.getComponent(entity, PacMan);
-        const pos = world.getComponent(entity, GridPosition);
-        if (!pacman || !pos) continue;
-
-        drawPacMan(ctx, pos.col, pos.row, pacman.direction, pacman.mouthAngle);
+      const pacmans = world.view(PacMan, GridPosition, optional(PacManMouth));
+      for (const [, pacman, pos, mouth] of pacmans) {
+        const mouthAngle = mouth?.angle ?? PacManMouth.defaultValue.angle;
+        drawPacMan(ctx, pos.col, pos.row, pacman.direction, mouthAngle);
       }
 
       // Draw score
@@ -325,9 +356,7 @@ export function createPacManRenderSystem(config: PacManRenderConfig): System {
       ctx.fillText(`${highScore}`, width / 2, 26);
 
       // Draw lives
-      const lives = pacmans.length > 0
-        ? world.getComponent(pacmans[0]!, PacMan)?.lives ?? 0
-        : 0;
+      const lives = pacmans.first()?.[1].lives ?? 0;
 
       ctx.textAlign = 'right';
       ctx.fillText(`LIVES`, width - 10, 14);
@@ -387,6 +416,7 @@ export function createPacManRenderSystem(config: PacManRenderConfig): System {
     },
 
     cleanup() {
+      mazeLayer = null;
       ctx = null;
     },
   };
@@ -0,0 +1,17 @@
+import { defineResource } from '@repo/ecs';
+import type { GhostName } from '@repo/components';
+
+/** True once every pellet in the maze has been eaten */
+export const LevelCompleteResource = defineResource('pacman:levelComplete', false);
+
+/** Simulated time (ms) since Pac-Man last moved */
+export const PacManMoveTimerResource = defineResource('pacman:pacmanMoveTimer', 0);
+
+/** Simulated time (ms) since each ghost last moved */
+export const GhostMoveTimerResource = defineResource<Partial<Record<GhostName, number>>>(
+  'pacman:ghostMoveTimer',
+  {}
+);
+
+/** Pellets (including power pellets) still in the maze */
+export const PelletsLeftResource = defineResource('pacman:pelletsLeft', 0);
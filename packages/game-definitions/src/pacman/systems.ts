@@ -1,4 +1,13 @@
-import { type System, type World, SystemPriorities } from '@repo/ecs';
+import {
+  type System,
+  type World,
+  type Entity,
+  type LiveQuery,
+  SystemPriorities,
+  and,
+  resourceEquals,
+  getRandom,
+} from '@repo/ecs';
 import {
   GridPosition,
   DirectionInput,
@@ -7,43 +16,58 @@ import {
   Pellet,
   PacMan,
   type GhostName,
+  GameOverEvent,
+  RestartEvent,
+  PlaySoundEvent,
+  GameOverResource,
+  HighScoreResource,
+  ScoreResource,
+  TilemapResource,
+  type Direction,
 } from '@repo/components';
+import {
+  notGameOver,
+  isGameOver,
+  findPath,
+  tilemapPathGrid,
+  setTweenPaused,
+} from '@repo/systems';
 import { PACMAN_CONFIG } from './config';
 import {
-  canMoveTo,
-  wrapTunnel,
+  CHOMP,
+  getNextCell,
   getValidDirections,
-  isGhostHouse,
   createPacMan,
   createAllGhosts,
   createMazePellets,
 } from './prefabs';
+import { LevelCompleteEvent, PowerPelletEatenEvent, PacManDiedEvent, ResetPositionsEvent } from './events';
+import {
+  GhostMoveTimerResource,
+  LevelCompleteResource,
+  PacManMoveTimerResource,
+  PelletsLeftResource,
+} from './resources';
 
-type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
+/** Run while Pac-Man and the ghosts are moving (not game over or between levels) */
+const levelInProgress = and(notGameOver, resourceEquals(LevelCompleteResource, false));
 
 /**
  * Direction input system - handles Pac-Man direction changes.
  */
 export const PacManDirectionSystem: System = {
   name: 'PacManDirectionSystem',
-  priority: SystemPriorities.INPUT + 10,
+  priority: SystemPriorities.INPUT,
+  after: ['InputSystem'],
 
   update(world) {
-    const pacmans = world.query(PacMan, DirectionInput, GridPosition);
-
-    for (const entity of pacmans) {
-      const pacman = world.getComponent(entity, PacMan);
-      const input = world.getComponent(entity, DirectionInput);
-      const pos = world.getComponent(entity, GridPosition);
-      if (!pacman || !input || !pos) continue;
+    const maze = world.getResource(TilemapResource);
 
+    for (const [entity, pacman, input, pos] of world.view(PacMan, DirectionInput, GridPosition)) {
       // Store the requested direction as next direction
       if (input.direction && input.direction !== pacman.direction) {
         // Check if we can turn immediately
-        const newCol = pos.col + (input.direction === 'RIGHT' ? 1 : input.direction === 'LEFT' ? -1 : 0);
-        const newRow = pos.row + (input.direction === 'DOWN' ? 1 : input.direction === 'UP' ? -1 : 0);
-
-        if (canMoveTo(newCol, newRow)) {
+        if (getNextCell(maze, pos.col, pos.row, input.direction)) {
           world.addComponent(entity, PacMan, {
             ...pacman,
             direction: input.direction,
@@ -65,93 +89,41 @@ export const PacManDirectionSystem: System = {
  * Pac-Man movement system - moves Pac-Man on a timer.
  */
 export function createPacManMovementSystem(): System {
-  let timeSinceMove = 0;
-
   return {
     name: 'PacManMovementSystem',
     priority: SystemPriorities.PHYSICS,
-
-    init(world) {
-      world.on('restart', () => {
-        timeSinceMove = 0;
-      });
-    },
+    runIf: levelInProgress,
 
     update(world, deltaTime) {
-      if (world.getResource<boolean>('gameOver')) return;
-      if (world.getResource<boolean>('levelComplete')) return;
-
-      timeSinceMove += deltaTime * 1000;
+      const timeSinceMove = world.getResource(PacManMoveTimerResource) + deltaTime * 1000;
+      world.setResource(PacManMoveTimerResource, timeSinceMove);
 
       const { pacmanSpeed } = PACMAN_CONFIG.gameplay;
       if (timeSinceMove < pacmanSpeed) return;
-      timeSinceMove = 0;
-
-      const pacmans = world.query(PacMan, GridPosition);
+      world.resetResource(PacManMoveTimerResource);
 
-      for (const entity of pacmans) {
-        const pacman = world.getComponent(entity, PacMan);
-        const pos = world.getComponent(entity, GridPosition);
-        if (!pacman || !pos) continue;
+      const maze = world.getResource(TilemapResource);
 
+      for (const [entity, pacman, pos] of world.view(PacMan, GridPosition)) {
         // Try buffered direction first
         let direction = pacman.direction;
-        if (pacman.nextDirection) {
-          const nextCol = pos.col + (pacman.nextDirection === 'RIGHT' ? 1 : pacman.nextDirection === 'LEFT' ? -1 : 0);
-          const nextRow = pos.row + (pacman.nextDirection === 'DOWN' ? 1 : pacman.nextDirection === 'UP' ? -1 : 0);
-
-          if (canMoveTo(nextCol, nextRow)) {
-            direction = pacman.nextDirection;
-            world.addComponent(entity, PacMan, {
-              ...pacman,
-              direction,
-              nextDirection: null,
-            });
-          }
+        if (pacman.nextDirection && getNextCell(maze, pos.col, pos.row, pacman.nextDirection)) {
+          direction = pacman.nextDirection;
+          world.addComponent(entity, PacMan, { ...pacman, direction, nextDirection: null });
         }
 
-        // Calculate new position
-        let newCol = pos.col + (direction === 'RIGHT' ? 1 : direction === 'LEFT' ? -1 : 0);
-        let newRow = pos.row + (direction === 'DOWN' ? 1 : direction === 'UP' ? -1 : 0);
-
-        // Handle tunnel
-        const wrapped = wrapTunnel(newCol, newRow);
-        newCol = wrapped.col;
-        newRow = wrapped.row;
-
-        // Check if can move
-        if (canMoveTo(newCol, newRow)) {
+        // Move, wrapping through the tunnel
+        const next = getNextCell(maze, pos.col, pos.row, direction);
+        if (next) {
           world.addComponent(entity, GridPosition, {
             ...pos,
-            col: newCol,
-            row: newRow,
-          });
-
-          // Animate mouth
-          const currentPacman = world.getComponent(entity, PacMan)!;
-          let newMouthAngle = currentPacman.mouthAngle;
-          let newMouthOpening = currentPacman.mouthOpening;
-
-          if (newMouthOpening) {
-            newMouthAngle += 15;
-            if (newMouthAngle >= 45) {
-              newMouthAngle = 45;
-              newMouthOpening = false;
-            }
-          } else {
-            newMouthAngle -= 15;
-            if (newMouthAngle <= 5) {
-              newMouthAngle = 5;
-              newMouthOpening = true;
-            }
-          }
-
-          world.addComponent(entity, PacMan, {
-            ...currentPacman,
-            mouthAngle: newMouthAngle,
-            mouthOpening: newMouthOpening,
+            col: next.col,
+            row: next.row,
           });
         }
+
+        // Chomp only while moving
+        setTweenPaused(world, entity, CHOMP.name, !next);
       }
     },
   };
@@ -161,61 +133,43 @@ export function createPacManMovementSystem(): System {
  * Ghost AI system - handles ghost behavior and movement.
  */
 export function createGhostMovementSystem(): System {
-  let timeSinceMove = 0;
-
   return {
     name: 'GhostMovementSystem',
-    priority: SystemPriorities.PHYSICS + 10,
-
-    init(world) {
-      world.on('restart', () => {
-        timeSinceMove = 0;
-      });
-    },
+    priority: SystemPriorities.PHYSICS,
+    // Ghosts target Pac-Man's position after this step's move
+    after: ['PacManMovementSystem'],
+    runIf: levelInProgress,
 
     update(world, deltaTime) {
-      if (world.getResource<boolean>('gameOver')) return;
-      if (world.getResource<boolean>('levelComplete')) return;
+      // Each ghost moves on its own timer, as speeds differ by mode
+      const moveTimers = world.getResource(GhostMoveTimerResource);
 
-      timeSinceMove += deltaTime * 1000;
+      const maze = world.getResource(TilemapResource);
+      const ghostGrid = tilemapPathGrid(maze, { through: ['house'] });
 
       // Find Pac-Man for targeting
-      const pacmans = world.query(PacMan, GridPosition);
+      const pacman = world.view(PacMan, GridPosition).first();
       let pacmanPos: { col: number; row: number } | null = null;
       let pacmanDir: Direction = 'LEFT';
 
-      for (const entity of pacmans) {
-        const pos = world.getComponent(entity, GridPosition);
-        const pm = world.getComponent(entity, PacMan);
-        if (pos && pm) {
-          pacmanPos = { col: pos.col, row: pos.row };
-          pacmanDir = pm.direction;
-          break;
-        }
+      if (pacman) {
+        const [, pm, pos] = pacman;
+        pacmanPos = { col: pos.col, row: pos.row };
+        pacmanDir = pm.direction;
       }
 
-      const ghosts = world.query(Ghost, GridPosition);
-
-      for (const entity of ghosts) {
-        const ghost = world.getComponent(entity, Ghost);
-        const pos = world.getComponent(entity, GridPosition);
-        if (!ghost || !pos) continue;
+      for (const [entity, ghost, pos] of world.view(Ghost, GridPosition)) {
+        let currentGhost = ghost;
 
         // Update frightened timer
         if (ghost.frightenedTimer > 0) {
           const newTimer = ghost.frightenedTimer - deltaTime * 1000;
           if (newTimer <= 0) {
-            world.addComponent(entity, Ghost, {
-              ...ghost,
-              mode: 'chase',
-              frightenedTimer: 0,
-            });
+            currentGhost = { ...ghost, mode: 'chase', frightenedTimer: 0 };
           } else {
-            world.addComponent(entity, Ghost, {
-              ...ghost,
-              frightenedTimer: newTimer,
-            });
+            currentGhost = { ...ghost, frightenedTimer: newTimer };
           }
+          world.addComponent(entity, Ghost, currentGhost);
         }
 
         // Handle ghost house exit
@@ -243,14 +197,16 @@ export function createGhostMovementSystem(): System {
         }
 
         // Determine movement speed
-        const currentGhost = world.getComponent(entity, Ghost)!;
         const speed = currentGhost.mode === 'frightened'
           ? PACMAN_CONFIG.gameplay.frightenedSpeed
           : currentGhost.mode === 'eaten'
             ? PACMAN_CONFIG.gameplay.pacmanSpeed / 2
             : PACMAN_CONFIG.gameplay.ghostSpeed;
 
+        const timeSinceMove = (moveTimers[currentGhost.name] ?? 0) + deltaTime * 1000;
+        moveTimers[currentGhost.name] = timeSinceMove;
         if (timeSinceMove < speed) continue;
+        moveTimers[currentGhost.name] = 0;
 
         // Calculate target based on mode and ghost type
         let targetCol = pos.col;
@@ -273,11 +229,12 @@ export function createGhostMovementSystem(): System {
           }
         } else if (currentGhost.mode === 'frightened') {
           // Random movement when frightened
-          const validDirs = getValidDirections(pos.col, pos.row, currentGhost.direction, true);
+          const validDirs = getValidDirections(maze, pos.col, pos.row, currentGhost.direction, true);
           if (validDirs.length > 0) {
-            const randomDir = validDirs[Math.floor(Math.random() * validDirs.length)]!;
-            targetCol = pos.col + (randomDir === 'RIGHT' ? 1 : randomDir === 'LEFT' ? -1 : 0);
-            targetRow = pos.row + (randomDir === 'DOWN' ? 1 : randomDir === 'UP' ? -1 : 0);
+            const randomDir = getRandom(world).pick(validDirs);
+            const next = getNextCell(maze, pos.col, pos.row, randomDir, true)!;
+            targetCol = next.col;
+            targetRow = next.row;
           }
         } else if (pacmanPos) {
           // Chase/scatter targeting based on ghost type
@@ -305,42 +262,45 @@ export function createGhostMovementSystem(): System {
                 targetRow = pacmanPos.row;
               } else {
                 targetCol = 0;
-                targetRow = PACMAN_CONFIG.maze.length - 1;
+                targetRow = maze.rows - 1;
               }
               break;
           }
         }
 
-        // Find best direction toward target
-        const validDirs = getValidDirections(pos.col, pos.row, currentGhost.direction, true);
         let bestDir = currentGhost.direction;
-        let bestDist = Infinity;
 
-        for (const dir of validDirs) {
-          const nextCol = pos.col + (dir === 'RIGHT' ? 1 : dir === 'LEFT' ? -1 : 0);
-          const nextRow = pos.row + (dir === 'DOWN' ? 1 : dir === 'UP' ? -1 : 0);
-          const dist = Math.abs(nextCol - targetCol) + Math.abs(nextRow - targetRow);
+        if (currentGhost.mode === 'eaten') {
+          // Follow the shortest path home, which steering alone can miss.
+          // Reverse only if there's no way home without turning around.
+          const home = { col: targetCol, row: targetRow };
+          const path =
+            findPath(ghostGrid, pos, home, { heading: currentGhost.direction, noReverse: true }) ??
+            findPath(ghostGrid, pos, home);
+          if (path?.[0]) bestDir = path[0].direction;
+        } else {
+          // Steer toward the target: the valid direction whose next cell is nearest
+          const validDirs = getValidDirections(maze, pos.col, pos.row, currentGhost.direction, true);
+          let bestDist = Infinity;
+
+          for (const dir of validDirs) {
+            const next = getNextCell(maze, pos.col, pos.row, dir, true)!;
+            const dist = Math.abs(next.col - targetCol) + Math.abs(next.row - targetRow);
 
-          if (dist < bestDist) {
-            bestDist = dist;
-            bestDir = dir;
+            if (dist < bestDist) {
+              bestDist = dist;
+              bestDir = dir;
+            }
           }
         }
 
-        // Move ghost
-        let newCol = pos.col + (bestDir === 'RIGHT' ? 1 : bestDir === 'LEFT' ? -1 : 0);
-        let newRow = pos.row + (bestDir === 'DOWN' ? 1 : bestDir === 'UP' ? -1 : 0);
-
-        // Handle tunnel
-        const wrapped = wrapTunnel(newCol, newRow);
-        newCol = wrapped.col;
-        newRow = wrapped.row;
-
-        if (canMoveTo(newCol, newRow, true)) {
+        // Move ghost, wrapping through the tunnel
+        const next = getNextCell(maze, pos.col, pos.row, bestDir, true);
+        if (next) {
           world.addComponent(entity, GridPosition, {
             ...pos,
-            col: newCol,
-            row: newRow,
+            col: next.col,
+            row: next.row,
           });
           world.addComponent(entity, Ghost, {
             ...currentGhost,
@@ -348,68 +308,88 @@ export function createGhostMovementSystem(): System {
           });
         }
       }
-
-      timeSinceMove = 0;
     },
   };
 }
 
 /**
  * Pellet eating system - handles Pac-Man eating pellets.
+ * Keeps a cell index of pellets in sync with a live query, so each move
+ * is a single lookup instead of a scan over every pellet in the maze.
  */
-export function createPelletSystem(onScoreChange?: (score: number) => void): System {
+export function createPelletSystem(): System {
+  let pellets: LiveQuery | null = null;
+  const pelletsByCell = new Map<string, Entity>();
+  const cellsByPellet = new Map<Entity, string>();
+
   return {
     name: 'PelletSystem',
     priority: SystemPriorities.GAME_LOGIC,
+    // Pellet count comes from the maze layout
+    requires: [PelletsLeftResource],
+
+    init(world) {
+      pellets = world.defineQuery([Pellet, GridPosition]);
+    },
 
     update(world) {
-      if (world.getResource<boolean>('gameOver')) return;
+      if (!pellets) return;
 
-      const pacmans = world.query(PacMan, GridPosition);
-      const pellets = world.query(Pellet, GridPosition);
+      // Sync the index with pellets spawned/removed since last frame
+      for (const entity of pellets.removed) {
+        const cell = cellsByPellet.get(entity);
+        if (cell !== undefined && pelletsByCell.get(cell) === entity) {
+          pelletsByCell.delete(cell);
+        }
+        cellsByPellet.delete(entity);
+      }
+      for (const entity of pellets.added) {
+        const pos = world.getComponent(entity, GridPosition);
+        if (!pos) continue;
+        const cell = `${pos.col},${pos.row}`;
+        pelletsByCell.set(cell, entity);
+        cellsByPellet.set(entity, cell);
+      }
 
-      for (const pacmanEntity of pacmans) {
-        const pacmanPos = world.getComponent(pacmanEntity, GridPosition);
-        const pacman = world.getComponent(pacmanEntity, PacMan);
-        if (!pacmanPos || !pacman) continue;
+      // Checked here rather than with runIf, so the index above stays in
+      // sync while the game is over
+      if (world.getResource(GameOverResource)) return;
 
-        for (const pelletEntity of pellets) {
-          const pelletPos = world.getComponent(pelletEntity, GridPosition);
-          const pellet = world.getComponent(pelletEntity, Pellet);
-          if (!pelletPos || !pellet || pellet.eaten) continue;
+      for (const [, , pacmanPos] of world.view(PacMan, GridPosition)) {
+        const cell = `${pacmanPos.col},${pacmanPos.row}`;
+        const pelletEntity = pelletsByCell.get(cell);
+        if (pelletEntity === undefined) continue;
 
-          // Check collision
-          if (pacmanPos.col === pelletPos.col && pacmanPos.row === pelletPos.row) {
-            // Eat pellet
-            world.addComponent(pelletEntity, Pellet, { ...pellet, eaten: true });
-
-            // Hide pellet
-            world.removeAllComponents(pelletEntity);
-            world.entities.destroy(pelletEntity);
-
-            // Update score
-            const currentScore = world.getResource<number>('score') ?? 0;
-            const newScore = currentScore + pellet.points;
-            world.setResource('score', newScore);
-            onScoreChange?.(newScore);
-
-            // Update pellet count
-            const pelletsLeft = (world.getResource<number>('pelletsLeft') ?? 1) - 1;
-            world.setResource('pelletsLeft', pelletsLeft);
-
-            // Check for level complete
-            if (pelletsLeft <= 0) {
-              world.emit('levelComplete');
-            }
+        const pellet = world.getComponent(pelletEntity, Pellet);
+        if (!pellet || pellet.eaten) continue;
 
-            // Power pellet effect
-            if (pellet.type === 'power') {
-              world.emit('powerPelletEaten');
-              world.emit('playSound', { type: 'powerUp' });
-            } else {
-              world.emit('playSound', { type: 'eat' });
-            }
-          }
+        // Eat pellet
+        pelletsByCell.delete(cell);
+        world.addComponent(pelletEntity, Pellet, { ...pellet, eaten: true });
+
+        // Remove pellet once the system is done
+        world.commands.despawn(pelletEntity);
+
+        // Update score
+        const currentScore = world.getResource(ScoreResource);
+        const newScore = currentScore + pellet.points;
+        world.setResource(ScoreResource, newScore);
+
+        // Update pellet count
+        const pelletsLeft = world.getResource(PelletsLeftResource) - 1;
+        world.setResource(PelletsLeftResource, pelletsLeft);
+
+        // Check for level complete
+        if (pelletsLeft <= 0) {
+          world.emit(LevelCompleteEvent);
+        }
+
+        // Power pellet effect
+        if (pellet.type === 'power') {
+          world.emit(PowerPelletEatenEvent);
+          world.emit(PlaySoundEvent, { type: 'powerUp' });
+        } else {
+          world.emit(PlaySoundEvent, { type: 'eat' });
         }
       }
     },
@@ -419,20 +399,21 @@ export function createPelletSystem(onScoreChange?: (score: number) => void): Sys
 /**
  * Ghost collision system - handles Pac-Man/Ghost collisions.
  */
-export function createGhostCollisionSystem(onScoreChange?: (score: number) => void): System {
+export function createGhostCollisionSystem(): System {
   return {
     name: 'GhostCollisionSystem',
-    priority: SystemPriorities.GAME_LOGIC + 5,
+    priority: SystemPriorities.GAME_LOGIC,
+    // Power pellets eaten this step frighten ghosts before collisions
+    after: ['PelletSystem'],
+    runIf: notGameOver,
 
     init(world) {
       // Handle power pellet eaten
-      world.on('powerPelletEaten', () => {
-        const ghosts = world.query(Ghost, GridPosition);
+      world.on(PowerPelletEatenEvent, () => {
         const { frightenedDuration } = PACMAN_CONFIG.gameplay;
 
-        for (const entity of ghosts) {
-          const ghost = world.getComponent(entity, Ghost);
-          if (!ghost || ghost.mode === 'eaten') continue;
+        for (const [entity, ghost] of world.view(Ghost, GridPosition)) {
+          if (ghost.mode === 'eaten') continue;
 
           world.addComponent(entity, Ghost, {
             ...ghost,
@@ -442,36 +423,21 @@ export function createGhostCollisionSystem(onScoreChange?: (score: number) => vo
         }
 
         // Reset ghost combo
-        const pacmans = world.query(PacMan);
-        for (const entity of pacmans) {
-          const pacman = world.getComponent(entity, PacMan);
-          if (pacman) {
-            world.addComponent(entity, PacMan, {
-              ...pacman,
-              powered: true,
-              ghostCombo: 1,
-            });
-          }
+        for (const [entity, pacman] of world.view(PacMan)) {
+          world.addComponent(entity, PacMan, {
+            ...pacman,
+            powered: true,
+            ghostCombo: 1,
+          });
         }
       });
     },
 
     update(world) {
-      if (world.getResource<boolean>('gameOver')) return;
-
-      const pacmans = world.query(PacMan, GridPosition);
-      const ghosts = world.query(Ghost, GridPosition);
-
-      for (const pacmanEntity of pacmans) {
-        const pacmanPos = world.getComponent(pacmanEntity, GridPosition);
-        const pacman = world.getComponent(pacmanEntity, PacMan);
-        if (!pacmanPos || !pacman) continue;
-
-        for (const ghostEntity of ghosts) {
-          const ghostPos = world.getComponent(ghostEntity, GridPosition);
-          const ghost = world.getComponent(ghostEntity, Ghost);
-          if (!ghostPos || !ghost) continue;
+      const ghosts = world.view(Ghost, GridPosition);
 
+      for (const [pacmanEntity, pacman, pacmanPos] of world.view(PacMan, GridPosition)) {
+        for (const [ghostEntity, ghost, ghostPos] of ghosts) {
           // Check collision
           if (pacmanPos.col === ghostPos.col && pacmanPos.row === ghostPos.row) {
             if (ghost.mode === 'frightened') {
@@ -484,10 +450,9 @@ export function createGhostCollisionSystem(onScoreChange?: (score: number) => vo
 
               // Score with combo
               const points = PACMAN_CONFIG.gameplay.pointsPerGhost * pacman.ghostCombo;
-              const currentScore = world.getResource<number>('score') ?? 0;
+              const currentScore = world.getResource(ScoreResource);
               const newScore = currentScore + points;
-              world.setResource('score', newScore);
-              onScoreChange?.(newScore);
+              world.setResource(ScoreResource, newScore);
 
               // Increase combo
               world.addComponent(pacmanEntity, PacMan, {
@@ -495,7 +460,7 @@ export function createGhostCollisionSystem(onScoreChange?: (score: number) => vo
                 ghostCombo: pacman.ghostCombo * 2,
               });
 
-              world.emit('playSound', { type: 'eatGhost' });
+              world.emit(PlaySoundEvent, { type: 'eatGhost' });
             } else if (ghost.mode !== 'eaten') {
               // Pac-Man dies
               const lives = pacman.lives - 1;
@@ -505,9 +470,9 @@ export function createGhostCollisionSystem(onScoreChange?: (score: number) => vo
               });
 
               if (lives <= 0) {
-                world.emit('gameOver', { reason: 'ghost' });
+                world.emit(GameOverEvent, { reason: 'ghost' });
               } else {
-                world.emit('pacmanDied');
+                world.emit(PacManDiedEvent);
               }
             }
           }
@@ -520,38 +485,39 @@ export function createGhostCollisionSystem(onScoreChange?: (score: number) => vo
 /**
  * Game over handler system.
  */
-export function createPacManGameOverSystem(onGameOver?: () => void): System {
+export function createPacManGameOverSystem(): System {
   return {
     name: 'PacManGameOverSystem',
-    priority: SystemPriorities.GAME_LOGIC + 20,
+    priority: SystemPriorities.GAME_LOGIC,
+    // High score is loaded from localStorage by the game
+    requires: [HighScoreResource],
 
     init(world) {
-      world.on('gameOver', () => {
-        world.setResource('gameOver', true);
+      world.on(GameOverEvent, () => {
+        world.setResource(GameOverResource, true);
 
         // Update high score
-        const score = world.getResource<number>('score') ?? 0;
-        const highScore = world.getResource<number>('highScore') ?? 0;
+        const score = world.getResource(ScoreResource);
+        const highScore = world.getResource(HighScoreResource);
         if (score > highScore) {
-          world.setResource('highScore', score);
+          world.setResource(HighScoreResource, score);
           if (typeof window !== 'undefined') {
             localStorage.setItem('pacman-high-score', String(score));
           }
         }
 
-        world.emit('playSound', { type: 'gameOver' });
-        onGameOver?.();
+        world.emit(PlaySoundEvent, { type: 'gameOver' });
       });
 
-      world.on('levelComplete', () => {
-        world.setResource('levelComplete', true);
-        world.emit('playSound', { type: 'levelComplete' });
+      world.on(LevelCompleteEvent, () => {
+        world.setResource(LevelCompleteResource, true);
+        world.emit(PlaySoundEvent, { type: 'levelComplete' });
       });
 
-      world.on('pacmanDied', () => {
+      world.on(PacManDiedEvent, () => {
         // Reset positions
-        world.emit('playSound', { type: 'death' });
-        world.emit('resetPositions');
+        world.emit(PlaySoundEvent, { type: 'death' });
+        world.emit(ResetPositionsEvent);
       });
     },
 
@@ -564,54 +530,44 @@ export function createPacManGameOverSystem(onGameOver?: () => void): System {
  */
 export const ResetPositionsSystem: System = {
   name: 'ResetPositionsSystem',
-  priority: SystemPriorities.GAME_LOGIC + 25,
+  priority: SystemPriorities.GAME_LOGIC,
 
   init(world) {
-    world.on('resetPositions', () => {
+    world.on(ResetPositionsEvent, () => {
       const { startPosition, startDirection } = PACMAN_CONFIG.gameplay;
       const { ghosts } = PACMAN_CONFIG;
 
       // Reset Pac-Man
-      const pacmans = world.query(PacMan, GridPosition);
-      for (const entity of pacmans) {
-        const pos = world.getComponent(entity, GridPosition);
-        const pacman = world.getComponent(entity, PacMan);
-        if (pos && pacman) {
-          world.addComponent(entity, GridPosition, {
-            ...pos,
-            col: startPosition.col,
-            row: startPosition.row,
-          });
-          world.addComponent(entity, PacMan, {
-            ...pacman,
-            direction: startDirection,
-            nextDirection: null,
-            powered: false,
-            ghostCombo: 1,
-          });
-        }
+      for (const [entity, pacman, pos] of world.view(PacMan, GridPosition)) {
+        world.addComponent(entity, GridPosition, {
+          ...pos,
+          col: startPosition.col,
+          row: startPosition.row,
+        });
+        world.addComponent(entity, PacMan, {
+          ...pacman,
+          direction: startDirection,
+          nextDirection: null,
+          powered: false,
+          ghostCombo: 1,
+        });
       }
 
       // Reset ghosts
-      const ghostEntities = world.query(Ghost, GridPosition);
-      for (const entity of ghostEntities) {
-        const ghost = world.getComponent(entity, Ghost);
-        const pos = world.getComponent(entity, GridPosition);
-        if (ghost && pos) {
-          const ghostConfig = ghosts[ghost.name as keyof typeof ghosts];
-          world.addComponent(entity, GridPosition, {
-            ...pos,
-            col: ghostConfig.col,
-            row: ghostConfig.row,
-          });
-          world.addComponent(entity, Ghost, {
-            ...ghost,
-            mode: 'scatter',
-            inHouse: ghost.name !== 'blinky',
-            houseTimer: ghost.name === 'blinky' ? 0 : 2000,
-            frightenedTimer: 0,
-          });
-        }
+      for (const [entity, ghost, pos] of world.view(Ghost, GridPosition)) {
+        const ghostConfig = ghosts[ghost.name as keyof typeof ghosts];
+        world.addComponent(entity, GridPosition, {
+          ...pos,
+          col: ghostConfig.col,
+          row: ghostConfig.row,
+        });
+        world.addComponent(entity, Ghost, {
+          ...ghost,
+          mode: 'scatter',
+          inHouse: ghost.name !== 'blinky',
+          houseTimer: ghost.name === 'blinky' ? 0 : 2000,
+          frightenedTimer: 0,
+        });
       }
     });
   },
@@ -624,16 +580,14 @@ export const ResetPositionsSystem: System = {
  */
 export const PacManRestartSystem: System = {
   name: 'PacManRestartSystem',
-  priority: SystemPriorities.INPUT + 20,
+  priority: SystemPriorities.INPUT,
+  after: ['InputSystem'],
+  runIf: isGameOver,
 
   update(world) {
-    if (!world.getResource<boolean>('gameOver')) return;
-
-    const entities = world.query(ActionInput);
-    for (const entity of entities) {
-      const input = world.getComponent(entity, ActionInput);
-      if (input?.actionJustPressed) {
-        world.emit('restart');
+    for (const [, input] of world.view(ActionInput)) {
+      if (input.actionJustPressed) {
+        world.emit(RestartEvent);
       }
     }
   },
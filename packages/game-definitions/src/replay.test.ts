@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { createInputRecorder, type GameInput, type Replay } from '@repo/systems';
+import { createReplayPlayer, type ReplayableGame, type ReplayGameOptions } from './replay';
+import { createSnakeGame, SNAKE_CONFIG } from './snake';
+import { createPacManGame, PACMAN_CONFIG } from './pacman';
+import { createFlappyGame, FLAPPY_CONFIG } from './flappy';
+import { createTetrominoGame, TETROMINO_CONFIG } from './tetromino';
+import { createSoulKnightGame, SOUL_KNIGHT_CONFIG } from './soul-knight';
+
+const turns: GameInput['direction'][] = ['RIGHT', 'DOWN', 'LEFT', 'UP'];
+
+interface GameCase {
+  name: string;
+  createGame: (options: ReplayGameOptions) => ReplayableGame;
+  info: { game: string; gameVersion: number };
+  inputAt: (step: number) => Partial<GameInput>;
+}
+
+const games: GameCase[] = [
+  {
+    name: 'snake',
+    createGame: createSnakeGame,
+    info: SNAKE_CONFIG.replay,
+    inputAt: (step) => ({ direction: turns[Math.floor(step / 20) % 4]! }),
+  },
+  {
+    name: 'pacman',
+    createGame: createPacManGame,
+    info: PACMAN_CONFIG.replay,
+    inputAt: (step) => ({ direction: turns[Math.floor(step / 45) % 4]! }),
+  },
+  {
+    name: 'flappy',
+    createGame: createFlappyGame,
+    info: FLAPPY_CONFIG.replay,
+    inputAt: (step) => ({ action: step % 45 === 0 }),
+  },
+  {
+    name: 'tetromino',
+    createGame: createTetrominoGame,
+    info: TETROMINO_CONFIG.replay,
+    inputAt: (step) => ({ direction: step % 30 < 10 ? 'LEFT' : null, interact: step % 60 === 0 }),
+  },
+  {
+    name: 'soul-knight',
+    createGame: createSoulKnightGame,
+    info: SOUL_KNIGHT_CONFIG.replay,
+    inputAt: (step) => ({ direction: turns[Math.floor(step / 30) % 4]!, action: step % 15 === 0 }),
+  },
+];
+
+/** Play a game with scripted input for `steps` steps, recording it */
+function record(game: GameCase, seed: number, steps: number) {
+  let step = 0;
+  const recorder = createInputRecorder(() => ({
+    direction: null,
+    action: false,
+    interact: false,
+    back: false,
+    ...game.inputAt(step),
+  }));
+  const instance = game.createGame({ input: recorder.source, seed });
+  instance.start();
+  for (; step < steps; step++) {
+    instance.loop.step();
+  }
+
+  const replay: Replay = recorder.toReplay({ ...game.info, seed });
+  const snapshot = instance.world.snapshot();
+  instance.destroy();
+  return { replay, snapshot };
+}
+
+describe('replays', () => {
+  it.each(games)('$name plays back to the recorded state', (game) => {
+    const { replay, snapshot } = record(game, 5, 600);
+    expect(replay.steps).toBe(600);
+
+    const player = createReplayPlayer(
+      game.createGame,
+      JSON.parse(JSON.stringify(replay)) as Replay,
+      { game: game.info }
+    );
+    while (!player.finished) player.stepFrame();
+
+    expect(player.steps).toBe(600);
+    expect(player.paused).toBe(true);
+    expect(player.game.world.snapshot()).toEqual(snapshot);
+    player.destroy();
+  });
+
+  it('refuses replays of another game or game version', () => {
+    const { replay } = record(games[0]!, 5, 10);
+
+    expect(() =>
+      createReplayPlayer(createFlappyGame, replay, { game: FLAPPY_CONFIG.replay })
+    ).toThrow('Replay is for "snake", not "flappy"');
+    expect(() =>
+      createReplayPlayer(createSnakeGame, replay, {
+        game: { ...SNAKE_CONFIG.replay, gameVersion: SNAKE_CONFIG.replay.gameVersion + 1 },
+      })
+    ).toThrow(/recorded with snake version/);
+  });
+});
@@ -0,0 +1,144 @@
+import type { GameLoop, World } from '@repo/ecs';
+import type { SoundType } from '@repo/components';
+import { type GameInput, type Replay, createInputPlayback } from '@repo/systems';
+
+/**
+ * The parts of a game instance replay playback uses.
+ * Every game factory's instance fits.
+ */
+export interface ReplayableGame {
+  world: World;
+  loop: GameLoop;
+  start: () => void;
+  destroy: () => void;
+}
+
+/**
+ * Options the player passes to a game factory: the replay's seed, and its
+ * recorded input in place of the live input store.
+ */
+export interface ReplayGameOptions {
+  canvas?: HTMLCanvasElement;
+  playSound?: (type: SoundType) => void;
+  input: () => GameInput;
+  seed: number;
+}
+
+export interface ReplayPlayerOptions {
+  /** The game's replay info (its config's `replay`), checked against the replay */
+  game: { game: string; gameVersion: number };
+  /** Canvas to render to. Without one, playback only advances by stepFrame(). */
+  canvas?: HTMLCanvasElement;
+  playSound?: (type: SoundType) => void;
+}
+
+/**
+ * ReplayPlayer plays a recorded run back in a fresh game: same seed, and
+ * the recorded input on each simulation step, so the run plays out exactly
+ * as it was recorded. Playback pauses itself when the recording ends.
+ *
+ * @example
+ * const player = createReplayPlayer(createSnakeGame, replay, {
+ *   game: SNAKE_CONFIG.replay,
+ *   canvas,
+ * });
+ * player.speed = 4; // fast-forward
+ * player.pause();
+ * player.stepFrame(); // one simulation step at a time
+ */
+export interface ReplayPlayer<G extends ReplayableGame> {
+  /** The game instance, already started */
+  readonly game: G;
+  readonly replay: Replay;
+  /** Simulation steps played so far */
+  readonly steps: number;
+  /** Whether the whole recording has been played */
+  readonly finished: boolean;
+  /** Playback speed: 1 is real time, 4 fast-forwards at four times */
+  speed: number;
+  readonly paused: boolean;
+  pause(): void;
+  /** Resume playback (does nothing once finished) */
+  resume(): void;
+  /** Play one simulation step and render it (pauses playback first) */
+  stepFrame(): void;
+  /** Destroy the game */
+  destroy(): void;
+}
+
+/**
+ * Create a game that plays back a replay, and start it.
+ * Throws if the replay was recorded in another game or game version.
+ */
+export function createReplayPlayer<G extends ReplayableGame>(
+  createGame: (options: ReplayGameOptions) => G,
+  replay: Replay,
+  options: ReplayPlayerOptions
+): ReplayPlayer<G> {
+  if (replay.game !== options.game.game) {
+    throw new Error(`Replay is for "${replay.game}", not "${options.game.game}"`);
+  }
+  if (replay.gameVersion !== options.game.gameVersion) {
+    throw new Error(
+      `Replay was recorded with ${replay.game} version ${replay.gameVersion}, ` +
+        `but this is version ${options.game.gameVersion}`
+    );
+  }
+
+  const playback = createInputPlayback(replay);
+
+  const game = createGame({
+    canvas: options.canvas,
+    playSound: options.playSound,
+    seed: replay.seed,
+    input: () => {
+      const input = playback.source();
+      // Stop after the last recorded step; its input is still applied
+      if (playback.finished) game.loop.paused = true;
+      return input;
+    },
+  });
+  game.start();
+
+  return {
+    game,
+    replay,
+
+    get steps() {
+      return playback.steps;
+    },
+
+    get finished() {
+      return playback.finished;
+    },
+
+    get speed() {
+      return game.loop.timeScale;
+    },
+
+    set speed(speed) {
+      game.loop.timeScale = speed;
+    },
+
+    get paused() {
+      return game.loop.paused;
+    },
+
+    pause() {
+      game.loop.paused = true;
+    },
+
+    resume() {
+      if (!playback.finished) game.loop.paused = false;
+    },
+
+    stepFrame() {
+      game.loop.paused = true;
+      if (!playback.finished) game.loop.step();
+    },
+
+    destroy() {
+      game.destroy();
+    },
+  };
+}
@@ -1,8 +1,15 @@
+import type { ParticleEffect } from '@repo/components';
+
 /**
  * Snake game configuration constants.
  * All visual and gameplay parameters in one place.
  */
 export const SNAKE_CONFIG = {
+  /** Replay compatibility: bump gameVersion when a change makes old replays play differently */
+  replay: {
+    game: 'snake',
+    gameVersion: 1,
+  },
   canvas: {
     width: 400,
     height: 360,
@@ -38,3 +45,20 @@ export const SNAKE_CONFIG = {
 } as const;
 
 export type SnakeConfig = typeof SNAKE_CONFIG;
+
+/**
+ * Particle effects, by the names the systems emit ParticleBurstEvents with.
+ */
+export const SNAKE_PARTICLES = {
+  /** Burst where food was eaten */
+  foodEaten: {
+    count: 14,
+    lifetime: 0.4,
+    speedMin: 40,
+    speedMax: 120,
+    colorStart: SNAKE_CONFIG.colors.food,
+    colorEnd: '#ffcc00',
+    sizeStart: 4,
+    sizeEnd: 1,
+  },
+} satisfies Record<string, ParticleEffect>;
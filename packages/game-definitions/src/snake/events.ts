@@ -0,0 +1,7 @@
+import { defineEvent, type Entity } from '@repo/ecs';
+
+/** Snake's head reached a food entity */
+export const FoodEatenEvent = defineEvent<{ entity: Entity }>('snake:foodEaten');
+
+/** Snake's head moved to a new cell */
+export const SnakeMovedEvent = defineEvent<{ col: number; row: number }>('snake:moved');
@@ -1,5 +1,27 @@
-import { createWorld, type World } from '@repo/ecs';
-import { InputSystem, createAudioSystem } from '@repo/systems';
+import { createWorld, createGameLoop, seedRandom, type World, type GameLoop } from '@repo/ecs';
+import {
+  RestartEvent,
+  GameOverResource,
+  HighScoreResource,
+  ScoreResource,
+  Player,
+  InputReceiver,
+  DirectionInput,
+  ActionInput,
+  GridPosition,
+  Sprite,
+  SnakeSegment,
+  Food,
+  type SoundType,
+} from '@repo/components';
+import {
+  InputSystem,
+  createInputSystem,
+  createAudioSystem,
+  createParticlePool,
+  createParticleSystem,
+  type GameInput,
+} from '@repo/systems';
 import {
   SnakeDirectionSystem,
   createSnakeMovementSystem,
@@ -9,17 +31,27 @@ import {
 } from './systems';
 import { createSnakeRenderSystem } from './render';
 import { createSnakeHead, createFood, getSnakePositions } from './prefabs';
-import { SNAKE_CONFIG } from './config';
+import { SNAKE_PARTICLES } from './config';
+import {
+  LastTailDirectionResource,
+  LastTailPositionResource,
+  MoveTimerResource,
+} from './resources';
 
 export interface SnakeGameOptions {
-  canvas: HTMLCanvasElement;
-  playSound: (type: string) => void;
-  onScoreChange?: (score: number) => void;
-  onGameOver?: () => void;
+  /** Canvas to render to. Without one the game runs headless (see createHeadlessRunner). */
+  canvas?: HTMLCanvasElement;
+  playSound?: (type: SoundType) => void;
+  /** Read input from here instead of the input store (e.g. scripted input) */
+  input?: () => GameInput;
+  /** Seed for the game's random streams (defaults to the current time) */
+  seed?: number;
 }
 
 export interface SnakeGameInstance {
   world: World;
+  /** The game loop, for pausing, fast-forwarding and frame stepping */
+  loop: GameLoop;
   start: () => void;
   stop: () => void;
   reset: () => void;
@@ -32,9 +64,8 @@ export interface SnakeGameInstance {
  */
 export function createSnakeGame(options: SnakeGameOptions): SnakeGameInstance {
   const world = createWorld();
-  let animationFrame: number | null = null;
-  let lastTime = 0;
-  let isRunning = false;
+  const loop = createGameLoop(world);
+  seedRandom(world, options.seed ?? Date.now());
 
   // Load high score from localStorage
   let initialHighScore = 0;
@@ -46,38 +77,58 @@ export function createSnakeGame(options: SnakeGameOptions): SnakeGameInstance {
   }
 
   // Initialize resources
-  world.setResource('score', 0);
-  world.setResource('highScore', initialHighScore);
-  world.setResource('gameOver', false);
+  world.setResource(ScoreResource, 0);
+  world.setResource(HighScoreResource, initialHighScore);
+  world.setResource(GameOverResource, false);
+
+  // Register what start() and the systems create later, so snapshots also
+  // restore into a game that hasn't started (restore matches types by name)
+  world.registerComponent(Player);
+  world.registerComponent(InputReceiver);
+  world.registerComponent(DirectionInput);
+  world.registerComponent(ActionInput);
+  world.registerComponent(GridPosition);
+  world.registerComponent(Sprite);
+  world.registerComponent(SnakeSegment);
+  world.registerComponent(Food);
+  world.registerResource(MoveTimerResource);
+  world.registerResource(LastTailPositionResource);
+  world.registerResource(LastTailDirectionResource);
 
   // Add systems in priority order
-  world.addSystem(InputSystem);
+  world.addSystem(options.input ? createInputSystem({ source: options.input }) : InputSystem);
   world.addSystem(SnakeDirectionSystem);
   world.addSystem(RestartSystem);
   world.addSystem(createSnakeMovementSystem());
   // Note: Collision detection is now integrated into movement system
-  world.addSystem(createSnakeGrowthSystem(options.onScoreChange));
-  world.addSystem(createGameOverSystem(options.onGameOver));
-  world.addSystem(createSnakeRenderSystem({ canvas: options.canvas }));
-  world.addSystem(createAudioSystem({ playSound: options.playSound }));
+  world.addSystem(createSnakeGrowthSystem());
+  world.addSystem(createGameOverSystem());
+  if (options.canvas) {
+    const particles = createParticlePool();
+    world.addSystem(createParticleSystem({ pool: particles, effects: SNAKE_PARTICLES }));
+    world.addSystem(createSnakeRenderSystem({ canvas: options.canvas, particles }));
+  }
+  if (options.playSound) {
+    world.addSystem(createAudioSystem({ playSound: options.playSound }));
+  }
 
   // Handle restart
-  world.on('restart', () => {
+  world.on(RestartEvent, () => {
     reset();
   });
 
   function initEntities() {
     // Clear all entities
     for (const entity of world.entities.getAll()) {
-      world.removeAllComponents(entity);
-      world.entities.destroy(entity);
+      world.despawn(entity);
     }
 
     // Reset resources
-    world.setResource('score', 0);
-    world.setResource('gameOver', false);
-    world.setResource('lastTailPosition', null);
-    world.setResource('lastTailDirection', null);
+    world.resetResource(ScoreResource);
+    world.resetResource(GameOverResource);
+    world.resetResource(LastTailPositionResource);
+    world.resetResource(LastTailDirectionResource);
+    world.resetResource(MoveTimerResource);
 
     // Create initial entities
     createSnakeHead(world);
@@ -85,33 +136,17 @@ export function createSnakeGame(options: SnakeGameOptions): SnakeGameInstance {
     createFood(world, snakePositions);
   }
 
-  function gameLoop(time: number) {
-    if (!isRunning) return;
-
-    const deltaTime = (time - lastTime) / 1000;
-    lastTime = time;
-
-    world.update(deltaTime);
-
-    animationFrame = requestAnimationFrame(gameLoop);
-  }
-
   function start() {
-    if (isRunning) return;
+    if (loop.running) return;
 
     initEntities();
-    options.playSound('start');
-    isRunning = true;
-    lastTime = performance.now();
-    animationFrame = requestAnimationFrame(gameLoop);
+    options.playSound?.('start');
+    // Headless games are stepped by their caller
+    if (options.canvas) loop.start();
   }
 
   function stop() {
-    isRunning = false;
-    if (animationFrame !== null) {
-      cancelAnimationFrame(animationFrame);
-      animationFrame = null;
-    }
+    loop.stop();
   }
 
   function reset() {
@@ -124,8 +159,8 @@ export function createSnakeGame(options: SnakeGameOptions): SnakeGameInstance {
     world.destroy();
   }
 
-  return { world, start, stop, reset, destroy };
+  return { world, loop, start, stop, reset, destroy };
 }
 
 // Re-export config for consumers
-export { SNAKE_CONFIG } from './config';
+export { SNAKE_CONFIG, SNAKE_PARTICLES } from './config';
@@ -1,4 +1,4 @@
-export { createSnakeGame, SNAKE_CONFIG, type SnakeGameOptions, type SnakeGameInstance } from './game';
+export { createSnakeGame, SNAKE_CONFIG, SNAKE_PARTICLES, type SnakeGameOptions, type SnakeGameInstance } from './game';
 export { createSnakeHead, createSnakeSegment, createFood, getSnakePositions } from './prefabs';
 export {
   SnakeDirectionSystem,
@@ -9,3 +9,5 @@ export {
   RestartSystem,
 } from './systems';
 export { createSnakeRenderSystem, type SnakeRenderConfig } from './render';
+export { FoodEatenEvent, SnakeMovedEvent } from './events';
+export { LastTailPositionResource, LastTailDirectionResource } from './resources';
@@ -1,4 +1,4 @@
-import type { World, Entity } from '@repo/ecs';
+import { type World, type Entity, getRandom } from '@repo/ecs';
 import {
   GridPosition,
   Sprite,
@@ -37,6 +37,10 @@ export function createSnakeHead(world: World): Entity {
     borderColor: undefined,
     borderWidth: 0,
     cornerRadius: 0,
+    atlas: '',
+    frame: '',
+    flipX: false,
+    flipY: false,
   });
 
   world.addComponent(entity, SnakeSegment, {
@@ -64,9 +68,12 @@ export function createSnakeHead(world: World): Entity {
 
 /**
  * Create a snake body segment at the specified position.
+ * Segments are children of the head, in order from head to tail, so the
+ * whole snake despawns with `world.despawnRecursive(head)`.
  */
 export function createSnakeSegment(
   world: World,
+  head: Entity,
   col: number,
   row: number,
   index: number,
@@ -96,6 +103,10 @@ export function createSnakeSegment(
     borderColor: undefined,
     borderWidth: 0,
     cornerRadius: 0,
+    atlas: '',
+    frame: '',
+    flipX: false,
+    flipY: false,
   });
 
   world.addComponent(entity, SnakeSegment, {
@@ -104,6 +115,8 @@ export function createSnakeSegment(
     direction,
   });
 
+  world.setParent(entity, head);
+
   return entity;
 }
 
@@ -115,10 +128,11 @@ export function createFood(world: World, avoidPositions: Set<string>): Entity {
   const { cellSize, cols, rows } = SNAKE_CONFIG.grid;
 
   // Find valid position
+  const random = getRandom(world);
   let col: number, row: number;
   do {
-    col = Math.floor(Math.random() * cols);
-    row = Math.floor(Math.random() * rows);
+    col = random.int(cols);
+    row = random.int(rows);
   } while (avoidPositions.has(`${col},${row}`));
 
   world.addComponent(entity, GridPosition, {
@@ -139,6 +153,10 @@ export function createFood(world: World, avoidPositions: Set<string>): Entity {
     borderColor: undefined,
     borderWidth: 0,
     cornerRadius: 0,
+    atlas: '',
+    frame: '',
+    flipX: false,
+    flipY: false,
   });
 
   world.addComponent(entity, Food, {
@@ -154,13 +172,8 @@ export function createFood(world: World, avoidPositions: Set<string>): Entity {
  */
 export function getSnakePositions(world: World): Set<string> {
   const positions = new Set<string>();
-  const segments = world.query(SnakeSegment, GridPosition);
-
-  for (const entity of segments) {
-    const pos = world.getComponent(entity, GridPosition);
-    if (pos) {
-      positions.add(`${pos.col},${pos.row}`);
-    }
+  for (const [, , pos] of world.view(SnakeSegment, GridPosition)) {
+    positions.add(`${pos.col},${pos.row}`);
   }
 
   return positions;
@@ -1,9 +1,21 @@
-import { type System, type World, SystemPriorities } from '@repo/ecs';
-import { GridPosition, Sprite, SnakeSegment, type Direction } from '@repo/components';
+import { type System, SystemPriorities } from '@repo/ecs';
+import {
+  GridPosition,
+  Sprite,
+  SnakeSegment,
+  type Direction,
+  GameOverResource,
+  HighScoreResource,
+  ScoreResource,
+} from '@repo/components';
+import { drawParticles, type ParticlePool } from '@repo/systems';
 import { SNAKE_CONFIG } from './config';
+import { FoodEatenEvent } from './events';
 
 export interface SnakeRenderConfig {
   canvas: HTMLCanvasElement;
+  /** Particles to draw (see createParticleSystem) */
+  particles?: ParticlePool;
 }
 
 /**
@@ -19,26 +31,27 @@ export function createSnakeRenderSystem(config: SnakeRenderConfig): System {
   return {
     name: 'SnakeRenderSystem',
     priority: SystemPriorities.RENDER,
+    phase: 'render',
 
-    init(world: World) {
+    init() {
       ctx = config.canvas.getContext('2d');
       if (!ctx) throw new Error('Failed to get 2D context');
 
       config.canvas.width = width;
       config.canvas.height = height;
-
-      // Listen for food eaten to trigger flash
-      world.on('foodEaten', () => {
-        flashTime = Date.now();
-      });
     },
 
     update(world) {
       if (!ctx) return;
 
-      const gameOver = world.getResource<boolean>('gameOver') ?? false;
-      const score = world.getResource<number>('score') ?? 0;
-      const highScore = world.getResource<number>('highScore') ?? 0;
+      // Flash when food was eaten since the last frame
+      if (world.read(FoodEatenEvent).length > 0) {
+        flashTime = Date.now();
+      }
+
+      const gameOver = world.getResource(GameOverResource);
+      const score = world.getResource(ScoreResource);
+      const highScore = world.getResource(HighScoreResource);
 
       // Clear with background
       ctx.fillStyle = SNAKE_CONFIG.colors.background;
@@ -81,14 +94,9 @@ export function createSnakeRenderSystem(config: SnakeRenderConfig): System {
       }
 
       // Draw food
-      const foods = world.query(Sprite, GridPosition);
-      for (const entity of foods) {
-        // Skip snake segments
-        if (world.hasComponent(entity, SnakeSegment)) continue;
-
-        const pos = world.getComponent(entity, GridPosition)!;
-        const sprite = world.getComponent(entity, Sprite)!;
-
+      // Snake segments are drawn separately
+      const foods = world.view(Sprite, GridPosition).without(SnakeSegment);
+      for (const [, sprite, pos] of foods) {
         if (!sprite.visible) continue;
 
         ctx.fillStyle = sprite.color;
@@ -108,13 +116,9 @@ export function createSnakeRenderSystem(config: SnakeRenderConfig): System {
 
       // Draw snake segments (sorted by index for proper layering)
       const segments = world
-        .query(SnakeSegment, GridPosition, Sprite)
-        .map((e) => ({
-          entity: e,
-          segment: world.getComponent(e, SnakeSegment)!,
-          pos: world.getComponent(e, GridPosition)!,
-          sprite: world.getComponent(e, Sprite)!,
-        }))
+        .view(SnakeSegment, GridPosition, Sprite)
+        .toArray()
+        .map(([entity, segment, pos, sprite]) => ({ entity, segment, pos, sprite }))
         .sort((a, b) => b.segment.index - a.segment.index); // Draw tail first
 
       for (const { segment, pos, sprite } of segments) {
@@ -161,6 +165,11 @@ export function createSnakeRenderSystem(config: SnakeRenderConfig): System {
         }
       }
 
+      // Draw particles
+      if (config.particles) {
+        drawParticles(ctx, config.particles);
+      }
+
       // Draw score
       ctx.fillStyle = SNAKE_CONFIG.colors.score;
       ctx.font = '12px "Press Start 2P", monospace';
@@ -0,0 +1,17 @@
+import { defineResource } from '@repo/ecs';
+import type { Direction } from '@repo/components';
+
+/** Simulated time (ms) since the snake last moved */
+export const MoveTimerResource = defineResource('snake:moveTimer', 0);
+
+/** Cell the tail left on the last move, where a new segment grows */
+export const LastTailPositionResource = defineResource<{ col: number; row: number } | null>(
+  'snake:lastTailPosition',
+  null
+);
+
+/** Direction of the tail on the last move */
+export const LastTailDirectionResource = defineResource<Direction | null>(
+  'snake:lastTailDirection',
+  null
+);
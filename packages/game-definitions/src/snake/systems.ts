@@ -1,32 +1,39 @@
-import { type System, type World, SystemPriorities } from '@repo/ecs';
+import { type System, type World, SystemPriorities, optional } from '@repo/ecs';
 import {
   GridPosition,
+  Player,
   Sprite,
   SnakeSegment,
   DirectionInput,
   ActionInput,
   Food,
   type Direction,
+  GameOverEvent,
+  RestartEvent,
+  ParticleBurstEvent,
+  PlaySoundEvent,
+  GameOverResource,
+  HighScoreResource,
+  ScoreResource,
 } from '@repo/components';
+import { notGameOver, isGameOver } from '@repo/systems';
 import { SNAKE_CONFIG } from './config';
 import { createSnakeSegment, createFood, getSnakePositions } from './prefabs';
+import { FoodEatenEvent, SnakeMovedEvent } from './events';
+import { LastTailDirectionResource, LastTailPositionResource, MoveTimerResource } from './resources';
 
 /**
  * Direction validation system - prevents reversing into self.
  */
 export const SnakeDirectionSystem: System = {
   name: 'SnakeDirectionSystem',
-  priority: SystemPriorities.INPUT + 10,
+  priority: SystemPriorities.INPUT,
+  after: ['InputSystem'],
 
   update(world) {
-    const heads = world.query(SnakeSegment, DirectionInput);
-
-    for (const entity of heads) {
-      const segment = world.getComponent(entity, SnakeSegment);
-      if (segment?.type !== 'head') continue;
-
-      const input = world.getComponent(entity, DirectionInput);
-      if (!input?.direction) continue;
+    for (const [entity, segment, input] of world.view(SnakeSegment, DirectionInput)) {
+      if (segment.type !== 'head') continue;
+      if (!input.direction) continue;
 
       // Prevent 180-degree turns
       const opposite: Record<Direction, Direction> = {
@@ -52,27 +59,17 @@ export const SnakeDirectionSystem: System = {
  * Also handles collision detection immediately after movement (like original code).
  */
 export function createSnakeMovementSystem(): System {
-  let timeSinceMove = 0;
-
   return {
     name: 'SnakeMovementSystem',
     priority: SystemPriorities.PHYSICS,
-
-    init(world) {
-      // Reset timing on restart
-      world.on('restart', () => {
-        timeSinceMove = 0;
-      });
-    },
+    runIf: notGameOver,
 
     update(world, deltaTime) {
-      // Check if game is over
-      if (world.getResource<boolean>('gameOver')) return;
-
-      timeSinceMove += deltaTime * 1000;
+      const timeSinceMove = world.getResource(MoveTimerResource) + deltaTime * 1000;
+      world.setResource(MoveTimerResource, timeSinceMove);
 
       // Calculate speed based on score
-      const score = world.getResource<number>('score') ?? 0;
+      const score = world.getResource(ScoreResource);
       const { initialSpeed, minSpeed, speedDecrease } = SNAKE_CONFIG.gameplay;
       const currentSpeed = Math.max(
         minSpeed,
@@ -80,27 +77,29 @@ export function createSnakeMovementSystem(): System {
       );
 
       if (timeSinceMove < currentSpeed) return;
-      timeSinceMove = 0;
-
-      // Get all segments sorted by index
-      const segments = world
-        .query(SnakeSegment, GridPosition)
-        .map((e) => ({
-          entity: e,
-          segment: world.getComponent(e, SnakeSegment)!,
-          pos: world.getComponent(e, GridPosition)!,
-        }))
-        .sort((a, b) => a.segment.index - b.segment.index);
-
-      if (segments.length === 0) return;
+      world.resetResource(MoveTimerResource);
+
+      const headRow = world
+        .view(Player, SnakeSegment, GridPosition, optional(DirectionInput))
+        .first();
+      if (!headRow) return;
+
+      // Head first, then the body segments (its children) from head to tail
+      const [headEntity, , headSegment, headPos, headInput] = headRow;
+      const segments = [
+        { entity: headEntity, segment: headSegment, pos: headPos, input: headInput },
+        ...world
+          .view(SnakeSegment, GridPosition)
+          .childrenOf(headEntity)
+          .map(([entity, segment, pos]) => ({ entity, segment, pos, input: undefined })),
+      ];
 
       // Store previous positions for body following
       const prevPositions = segments.map((s) => ({ col: s.pos.col, row: s.pos.row }));
 
       // Get head and its direction
       const head = segments[0]!;
-      const input = world.getComponent(head.entity, DirectionInput);
-      const direction = input?.direction ?? head.segment.direction;
+      const direction = head.input?.direction ?? head.segment.direction;
 
       // Calculate new head position
       let newCol = head.pos.col;
@@ -126,7 +125,7 @@ export function createSnakeMovementSystem(): System {
 
       // Wall collision
       if (newCol < 0 || newCol >= cols || newRow < 0 || newRow >= rows) {
-        world.emit('gameOver', { reason: 'wall' });
+        world.emit(GameOverEvent, { reason: 'wall' });
         return;
       }
 
@@ -134,7 +133,7 @@ export function createSnakeMovementSystem(): System {
       for (let i = 1; i < segments.length; i++) {
         const seg = segments[i]!;
         if (newCol === seg.pos.col && newRow === seg.pos.row) {
-          world.emit('gameOver', { reason: 'self' });
+          world.emit(GameOverEvent, { reason: 'self' });
           return;
         }
       }
@@ -166,21 +165,19 @@ export function createSnakeMovementSystem(): System {
 
       // Store last tail position for growth
       const lastPos = prevPositions[prevPositions.length - 1]!;
-      world.setResource('lastTailPosition', lastPos);
-      world.setResource('lastTailDirection', segments[segments.length - 1]!.segment.direction);
+      world.setResource(LastTailPositionResource, lastPos);
+      world.setResource(LastTailDirectionResource, segments[segments.length - 1]!.segment.direction);
 
       // Check food collision
-      const foods = world.query(Food, GridPosition);
-      for (const foodEntity of foods) {
-        const foodPos = world.getComponent(foodEntity, GridPosition)!;
+      for (const [foodEntity, , foodPos] of world.view(Food, GridPosition)) {
         if (newCol === foodPos.col && newRow === foodPos.row) {
-          world.emit('foodEaten', { entity: foodEntity });
+          world.emit(FoodEatenEvent, { entity: foodEntity });
           break;
         }
       }
 
       // Emit move event
-      world.emit('snakeMoved', { col: newCol, row: newRow });
+      world.emit(SnakeMovedEvent, { col: newCol, row: newRow });
     },
   };
 }
@@ -191,48 +188,37 @@ export function createSnakeMovementSystem(): System {
 export const SnakeCollisionSystem: System = {
   name: 'SnakeCollisionSystem',
   priority: SystemPriorities.GAME_LOGIC,
+  runIf: notGameOver,
 
   update(world) {
-    if (world.getResource<boolean>('gameOver')) return;
-
     // Find head
-    const heads = world.query(SnakeSegment, GridPosition);
-    const headEntity = heads.find((e) => {
-      const seg = world.getComponent(e, SnakeSegment);
-      return seg?.type === 'head';
-    });
+    const segments = world.view(SnakeSegment, GridPosition).toArray();
+    const head = segments.find(([, seg]) => seg.type === 'head');
 
-    if (!headEntity) return;
+    if (!head) return;
 
-    const headPos = world.getComponent(headEntity, GridPosition)!;
+    const [, , headPos] = head;
     const { cols, rows } = SNAKE_CONFIG.grid;
 
     // Wall collision
     if (headPos.col < 0 || headPos.col >= cols || headPos.row < 0 || headPos.row >= rows) {
-      world.emit('gameOver', { reason: 'wall' });
+      world.emit(GameOverEvent, { reason: 'wall' });
       return;
     }
 
     // Self collision (check against body segments only)
-    const bodySegments = world.query(SnakeSegment, GridPosition).filter((e) => {
-      const seg = world.getComponent(e, SnakeSegment);
-      return seg?.type !== 'head';
-    });
-
-    for (const body of bodySegments) {
-      const bodyPos = world.getComponent(body, GridPosition)!;
+    for (const [, seg, bodyPos] of segments) {
+      if (seg.type === 'head') continue;
       if (headPos.col === bodyPos.col && headPos.row === bodyPos.row) {
-        world.emit('gameOver', { reason: 'self' });
+        world.emit(GameOverEvent, { reason: 'self' });
         return;
       }
     }
 
     // Food collision
-    const foods = world.query(Food, GridPosition);
-    for (const food of foods) {
-      const foodPos = world.getComponent(food, GridPosition)!;
+    for (const [food, , foodPos] of world.view(Food, GridPosition)) {
       if (headPos.col === foodPos.col && headPos.row === foodPos.row) {
-        world.emit('foodEaten', { entity: food });
+        world.emit(FoodEatenEvent, { entity: food });
       }
     }
   },
@@ -241,47 +227,53 @@ export const SnakeCollisionSystem: System = {
 /**
  * Snake growth system - handles food eating and snake growth.
  */
-export function createSnakeGrowthSystem(onScoreChange?: (score: number) => void): System {
+export function createSnakeGrowthSystem(): System {
   return {
     name: 'SnakeGrowthSystem',
-    priority: SystemPriorities.GAME_LOGIC + 10,
+    priority: SystemPriorities.GAME_LOGIC,
 
     init(world) {
-      world.on('foodEaten', (data) => {
-        const { entity } = data as { entity: number };
-
+      world.on(FoodEatenEvent, ({ entity }) => {
         const food = world.getComponent(entity, Food);
         if (!food) return;
 
         // Update score
-        const currentScore = world.getResource<number>('score') ?? 0;
+        const currentScore = world.getResource(ScoreResource);
         const newScore = currentScore + food.points;
-        world.setResource('score', newScore);
-        onScoreChange?.(newScore);
+        world.setResource(ScoreResource, newScore);
 
         // Get last tail position (stored by movement system)
-        const lastPos = world.getResource<{ col: number; row: number }>('lastTailPosition');
-        const lastDir = world.getResource<Direction>('lastTailDirection');
+        const lastPos = world.getResource(LastTailPositionResource);
+        const lastDir = world.getResource(LastTailDirectionResource);
 
-        if (lastPos && lastDir) {
-          // Get current snake length
-          const segments = world.query(SnakeSegment);
-          const newIndex = segments.length;
+        const head = world.view(Player, SnakeSegment).first();
+        if (head && lastPos && lastDir) {
+          // Index after the head and its current body segments
+          const [headEntity] = head;
+          const newIndex = world.getChildren(headEntity).length + 1;
 
           // Add new segment at old tail position
-          createSnakeSegment(world, lastPos.col, lastPos.row, newIndex, lastDir);
+          createSnakeSegment(world, headEntity, lastPos.col, lastPos.row, newIndex, lastDir);
         }
 
-        // Remove old food
-        world.removeAllComponents(entity);
-        world.entities.destroy(entity);
+        // Burst where it was, then remove old food
+        const foodPos = world.getComponent(entity, GridPosition);
+        if (foodPos) {
+          const { cellSize } = SNAKE_CONFIG.grid;
+          world.emit(ParticleBurstEvent, {
+            effect: 'foodEaten',
+            x: foodPos.col * cellSize + cellSize / 2,
+            y: foodPos.row * cellSize + cellSize / 2,
+          });
+        }
+        world.commands.despawn(entity);
 
         // Spawn new food
         const snakePositions = getSnakePositions(world);
         createFood(world, snakePositions);
 
         // Play sound
-        world.emit('playSound', { type: 'eat' });
+        world.emit(PlaySoundEvent, { type: 'eat' });
       });
     },
 
@@ -292,27 +284,28 @@ export function createSnakeGrowthSystem(onScoreChange?: (score: number) => void)
 /**
  * Game over handler system.
  */
-export function createGameOverSystem(onGameOver?: () => void): System {
+export function createGameOverSystem(): System {
   return {
     name: 'GameOverSystem',
-    priority: SystemPriorities.GAME_LOGIC + 20,
+    priority: SystemPriorities.GAME_LOGIC,
+    // High score is loaded from localStorage by the game
+    requires: [HighScoreResource],
 
     init(world) {
-      world.on('gameOver', () => {
-        world.setResource('gameOver', true);
+      world.on(GameOverEvent, () => {
+        world.setResource(GameOverResource, true);
 
         // Update high score
-        const score = world.getResource<number>('score') ?? 0;
-        const highScore = world.getResource<number>('highScore') ?? 0;
+        const score = world.getResource(ScoreResource);
+        const highScore = world.getResource(HighScoreResource);
         if (score > highScore) {
-          world.setResource('highScore', score);
+          world.setResource(HighScoreResource, score);
           if (typeof window !== 'undefined') {
             localStorage.setItem('snake-high-score', String(score));
           }
         }
 
-        world.emit('playSound', { type: 'gameOver' });
-        onGameOver?.();
+        world.emit(PlaySoundEvent, { type: 'gameOver' });
       });
     },
 
@@ -325,17 +318,15 @@ export function createGameOverSystem(onGameOver?: () => void): System {
  */
 export const RestartSystem: System = {
   name: 'RestartSystem',
-  priority: SystemPriorities.INPUT + 20,
+  priority: SystemPriorities.INPUT,
+  after: ['InputSystem'],
+  runIf: isGameOver,
 
   update(world) {
-    if (!world.getResource<boolean>('gameOver')) return;
-
     // Find entity with ActionInput
-    const entities = world.query(ActionInput);
-    for (const entity of entities) {
-      const input = world.getComponent(entity, ActionInput);
-      if (input?.actionJustPressed) {
-        world.emit('restart');
+    for (const [, input] of world.view(ActionInput)) {
+      if (input.actionJustPressed) {
+        world.emit(RestartEvent);
       }
     }
   },
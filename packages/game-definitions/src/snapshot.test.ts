@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { TimeResource, type WorldSnapshot } from '@repo/ecs';
+import type { GameInput } from '@repo/systems';
+import { Pipe } from '@repo/components';
+import { createHeadlessRunner, type HeadlessGame, type HeadlessGameOptions } from './headless';
+import { createSnakeGame } from './snake';
+import { createPacManGame } from './pacman';
+import { createFlappyGame } from './flappy';
+import { createTetrominoGame } from './tetromino';
+import { createSoulKnightGame } from './soul-knight';
+
+type Direction = GameInput['direction'];
+
+const turns: Direction[] = ['RIGHT', 'DOWN', 'LEFT', 'UP'];
+
+interface GameCase {
+  name: string;
+  createGame: (options: HeadlessGameOptions) => HeadlessGame;
+  /** Input for each step, so both worlds can be fed the same */
+  inputAt: (step: number) => Partial<GameInput>;
+}
+
+const games: GameCase[] = [
+  {
+    name: 'snake',
+    createGame: createSnakeGame,
+    inputAt: (step) => ({ direction: turns[Math.floor(step / 20) % 4]! }),
+  },
+  {
+    name: 'pacman',
+    createGame: createPacManGame,
+    inputAt: (step) => ({ direction: turns[Math.floor(step / 45) % 4]! }),
+  },
+  {
+    name: 'flappy',
+    createGame: createFlappyGame,
+    inputAt: (step) => ({ action: step % 45 === 0 }),
+  },
+  {
+    name: 'tetromino',
+    createGame: createTetrominoGame,
+    inputAt: (step) => ({
+      direction: step % 30 < 10 ? 'LEFT' : step % 30 < 20 ? 'RIGHT' : 'DOWN',
+      action: step % 40 === 0,
+    }),
+  },
+  {
+    name: 'soul-knight',
+    createGame: createSoulKnightGame,
+    inputAt: (step) => ({
+      direction: turns[Math.floor(step / 30) % 4]!,
+      action: step % 15 === 0,
+    }),
+  },
+];
+
+/** A snapshot as it would come back from a save file */
+function throughJSON(snapshot: WorldSnapshot): WorldSnapshot {
+  return JSON.parse(JSON.stringify(snapshot)) as WorldSnapshot;
+}
+
+describe('world snapshots', () => {
+  it.each(games)('$name restores into a fresh game and plays on identically', (game) => {
+    const original = createHeadlessRunner(game.createGame, { seed: 7 });
+    for (let step = 0; step < 400; step++) {
+      original.setInput(game.inputAt(step));
+      original.step();
+    }
+
+    // Created but never started, and with a different seed, so the restored
+    // world only matches through the snapshot
+    let input = original.input;
+    const restored = game.createGame({ input: () => input, seed: 99 });
+    restored.world.restore(throughJSON(original.world.snapshot()));
+    expect(restored.world.snapshot()).toEqual(original.world.snapshot());
+
+    for (let step = 400; step < 800; step++) {
+      original.setInput(game.inputAt(step));
+      original.step();
+      input = original.input;
+      restored.world.runPhase('simulation', restored.world.getResource(TimeResource).step);
+
+      if (step % 100 === 99) {
+        expect(restored.world.snapshot()).toEqual(original.world.snapshot());
+      }
+    }
+
+    original.destroy();
+    restored.destroy();
+  });
+
+  it('restores Flappy pipe pairs, parented to their pair, into a fresh game', () => {
+    const original = createHeadlessRunner(createFlappyGame, { seed: 1 });
+    // Flap now and then until the first pipe pair spawns
+    original.runUntil((world) => {
+      original.setInput({ action: original.steps % 45 === 0 });
+      return world.view(Pipe).toArray().length > 0;
+    }, 600);
+    expect(original.world.view(Pipe).toArray().length).toBeGreaterThan(0);
+
+    const fresh = createFlappyGame({ input: () => original.input, seed: 1 });
+    fresh.world.restore(throughJSON(original.world.snapshot()));
+    for (const [entity] of fresh.world.view(Pipe)) {
+      expect(fresh.world.getParent(entity)).toBeDefined();
+    }
+    expect(fresh.world.snapshot()).toEqual(original.world.snapshot());
+
+    original.destroy();
+    fresh.destroy();
+  });
+});
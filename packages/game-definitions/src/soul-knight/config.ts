@@ -1,8 +1,15 @@
+import type { ParticleEffect } from '@repo/components';
+
 /**
  * Soul Knight - A simplified Dark Souls-inspired arcade roguelike.
  * Configuration constants for gameplay and visuals.
  */
 export const SOUL_KNIGHT_CONFIG = {
+  /** Replay compatibility: bump gameVersion when a change makes old replays play differently */
+  replay: {
+    game: 'soulknight',
+    gameVersion: 2,
+  },
   canvas: {
     width: 400,
     height: 360,
@@ -16,14 +23,14 @@ export const SOUL_KNIGHT_CONFIG = {
   player: {
     width: 24,
     height: 32,
-    speed: 2.5,
-    rollSpeed: 6,
-    rollDuration: 12, // frames
-    rollCooldown: 20, // frames
+    speed: 150, // pixels per second
+    rollSpeed: 360, // pixels per second
+    rollDuration: 12, // simulation steps (60 per second)
+    rollCooldown: 20, // simulation steps (60 per second)
     attackRange: 36,
     attackWidth: 40,
-    attackDuration: 15, // frames
-    attackCooldown: 25, // frames
+    attackDuration: 15, // simulation steps (60 per second)
+    attackCooldown: 25, // simulation steps (60 per second)
     startX: 180,
     startY: 280,
     maxHealth: 5,
@@ -33,19 +40,16 @@ export const SOUL_KNIGHT_CONFIG = {
     staminaCostRoll: 30,
     invincibilityFrames: 45,
   },
+  // Collider layers (bitmasks); the enemy blueprints in enemies.json use the same values
+  layers: {
+    player: 1,
+    enemy: 2,
+    attack: 4,
+  },
+  // Enemy variants and their stats are blueprints in enemies.json
   enemy: {
-    width: 28,
-    height: 36,
-    speed: 1.0,
-    attackRange: 32,
-    attackDuration: 20,
-    attackCooldown: 60,
-    damage: 1,
-    health: 2,
-    spawnDelay: 180, // frames between spawns
+    spawnDelay: 180, // simulation steps between spawns
     maxEnemies: 6,
-    chaseRange: 150,
-    scorePerKill: 100,
   },
   wave: {
     startEnemies: 2,
@@ -64,8 +68,7 @@ export const SOUL_KNIGHT_CONFIG = {
     playerArmor: '#556688',
     playerSword: '#aabbcc',
     playerCape: '#554444',
-    // Enemies - dark hollow warriors
-    enemyBody: '#443322',
+    // Enemies - dark hollow warriors (body colors are set per variant)
     enemyEyes: '#ff4444',
     enemyWeapon: '#665544',
     // UI
@@ -90,3 +93,36 @@ export const SOUL_KNIGHT_CONFIG = {
 } as const;
 
 export type SoulKnightConfig = typeof SOUL_KNIGHT_CONFIG;
+
+/**
+ * Particle effects, by the names the systems emit ParticleBurstEvents with.
+ */
+export const SOUL_KNIGHT_PARTICLES = {
+  /** Blood-red sparks flung from a slain enemy */
+  enemyDeath: {
+    count: 18,
+    lifetime: 0.5,
+    speedMin: 40,
+    speedMax: 140,
+    gravity: 120,
+    colorStart: SOUL_KNIGHT_CONFIG.colors.deathParticle,
+    colorEnd: '#441111',
+    sizeStart: 4,
+    sizeEnd: 1,
+  },
+  /** Its soul, drifting up out of the body */
+  soulOrb: {
+    count: 6,
+    lifetime: 0.9,
+    speedMin: 15,
+    speedMax: 45,
+    angle: -90,
+    spread: 60,
+    width: 12,
+    height: 12,
+    colorStart: SOUL_KNIGHT_CONFIG.colors.soulOrb,
+    sizeStart: 3,
+    sizeEnd: 5,
+    alphaStart: 0.9,
+  },
+} satisfies Record<string, ParticleEffect>;
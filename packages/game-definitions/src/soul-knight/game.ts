@@ -1,10 +1,47 @@
-import { createWorld, type World } from '@repo/ecs';
-import { InputSystem, VelocitySystem, createAudioSystem } from '@repo/systems';
+import {
+  createWorld,
+  createGameLoop,
+  seedRandom,
+  type World,
+  type GameLoop,
+  type Entity,
+} from '@repo/ecs';
+import {
+  Enemy,
+  Transform,
+  Velocity,
+  Sprite,
+  Collider,
+  RigidBody,
+  RestartEvent,
+  GameOverResource,
+  GameStartedResource,
+  HighScoreResource,
+  ScoreResource,
+  Player,
+  InputReceiver,
+  DirectionInput,
+  ActionInput,
+  Health,
+  type SoundType,
+} from '@repo/components';
+import {
+  InputSystem,
+  createInputSystem,
+  VelocitySystem,
+  CollisionSystem,
+  createAudioSystem,
+  createParticlePool,
+  createParticleSystem,
+  CollisionContactsResource,
+  type GameInput,
+} from '@repo/systems';
 import {
   PlayerMovementSystem,
   PlayerBoundarySystem,
   EnemyAISystem,
   EnemyBoundarySystem,
+  AttackHitboxSystem,
   PlayerAttackSystem,
   ClearHitEnemiesSystem,
   EnemyDeathSystem,
@@ -14,17 +51,32 @@ import {
   GameStartSystem,
 } from './systems';
 import { createSoulKnightRenderSystem } from './render';
-import { createPlayer, type EnemyState } from './prefabs';
+import { createPlayer, registerEnemyBlueprints, type EnemyState } from './prefabs';
+import {
+  AttackHitboxResource,
+  EnemiesKilledThisWaveResource,
+  EnemyStatesResource,
+  HitEnemiesResource,
+  SpawnTimerResource,
+  WaveResource,
+  PlayerStateResource,
+} from './resources';
+import { SOUL_KNIGHT_PARTICLES } from './config';
 
 export interface SoulKnightGameOptions {
-  canvas: HTMLCanvasElement;
-  playSound: (type: string) => void;
-  onScoreChange?: (score: number) => void;
-  onGameOver?: () => void;
+  /** Canvas to render to. Without one the game runs headless (see createHeadlessRunner). */
+  canvas?: HTMLCanvasElement;
+  playSound?: (type: SoundType) => void;
+  /** Read input from here instead of the input store (e.g. scripted input) */
+  input?: () => GameInput;
+  /** Seed for the game's random streams (defaults to the current time) */
+  seed?: number;
 }
 
 export interface SoulKnightGameInstance {
   world: World;
+  /** The game loop, for pausing, fast-forwarding and frame stepping */
+  loop: GameLoop;
   start: () => void;
   stop: () => void;
   reset: () => void;
@@ -36,9 +88,8 @@ export interface SoulKnightGameInstance {
  */
 export function createSoulKnightGame(options: SoulKnightGameOptions): SoulKnightGameInstance {
   const world = createWorld();
-  let animationFrame: number | null = null;
-  let lastTime = 0;
-  let isRunning = false;
+  const loop = createGameLoop(world);
+  seedRandom(world, options.seed ?? Date.now());
 
   // Load high score
   let initialHighScore = 0;
@@ -50,18 +101,38 @@ export function createSoulKnightGame(options: SoulKnightGameOptions): SoulKnight
   }
 
   // Initialize resources
-  world.setResource('score', 0);
-  world.setResource('highScore', initialHighScore);
-  world.setResource('gameOver', false);
-  world.setResource('gameStarted', false);
-  world.setResource('wave', 1);
-  world.setResource('spawnTimer', 0);
-  world.setResource('enemiesKilledThisWave', 0);
-  world.setResource('enemyStates', new Map<number, EnemyState>());
-  world.setResource('hitEnemies', new Set<number>());
+  world.setResource(ScoreResource, 0);
+  world.setResource(HighScoreResource, initialHighScore);
+  world.setResource(GameOverResource, false);
+  world.setResource(GameStartedResource, false);
+  world.setResource(WaveResource, 1);
+  world.setResource(SpawnTimerResource, 0);
+  world.setResource(EnemiesKilledThisWaveResource, 0);
+  world.setResource(EnemyStatesResource, new Map<Entity, EnemyState>());
+  world.setResource(HitEnemiesResource, new Set<Entity>());
+  world.setResource(AttackHitboxResource, null);
+
+  // Register what start() and the systems create later, so snapshots also
+  // restore into a game that hasn't started (restore matches types by name)
+  world.registerComponent(Player);
+  world.registerComponent(InputReceiver);
+  world.registerComponent(DirectionInput);
+  world.registerComponent(ActionInput);
+  world.registerComponent(Health);
+  world.registerResource(CollisionContactsResource);
+  world.registerResource(PlayerStateResource);
+
+  // Enemy variants are blueprints, validated against these components
+  world.registerComponent(Transform);
+  world.registerComponent(Velocity);
+  world.registerComponent(Sprite);
+  world.registerComponent(Collider);
+  world.registerComponent(RigidBody);
+  world.registerComponent(Enemy);
+  registerEnemyBlueprints(world);
 
   // Add systems in priority order
-  world.addSystem(InputSystem);
+  world.addSystem(options.input ? createInputSystem({ source: options.input }) : InputSystem);
   world.addSystem(GameStartSystem);
   world.addSystem(ClearHitEnemiesSystem);
   world.addSystem(PlayerMovementSystem);
@@ -69,73 +140,59 @@ export function createSoulKnightGame(options: SoulKnightGameOptions): SoulKnight
   world.addSystem(VelocitySystem);
   world.addSystem(PlayerBoundarySystem);
   world.addSystem(EnemyBoundarySystem);
+  world.addSystem(AttackHitboxSystem);
+  world.addSystem(CollisionSystem);
   world.addSystem(EnemyAISystem);
   world.addSystem(PlayerAttackSystem);
   world.addSystem(EnemyDeathSystem);
-  world.addSystem(createEnemySpawnSystem(options.onScoreChange));
-  world.addSystem(createSoulKnightGameOverSystem(options.onGameOver));
-  world.addSystem(createSoulKnightRenderSystem({ canvas: options.canvas }));
-  world.addSystem(createAudioSystem({ playSound: options.playSound }));
+  world.addSystem(createEnemySpawnSystem());
+  world.addSystem(createSoulKnightGameOverSystem());
+  if (options.canvas) {
+    const particles = createParticlePool();
+    world.addSystem(createParticleSystem({ pool: particles, effects: SOUL_KNIGHT_PARTICLES }));
+    world.addSystem(createSoulKnightRenderSystem({ canvas: options.canvas, particles }));
+  }
+  if (options.playSound) {
+    world.addSystem(createAudioSystem({ playSound: options.playSound }));
+  }
 
   // Handle restart
-  world.on('restart', () => {
+  world.on(RestartEvent, () => {
     reset();
   });
 
   function initEntities() {
     // Clear all entities
     for (const entity of world.entities.getAll()) {
-      world.removeAllComponents(entity);
-      world.entities.destroy(entity);
+      world.despawn(entity);
     }
 
     // Reset resources
-    world.setResource('score', 0);
-    world.setResource('gameOver', false);
-    world.setResource('gameStarted', false);
-    world.setResource('wave', 1);
-    world.setResource('spawnTimer', 0);
-    world.setResource('enemiesKilledThisWave', 0);
-    world.setResource('enemyStates', new Map<number, EnemyState>());
-    world.setResource('hitEnemies', new Set<number>());
+    world.resetResource(ScoreResource);
+    world.resetResource(GameOverResource);
+    world.resetResource(GameStartedResource);
+    world.resetResource(WaveResource);
+    world.resetResource(SpawnTimerResource);
+    world.resetResource(EnemiesKilledThisWaveResource);
+    world.resetResource(EnemyStatesResource);
+    world.resetResource(HitEnemiesResource);
+    world.resetResource(AttackHitboxResource);
 
     // Create player
     createPlayer(world);
   }
 
-  function gameLoop(time: number) {
-    if (!isRunning) return;
-
-    // Store current frame ID to detect if restart happened during update
-    const currentFrame = animationFrame;
-
-    const deltaTime = (time - lastTime) / 1000;
-    lastTime = time;
-
-    world.update(deltaTime);
-
-    // Only schedule next frame if no restart happened during update
-    if (isRunning && animationFrame === currentFrame) {
-      animationFrame = requestAnimationFrame(gameLoop);
-    }
-  }
-
   function start() {
-    if (isRunning) return;
+    if (loop.running) return;
 
     initEntities();
-    options.playSound('start');
-    isRunning = true;
-    lastTime = performance.now();
-    animationFrame = requestAnimationFrame(gameLoop);
+    options.playSound?.('start');
+    // Headless games are stepped by their caller
+    if (options.canvas) loop.start();
   }
 
   function stop() {
-    isRunning = false;
-    if (animationFrame !== null) {
-      cancelAnimationFrame(animationFrame);
-      animationFrame = null;
-    }
+    loop.stop();
   }
 
   function reset() {
@@ -148,7 +205,7 @@ export function createSoulKnightGame(options: SoulKnightGameOptions): SoulKnight
     world.destroy();
   }
 
-  return { world, start, stop, reset, destroy };
+  return { world, loop, start, stop, reset, destroy };
 }
 
-export { SOUL_KNIGHT_CONFIG } from './config';
+export { SOUL_KNIGHT_CONFIG, SOUL_KNIGHT_PARTICLES } from './config';
@@ -1,3 +1,3 @@
-export { createSoulKnightGame, SOUL_KNIGHT_CONFIG } from './game';
+export { createSoulKnightGame, SOUL_KNIGHT_CONFIG, SOUL_KNIGHT_PARTICLES } from './game';
 export type { SoulKnightGameOptions, SoulKnightGameInstance } from './game';
 export type { SoulKnightConfig } from './config';
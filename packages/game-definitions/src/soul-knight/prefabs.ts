@@ -1,9 +1,11 @@
-import type { World, Entity } from '@repo/ecs';
+import type { World, Entity, Random } from '@repo/ecs';
 import {
+  Enemy,
   Transform,
   Velocity,
   Sprite,
   Collider,
+  RigidBody,
   Player,
   Health,
   InputReceiver,
@@ -11,6 +13,8 @@ import {
   ActionInput,
 } from '@repo/components';
 import { SOUL_KNIGHT_CONFIG } from './config';
+import enemyData from './enemies.json';
+import { EnemyStatesResource, PlayerStateResource } from './resources';
 
 /**
  * Player state stored as a world resource.
@@ -28,7 +32,6 @@ export interface PlayerState {
   attackDirection: { x: number; y: number };
   facingDirection: { x: number; y: number };
   invincibilityFrames: number;
-  lastDamageTime: number;
 }
 
 /**
@@ -50,7 +53,7 @@ export interface EnemyState {
  */
 export function createPlayer(world: World): Entity {
   const entity = world.entities.create();
-  const { player, arena } = SOUL_KNIGHT_CONFIG;
+  const { player, arena, layers } = SOUL_KNIGHT_CONFIG;
 
   world.addComponent(entity, Transform, {
     x: arena.offsetX + player.startX,
@@ -78,17 +81,30 @@ export function createPlayer(world: World): Entity {
     borderColor: undefined,
     borderWidth: 0,
     cornerRadius: 0,
+    atlas: '',
+    frame: '',
+    flipX: false,
+    flipY: false,
   });
 
+  // Positions are centers, so the box is offset by half its size
   world.addComponent(entity, Collider, {
     type: 'box',
     width: player.width - 4,
     height: player.height - 4,
     radius: 0,
-    offsetX: 2,
-    offsetY: 2,
-    layer: 1,
-    mask: 0xffffffff,
+    offsetX: -(player.width - 4) / 2,
+    offsetY: -(player.height - 4) / 2,
+    layer: layers.player,
+    mask: layers.enemy,
+  });
+
+  world.addComponent(entity, RigidBody, {
+    mass: 1,
+    friction: 0,
+    restitution: 0,
+    isStatic: false,
+    isTrigger: false,
   });
 
   world.addComponent(entity, Player, { id: 0 });
@@ -128,63 +144,63 @@ export function createPlayer(world: World): Entity {
     attackDirection: { x: 1, y: 0 },
     facingDirection: { x: 1, y: 0 },
     invincibilityFrames: 0,
-    lastDamageTime: 0,
   };
-  world.setResource('playerState', playerState);
+  world.setResource(PlayerStateResource, playerState);
 
   return entity;
 }
 
 /**
- * Create an enemy entity at the specified position.
+ * An enemy variant that can spawn from a given wave on.
  */
-export function createEnemy(world: World, x: number, y: number): Entity {
-  const entity = world.entities.create();
-  const { enemy } = SOUL_KNIGHT_CONFIG;
+export interface EnemySpawnEntry {
+  /** Name of the enemy blueprint */
+  blueprint: string;
+  /** First wave this variant spawns in */
+  fromWave: number;
+  /** Relative chance of picking this variant */
+  weight: number;
+}
 
-  world.addComponent(entity, Transform, {
-    x,
-    y,
-    z: 0,
-    rotation: 0,
-    scaleX: 1,
-    scaleY: 1,
-  });
+/** Enemy variants that can spawn, from enemies.json */
+export const ENEMY_SPAWN_TABLE: readonly EnemySpawnEntry[] = enemyData.spawnTable;
 
-  world.addComponent(entity, Velocity, {
-    x: 0,
-    y: 0,
-    z: 0,
-  });
+/**
+ * Register the enemy blueprints from enemies.json.
+ * The components they use must be registered first.
+ */
+export function registerEnemyBlueprints(world: World): void {
+  for (const blueprint of enemyData.blueprints) {
+    world.registerBlueprint(blueprint);
+  }
+}
 
-  world.addComponent(entity, Sprite, {
-    width: enemy.width,
-    height: enemy.height,
-    color: SOUL_KNIGHT_CONFIG.colors.enemyBody,
-    shape: 'rect',
-    layer: 15,
-    visible: true,
-    opacity: 1,
-    borderColor: undefined,
-    borderWidth: 0,
-    cornerRadius: 0,
-  });
+/**
+ * Pick a random enemy blueprint among the variants available in a wave.
+ */
+export function pickEnemyBlueprint(wave: number, random: Random): string {
+  const available = ENEMY_SPAWN_TABLE.filter((entry) => entry.fromWave <= wave);
+  const totalWeight = available.reduce((sum, entry) => sum + entry.weight, 0);
 
-  world.addComponent(entity, Collider, {
-    type: 'box',
-    width: enemy.width - 4,
-    height: enemy.height - 4,
-    radius: 0,
-    offsetX: 2,
-    offsetY: 2,
-    layer: 2,
-    mask: 1,
-  });
+  let roll = random.range(0, totalWeight);
+  for (const entry of available) {
+    roll -= entry.weight;
+    if (roll < 0) return entry.blueprint;
+  }
+  return available[available.length - 1]?.blueprint ?? 'enemy';
+}
+
+/**
+ * Create an enemy entity from a blueprint at the specified position.
+ */
+export function createEnemy(world: World, blueprint: string, x: number, y: number): Entity {
+  const entity = world.spawn(blueprint, { Transform: { x, y } });
+  const { health } = world.getComponent(entity, Enemy)!;
 
   // Store enemy state in world resource by entity ID
-  const enemyStates = world.getResource<Map<Entity, EnemyState>>('enemyStates') ?? new Map();
+  const enemyStates = world.getResource(EnemyStatesResource);
   enemyStates.set(entity, {
-    health: enemy.health,
+    health,
     isAttacking: false,
     attackFrames: 0,
     attackCooldown: 0,
@@ -193,7 +209,38 @@ export function createEnemy(world: World, x: number, y: number): Entity {
     deathFrames: 0,
     isDying: false,
   });
-  world.setResource('enemyStates', enemyStates);
+  world.setResource(EnemyStatesResource, enemyStates);
+
+  return entity;
+}
+
+/**
+ * Create the hitbox of the knight's sword swing: a circle that only
+ * reports which enemies it overlaps.
+ */
+export function createAttackHitbox(world: World, x: number, y: number): Entity {
+  const entity = world.entities.create();
+  const { player, layers } = SOUL_KNIGHT_CONFIG;
+
+  world.addComponent(entity, Transform, {
+    x,
+    y,
+    z: 0,
+    rotation: 0,
+    scaleX: 1,
+    scaleY: 1,
+  });
+
+  world.addComponent(entity, Collider, {
+    type: 'circle',
+    width: 0,
+    height: 0,
+    radius: player.attackRange,
+    offsetX: 0,
+    offsetY: 0,
+    layer: layers.attack,
+    mask: layers.enemy,
+  });
 
   return entity;
 }
@@ -201,31 +248,31 @@ export function createEnemy(world: World, x: number, y: number): Entity {
 /**
  * Get a random spawn position along the arena edges.
  */
-export function getRandomSpawnPosition(): { x: number; y: number } {
+export function getRandomSpawnPosition(random: Random): { x: number; y: number } {
   const { arena } = SOUL_KNIGHT_CONFIG;
-  const edge = Math.floor(Math.random() * 4);
+  const edge = random.int(4);
   const margin = 40;
 
   switch (edge) {
     case 0: // Top
       return {
-        x: arena.offsetX + margin + Math.random() * (arena.width - margin * 2),
+        x: arena.offsetX + margin + random.range(0, arena.width - margin * 2),
         y: arena.offsetY + margin,
       };
     case 1: // Right
       return {
         x: arena.offsetX + arena.width - margin,
-        y: arena.offsetY + margin + Math.random() * (arena.height - margin * 2),
+        y: arena.offsetY + margin + random.range(0, arena.height - margin * 2),
       };
     case 2: // Bottom
       return {
-        x: arena.offsetX + margin + Math.random() * (arena.width - margin * 2),
+        x: arena.offsetX + margin + random.range(0, arena.width - margin * 2),
         y: arena.offsetY + arena.height - margin,
       };
     default: // Left
       return {
         x: arena.offsetX + margin,
-        y: arena.offsetY + margin + Math.random() * (arena.height - margin * 2),
+        y: arena.offsetY + margin + random.range(0, arena.height - margin * 2),
       };
   }
 }
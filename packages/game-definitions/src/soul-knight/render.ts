@@ -1,10 +1,26 @@
-import { type System, type World, SystemPriorities } from '@repo/ecs';
-import { Transform, Player, Health } from '@repo/components';
+import { type System, type World, SystemPriorities, getRandom } from '@repo/ecs';
+import {
+  Enemy,
+  Sprite,
+  Transform,
+  Player,
+  Health,
+  GameOverResource,
+  GameStartedResource,
+  HighScoreResource,
+  ScoreResource,
+  type EnemyData,
+  type SpriteData,
+} from '@repo/components';
+import { drawParticles, type ParticlePool } from '@repo/systems';
 import { SOUL_KNIGHT_CONFIG } from './config';
 import { type PlayerState, type EnemyState } from './prefabs';
+import { EnemyStatesResource, PlayerStateResource, WaveResource } from './resources';
 
 export interface SoulKnightRenderConfig {
   canvas: HTMLCanvasElement;
+  /** Particles to draw (see createParticleSystem) */
+  particles?: ParticlePool;
 }
 
 /**
@@ -12,12 +28,15 @@ export interface SoulKnightRenderConfig {
  */
 export function createSoulKnightRenderSystem(config: SoulKnightRenderConfig): System {
   let ctx: CanvasRenderingContext2D | null = null;
+  /** Floor cracks, drawn from the cosmetic stream on the first frame so they stay put */
+  let cracks: { x: number; y: number; top: number; bottom: number }[] | null = null;
 
-  const { canvas: canvasConfig, arena, player: playerConfig, enemy: enemyConfig, colors } = SOUL_KNIGHT_CONFIG;
+  const { canvas: canvasConfig, arena, player: playerConfig, colors } = SOUL_KNIGHT_CONFIG;
 
   return {
     name: 'SoulKnightRenderSystem',
     priority: SystemPriorities.RENDER,
+    phase: 'render',
 
     init() {
       ctx = config.canvas.getContext('2d');
@@ -30,44 +49,39 @@ export function createSoulKnightRenderSystem(config: SoulKnightRenderConfig): Sy
     update(world) {
       if (!ctx) return;
 
-      const gameStarted = world.getResource<boolean>('gameStarted') ?? false;
-      const gameOver = world.getResource<boolean>('gameOver') ?? false;
-      const score = world.getResource<number>('score') ?? 0;
-      const highScore = world.getResource<number>('highScore') ?? 0;
-      const currentWave = world.getResource<number>('wave') ?? 1;
-      const playerState = world.getResource<PlayerState>('playerState');
-      const enemyStates = world.getResource<Map<number, EnemyState>>('enemyStates');
+      const gameStarted = world.getResource(GameStartedResource);
+      const gameOver = world.getResource(GameOverResource);
+      const score = world.getResource(ScoreResource);
+      const highScore = world.getResource(HighScoreResource);
+      const currentWave = world.getResource(WaveResource);
+      const playerState = world.getResource(PlayerStateResource);
+      const enemyStates = world.getResource(EnemyStatesResource);
 
       // Clear and draw background
       ctx.fillStyle = colors.background;
       ctx.fillRect(0, 0, canvasConfig.width, canvasConfig.height);
 
       // Draw arena floor tiles
-      drawFloor(ctx);
+      drawFloor(ctx, world);
 
       // Draw arena border
       drawArenaBorder(ctx);
 
       // Draw enemies
       if (enemyStates) {
-        const entities = world.query(Transform);
-        for (const entity of entities) {
-          if (world.getComponent(entity, Player)) continue;
+        for (const [entity, enemy, transform, sprite] of world.view(Enemy, Transform, Sprite)) {
           const enemyState = enemyStates.get(entity);
           if (!enemyState) continue;
 
-          const transform = world.getComponent(entity, Transform)!;
-          drawEnemy(ctx, transform.x, transform.y, enemyState);
+          drawEnemy(ctx, transform.x, transform.y, enemy, sprite, enemyState);
         }
       }
 
       // Draw player
       let currentHealth: number = playerConfig.maxHealth;
-      const players = world.query(Player, Transform, Health);
-      if (players.length > 0) {
-        const playerEntity = players[0]!;
-        const transform = world.getComponent(playerEntity, Transform)!;
-        const health = world.getComponent(playerEntity, Health)!;
+      const player = world.view(Player, Transform, Health).first();
+      if (player) {
+        const [, , transform, health] = player;
         currentHealth = health.current as number;
 
         if (playerState) {
@@ -85,6 +99,11 @@ export function createSoulKnightRenderSystem(config: SoulKnightRenderConfig): Sy
         }
       }
 
+      // Draw particles
+      if (config.particles) {
+        drawParticles(ctx, config.particles);
+      }
+
       // Draw UI
       drawUI(ctx, score, currentWave, playerState, currentHealth);
 
@@ -104,11 +123,14 @@ export function createSoulKnightRenderSystem(config: SoulKnightRenderConfig): Sy
 
     cleanup() {
       ctx = null;
+      cracks = null;
     },
   };
 
-  function drawFloor(ctx: CanvasRenderingContext2D) {
+  function drawFloor(ctx: CanvasRenderingContext2D, world: World) {
     const tileSize = 32;
+    const random = cracks ? null : getRandom(world, 'cosmetic');
+    const tileCracks = cracks ?? [];
 
     for (let x = arena.offsetX; x < arena.offsetX + arena.width; x += tileSize) {
       for (let y = arena.offsetY; y < arena.offsetY + arena.height; y += tileSize) {
@@ -116,17 +138,27 @@ export function createSoulKnightRenderSystem(config: SoulKnightRenderConfig): Sy
         ctx.fillStyle = isAlt ? colors.floorTile : colors.floorTileAlt;
         ctx.fillRect(x, y, tileSize, tileSize);
 
-        // Subtle crack details
-        if (Math.random() < 0.1) {
-          ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)';
-          ctx.lineWidth = 1;
-          ctx.beginPath();
-          ctx.moveTo(x + Math.random() * tileSize, y);
-          ctx.lineTo(x + Math.random() * tileSize, y + tileSize);
-          ctx.stroke();
+        if (random?.chance(0.1)) {
+          tileCracks.push({
+            x,
+            y,
+            top: random.range(0, tileSize),
+            bottom: random.range(0, tileSize),
+          });
         }
       }
     }
+    cracks = tileCracks;
+
+    // Subtle crack details
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)';
+    ctx.lineWidth = 1;
+    for (const crack of cracks) {
+      ctx.beginPath();
+      ctx.moveTo(crack.x + crack.top, crack.y);
+      ctx.lineTo(crack.x + crack.bottom, crack.y + tileSize);
+      ctx.stroke();
+    }
   }
 
   function drawArenaBorder(ctx: CanvasRenderingContext2D) {
@@ -255,16 +287,23 @@ export function createSoulKnightRenderSystem(config: SoulKnightRenderConfig): Sy
     ctx.restore();
   }
 
-  function drawEnemy(ctx: CanvasRenderingContext2D, x: number, y: number, state: EnemyState) {
-    const w = enemyConfig.width;
-    const h = enemyConfig.height;
+  function drawEnemy(
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    y: number,
+    enemy: EnemyData,
+    sprite: SpriteData,
+    state: EnemyState
+  ) {
+    const w = sprite.width;
+    const h = sprite.height;
 
     ctx.save();
     ctx.translate(x, y);
     ctx.globalAlpha = state.isDying ? state.deathFrames / 20 : 1;
 
     // Body
-    ctx.fillStyle = colors.enemyBody;
+    ctx.fillStyle = sprite.color;
     ctx.fillRect(-w * 0.4, -h * 0.4, w * 0.8, h * 0.8);
 
     // Hunched posture
@@ -288,7 +327,7 @@ export function createSoulKnightRenderSystem(config: SoulKnightRenderConfig): Sy
     // Weapon
     ctx.fillStyle = colors.enemyWeapon;
     if (state.isAttacking) {
-      const attackProgress = 1 - state.attackFrames / enemyConfig.attackDuration;
+      const attackProgress = 1 - state.attackFrames / enemy.attackDuration;
       const swingAngle = Math.sin(attackProgress * Math.PI) * 2;
       ctx.save();
       ctx.rotate(swingAngle);
@@ -305,7 +344,7 @@ export function createSoulKnightRenderSystem(config: SoulKnightRenderConfig): Sy
     ctx: CanvasRenderingContext2D,
     score: number,
     wave: number,
-    playerState: PlayerState | undefined,
+    playerState: PlayerState | null,
     currentHealth: number
   ) {
     // Health bar
@@ -0,0 +1,23 @@
+import { defineResource, type Entity } from '@repo/ecs';
+import type { EnemyState, PlayerState } from './prefabs';
+
+/** The knight's stamina, roll and attack state (set by createPlayer) */
+export const PlayerStateResource = defineResource<PlayerState | null>('soulKnight:playerState', null);
+
+/** Per-enemy AI and health state, keyed by enemy entity */
+export const EnemyStatesResource = defineResource('soulKnight:enemyStates', new Map<Entity, EnemyState>());
+
+/** The sword swing's hitbox entity while the swing can hit (see createAttackHitbox) */
+export const AttackHitboxResource = defineResource<Entity | null>('soulKnight:attackHitbox', null);
+
+/** Enemies already hit by the current attack */
+export const HitEnemiesResource = defineResource('soulKnight:hitEnemies', new Set<Entity>());
+
+/** Current wave number, starting at 1 */
+export const WaveResource = defineResource('soulKnight:wave', 1);
+
+/** Frames until the next enemy spawn check (negative during wave breaks) */
+export const SpawnTimerResource = defineResource('soulKnight:spawnTimer', 0);
+
+/** Enemies killed in the current wave */
+export const EnemiesKilledThisWaveResource = defineResource('soulKnight:enemiesKilledThisWave', 0);
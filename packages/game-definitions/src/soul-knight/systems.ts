@@ -1,24 +1,44 @@
-import { type System, type World, SystemPriorities } from '@repo/ecs';
+import { type System, type World, SystemPriorities, and, not, getRandom } from '@repo/ecs';
 import {
+  Enemy,
   Transform,
   Velocity,
   Sprite,
-  Collider,
   Player,
   Health,
   DirectionInput,
   ActionInput,
+  Collider,
+  RigidBody,
+  GameOverEvent,
+  RestartEvent,
+  ParticleBurstEvent,
+  PlaySoundEvent,
+  GameOverResource,
+  GameStartedResource,
+  HighScoreResource,
+  ScoreResource,
 } from '@repo/components';
+import { notGameOver, isGameOver, gameStarted, getContacts } from '@repo/systems';
 import { SOUL_KNIGHT_CONFIG } from './config';
 import {
-  type PlayerState,
-  type EnemyState,
   createEnemy,
+  createAttackHitbox,
+  pickEnemyBlueprint,
   getRandomSpawnPosition,
   getDistance,
   normalize,
   clamp,
 } from './prefabs';
+import {
+  AttackHitboxResource,
+  EnemiesKilledThisWaveResource,
+  EnemyStatesResource,
+  HitEnemiesResource,
+  PlayerStateResource,
+  SpawnTimerResource,
+  WaveResource,
+} from './resources';
 
 const { player: playerConfig, enemy: enemyConfig, arena, wave } = SOUL_KNIGHT_CONFIG;
 
@@ -27,20 +47,18 @@ const { player: playerConfig, enemy: enemyConfig, arena, wave } = SOUL_KNIGHT_CO
  */
 export const PlayerMovementSystem: System = {
   name: 'PlayerMovementSystem',
-  priority: SystemPriorities.INPUT + 10,
+  priority: SystemPriorities.INPUT,
+  after: ['InputSystem'],
+  runIf: notGameOver,
 
   update(world) {
-    if (world.getResource<boolean>('gameOver')) return;
+    const player = world
+      .view(Player, Transform, Velocity, DirectionInput, ActionInput, Health)
+      .first();
+    if (!player) return;
 
-    const players = world.query(Player, Transform, Velocity, DirectionInput, ActionInput, Health);
-    if (players.length === 0) return;
-
-    const playerEntity = players[0]!;
-    world.getComponent(playerEntity, Transform)!;
-    world.getComponent(playerEntity, Velocity)!;
-    const dirInput = world.getComponent(playerEntity, DirectionInput)!;
-    const actionInput = world.getComponent(playerEntity, ActionInput)!;
-    const playerState = world.getResource<PlayerState>('playerState')!;
+    const [playerEntity, , , , dirInput, actionInput] = player;
+    const playerState = world.getResource(PlayerStateResource)!;
 
     // Handle cooldowns
     if (playerState.rollCooldown > 0) playerState.rollCooldown--;
@@ -81,7 +99,7 @@ export const PlayerMovementSystem: System = {
           y: playerState.rollDirection.y * playerConfig.rollSpeed,
           z: 0,
         });
-        world.setResource('playerState', playerState);
+        world.setResource(PlayerStateResource, playerState);
         return;
       }
     }
@@ -94,7 +112,7 @@ export const PlayerMovementSystem: System = {
       }
       // Can't move while attacking
       world.addComponent(playerEntity, Velocity, { x: 0, y: 0, z: 0 });
-      world.setResource('playerState', playerState);
+      world.setResource(PlayerStateResource, playerState);
       return;
     }
 
@@ -110,7 +128,7 @@ export const PlayerMovementSystem: System = {
       playerState.rollCooldown = playerConfig.rollCooldown;
       playerState.rollDirection = normalize(moveX, moveY);
       playerState.stamina -= playerConfig.staminaCostRoll;
-      world.emit('playSound', { type: 'roll' });
+      world.emit(PlaySoundEvent, { type: 'roll' });
     }
 
     // Start attack (action button)
@@ -124,7 +142,7 @@ export const PlayerMovementSystem: System = {
       playerState.attackCooldown = playerConfig.attackCooldown;
       playerState.attackDirection = { ...playerState.facingDirection };
       playerState.stamina -= playerConfig.staminaCostAttack;
-      world.emit('playSound', { type: 'attack' });
+      world.emit(PlaySoundEvent, { type: 'attack' });
     }
 
     // Normal movement
@@ -133,7 +151,7 @@ export const PlayerMovementSystem: System = {
     const vy = moveY * speed;
 
     world.addComponent(playerEntity, Velocity, { x: vx, y: vy, z: 0 });
-    world.setResource('playerState', playerState);
+    world.setResource(PlayerStateResource, playerState);
   },
 };
 
@@ -143,13 +161,13 @@ export const PlayerMovementSystem: System = {
 export const PlayerBoundarySystem: System = {
   name: 'PlayerBoundarySystem',
   priority: SystemPriorities.POST_PHYSICS,
+  before: ['CollisionSystem'],
 
   update(world) {
-    const players = world.query(Player, Transform);
-    if (players.length === 0) return;
+    const player = world.view(Player, Transform).first();
+    if (!player) return;
 
-    const playerEntity = players[0]!;
-    const transform = world.getComponent(playerEntity, Transform)!;
+    const [playerEntity, , transform] = player;
 
     const minX = arena.offsetX + playerConfig.width / 2;
     const maxX = arena.offsetX + arena.width - playerConfig.width / 2;
@@ -170,36 +188,29 @@ export const PlayerBoundarySystem: System = {
 };
 
 /**
- * Enemy AI system - chase and attack player.
+ * Enemy AI system - chase the player and attack on contact.
  */
 export const EnemyAISystem: System = {
   name: 'EnemyAISystem',
   priority: SystemPriorities.GAME_LOGIC,
+  runIf: notGameOver,
 
   update(world) {
-    if (world.getResource<boolean>('gameOver')) return;
-
-    const players = world.query(Player, Transform);
-    if (players.length === 0) return;
+    const player = world.view(Player, Transform, Health).first();
+    if (!player) return;
 
-    const playerEntity = players[0]!;
-    const playerTransform = world.getComponent(playerEntity, Transform)!;
-    const playerState = world.getResource<PlayerState>('playerState');
+    const [playerEntity, , playerTransform, health] = player;
+    const playerState = world.getResource(PlayerStateResource);
 
-    const enemyStates = world.getResource<Map<number, EnemyState>>('enemyStates');
+    const enemyStates = world.getResource(EnemyStatesResource);
     if (!enemyStates) return;
 
-    const enemies = world.query(Sprite, Transform, Velocity, Collider);
-
-    for (const entity of enemies) {
-      // Skip player
-      if (world.getComponent(entity, Player)) continue;
+    const touching = getContacts(world, playerEntity);
 
+    for (const [entity, enemy, transform] of world.view(Enemy, Transform, Velocity)) {
       const enemyState = enemyStates.get(entity);
       if (!enemyState || enemyState.isDying) continue;
 
-      const transform = world.getComponent(entity, Transform)!;
-
       // Handle attack cooldown
       if (enemyState.attackCooldown > 0) enemyState.attackCooldown--;
 
@@ -213,51 +224,48 @@ export const EnemyAISystem: System = {
         continue;
       }
 
-      // Calculate distance to player
-      const dist = getDistance(transform.x, transform.y, playerTransform.x, playerTransform.y);
-
-      // Attack if in range and cooldown ready
-      if (dist < enemyConfig.attackRange && enemyState.attackCooldown === 0) {
+      // Attack if touching the player and cooldown ready
+      if (touching.includes(entity) && enemyState.attackCooldown === 0) {
         enemyState.isAttacking = true;
-        enemyState.attackFrames = enemyConfig.attackDuration;
-        enemyState.attackCooldown = enemyConfig.attackCooldown;
+        enemyState.attackFrames = enemy.attackDuration;
+        enemyState.attackCooldown = enemy.attackCooldown;
         world.addComponent(entity, Velocity, { x: 0, y: 0, z: 0 });
 
         // Deal damage to player
         if (playerState && playerState.invincibilityFrames === 0 && !playerState.isRolling) {
-          const health = world.getComponent(playerEntity, Health)!;
-          const newHealth = health.current - enemyConfig.damage;
+          const newHealth = health.current - enemy.damage;
           world.addComponent(playerEntity, Health, { ...health, current: newHealth });
           playerState.invincibilityFrames = playerConfig.invincibilityFrames;
-          playerState.lastDamageTime = Date.now();
-          world.setResource('playerState', playerState);
-          world.emit('playSound', { type: 'damage' });
+          world.setResource(PlayerStateResource, playerState);
+          world.emit(PlaySoundEvent, { type: 'damage' });
 
           if (newHealth <= 0) {
-            world.emit('gameOver', { reason: 'death' });
+            world.emit(GameOverEvent, { reason: 'death' });
           }
         }
         continue;
       }
 
       // Chase player if in range
-      if (dist < enemyConfig.chaseRange) {
+      const dist = getDistance(transform.x, transform.y, playerTransform.x, playerTransform.y);
+      if (dist < enemy.chaseRange) {
         const dir = normalize(
           playerTransform.x - transform.x,
           playerTransform.y - transform.y
         );
         world.addComponent(entity, Velocity, {
-          x: dir.x * enemyConfig.speed,
-          y: dir.y * enemyConfig.speed,
+          x: dir.x * enemy.speed,
+          y: dir.y * enemy.speed,
           z: 0,
         });
       } else {
         // Wander randomly
-        if (Math.random() < 0.02) {
-          const angle = Math.random() * Math.PI * 2;
+        const random = getRandom(world);
+        if (random.chance(0.02)) {
+          const angle = random.range(0, Math.PI * 2);
           world.addComponent(entity, Velocity, {
-            x: Math.cos(angle) * enemyConfig.speed * 0.5,
-            y: Math.sin(angle) * enemyConfig.speed * 0.5,
+            x: Math.cos(angle) * enemy.speed * 0.5,
+            y: Math.sin(angle) * enemy.speed * 0.5,
             z: 0,
           });
         }
@@ -271,24 +279,20 @@ export const EnemyAISystem: System = {
  */
 export const EnemyBoundarySystem: System = {
   name: 'EnemyBoundarySystem',
-  priority: SystemPriorities.POST_PHYSICS + 5,
+  priority: SystemPriorities.POST_PHYSICS,
+  before: ['CollisionSystem'],
 
   update(world) {
-    const enemyStates = world.getResource<Map<number, EnemyState>>('enemyStates');
+    const enemyStates = world.getResource(EnemyStatesResource);
     if (!enemyStates) return;
 
-    const enemies = world.query(Sprite, Transform, Collider);
-
-    for (const entity of enemies) {
-      if (world.getComponent(entity, Player)) continue;
+    for (const [entity, , transform, sprite] of world.view(Enemy, Transform, Sprite)) {
       if (!enemyStates.has(entity)) continue;
 
-      const transform = world.getComponent(entity, Transform)!;
-
-      const minX = arena.offsetX + enemyConfig.width / 2;
-      const maxX = arena.offsetX + arena.width - enemyConfig.width / 2;
-      const minY = arena.offsetY + enemyConfig.height / 2;
-      const maxY = arena.offsetY + arena.height - enemyConfig.height / 2;
+      const minX = arena.offsetX + sprite.width / 2;
+      const maxX = arena.offsetX + arena.width - sprite.width / 2;
+      const minY = arena.offsetY + sprite.height / 2;
+      const maxY = arena.offsetY + arena.height - sprite.height / 2;
 
       const newX = clamp(transform.x, minX, maxX);
       const newY = clamp(transform.y, minY, maxY);
@@ -305,68 +309,98 @@ export const EnemyBoundarySystem: System = {
 };
 
 /**
- * Player attack collision system - damage enemies.
+ * Attack hitbox system - places the sword swing's hitbox in front of the
+ * knight while the swing can hit, for the CollisionSystem to test.
  */
-export const PlayerAttackSystem: System = {
-  name: 'PlayerAttackSystem',
-  priority: SystemPriorities.POST_PHYSICS + 10,
+export const AttackHitboxSystem: System = {
+  name: 'AttackHitboxSystem',
+  priority: SystemPriorities.POST_PHYSICS,
+  // Follow the knight's position clamped to the arena
+  after: ['PlayerBoundarySystem'],
+  before: ['CollisionSystem'],
+  runIf: notGameOver,
 
   update(world) {
-    if (world.getResource<boolean>('gameOver')) return;
+    const hitbox = world.getResource(AttackHitboxResource);
+    const playerState = world.getResource(PlayerStateResource);
+    const player = world.view(Player, Transform).first();
 
-    const playerState = world.getResource<PlayerState>('playerState');
-    if (!playerState || !playerState.isAttacking) return;
     // Only damage on specific frames (early in attack)
-    const attackProgress = playerConfig.attackDuration - playerState.attackFrames;
-    if (attackProgress < 3 || attackProgress > 8) return;
+    const attackProgress = playerState
+      ? playerConfig.attackDuration - playerState.attackFrames
+      : 0;
+    const active = playerState?.isAttacking && attackProgress >= 3 && attackProgress <= 8;
+
+    if (!player || !playerState || !active) {
+      if (hitbox !== null) {
+        world.despawn(hitbox);
+        world.setResource(AttackHitboxResource, null);
+      }
+      return;
+    }
 
-    const players = world.query(Player, Transform);
-    if (players.length === 0) return;
+    const [, , playerTransform] = player;
+    const x = playerTransform.x + playerState.attackDirection.x * playerConfig.attackRange * 0.5;
+    const y = playerTransform.y + playerState.attackDirection.y * playerConfig.attackRange * 0.5;
 
-    const playerEntity = players[0]!;
-    const playerTransform = world.getComponent(playerEntity, Transform)!;
+    if (hitbox === null) {
+      world.setResource(AttackHitboxResource, createAttackHitbox(world, x, y));
+    } else {
+      world.updateComponent(hitbox, Transform, { x, y });
+    }
+  },
+};
 
-    const enemyStates = world.getResource<Map<number, EnemyState>>('enemyStates');
-    if (!enemyStates) return;
+/**
+ * Player attack system - damage enemies touching the attack hitbox.
+ */
+export const PlayerAttackSystem: System = {
+  name: 'PlayerAttackSystem',
+  priority: SystemPriorities.POST_PHYSICS,
+  after: ['CollisionSystem'],
+  runIf: notGameOver,
 
-    // Calculate attack hitbox
-    const attackX = playerTransform.x + playerState.attackDirection.x * playerConfig.attackRange * 0.5;
-    const attackY = playerTransform.y + playerState.attackDirection.y * playerConfig.attackRange * 0.5;
+  update(world) {
+    const hitbox = world.getResource(AttackHitboxResource);
+    if (hitbox === null) return;
 
-    const enemies = world.query(Sprite, Transform, Collider);
-    const hitEnemies = world.getResource<Set<number>>('hitEnemies') ?? new Set();
+    const enemyStates = world.getResource(EnemyStatesResource);
+    if (!enemyStates) return;
 
-    for (const entity of enemies) {
-      if (world.getComponent(entity, Player)) continue;
+    const hitEnemies = world.getResource(HitEnemiesResource);
 
+    for (const entity of getContacts(world, hitbox)) {
+      const enemy = world.getComponent(entity, Enemy);
       const enemyState = enemyStates.get(entity);
-      if (!enemyState || enemyState.isDying) continue;
+      if (!enemy || !enemyState || enemyState.isDying) continue;
       if (hitEnemies.has(entity)) continue;
 
-      const transform = world.getComponent(entity, Transform)!;
-      const dist = getDistance(attackX, attackY, transform.x, transform.y);
-
-      if (dist < playerConfig.attackRange) {
-        enemyState.health--;
-        hitEnemies.add(entity);
-
-        if (enemyState.health <= 0) {
-          // Enemy dies
-          enemyState.isDying = true;
-          enemyState.deathFrames = 20;
-
-          // Update score
-          const score = (world.getResource<number>('score') ?? 0) + enemyConfig.scorePerKill;
-          world.setResource('score', score);
-          world.emit('scoreChange', { score });
-          world.emit('playSound', { type: 'kill' });
-        } else {
-          world.emit('playSound', { type: 'hit' });
+      enemyState.health--;
+      hitEnemies.add(entity);
+
+      if (enemyState.health <= 0) {
+        // Enemy dies; the body stops blocking and being hit
+        enemyState.isDying = true;
+        enemyState.deathFrames = 20;
+        world.commands.remove(entity, Collider);
+        world.commands.remove(entity, RigidBody);
+
+        const transform = world.getComponent(entity, Transform);
+        if (transform) {
+          world.emit(ParticleBurstEvent, { effect: 'enemyDeath', x: transform.x, y: transform.y });
+          world.emit(ParticleBurstEvent, { effect: 'soulOrb', x: transform.x, y: transform.y });
         }
+
+        // Update score
+        const score = world.getResource(ScoreResource) + enemy.scorePerKill;
+        world.setResource(ScoreResource, score);
+        world.emit(PlaySoundEvent, { type: 'kill' });
+      } else {
+        world.emit(PlaySoundEvent, { type: 'hit' });
       }
     }
 
-    world.setResource('hitEnemies', hitEnemies);
+    world.setResource(HitEnemiesResource, hitEnemies);
   },
 };
 
@@ -375,12 +409,14 @@ export const PlayerAttackSystem: System = {
  */
 export const ClearHitEnemiesSystem: System = {
   name: 'ClearHitEnemiesSystem',
-  priority: SystemPriorities.INPUT + 5,
+  priority: SystemPriorities.INPUT,
+  // Clear before a new attack can start this step
+  before: ['PlayerMovementSystem'],
 
   update(world) {
-    const playerState = world.getResource<PlayerState>('playerState');
+    const playerState = world.getResource(PlayerStateResource);
     if (!playerState?.isAttacking) {
-      world.setResource('hitEnemies', new Set());
+      world.setResource(HitEnemiesResource, new Set());
     }
   },
 };
@@ -390,69 +426,50 @@ export const ClearHitEnemiesSystem: System = {
  */
 export const EnemyDeathSystem: System = {
   name: 'EnemyDeathSystem',
-  priority: SystemPriorities.GAME_LOGIC + 10,
+  priority: SystemPriorities.GAME_LOGIC,
 
   update(world) {
-    const enemyStates = world.getResource<Map<number, EnemyState>>('enemyStates');
+    const enemyStates = world.getResource(EnemyStatesResource);
     if (!enemyStates) return;
 
-    const enemies = world.query(Sprite, Transform, Collider);
-    const toRemove: number[] = [];
-
-    for (const entity of enemies) {
-      if (world.getComponent(entity, Player)) continue;
-
+    for (const [entity, , sprite] of world.view(Enemy, Sprite)) {
       const enemyState = enemyStates.get(entity);
       if (!enemyState || !enemyState.isDying) continue;
 
       enemyState.deathFrames--;
 
       // Fade out
-      const sprite = world.getComponent(entity, Sprite)!;
       world.addComponent(entity, Sprite, {
         ...sprite,
         opacity: enemyState.deathFrames / 20,
       });
 
+      // Remove dead enemies
       if (enemyState.deathFrames <= 0) {
-        toRemove.push(entity);
+        world.commands.despawn(entity);
+        enemyStates.delete(entity);
       }
     }
-
-    // Remove dead enemies
-    for (const entity of toRemove) {
-      world.removeAllComponents(entity);
-      world.entities.destroy(entity);
-      enemyStates.delete(entity);
-    }
   },
 };
 
 /**
  * Enemy spawn system - spawn enemies in waves.
  */
-export function createEnemySpawnSystem(onScoreChange?: (score: number) => void): System {
+export function createEnemySpawnSystem(): System {
   return {
     name: 'EnemySpawnSystem',
-    priority: SystemPriorities.GAME_LOGIC + 15,
-
-    init(world: World) {
-      // Listen for score changes
-      world.on('scoreChange', (data: unknown) => {
-        const { score } = data as { score: number };
-        onScoreChange?.(score);
-      });
-    },
+    priority: SystemPriorities.GAME_LOGIC,
+    // Count living enemies after this step's deaths
+    after: ['EnemyDeathSystem'],
+    runIf: and(gameStarted, notGameOver),
 
     update(world) {
-      if (world.getResource<boolean>('gameOver')) return;
-      if (!world.getResource<boolean>('gameStarted')) return;
-
-      const spawnTimer = (world.getResource<number>('spawnTimer') ?? 0) + 1;
-      world.setResource('spawnTimer', spawnTimer);
+      const spawnTimer = world.getResource(SpawnTimerResource) + 1;
+      world.setResource(SpawnTimerResource, spawnTimer);
 
       // Count living enemies
-      const enemyStates = world.getResource<Map<number, EnemyState>>('enemyStates') ?? new Map();
+      const enemyStates = world.getResource(EnemyStatesResource);
       let livingEnemies = 0;
       for (const state of enemyStates.values()) {
         if (!state.isDying) livingEnemies++;
@@ -460,8 +477,8 @@ export function createEnemySpawnSystem(onScoreChange?: (score: number) => void):
 
       // Check for wave completion
       if (livingEnemies === 0) {
-        const currentWave = (world.getResource<number>('wave') ?? 1);
-        const enemiesKilled = world.getResource<number>('enemiesKilledThisWave') ?? 0;
+        const currentWave = world.getResource(WaveResource);
+        const enemiesKilled = world.getResource(EnemiesKilledThisWaveResource);
         const waveTarget = Math.min(
           wave.startEnemies + (currentWave - 1) * wave.enemiesPerWave,
           wave.maxWaveEnemies
@@ -469,15 +486,15 @@ export function createEnemySpawnSystem(onScoreChange?: (score: number) => void):
 
         if (enemiesKilled >= waveTarget) {
           // Next wave!
-          world.setResource('wave', currentWave + 1);
-          world.setResource('enemiesKilledThisWave', 0);
-          world.setResource('spawnTimer', -60); // Brief pause between waves
-          world.emit('playSound', { type: 'wave' });
+          world.setResource(WaveResource, currentWave + 1);
+          world.setResource(EnemiesKilledThisWaveResource, 0);
+          world.setResource(SpawnTimerResource, -60); // Brief pause between waves
+          world.emit(PlaySoundEvent, { type: 'wave' });
         }
       }
 
       // Spawn enemies
-      const currentWave = world.getResource<number>('wave') ?? 1;
+      const currentWave = world.getResource(WaveResource);
       const waveTarget = Math.min(
         wave.startEnemies + (currentWave - 1) * wave.enemiesPerWave,
         wave.maxWaveEnemies
@@ -489,8 +506,9 @@ export function createEnemySpawnSystem(onScoreChange?: (score: number) => void):
         livingEnemies < enemyConfig.maxEnemies &&
         livingEnemies < waveTarget
       ) {
-        const pos = getRandomSpawnPosition();
-        createEnemy(world, pos.x, pos.y);
+        const random = getRandom(world);
+        const pos = getRandomSpawnPosition(random);
+        createEnemy(world, pickEnemyBlueprint(currentWave, random), pos.x, pos.y);
       }
     },
   };
@@ -499,27 +517,28 @@ export function createEnemySpawnSystem(onScoreChange?: (score: number) => void):
 /**
  * Game over system.
  */
-export function createSoulKnightGameOverSystem(onGameOver?: () => void): System {
+export function createSoulKnightGameOverSystem(): System {
   return {
     name: 'SoulKnightGameOverSystem',
-    priority: SystemPriorities.GAME_LOGIC + 20,
+    priority: SystemPriorities.GAME_LOGIC,
+    // High score is loaded from localStorage by the game
+    requires: [HighScoreResource],
 
     init(world: World) {
-      world.on('gameOver', () => {
-        world.setResource('gameOver', true);
+      world.on(GameOverEvent, () => {
+        world.setResource(GameOverResource, true);
 
         // Update high score
-        const score = world.getResource<number>('score') ?? 0;
-        const highScore = world.getResource<number>('highScore') ?? 0;
+        const score = world.getResource(ScoreResource);
+        const highScore = world.getResource(HighScoreResource);
         if (score > highScore) {
-          world.setResource('highScore', score);
+          world.setResource(HighScoreResource, score);
           if (typeof window !== 'undefined') {
             localStorage.setItem('soulknight-high-score', String(score));
           }
         }
 
-        world.emit('playSound', { type: 'gameOver' });
-        onGameOver?.();
+        world.emit(PlaySoundEvent, { type: 'gameOver' });
       });
     },
 
@@ -532,16 +551,14 @@ export function createSoulKnightGameOverSystem(onGameOver?: () => void): System
  */
 export const SoulKnightRestartSystem: System = {
   name: 'SoulKnightRestartSystem',
-  priority: SystemPriorities.INPUT + 20,
+  priority: SystemPriorities.INPUT,
+  after: ['InputSystem'],
+  runIf: isGameOver,
 
   update(world) {
-    if (!world.getResource<boolean>('gameOver')) return;
-
-    const players = world.query(Player, ActionInput);
-    for (const entity of players) {
-      const input = world.getComponent(entity, ActionInput);
-      if (input?.actionJustPressed) {
-        world.emit('restart');
+    for (const [, , input] of world.view(Player, ActionInput)) {
+      if (input.actionJustPressed) {
+        world.emit(RestartEvent);
       }
     }
   },
@@ -552,20 +569,15 @@ export const SoulKnightRestartSystem: System = {
  */
 export const GameStartSystem: System = {
   name: 'GameStartSystem',
-  priority: SystemPriorities.INPUT + 5,
+  priority: SystemPriorities.INPUT,
+  after: ['InputSystem'],
+  runIf: and(not(gameStarted), notGameOver),
 
   update(world) {
-    if (world.getResource<boolean>('gameStarted')) return;
-    if (world.getResource<boolean>('gameOver')) return;
-
-    const players = world.query(Player, ActionInput, DirectionInput);
-    for (const entity of players) {
-      const actionInput = world.getComponent(entity, ActionInput);
-      const dirInput = world.getComponent(entity, DirectionInput);
-
-      if (actionInput?.actionJustPressed || dirInput?.direction) {
-        world.setResource('gameStarted', true);
-        world.emit('playSound', { type: 'start' });
+    for (const [, , actionInput, dirInput] of world.view(Player, ActionInput, DirectionInput)) {
+      if (actionInput.actionJustPressed || dirInput.direction) {
+        world.setResource(GameStartedResource, true);
+        world.emit(PlaySoundEvent, { type: 'start' });
       }
     }
   },
@@ -1,3 +1,5 @@
+import type { ParticleEffect } from '@repo/components';
+
 /**
  * Tetromino (Tetris) game configuration constants.
  * All visual and gameplay parameters in one place.
@@ -54,6 +56,11 @@ export const TETROMINO_SHAPES: Record<TetrominoType, number[][][]> = {
 };
 
 export const TETROMINO_CONFIG = {
+  /** Replay compatibility: bump gameVersion when a change makes old replays play differently */
+  replay: {
+    game: 'tetromino',
+    gameVersion: 1,
+  },
   canvas: {
     width: 400,
     height: 360,
@@ -104,3 +111,22 @@ export const TETROMINO_CONFIG = {
 } as const;
 
 export type TetrominoConfig = typeof TETROMINO_CONFIG;
+
+/**
+ * Particle effects, by the names the systems emit ParticleBurstEvents with.
+ */
+export const TETROMINO_PARTICLES = {
+  /** Sparks along a cleared line (emitted per row, spread across its width) */
+  lineClear: {
+    count: 24,
+    lifetime: 0.5,
+    speedMin: 20,
+    speedMax: 90,
+    gravity: 150,
+    width: TETROMINO_CONFIG.grid.cols * TETROMINO_CONFIG.grid.cellSize,
+    colorStart: '#ffffff',
+    colorEnd: TETROMINO_CONFIG.colors.border,
+    sizeStart: 3,
+    sizeEnd: 1,
+  },
+} satisfies Record<string, ParticleEffect>;
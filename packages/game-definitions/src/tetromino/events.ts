@@ -0,0 +1,7 @@
+import { defineEvent } from '@repo/ecs';
+
+/** The falling piece should be locked into the board */
+export const LockPieceEvent = defineEvent('tetromino:lockPiece');
+
+/** One or more lines were cleared after locking a piece */
+export const LineClearEvent = defineEvent<{ lines: number }>('tetromino:lineClear');
@@ -1,5 +1,31 @@
-import { createWorld, type World } from '@repo/ecs';
-import { InputSystem, createAudioSystem } from '@repo/systems';
+import {
+  createWorld,
+  createGameLoop,
+  seedRandom,
+  getRandom,
+  type World,
+  type GameLoop,
+} from '@repo/ecs';
+import {
+  RestartEvent,
+  GameOverResource,
+  HighScoreResource,
+  ScoreResource,
+  TilemapResource,
+  Player,
+  InputReceiver,
+  DirectionInput,
+  ActionInput,
+  type SoundType,
+} from '@repo/components';
+import {
+  InputSystem,
+  createInputSystem,
+  createAudioSystem,
+  createParticlePool,
+  createParticleSystem,
+  type GameInput,
+} from '@repo/systems';
 import {
   createTetrominoMovementSystem,
   createTetrominoRotationSystem,
@@ -12,21 +38,36 @@ import {
 import { createTetrominoRenderSystem } from './render';
 import {
   createTetrominoController,
-  createEmptyBoard,
+  createBoard,
   createNewPiece,
   getRandomTetrominoType,
 } from './prefabs';
-import { TETROMINO_CONFIG } from './config';
+import { TETROMINO_CONFIG, TETROMINO_PARTICLES } from './config';
+import {
+  CurrentPieceResource,
+  DropCooldownResource,
+  FallTimerResource,
+  LevelResource,
+  MoveCooldownResource,
+  NextPieceResource,
+  RotateCooldownResource,
+  TotalLinesResource,
+} from './resources';
 
 export interface TetrominoGameOptions {
-  canvas: HTMLCanvasElement;
-  playSound: (type: string) => void;
-  onScoreChange?: (score: number) => void;
-  onGameOver?: () => void;
+  /** Canvas to render to. Without one the game runs headless (see createHeadlessRunner). */
+  canvas?: HTMLCanvasElement;
+  playSound?: (type: SoundType) => void;
+  /** Read input from here instead of the input store (e.g. scripted input) */
+  input?: () => GameInput;
+  /** Seed for the game's random streams (defaults to the current time) */
+  seed?: number;
 }
 
 export interface TetrominoGameInstance {
   world: World;
+  /** The game loop, for pausing, fast-forwarding and frame stepping */
+  loop: GameLoop;
   start: () => void;
   stop: () => void;
   reset: () => void;
@@ -39,11 +80,10 @@ export interface TetrominoGameInstance {
  */
 export function createTetrominoGame(options: TetrominoGameOptions): TetrominoGameInstance {
   const world = createWorld();
-  let animationFrame: number | null = null;
-  let lastTime = 0;
-  let isRunning = false;
+  const loop = createGameLoop(world);
+  seedRandom(world, options.seed ?? Date.now());
 
-  const { cols, rows } = TETROMINO_CONFIG.grid;
+  const { cols } = TETROMINO_CONFIG.grid;
 
   // Load high score from localStorage
   let initialHighScore = 0;
@@ -55,84 +95,86 @@ export function createTetrominoGame(options: TetrominoGameOptions): TetrominoGam
   }
 
   // Initialize resources
-  world.setResource('score', 0);
-  world.setResource('highScore', initialHighScore);
-  world.setResource('level', 1);
-  world.setResource('totalLines', 0);
-  world.setResource('gameOver', false);
-  world.setResource('board', createEmptyBoard(rows, cols));
-  world.setResource('currentPiece', null);
-  world.setResource('nextPiece', getRandomTetrominoType());
-  world.setResource('lastFallTime', Date.now());
+  world.setResource(ScoreResource, 0);
+  world.setResource(HighScoreResource, initialHighScore);
+  world.setResource(LevelResource, 1);
+  world.setResource(TotalLinesResource, 0);
+  world.setResource(GameOverResource, false);
+  world.setResource(TilemapResource, createBoard());
+  world.setResource(CurrentPieceResource, null);
+  world.setResource(NextPieceResource, getRandomTetrominoType(getRandom(world)));
+  world.setResource(FallTimerResource, 0);
+
+  // Register what start() and the systems create later, so snapshots also
+  // restore into a game that hasn't started (restore matches types by name)
+  world.registerComponent(Player);
+  world.registerComponent(InputReceiver);
+  world.registerComponent(DirectionInput);
+  world.registerComponent(ActionInput);
+  world.registerResource(MoveCooldownResource);
+  world.registerResource(RotateCooldownResource);
+  world.registerResource(DropCooldownResource);
 
   // Add systems in priority order
-  world.addSystem(InputSystem);
+  world.addSystem(options.input ? createInputSystem({ source: options.input }) : InputSystem);
   world.addSystem(createTetrominoMovementSystem());
   world.addSystem(createTetrominoRotationSystem());
   world.addSystem(createHardDropSystem());
   world.addSystem(TetrominoRestartSystem);
   world.addSystem(createTetrominoFallSystem());
-  world.addSystem(createTetrominoLockSystem(options.onScoreChange));
-  world.addSystem(createTetrominoGameOverSystem(options.onGameOver));
-  world.addSystem(createTetrominoRenderSystem({ canvas: options.canvas }));
-  world.addSystem(createAudioSystem({ playSound: options.playSound }));
+  world.addSystem(createTetrominoLockSystem());
+  world.addSystem(createTetrominoGameOverSystem());
+  if (options.canvas) {
+    const particles = createParticlePool();
+    world.addSystem(createParticleSystem({ pool: particles, effects: TETROMINO_PARTICLES }));
+    world.addSystem(createTetrominoRenderSystem({ canvas: options.canvas, particles }));
+  }
+  if (options.playSound) {
+    world.addSystem(createAudioSystem({ playSound: options.playSound }));
+  }
 
   // Handle restart
-  world.on('restart', () => {
+  world.on(RestartEvent, () => {
     reset();
   });
 
   function initEntities() {
     // Clear all entities
     for (const entity of world.entities.getAll()) {
-      world.removeAllComponents(entity);
-      world.entities.destroy(entity);
+      world.despawn(entity);
     }
 
     // Reset resources
-    world.setResource('score', 0);
-    world.setResource('level', 1);
-    world.setResource('totalLines', 0);
-    world.setResource('gameOver', false);
-    world.setResource('board', createEmptyBoard(rows, cols));
-    world.setResource('lastFallTime', Date.now());
+    world.resetResource(ScoreResource);
+    world.resetResource(LevelResource);
+    world.resetResource(TotalLinesResource);
+    world.resetResource(GameOverResource);
+    world.setResource(TilemapResource, createBoard());
+    world.resetResource(FallTimerResource);
+    world.resetResource(MoveCooldownResource);
+    world.resetResource(RotateCooldownResource);
+    world.resetResource(DropCooldownResource);
 
     // Generate first pieces
-    const firstType = getRandomTetrominoType();
-    world.setResource('currentPiece', createNewPiece(firstType, cols));
-    world.setResource('nextPiece', getRandomTetrominoType());
+    const firstType = getRandomTetrominoType(getRandom(world));
+    world.setResource(CurrentPieceResource, createNewPiece(firstType, cols));
+    world.setResource(NextPieceResource, getRandomTetrominoType(getRandom(world)));
 
     // Create input controller entity
     createTetrominoController(world);
   }
 
-  function gameLoop(time: number) {
-    if (!isRunning) return;
-
-    const deltaTime = (time - lastTime) / 1000;
-    lastTime = time;
-
-    world.update(deltaTime);
-
-    animationFrame = requestAnimationFrame(gameLoop);
-  }
-
   function start() {
-    if (isRunning) return;
+    if (loop.running) return;
 
     initEntities();
-    options.playSound('start');
-    isRunning = true;
-    lastTime = performance.now();
-    animationFrame = requestAnimationFrame(gameLoop);
+    options.playSound?.('start');
+    // Headless games are stepped by their caller
+    if (options.canvas) loop.start();
   }
 
   function stop() {
-    isRunning = false;
-    if (animationFrame !== null) {
-      cancelAnimationFrame(animationFrame);
-      animationFrame = null;
-    }
+    loop.stop();
   }
 
   function reset() {
@@ -145,8 +187,8 @@ export function createTetrominoGame(options: TetrominoGameOptions): TetrominoGam
     world.destroy();
   }
 
-  return { world, start, stop, reset, destroy };
+  return { world, loop, start, stop, reset, destroy };
 }
 
 // Re-export config for consumers
-export { TETROMINO_CONFIG } from './config';
+export { TETROMINO_CONFIG, TETROMINO_PARTICLES } from './config';
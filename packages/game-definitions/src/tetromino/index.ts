@@ -1,22 +1,24 @@
 export {
   createTetrominoGame,
   TETROMINO_CONFIG,
+  TETROMINO_PARTICLES,
   type TetrominoGameOptions,
   type TetrominoGameInstance,
 } from './game';
 export {
   createTetrominoController,
-  createEmptyBoard,
+  createBoard,
   createNewPiece,
   getRandomTetrominoType,
   getTetrominoBlocks,
   isValidPosition,
   lockPiece,
+  getFullRows,
   clearLines,
   getGhostPosition,
   tryRotate,
+  TETROMINO_TILESET,
   type TetrominoPiece,
-  type BoardState,
 } from './prefabs';
 export {
   createTetrominoMovementSystem,
@@ -28,4 +30,12 @@ export {
   TetrominoRestartSystem,
 } from './systems';
 export { createTetrominoRenderSystem, type TetrominoRenderConfig } from './render';
+export { LockPieceEvent, LineClearEvent } from './events';
+export {
+  LevelResource,
+  TotalLinesResource,
+  CurrentPieceResource,
+  NextPieceResource,
+  FallTimerResource,
+} from './resources';
 export { TETROMINO_SHAPES, type TetrominoType, type TetrominoConfig } from './config';
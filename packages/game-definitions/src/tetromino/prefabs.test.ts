@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { getTile, setTile } from '@repo/components';
+import { createBoard, getFullRows, clearLines } from './prefabs';
+
+/** Fill a board row, leaving out the columns in `gaps` */
+function fillRow(board: ReturnType<typeof createBoard>, row: number, gaps: number[] = []) {
+  for (let col = 0; col < board.cols; col++) {
+    if (!gaps.includes(col)) setTile(board, 'blocks', col, row, 'I');
+  }
+}
+
+describe('tetromino lines', () => {
+  it('clears full rows, dropping the rows above them', () => {
+    const board = createBoard();
+    const bottom = board.rows - 1;
+    fillRow(board, bottom);
+    fillRow(board, bottom - 1, [0]);
+    fillRow(board, bottom - 2);
+    setTile(board, 'blocks', 3, bottom - 3, 'T');
+
+    expect(getFullRows(board)).toEqual([bottom - 2, bottom]);
+    expect(clearLines(board)).toBe(2);
+
+    expect(getFullRows(board)).toEqual([]);
+    expect(getTile(board, 'blocks', 0, bottom)).toBeNull();
+    expect(getTile(board, 'blocks', 1, bottom)).toBe('I');
+    expect(getTile(board, 'blocks', 3, bottom - 1)).toBe('T');
+    expect(getTile(board, 'blocks', 3, bottom - 2)).toBeNull();
+  });
+});
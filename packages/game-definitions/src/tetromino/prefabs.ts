@@ -1,6 +1,19 @@
-import type { World, Entity } from '@repo/ecs';
-import { Player, InputReceiver, DirectionInput, ActionInput } from '@repo/components';
-import { TETROMINO_SHAPES, type TetrominoType } from './config';
+import type { World, Entity, Random } from '@repo/ecs';
+import {
+  Player,
+  InputReceiver,
+  DirectionInput,
+  ActionInput,
+  createTilemap,
+  createEmptyTileLayer,
+  getTile,
+  inBounds,
+  isWalkable,
+  setTile,
+  type Tilemap,
+  type TileType,
+} from '@repo/components';
+import { TETROMINO_CONFIG, TETROMINO_SHAPES, type TetrominoType } from './config';
 
 /**
  * Tetromino piece state stored as a resource
@@ -13,18 +26,33 @@ export interface TetrominoPiece {
 }
 
 /**
- * Board state - 2D array of settled blocks
- * null means empty, string is the color/type
+ * Settled blocks are tiles of the piece type that placed them, in the
+ * board's 'blocks' layer. Every block is solid, in its piece's color.
  */
-export type BoardState = (TetrominoType | null)[][];
+export const TETROMINO_TILESET: Record<TetrominoType, TileType> = {
+  I: { solid: true, color: TETROMINO_CONFIG.colors.I },
+  O: { solid: true, color: TETROMINO_CONFIG.colors.O },
+  T: { solid: true, color: TETROMINO_CONFIG.colors.T },
+  S: { solid: true, color: TETROMINO_CONFIG.colors.S },
+  Z: { solid: true, color: TETROMINO_CONFIG.colors.Z },
+  J: { solid: true, color: TETROMINO_CONFIG.colors.J },
+  L: { solid: true, color: TETROMINO_CONFIG.colors.L },
+};
 
 /**
- * Create empty board state
+ * Create an empty board, sized from the config
  */
-export function createEmptyBoard(rows: number, cols: number): BoardState {
-  return Array(rows)
-    .fill(null)
-    .map(() => Array(cols).fill(null) as (TetrominoType | null)[]);
+export function createBoard(): Tilemap<TetrominoType> {
+  const { cols, rows, cellSize } = TETROMINO_CONFIG.grid;
+
+  return createTilemap({
+    cols,
+    rows,
+    cellWidth: cellSize,
+    cellHeight: cellSize,
+    tileset: TETROMINO_TILESET,
+    layers: { blocks: createEmptyTileLayer(cols, rows) },
+  });
 }
 
 /**
@@ -43,32 +71,17 @@ export function getTetrominoBlocks(piece: TetrominoPiece): { row: number; col: n
 /**
  * Check if a piece position is valid (no collisions)
  */
-export function isValidPosition(
-  piece: TetrominoPiece,
-  board: BoardState,
-  rows: number,
-  cols: number
-): boolean {
-  const blocks = getTetrominoBlocks(piece);
-
-  for (const block of blocks) {
-    // Check bounds
-    if (block.col < 0 || block.col >= cols) return false;
-    if (block.row < 0 || block.row >= rows) return false;
-
-    // Check collision with settled blocks
-    if (board[block.row]?.[block.col] !== null) return false;
-  }
-
-  return true;
+export function isValidPosition(piece: TetrominoPiece, board: Tilemap): boolean {
+  // On the board, and clear of settled blocks
+  return getTetrominoBlocks(piece).every((block) => isWalkable(board, block.col, block.row));
 }
 
 /**
  * Get a random tetromino type
  */
-export function getRandomTetrominoType(): TetrominoType {
+export function getRandomTetrominoType(random: Random): TetrominoType {
   const types: TetrominoType[] = ['I', 'O', 'T', 'S', 'Z', 'J', 'L'];
-  return types[Math.floor(Math.random() * types.length)]!;
+  return random.pick(types);
 }
 
 /**
@@ -86,35 +99,53 @@ export function createNewPiece(type: TetrominoType, cols: number): TetrominoPiec
 /**
  * Lock a piece into the board
  */
-export function lockPiece(piece: TetrominoPiece, board: BoardState): void {
+export function lockPiece(piece: TetrominoPiece, board: Tilemap): void {
   const blocks = getTetrominoBlocks(piece);
 
   for (const block of blocks) {
-    if (block.row >= 0 && block.row < board.length) {
-      const row = board[block.row];
-      if (row && block.col >= 0 && block.col < row.length) {
-        row[block.col] = piece.type;
-      }
+    if (inBounds(board, block.col, block.row)) {
+      setTile(board, 'blocks', block.col, block.row, piece.type);
     }
   }
 }
 
+/** Whether every cell of a board row is filled */
+function isRowFull(board: Tilemap, row: number): boolean {
+  for (let col = 0; col < board.cols; col++) {
+    if (getTile(board, 'blocks', col, row) === null) return false;
+  }
+  return true;
+}
+
+/**
+ * Get the completed lines clearLines would clear, top to bottom
+ */
+export function getFullRows(board: Tilemap): number[] {
+  const rows: number[] = [];
+  for (let row = 0; row < board.rows; row++) {
+    if (isRowFull(board, row)) rows.push(row);
+  }
+  return rows;
+}
+
 /**
  * Clear completed lines and return count
  */
-export function clearLines(board: BoardState, cols: number): number {
+export function clearLines(board: Tilemap): number {
   let linesCleared = 0;
 
-  for (let row = board.length - 1; row >= 0; row--) {
-    const boardRow = board[row];
-    if (boardRow && boardRow.every((cell) => cell !== null)) {
-      // Remove the completed row
-      board.splice(row, 1);
-      // Add new empty row at top
-      board.unshift(Array(cols).fill(null) as (TetrominoType | null)[]);
-      linesCleared++;
-      row++; // Check this row again since rows shifted down
+  for (let row = board.rows - 1; row >= 0; row--) {
+    if (!isRowFull(board, row)) continue;
+
+    // Shift the rows above down over the completed row, leaving the top row empty
+    for (let above = row; above >= 0; above--) {
+      for (let col = 0; col < board.cols; col++) {
+        const tile = above > 0 ? getTile(board, 'blocks', col, above - 1) : null;
+        setTile(board, 'blocks', col, above, tile);
+      }
     }
+    linesCleared++;
+    row++; // Check this row again since rows shifted down
   }
 
   return linesCleared;
@@ -123,15 +154,10 @@ export function clearLines(board: BoardState, cols: number): number {
 /**
  * Calculate ghost piece position (where piece would land)
  */
-export function getGhostPosition(
-  piece: TetrominoPiece,
-  board: BoardState,
-  rows: number,
-  cols: number
-): TetrominoPiece {
+export function getGhostPosition(piece: TetrominoPiece, board: Tilemap): TetrominoPiece {
   const ghost = { ...piece };
 
-  while (isValidPosition({ ...ghost, row: ghost.row + 1 }, board, rows, cols)) {
+  while (isValidPosition({ ...ghost, row: ghost.row + 1 }, board)) {
     ghost.row++;
   }
 
@@ -144,15 +170,13 @@ export function getGhostPosition(
 export function tryRotate(
   piece: TetrominoPiece,
   direction: 1 | -1,
-  board: BoardState,
-  rows: number,
-  cols: number
+  board: Tilemap
 ): TetrominoPiece | null {
   const newRotation = (piece.rotation + direction + 4) % 4;
   const rotated = { ...piece, rotation: newRotation };
 
   // Try basic rotation
-  if (isValidPosition(rotated, board, rows, cols)) {
+  if (isValidPosition(rotated, board)) {
     return rotated;
   }
 
@@ -173,7 +197,7 @@ export function tryRotate(
       col: rotated.col + kick.col,
       row: rotated.row + kick.row,
     };
-    if (isValidPosition(kicked, board, rows, cols)) {
+    if (isValidPosition(kicked, board)) {
       return kicked;
     }
   }
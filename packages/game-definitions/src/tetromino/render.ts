@@ -1,14 +1,30 @@
-import { type System, type World, SystemPriorities } from '@repo/ecs';
+import { type System, SystemPriorities } from '@repo/ecs';
+import {
+  GameOverResource,
+  HighScoreResource,
+  ScoreResource,
+  TilemapResource,
+  findTiles,
+} from '@repo/components';
+import { drawParticles, type ParticlePool } from '@repo/systems';
 import { TETROMINO_CONFIG, type TetrominoType } from './config';
 import {
   type TetrominoPiece,
-  type BoardState,
   getTetrominoBlocks,
   getGhostPosition,
 } from './prefabs';
+import { LineClearEvent } from './events';
+import {
+  CurrentPieceResource,
+  LevelResource,
+  NextPieceResource,
+  TotalLinesResource,
+} from './resources';
 
 export interface TetrominoRenderConfig {
   canvas: HTMLCanvasElement;
+  /** Particles to draw (see createParticleSystem) */
+  particles?: ParticlePool;
 }
 
 /**
@@ -119,31 +135,32 @@ export function createTetrominoRenderSystem(config: TetrominoRenderConfig): Syst
   return {
     name: 'TetrominoRenderSystem',
     priority: SystemPriorities.RENDER,
+    phase: 'render',
 
-    init(world: World) {
+    init() {
       ctx = config.canvas.getContext('2d');
       if (!ctx) throw new Error('Failed to get 2D context');
 
       config.canvas.width = width;
       config.canvas.height = height;
-
-      // Listen for line clear to trigger flash
-      world.on('lineClear', () => {
-        flashTime = Date.now();
-      });
     },
 
     update(world) {
       if (!ctx) return;
 
-      const gameOver = world.getResource<boolean>('gameOver') ?? false;
-      const score = world.getResource<number>('score') ?? 0;
-      const highScore = world.getResource<number>('highScore') ?? 0;
-      const level = world.getResource<number>('level') ?? 1;
-      const totalLines = world.getResource<number>('totalLines') ?? 0;
-      const piece = world.getResource<TetrominoPiece>('currentPiece');
-      const board = world.getResource<BoardState>('board');
-      const nextPiece = world.getResource<TetrominoType>('nextPiece');
+      // Flash when lines were cleared since the last frame
+      if (world.read(LineClearEvent).length > 0) {
+        flashTime = Date.now();
+      }
+
+      const gameOver = world.getResource(GameOverResource);
+      const score = world.getResource(ScoreResource);
+      const highScore = world.getResource(HighScoreResource);
+      const level = world.getResource(LevelResource);
+      const totalLines = world.getResource(TotalLinesResource);
+      const piece = world.getResource(CurrentPieceResource);
+      const board = world.getResource(TilemapResource);
+      const nextPiece = world.getResource(NextPieceResource);
 
       // Clear with background
       ctx.fillStyle = TETROMINO_CONFIG.colors.background;
@@ -189,23 +206,15 @@ export function createTetrominoRenderSystem(config: TetrominoRenderConfig): Syst
         ctx.stroke();
       }
 
-      // Draw settled blocks
-      if (board) {
-        for (let row = 0; row < rows; row++) {
-          for (let col = 0; col < cols; col++) {
-            const cell = board[row]?.[col];
-            if (cell) {
-              const x = offsetX + col * cellSize;
-              const y = offsetY + row * cellSize;
-              drawBlock(x, y, cellSize, TETROMINO_CONFIG.colors[cell]);
-            }
-          }
-        }
+      // Draw settled blocks, in their tile's color
+      for (const { col, row, tile } of findTiles(board, 'blocks', () => true)) {
+        const color = board.tileset[tile]?.color;
+        if (color) drawBlock(offsetX + col * cellSize, offsetY + row * cellSize, cellSize, color);
       }
 
       // Draw ghost piece
-      if (piece && board && !gameOver) {
-        const ghost = getGhostPosition(piece, board, rows, cols);
+      if (piece && !gameOver) {
+        const ghost = getGhostPosition(piece, board);
         if (ghost.row !== piece.row) {
           drawPiece(ghost, true);
         }
@@ -216,6 +225,14 @@ export function createTetrominoRenderSystem(config: TetrominoRenderConfig): Syst
         drawPiece(piece);
       }
 
+      // Draw particles, which are positioned on the board
+      if (config.particles) {
+        ctx.save();
+        ctx.translate(offsetX, offsetY);
+        drawParticles(ctx, config.particles);
+        ctx.restore();
+      }
+
       // Draw UI panel (right side)
       // Next piece label
       ctx.fillStyle = TETROMINO_CONFIG.colors.text;
@@ -0,0 +1,27 @@
+import { defineResource } from '@repo/ecs';
+import type { TetrominoType } from './config';
+import type { TetrominoPiece } from './prefabs';
+
+/** Current level, which sets the fall speed */
+export const LevelResource = defineResource('tetromino:level', 1);
+
+/** Lines cleared this run */
+export const TotalLinesResource = defineResource('tetromino:totalLines', 0);
+
+/** The falling piece, or null before the first piece spawns */
+export const CurrentPieceResource = defineResource<TetrominoPiece | null>('tetromino:currentPiece', null);
+
+/** Type of the piece shown in the preview */
+export const NextPieceResource = defineResource<TetrominoType>('tetromino:nextPiece', 'T');
+
+/** Simulated time (ms) until the piece can move sideways or soft drop again */
+export const MoveCooldownResource = defineResource('tetromino:moveCooldown', 0);
+
+/** Simulated time (ms) until the piece can rotate again */
+export const RotateCooldownResource = defineResource('tetromino:rotateCooldown', 0);
+
+/** Simulated time (ms) until the next hard drop (prevents accidental double drops) */
+export const DropCooldownResource = defineResource('tetromino:dropCooldown', 0);
+
+/** Simulated time (ms) since the piece last fell */
+export const FallTimerResource = defineResource('tetromino:fallTimer', 0);
@@ -1,51 +1,67 @@
-import { type System, SystemPriorities } from '@repo/ecs';
-import { DirectionInput, ActionInput } from '@repo/components';
+import { type System, SystemPriorities, getRandom } from '@repo/ecs';
+import {
+  DirectionInput,
+  ActionInput,
+  GameOverEvent,
+  RestartEvent,
+  ParticleBurstEvent,
+  PlaySoundEvent,
+  GameOverResource,
+  HighScoreResource,
+  ScoreResource,
+  TilemapResource,
+} from '@repo/components';
+import { notGameOver, isGameOver } from '@repo/systems';
 import { TETROMINO_CONFIG } from './config';
 import {
   type TetrominoPiece,
-  type BoardState,
   isValidPosition,
   lockPiece,
+  getFullRows,
   clearLines,
   createNewPiece,
   getRandomTetrominoType,
   tryRotate,
 } from './prefabs';
-
-const { cols, rows } = TETROMINO_CONFIG.grid;
+import { LockPieceEvent, LineClearEvent } from './events';
+import {
+  CurrentPieceResource,
+  DropCooldownResource,
+  FallTimerResource,
+  LevelResource,
+  MoveCooldownResource,
+  NextPieceResource,
+  RotateCooldownResource,
+  TotalLinesResource,
+} from './resources';
+
+const { cols } = TETROMINO_CONFIG.grid;
 
 /**
  * Movement system - handles left/right movement and soft drop
  */
 export function createTetrominoMovementSystem(): System {
-  let lastMoveTime = 0;
   const moveDelay = 100; // ms between moves when holding
 
   return {
     name: 'TetrominoMovementSystem',
-    priority: SystemPriorities.INPUT + 10,
-
-    init(world) {
-      world.on('restart', () => {
-        lastMoveTime = 0;
-      });
-    },
+    priority: SystemPriorities.INPUT,
+    after: ['InputSystem'],
+    runIf: notGameOver,
 
-    update(world) {
-      if (world.getResource<boolean>('gameOver')) return;
+    update(world, deltaTime) {
+      const cooldown = Math.max(0, world.getResource(MoveCooldownResource) - deltaTime * 1000);
+      world.setResource(MoveCooldownResource, cooldown);
 
-      const piece = world.getResource<TetrominoPiece>('currentPiece');
-      const board = world.getResource<BoardState>('board');
-      if (!piece || !board) return;
+      const piece = world.getResource(CurrentPieceResource);
+      const board = world.getResource(TilemapResource);
+      if (!piece) return;
 
-      const now = Date.now();
-      if (now - lastMoveTime < moveDelay) return;
+      if (cooldown > 0) return;
 
       // Find entity with DirectionInput
-      const entities = world.query(DirectionInput);
-      for (const entity of entities) {
-        const input = world.getComponent(entity, DirectionInput);
-        if (!input?.direction) continue;
+      for (const [, input] of world.view(DirectionInput)) {
+        if (!input.direction) continue;
 
         let newPiece: TetrominoPiece | null = null;
 
@@ -59,19 +75,19 @@ export function createTetrominoMovementSystem(): System {
           case 'DOWN':
             // Soft drop - accelerate falling
             newPiece = { ...piece, row: piece.row + 1 };
-            if (newPiece && isValidPosition(newPiece, board, rows, cols)) {
-              world.setResource('currentPiece', newPiece);
-              world.setResource('lastFallTime', Date.now()); // Reset fall timer
-              world.emit('playSound', { type: 'move' });
+            if (newPiece && isValidPosition(newPiece, board)) {
+              world.setResource(CurrentPieceResource, newPiece);
+              world.resetResource(FallTimerResource);
+              world.emit(PlaySoundEvent, { type: 'move' });
             }
-            lastMoveTime = now;
+            world.setResource(MoveCooldownResource, moveDelay);
             return;
         }
 
-        if (newPiece && isValidPosition(newPiece, board, rows, cols)) {
-          world.setResource('currentPiece', newPiece);
-          world.emit('playSound', { type: 'move' });
-          lastMoveTime = now;
+        if (newPiece && isValidPosition(newPiece, board)) {
+          world.setResource(CurrentPieceResource, newPiece);
+          world.emit(PlaySoundEvent, { type: 'move' });
+          world.setResource(MoveCooldownResource, moveDelay);
         }
       }
     },
@@ -82,53 +98,44 @@ export function createTetrominoMovementSystem(): System {
  * Rotation system - handles piece rotation with wall kicks
  */
 export function createTetrominoRotationSystem(): System {
-  let lastRotateTime = 0;
   const rotateDelay = 150; // ms between rotations
 
   return {
     name: 'TetrominoRotationSystem',
-    priority: SystemPriorities.INPUT + 11,
-
-    init(world) {
-      world.on('restart', () => {
-        lastRotateTime = 0;
-      });
-    },
+    priority: SystemPriorities.INPUT,
+    after: ['TetrominoMovementSystem'],
+    runIf: notGameOver,
 
-    update(world) {
-      if (world.getResource<boolean>('gameOver')) return;
+    update(world, deltaTime) {
+      const cooldown = Math.max(0, world.getResource(RotateCooldownResource) - deltaTime * 1000);
+      world.setResource(RotateCooldownResource, cooldown);
 
-      const piece = world.getResource<TetrominoPiece>('currentPiece');
-      const board = world.getResource<BoardState>('board');
-      if (!piece || !board) return;
+      const piece = world.getResource(CurrentPieceResource);
+      const board = world.getResource(TilemapResource);
+      if (!piece) return;
 
-      const now = Date.now();
-      if (now - lastRotateTime < rotateDelay) return;
+      if (cooldown > 0) return;
 
       // Find entity with ActionInput for rotation (using action button)
-      const entities = world.query(ActionInput);
-      for (const entity of entities) {
-        const input = world.getComponent(entity, ActionInput);
-        if (input?.actionJustPressed) {
-          const rotated = tryRotate(piece, 1, board, rows, cols);
+      for (const [, input] of world.view(ActionInput)) {
+        if (input.actionJustPressed) {
+          const rotated = tryRotate(piece, 1, board);
           if (rotated) {
-            world.setResource('currentPiece', rotated);
-            world.emit('playSound', { type: 'rotate' });
-            lastRotateTime = now;
+            world.setResource(CurrentPieceResource, rotated);
+            world.emit(PlaySoundEvent, { type: 'rotate' });
+            world.setResource(RotateCooldownResource, rotateDelay);
           }
         }
       }
 
       // Also handle UP direction as rotation
-      const dirEntities = world.query(DirectionInput);
-      for (const entity of dirEntities) {
-        const input = world.getComponent(entity, DirectionInput);
-        if (input?.direction === 'UP') {
-          const rotated = tryRotate(piece, 1, board, rows, cols);
+      for (const [, input] of world.view(DirectionInput)) {
+        if (input.direction === 'UP') {
+          const rotated = tryRotate(piece, 1, board);
           if (rotated) {
-            world.setResource('currentPiece', rotated);
-            world.emit('playSound', { type: 'rotate' });
-            lastRotateTime = now;
+            world.setResource(CurrentPieceResource, rotated);
+            world.emit(PlaySoundEvent, { type: 'rotate' });
+            world.setResource(RotateCooldownResource, rotateDelay);
           }
         }
       }
@@ -143,37 +150,32 @@ export function createTetrominoFallSystem(): System {
   return {
     name: 'TetrominoFallSystem',
     priority: SystemPriorities.PHYSICS,
+    runIf: notGameOver,
 
-    init(world) {
-      world.setResource('lastFallTime', Date.now());
-    },
-
-    update(world) {
-      if (world.getResource<boolean>('gameOver')) return;
-
-      const piece = world.getResource<TetrominoPiece>('currentPiece');
-      const board = world.getResource<BoardState>('board');
-      if (!piece || !board) return;
+    update(world, deltaTime) {
+      const piece = world.getResource(CurrentPieceResource);
+      const board = world.getResource(TilemapResource);
+      if (!piece) return;
 
-      const level = world.getResource<number>('level') ?? 1;
-      const lastFallTime = world.getResource<number>('lastFallTime') ?? Date.now();
+      const level = world.getResource(LevelResource);
+      const fallTimer = world.getResource(FallTimerResource) + deltaTime * 1000;
+      world.setResource(FallTimerResource, fallTimer);
 
       // Calculate fall speed based on level
       const { initialFallSpeed, minFallSpeed } = TETROMINO_CONFIG.gameplay;
       const fallSpeed = Math.max(minFallSpeed, initialFallSpeed - (level - 1) * 80);
 
-      const now = Date.now();
-      if (now - lastFallTime < fallSpeed) return;
+      if (fallTimer < fallSpeed) return;
 
       // Try to move piece down
       const newPiece = { ...piece, row: piece.row + 1 };
 
-      if (isValidPosition(newPiece, board, rows, cols)) {
-        world.setResource('currentPiece', newPiece);
-        world.setResource('lastFallTime', now);
+      if (isValidPosition(newPiece, board)) {
+        world.setResource(CurrentPieceResource, newPiece);
+        world.resetResource(FallTimerResource);
       } else {
         // Piece can't move down - lock it
-        world.emit('lockPiece');
+        world.emit(LockPieceEvent);
       }
     },
   };
@@ -182,58 +184,69 @@ export function createTetrominoFallSystem(): System {
 /**
  * Lock system - handles locking pieces and spawning new ones
  */
-export function createTetrominoLockSystem(onScoreChange?: (score: number) => void): System {
+export function createTetrominoLockSystem(): System {
   return {
     name: 'TetrominoLockSystem',
     priority: SystemPriorities.GAME_LOGIC,
+    // The board is sized from the config by the game
+    requires: [TilemapResource],
 
     init(world) {
-      world.on('lockPiece', () => {
-        const piece = world.getResource<TetrominoPiece>('currentPiece');
-        const board = world.getResource<BoardState>('board');
-        if (!piece || !board) return;
+      world.on(LockPieceEvent, () => {
+        const piece = world.getResource(CurrentPieceResource);
+        const board = world.getResource(TilemapResource);
+        if (!piece) return;
 
         // Lock the piece into the board
         lockPiece(piece, board);
-        world.emit('playSound', { type: 'lock' });
-
-        // Check for completed lines
-        const linesCleared = clearLines(board, cols);
+        world.emit(PlaySoundEvent, { type: 'lock' });
+
+        // Burst along each completed line, then clear them
+        const { cellSize } = TETROMINO_CONFIG.grid;
+        for (const row of getFullRows(board)) {
+          world.emit(ParticleBurstEvent, {
+            effect: 'lineClear',
+            x: (cols * cellSize) / 2,
+            y: row * cellSize + cellSize / 2,
+          });
+        }
+        const linesCleared = clearLines(board);
         if (linesCleared > 0) {
+          world.emit(LineClearEvent, { lines: linesCleared });
+
           // Update score
-          const currentScore = world.getResource<number>('score') ?? 0;
-          const level = world.getResource<number>('level') ?? 1;
+          const currentScore = world.getResource(ScoreResource);
+          const level = world.getResource(LevelResource);
           const points = (TETROMINO_CONFIG.gameplay.pointsPerLine[linesCleared] ?? 0) * level;
           const newScore = currentScore + points;
-          world.setResource('score', newScore);
-          onScoreChange?.(newScore);
+          world.setResource(ScoreResource, newScore);
 
           // Update total lines
-          const totalLines = world.getResource<number>('totalLines') ?? 0;
+          const totalLines = world.getResource(TotalLinesResource);
           const newTotalLines = totalLines + linesCleared;
-          world.setResource('totalLines', newTotalLines);
+          world.setResource(TotalLinesResource, newTotalLines);
 
           // Check for level up
           const { linesPerLevel } = TETROMINO_CONFIG.gameplay;
           const newLevel = Math.floor(newTotalLines / linesPerLevel) + 1;
-          if (newLevel > (world.getResource<number>('level') ?? 1)) {
-            world.setResource('level', newLevel);
-            world.emit('playSound', { type: 'levelUp' });
+          if (newLevel > world.getResource(LevelResource)) {
+            world.setResource(LevelResource, newLevel);
+            world.emit(PlaySoundEvent, { type: 'levelUp' });
           } else {
-            world.emit('playSound', { type: 'lineClear' });
+            world.emit(PlaySoundEvent, { type: 'lineClear' });
           }
         }
 
         // Spawn next piece
-        const nextType = world.getResource<string>('nextPiece') as TetrominoPiece['type'];
+        const nextType = world.getResource(NextPieceResource);
         const newPiece = createNewPiece(nextType, cols);
-        world.setResource('currentPiece', newPiece);
-        world.setResource('nextPiece', getRandomTetrominoType());
-        world.setResource('lastFallTime', Date.now());
+        world.setResource(CurrentPieceResource, newPiece);
+        world.setResource(NextPieceResource, getRandomTetrominoType(getRandom(world)));
+        world.resetResource(FallTimerResource);
 
         // Check if new piece is valid (game over if not)
-        if (!isValidPosition(newPiece, board, rows, cols)) {
-          world.emit('gameOver', { reason: 'overflow' });
+        if (!isValidPosition(newPiece, board)) {
+          world.emit(GameOverEvent, { reason: 'overflow' });
         }
       });
     },
@@ -246,44 +259,38 @@ export function createTetrominoLockSystem(onScoreChange?: (score: number) => voi
  * Hard drop system - instantly drop piece to bottom
  */
 export function createHardDropSystem(): System {
-  let lastDropTime = 0;
   const dropDelay = 200; // Prevent accidental double drops
 
   return {
     name: 'HardDropSystem',
-    priority: SystemPriorities.INPUT + 12,
+    priority: SystemPriorities.INPUT,
+    // Drop from where this step's move and rotation left the piece
+    after: ['TetrominoRotationSystem'],
+    runIf: notGameOver,
 
-    init(world) {
-      world.on('restart', () => {
-        lastDropTime = 0;
-      });
-    },
+    update(world, deltaTime) {
+      const cooldown = Math.max(0, world.getResource(DropCooldownResource) - deltaTime * 1000);
+      world.setResource(DropCooldownResource, cooldown);
 
-    update(world) {
-      if (world.getResource<boolean>('gameOver')) return;
+      const piece = world.getResource(CurrentPieceResource);
+      const board = world.getResource(TilemapResource);
+      if (!piece) return;
 
-      const piece = world.getResource<TetrominoPiece>('currentPiece');
-      const board = world.getResource<BoardState>('board');
-      if (!piece || !board) return;
-
-      const now = Date.now();
-      if (now - lastDropTime < dropDelay) return;
+      if (cooldown > 0) return;
 
       // Check for interact button (hard drop)
-      const entities = world.query(ActionInput);
-      for (const entity of entities) {
-        const input = world.getComponent(entity, ActionInput);
-        if (input?.interact) {
+      for (const [, input] of world.view(ActionInput)) {
+        if (input.interact) {
           // Drop piece to bottom
           const newPiece = { ...piece };
-          while (isValidPosition({ ...newPiece, row: newPiece.row + 1 }, board, rows, cols)) {
+          while (isValidPosition({ ...newPiece, row: newPiece.row + 1 }, board)) {
             newPiece.row++;
           }
 
-          world.setResource('currentPiece', newPiece);
-          world.emit('playSound', { type: 'hardDrop' });
-          world.emit('lockPiece');
-          lastDropTime = now;
+          world.setResource(CurrentPieceResource, newPiece);
+          world.emit(PlaySoundEvent, { type: 'hardDrop' });
+          world.emit(LockPieceEvent);
+          world.setResource(DropCooldownResource, dropDelay);
         }
       }
     },
@@ -293,27 +300,28 @@ export function createHardDropSystem(): System {
 /**
  * Game over handler system.
  */
-export function createTetrominoGameOverSystem(onGameOver?: () => void): System {
+export function createTetrominoGameOverSystem(): System {
   return {
     name: 'TetrominoGameOverSystem',
-    priority: SystemPriorities.GAME_LOGIC + 20,
+    priority: SystemPriorities.GAME_LOGIC,
+    // High score is loaded from localStorage by the game
+    requires: [HighScoreResource],
 
     init(world) {
-      world.on('gameOver', () => {
-        world.setResource('gameOver', true);
+      world.on(GameOverEvent, () => {
+        world.setResource(GameOverResource, true);
 
         // Update high score
-        const score = world.getResource<number>('score') ?? 0;
-        const highScore = world.getResource<number>('highScore') ?? 0;
+        const score = world.getResource(ScoreResource);
+        const highScore = world.getResource(HighScoreResource);
         if (score > highScore) {
-          world.setResource('highScore', score);
+          world.setResource(HighScoreResource, score);
           if (typeof window !== 'undefined') {
             localStorage.setItem('tetromino-high-score', String(score));
           }
         }
 
-        world.emit('playSound', { type: 'gameOver' });
-        onGameOver?.();
+        world.emit(PlaySoundEvent, { type: 'gameOver' });
       });
     },
 
@@ -326,17 +334,15 @@ export function createTetrominoGameOverSystem(onGameOver?: () => void): System {
  */
 export const TetrominoRestartSystem: System = {
   name: 'TetrominoRestartSystem',
-  priority: SystemPriorities.INPUT + 20,
+  priority: SystemPriorities.INPUT,
+  after: ['InputSystem'],
+  runIf: isGameOver,
 
   update(world) {
-    if (!world.getResource<boolean>('gameOver')) return;
-
     // Find entity with ActionInput
-    const entities = world.query(ActionInput);
-    for (const entity of entities) {
-      const input = world.getComponent(entity, ActionInput);
-      if (input?.actionJustPressed) {
-        world.emit('restart');
+    for (const [, input] of world.view(ActionInput)) {
+      if (input.actionJustPressed) {
+        world.emit(RestartEvent);
       }
     }
   },
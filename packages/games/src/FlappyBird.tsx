@@ -1,18 +1,20 @@
 'use client';
 
-import { useRef, useEffect, useCallback } from 'react';
+import { useRef, useEffect } from 'react';
 import { createFlappyGame, FLAPPY_CONFIG, type FlappyGameInstance } from '@repo/game-definitions';
+import { ScoreResource, GameOverResource, type SoundType } from '@repo/components';
+import type { Profiler } from '@repo/ecs';
 
 const CANVAS_WIDTH = FLAPPY_CONFIG.canvas.width;
 const CANVAS_HEIGHT = FLAPPY_CONFIG.canvas.height;
 
-type SoundType = 'eat' | 'gameOver' | 'move' | 'start' | 'flap' | 'score';
-
 interface FlappyBirdGameProps {
   isActive: boolean;
   onCanvasReady?: (canvas: HTMLCanvasElement) => void;
   onScoreChange?: (score: number) => void;
   onGameOver?: () => void;
+  /** Receives the game world's profiler once the game is created */
+  onProfilerReady?: (profiler: Profiler) => void;
   playSound?: (type: SoundType) => void;
 }
 
@@ -25,34 +27,40 @@ export function FlappyBirdGame({
   onCanvasReady,
   onScoreChange,
   onGameOver,
+  onProfilerReady,
   playSound,
 }: FlappyBirdGameProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const gameRef = useRef<FlappyGameInstance | null>(null);
 
-  // Wrapper to convert SoundType to string
-  const playSoundWrapper = useCallback((type: string) => {
-    playSound?.(type as SoundType);
-  }, [playSound]);
-
   // Create game instance on mount
   useEffect(() => {
     if (!canvasRef.current) return;
 
     const game = createFlappyGame({
       canvas: canvasRef.current,
-      playSound: playSoundWrapper,
-      onScoreChange,
-      onGameOver,
+      playSound,
     });
 
+    // Forward score and game over (subscriptions end with game.destroy())
+    if (onScoreChange) {
+      game.world.onResourceChange(ScoreResource, onScoreChange);
+    }
+    if (onGameOver) {
+      game.world.onResourceChange(GameOverResource, (gameOver) => {
+        if (gameOver) onGameOver();
+      });
+    }
+
+    onProfilerReady?.(game.world.profiler);
+
     gameRef.current = game;
 
     return () => {
       game.destroy();
       gameRef.current = null;
     };
-  }, [onScoreChange, onGameOver, playSoundWrapper]);
+  }, [onScoreChange, onGameOver, onProfilerReady, playSound]);
 
   // Handle activation changes
   useEffect(() => {
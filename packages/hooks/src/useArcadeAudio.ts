@@ -1,8 +1,7 @@
 'use client';
 
 import { useRef, useCallback, useEffect } from 'react';
-
-type SoundType = 'eat' | 'gameOver' | 'move' | 'start' | 'flap' | 'score' | 'attack' | 'hit' | 'kill' | 'damage' | 'roll' | 'wave' | 'rotate' | 'lock' | 'lineClear' | 'levelUp' | 'hardDrop';
+import type { SoundType } from '@repo/components';
 
 interface AudioContextRef {
   context: AudioContext | null;
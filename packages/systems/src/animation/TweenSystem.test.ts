@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld, type World } from '@repo/ecs';
+import { Transform, Tween, TweenCompleteEvent } from '@repo/components';
+import { TweenSystem, playTween } from './TweenSystem';
+
+const STEP = 1 / 60;
+
+function createTweenWorld(): World {
+  const world = createWorld();
+  world.registerComponent(Transform);
+  world.addSystem(TweenSystem);
+  return world;
+}
+
+function run(world: World, seconds: number) {
+  for (let step = 0; step < Math.round(seconds / STEP); step++) {
+    world.update(STEP);
+  }
+}
+
+// Tilts up, then holds until the dive starts (like Flappy Bird's flap)
+const tilt = {
+  name: 'tilt',
+  tracks: [
+    { component: 'Transform', field: 'rotation', to: -30, duration: 0.1 },
+    { component: 'Transform', field: 'rotation', to: 90, duration: 0.4, delay: 0.3 },
+  ],
+};
+
+describe('TweenSystem', () => {
+  it('plays tracks in sequence, then completes and removes the Tween', () => {
+    const world = createTweenWorld();
+    const bird = world.entities.create();
+    world.addComponent(bird, Transform, { ...Transform.defaultValue });
+    playTween(world, bird, tilt);
+
+    run(world, 0.2);
+    expect(world.getComponent(bird, Transform)!.rotation).toBe(-30);
+
+    const completed: string[] = [];
+    world.on(TweenCompleteEvent, ({ name }) => completed.push(name));
+    run(world, 0.6);
+    expect(world.getComponent(bird, Transform)!.rotation).toBe(90);
+    expect(world.hasComponent(bird, Tween)).toBe(false);
+    expect(completed).toEqual(['tilt']);
+  });
+
+  it('leaves a field alone once the track animating it has finished', () => {
+    const world = createTweenWorld();
+    const bird = world.entities.create();
+    world.addComponent(bird, Transform, { ...Transform.defaultValue });
+    playTween(world, bird, tilt);
+    run(world, 0.2);
+
+    // Between the two tracks, nothing animates rotation
+    world.updateComponent(bird, Transform, { rotation: 10 });
+    run(world, 0.1);
+    expect(world.getComponent(bird, Transform)!.rotation).toBe(10);
+  });
+
+  it('leaves a field alone after a track that ended exactly on a step', () => {
+    const world = createTweenWorld();
+    const bird = world.entities.create();
+    world.addComponent(bird, Transform, { ...Transform.defaultValue });
+    playTween(world, bird, {
+      name: 'tilt',
+      tracks: [
+        { component: 'Transform', field: 'rotation', to: -30, duration: 0.25 },
+        { component: 'Transform', field: 'rotation', to: 90, duration: 0.25, delay: 0.5 },
+      ],
+    });
+
+    // Steps of 1/8 s land on the end of the first track exactly
+    world.update(0.125);
+    world.update(0.125);
+    expect(world.getComponent(bird, Transform)!.rotation).toBe(-30);
+    world.updateComponent(bird, Transform, { rotation: 10 });
+    world.update(0.125);
+    expect(world.getComponent(bird, Transform)!.rotation).toBe(10);
+  });
+
+  it('sets the field of a zero-length track on the first step', () => {
+    const world = createTweenWorld();
+    const bird = world.entities.create();
+    world.addComponent(bird, Transform, { ...Transform.defaultValue });
+    playTween(world, bird, {
+      name: 'snap',
+      tracks: [
+        { component: 'Transform', field: 'rotation', to: 45, duration: 0 },
+        { component: 'Transform', field: 'scaleX', to: 2, duration: 1 },
+      ],
+    });
+
+    world.update(STEP);
+    expect(world.getComponent(bird, Transform)!.rotation).toBe(45);
+  });
+});
@@ -0,0 +1,241 @@
+import { type System, type World, type Entity, type ComponentType, SystemPriorities } from '@repo/ecs';
+import {
+  Tween,
+  TweenCompleteEvent,
+  type Easing,
+  type TweenTimeline,
+  type TweenTrack,
+} from '@repo/components';
+
+/** Bounce of easeOutBounce: four arcs, each a quarter as high as the last */
+function bounce(t: number): number {
+  const n = 7.5625;
+  const d = 2.75;
+  if (t < 1 / d) return n * t * t;
+  if (t < 2 / d) return n * (t - 1.5 / d) ** 2 + 0.75;
+  if (t < 2.5 / d) return n * (t - 2.25 / d) ** 2 + 0.9375;
+  return n * (t - 2.625 / d) ** 2 + 0.984375;
+}
+
+/**
+ * Easing curves by name. Each maps a track's progress (0 to 1) to how far
+ * its value has gone from `from` to `to` (0 at the start, 1 at the end).
+ */
+export const easings: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  easeInQuad: (t) => t * t,
+  easeOutQuad: (t) => 1 - (1 - t) ** 2,
+  easeInOutQuad: (t) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2),
+  easeInCubic: (t) => t ** 3,
+  easeOutCubic: (t) => 1 - (1 - t) ** 3,
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t ** 3 : 1 - (-2 * t + 2) ** 3 / 2),
+  easeInSine: (t) => 1 - Math.cos((t * Math.PI) / 2),
+  easeOutSine: (t) => Math.sin((t * Math.PI) / 2),
+  easeInOutSine: (t) => (1 - Math.cos(t * Math.PI)) / 2,
+  // Overshoots the end by about 10% before settling
+  easeOutBack: (t) => 1 + 2.70158 * (t - 1) ** 3 + 1.70158 * (t - 1) ** 2,
+  easeOutBounce: bounce,
+};
+
+/** Slack for float error: sixty steps of 1/60 add up to just under 1 */
+const EPSILON = 1e-9;
+
+/** When each track starts in a timeline, and how long one play lasts */
+function schedule(tracks: TweenTrack[]): { starts: number[]; duration: number } {
+  const starts: number[] = [];
+  let previousEnd = 0;
+  let duration = 0;
+
+  for (const track of tracks) {
+    const start = (track.at ?? previousEnd) + (track.delay ?? 0);
+    starts.push(start);
+    previousEnd = start + track.duration;
+    duration = Math.max(duration, previousEnd);
+  }
+  return { starts, duration };
+}
+
+/**
+ * Set a track's field to its value `time` seconds after the track starts.
+ * Nothing is set before it starts, nor after it has ended and its end value
+ * was already set (at `previousTime`, the time of the last step), so
+ * finished tracks leave the field to later ones. Returns the track with
+ * `from` filled in.
+ */
+function applyTrack(
+  world: World,
+  entity: Entity,
+  name: string,
+  track: TweenTrack,
+  time: number,
+  previousTime: number
+): TweenTrack {
+  if (time < 0 || (time >= track.duration && previousTime >= track.duration)) return track;
+
+  const type = world.getComponentType(track.component) as
+    | ComponentType<Record<string, unknown>>
+    | undefined;
+  if (!type) {
+    throw new Error(`Tween "${name}" animates "${track.component}", which is not registered`);
+  }
+  const data = world.getComponent(entity, type);
+  if (!data) return track;
+
+  const current = data[track.field];
+  if (typeof current !== 'number') {
+    throw new Error(
+      `Tween "${name}" animates ${track.component}.${track.field}, which is not a number`
+    );
+  }
+
+  const from = track.from ?? current;
+  const progress = track.duration > 0 ? Math.min(time / track.duration, 1) : 1;
+  const value = from + (track.to - from) * easings[track.easing ?? 'linear'](progress);
+  if (value !== current) {
+    world.updateComponent(entity, type, { [track.field]: value });
+  }
+  return track.from === undefined ? { ...track, from } : track;
+}
+
+/**
+ * Advance a timeline by `deltaTime` and apply its tracks. Returns the
+ * advanced timeline, or null once its last play has finished.
+ */
+function advance(
+  world: World,
+  entity: Entity,
+  timeline: TweenTimeline,
+  deltaTime: number
+): TweenTimeline | null {
+  const { starts, duration } = schedule(timeline.tracks);
+  const repeat = timeline.repeat ?? 0;
+  // With yoyo, every other play runs backwards
+  const playTime = (elapsed: number, plays: number) =>
+    timeline.yoyo && plays % 2 === 1 ? duration - elapsed : elapsed;
+
+  // Before the first step, no track has set its field yet
+  const stepped = (timeline.elapsed ?? 0) > 0 || (timeline.plays ?? 0) > 0;
+  const previousTime = stepped ? playTime(timeline.elapsed ?? 0, timeline.plays ?? 0) : -Infinity;
+  let elapsed = (timeline.elapsed ?? 0) + deltaTime;
+  let plays = timeline.plays ?? 0;
+  let finished = false;
+
+  while (elapsed >= duration - EPSILON) {
+    if (duration <= 0 || (repeat !== -1 && plays >= repeat)) {
+      finished = true;
+      elapsed = duration;
+      break;
+    }
+    elapsed = Math.max(elapsed - duration, 0);
+    plays++;
+  }
+
+  const time = playTime(elapsed, plays);
+  const tracks = timeline.tracks.map((track, index) =>
+    applyTrack(
+      world,
+      entity,
+      timeline.name,
+      track,
+      time - starts[index]!,
+      previousTime - starts[index]!
+    )
+  );
+
+  return finished ? null : { ...timeline, tracks, elapsed, plays };
+}
+
+/**
+ * Play a timeline on an entity from the start, replacing any timeline of
+ * the same name it's playing.
+ *
+ * @example
+ * playTween(world, bird, {
+ *   name: 'flap',
+ *   tracks: [
+ *     { component: 'Transform', field: 'rotation', to: -30, duration: 0.1, easing: 'easeOutQuad' },
+ *     { component: 'Transform', field: 'rotation', to: 90, duration: 0.4, delay: 0.3, easing: 'easeInQuad' },
+ *   ],
+ * });
+ */
+export function playTween(world: World, entity: Entity, timeline: TweenTimeline): void {
+  const playing = world.getComponent(entity, Tween)?.timelines ?? [];
+  world.addComponent(entity, Tween, {
+    timelines: [
+      ...playing.filter((other) => other.name !== timeline.name),
+      { ...timeline, elapsed: 0, plays: 0 },
+    ],
+  });
+}
+
+/**
+ * Stop an entity's timeline, leaving its fields where they are. Stopped
+ * timelines don't complete.
+ */
+export function stopTween(world: World, entity: Entity, name: string): void {
+  const playing = world.getComponent(entity, Tween)?.timelines ?? [];
+  const timelines = playing.filter((timeline) => timeline.name !== name);
+  if (timelines.length === playing.length) return;
+
+  if (timelines.length > 0) {
+    world.addComponent(entity, Tween, { timelines });
+  } else {
+    world.removeComponent(entity, Tween);
+  }
+}
+
+/**
+ * Pause or resume an entity's timeline.
+ */
+export function setTweenPaused(world: World, entity: Entity, name: string, paused: boolean): void {
+  const playing = world.getComponent(entity, Tween)?.timelines ?? [];
+  if (!playing.some((timeline) => timeline.name === name && (timeline.paused ?? false) !== paused)) {
+    return;
+  }
+
+  world.addComponent(entity, Tween, {
+    timelines: playing.map((timeline) =>
+      timeline.name === name ? { ...timeline, paused } : timeline
+    ),
+  });
+}
+
+/**
+ * TweenSystem plays the timelines of every Tween component, setting the
+ * animated fields each step. Finished timelines are removed (the Tween
+ * too once none are left) and reported with a TweenCompleteEvent, after
+ * the step's values are set.
+ */
+export const TweenSystem: System = {
+  name: 'TweenSystem',
+  priority: SystemPriorities.PRE_RENDER,
+
+  update(world, deltaTime) {
+    const completed: { entity: Entity; name: string }[] = [];
+
+    // Collected first, as finished Tweens are removed along the way
+    for (const [entity, tween] of world.view(Tween).toArray()) {
+      if (tween.timelines.every((timeline) => timeline.paused)) continue;
+
+      const timelines: TweenTimeline[] = [];
+      for (const timeline of tween.timelines) {
+        const next = timeline.paused ? timeline : advance(world, entity, timeline, deltaTime);
+        if (next) {
+          timelines.push(next);
+        } else {
+          completed.push({ entity, name: timeline.name });
+        }
+      }
+
+      if (timelines.length > 0) {
+        world.addComponent(entity, Tween, { timelines });
+      } else {
+        world.removeComponent(entity, Tween);
+      }
+    }
+
+    for (const event of completed) {
+      world.emit(TweenCompleteEvent, event);
+    }
+  },
+};
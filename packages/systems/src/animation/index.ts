@@ -0,0 +1 @@
+export { TweenSystem, easings, playTween, stopTween, setTweenPaused } from './TweenSystem';
@@ -1,49 +1,45 @@
 import { type System, type World, SystemPriorities } from '@repo/ecs';
-import { SoundEffect } from '@repo/components';
+import { SoundEffect, PlaySoundEvent, type SoundType } from '@repo/components';
 
 export interface AudioSystemConfig {
   /** Function to play sounds (usually from useArcadeAudio) */
-  playSound: (type: string) => void;
+  playSound: (type: SoundType) => void;
 }
 
 /**
  * AudioSystem handles sound effect playback.
- * Listens for 'playSound' events and processes SoundEffect components.
+ * Listens for 'playSound' events and processes SoundEffect components
+ * that were added or changed since its last run.
  */
 export function createAudioSystem(config: AudioSystemConfig): System {
   return {
     name: 'AudioSystem',
     priority: SystemPriorities.POST_RENDER,
+    phase: 'render',
 
     init(world: World) {
       // Listen for sound events from other systems
-      world.on('playSound', (data) => {
-        const soundData = data as { type: string };
-        if (soundData?.type) {
-          config.playSound(soundData.type);
+      world.on(PlaySoundEvent, ({ type }) => {
+        if (type) {
+          config.playSound(type);
         }
       });
     },
 
     update(world, _deltaTime) {
-      // Process SoundEffect components
-      const entities = world.query(SoundEffect);
-
-      for (const entity of entities) {
+      // Process SoundEffect components that changed since last frame
+      for (const entity of world.changed(SoundEffect)) {
         const sound = world.getComponent(entity, SoundEffect);
-        if (!sound || !sound.triggered) continue;
+        if (!sound?.triggered) continue;
 
         // Play the sound
         config.playSound(sound.type);
 
         // Remove or reset the component
         if (sound.oneShot) {
-          world.removeComponent(entity, SoundEffect);
+          world.commands.remove(entity, SoundEffect);
         } else {
-          world.addComponent(entity, SoundEffect, {
-            ...sound,
-            triggered: false,
-          });
+          world.updateComponent(entity, SoundEffect, { triggered: false });
         }
       }
     },
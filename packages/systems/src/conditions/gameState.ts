@@ -0,0 +1,11 @@
+import { type RunCondition, resourceEquals, not } from '@repo/ecs';
+import { GameOverResource, GameStartedResource } from '@repo/components';
+
+/** Run while the game is not over (gameplay systems) */
+export const notGameOver: RunCondition = not(resourceEquals(GameOverResource, true));
+
+/** Run only once the game is over (restart systems) */
+export const isGameOver: RunCondition = resourceEquals(GameOverResource, true);
+
+/** Run once the player has started the game */
+export const gameStarted: RunCondition = resourceEquals(GameStartedResource, true);
@@ -0,0 +1 @@
+export { notGameOver, isGameOver, gameStarted } from './gameState';
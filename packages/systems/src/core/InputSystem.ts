@@ -1,46 +1,65 @@
-import { type System, SystemPriorities } from '@repo/ecs';
+import { type System, SystemPriorities, optional } from '@repo/ecs';
 import { InputReceiver, DirectionInput, ActionInput } from '@repo/components';
-import { useInputStore } from '@repo/input';
+import { type InputState, useInputStore } from '@repo/input';
 
 /**
- * InputSystem bridges the @repo/input Zustand store with the ECS world.
- * It reads input state each frame and updates input components on entities.
+ * The part of the input state that games read.
  */
-export const InputSystem: System = {
-  name: 'InputSystem',
-  priority: SystemPriorities.INPUT,
-
-  update(world, _deltaTime) {
-    // Get current input state from Zustand store
-    const inputState = useInputStore.getState();
-
-    // Find all entities with InputReceiver
-    const entities = world.query(InputReceiver);
-
-    for (const entity of entities) {
-      const receiver = world.getComponent(entity, InputReceiver);
-      if (!receiver?.active) continue;
-
-      // Update DirectionInput if entity has it
-      if (world.hasComponent(entity, DirectionInput)) {
-        const current = world.getComponent(entity, DirectionInput)!;
-        world.addComponent(entity, DirectionInput, {
-          lastDirection: current.direction,
-          direction: inputState.direction,
-          bufferedDirection: current.bufferedDirection,
-        });
-      }
+export type GameInput = Pick<InputState, 'direction' | 'action' | 'interact' | 'back'>;
+
+export interface InputSystemOptions {
+  /**
+   * Where to read input each step (defaults to the @repo/input store).
+   * Pass a function to drive a game with scripted input, e.g. when headless.
+   */
+  source?: () => GameInput;
+}
+
+/**
+ * Create an input system that updates input components on entities from an
+ * input source each step.
+ */
+export function createInputSystem(options: InputSystemOptions = {}): System {
+  const source = options.source ?? useInputStore.getState;
+
+  return {
+    name: 'InputSystem',
+    priority: SystemPriorities.INPUT,
+
+    update(world) {
+      const inputState = source();
 
-      // Update ActionInput if entity has it
-      if (world.hasComponent(entity, ActionInput)) {
-        const current = world.getComponent(entity, ActionInput)!;
-        world.addComponent(entity, ActionInput, {
-          action: inputState.action,
-          actionJustPressed: inputState.action && !current.action,
-          interact: inputState.interact,
-          back: inputState.back,
-        });
+      // Find all entities with InputReceiver
+      const receivers = world.view(InputReceiver, optional(DirectionInput), optional(ActionInput));
+
+      for (const [entity, receiver, directionInput, actionInput] of receivers) {
+        if (!receiver.active) continue;
+
+        // Update DirectionInput if entity has it
+        if (directionInput) {
+          world.addComponent(entity, DirectionInput, {
+            lastDirection: directionInput.direction,
+            direction: inputState.direction,
+            bufferedDirection: directionInput.bufferedDirection,
+          });
+        }
+
+        // Update ActionInput if entity has it
+        if (actionInput) {
+          world.addComponent(entity, ActionInput, {
+            action: inputState.action,
+            actionJustPressed: inputState.action && !actionInput.action,
+            interact: inputState.interact,
+            back: inputState.back,
+          });
+        }
       }
-    }
-  },
-};
+    },
+  };
+}
+
+/**
+ * InputSystem bridges the @repo/input Zustand store with the ECS world.
+ * It reads input state each frame and updates input components on entities.
+ */
+export const InputSystem: System = createInputSystem();
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createInputRecorder,
+  createInputPlayback,
+  encodeInput,
+  decodeInput,
+  REPLAY_VERSION,
+  type Replay,
+} from './Replay';
+import type { GameInput } from './InputSystem';
+
+const idle: GameInput = { direction: null, action: false, interact: false, back: false };
+
+describe('replay input', () => {
+  it('packs every input into a number and back', () => {
+    for (const direction of [null, 'UP', 'DOWN', 'LEFT', 'RIGHT'] as const) {
+      for (let buttons = 0; buttons < 8; buttons++) {
+        const input: GameInput = {
+          direction,
+          action: (buttons & 1) !== 0,
+          interact: (buttons & 2) !== 0,
+          back: (buttons & 4) !== 0,
+        };
+        expect(decodeInput(encodeInput(input))).toEqual(input);
+      }
+    }
+  });
+
+  it('records changes only, and plays them back step by step', () => {
+    const script: GameInput[] = [
+      idle,
+      { ...idle, direction: 'UP' },
+      { ...idle, direction: 'UP' },
+      { ...idle, direction: 'UP', action: true },
+      idle,
+    ];
+    let step = 0;
+    const recorder = createInputRecorder(() => script[step]!);
+    for (; step < script.length; step++) recorder.source();
+
+    const replay = recorder.toReplay({ game: 'test', gameVersion: 1, seed: 3 });
+    expect(replay).toEqual({
+      version: REPLAY_VERSION,
+      game: 'test',
+      gameVersion: 1,
+      seed: 3,
+      steps: 5,
+      inputs: [
+        [0, 0],
+        [1, 1],
+        [3, 9],
+        [4, 0],
+      ],
+    });
+
+    const playback = createInputPlayback(replay);
+    const played = script.map(() => playback.source());
+    expect(played).toEqual(script);
+    expect(playback.finished).toBe(true);
+    // Past the end there's no input
+    expect(playback.source()).toEqual(idle);
+    expect(playback.steps).toBe(5);
+  });
+
+  it('refuses replays of another format version', () => {
+    const replay = { version: 0, steps: 0, inputs: [] } as unknown as Replay;
+    expect(() => createInputPlayback(replay)).toThrow(/format version 0 is not supported/);
+  });
+});
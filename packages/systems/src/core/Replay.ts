@@ -0,0 +1,178 @@
+import { useInputStore } from '@repo/input';
+import type { GameInput } from './InputSystem';
+
+/** Version of the replay format; replays of other versions can't be played */
+export const REPLAY_VERSION = 1;
+
+/**
+ * What a replay was recorded from. A replay only plays back the same way
+ * in the same game, at the same game version, with the same seed.
+ */
+export interface ReplayInfo {
+  /** Game id, e.g. 'snake' */
+  game: string;
+  /** Version of the game's rules (bumped when old replays would play differently) */
+  gameVersion: number;
+  /** Seed of the world's random streams */
+  seed: number;
+}
+
+/**
+ * Replay is a compact, JSON-compatible recording of a run: the input the
+ * game read on each simulation step, stored as changes only.
+ *
+ * @example
+ * localStorage.setItem('snake-best-run', JSON.stringify(recorder.toReplay(info)));
+ */
+export interface Replay extends ReplayInfo {
+  version: typeof REPLAY_VERSION;
+  /** Simulation steps recorded */
+  steps: number;
+  /** [step, input] pairs: input (see encodeInput) from that step on */
+  inputs: [number, number][];
+}
+
+const DIRECTIONS: GameInput['direction'][] = [null, 'UP', 'DOWN', 'LEFT', 'RIGHT'];
+
+/**
+ * Pack input into a number: the direction in the low 3 bits, then one bit
+ * each for action, interact and back.
+ */
+export function encodeInput(input: GameInput): number {
+  return (
+    DIRECTIONS.indexOf(input.direction) |
+    (input.action ? 8 : 0) |
+    (input.interact ? 16 : 0) |
+    (input.back ? 32 : 0)
+  );
+}
+
+/** Unpack input packed by encodeInput */
+export function decodeInput(bits: number): GameInput {
+  return {
+    direction: DIRECTIONS[bits & 7] ?? null,
+    action: (bits & 8) !== 0,
+    interact: (bits & 16) !== 0,
+    back: (bits & 32) !== 0,
+  };
+}
+
+/**
+ * InputRecorder sits between an input source and a game's input system,
+ * recording what the game reads on each simulation step.
+ *
+ * @example
+ * const recorder = createInputRecorder();
+ * const game = createSnakeGame({ canvas, input: recorder.source, seed });
+ * // ...after the run
+ * const replay = recorder.toReplay({ ...SNAKE_CONFIG.replay, seed });
+ */
+export interface InputRecorder {
+  /** Input source for the game: reads the live source and records it */
+  readonly source: () => GameInput;
+  /** Simulation steps recorded so far */
+  readonly steps: number;
+  /** Drop the recording, e.g. to record a new run from a reseeded world */
+  reset(): void;
+  /** The recording so far as a replay */
+  toReplay(info: ReplayInfo): Replay;
+}
+
+/**
+ * Create an input recorder over a source (defaults to the @repo/input store).
+ */
+export function createInputRecorder(
+  source: () => GameInput = useInputStore.getState
+): InputRecorder {
+  let steps = 0;
+  let inputs: [number, number][] = [];
+  let last = -1;
+
+  return {
+    source() {
+      const input = source();
+      const bits = encodeInput(input);
+      if (bits !== last) {
+        inputs.push([steps, bits]);
+        last = bits;
+      }
+      steps++;
+      return input;
+    },
+
+    get steps() {
+      return steps;
+    },
+
+    reset() {
+      steps = 0;
+      inputs = [];
+      last = -1;
+    },
+
+    toReplay(info) {
+      return {
+        version: REPLAY_VERSION,
+        game: info.game,
+        gameVersion: info.gameVersion,
+        seed: info.seed,
+        steps,
+        inputs: inputs.map(([step, bits]) => [step, bits]),
+      };
+    },
+  };
+}
+
+/**
+ * InputPlayback feeds a replay's input to a game, one recorded step per
+ * read, in place of the live input source.
+ */
+export interface InputPlayback {
+  /** Input source for the game */
+  readonly source: () => GameInput;
+  /** Steps played so far */
+  readonly steps: number;
+  /** Whether every recorded step has been played (later reads get no input) */
+  readonly finished: boolean;
+}
+
+/**
+ * Create playback of a replay's input. Throws for replays of another
+ * format version.
+ */
+export function createInputPlayback(replay: Replay): InputPlayback {
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(
+      `Replay format version ${String(replay.version)} is not supported ` +
+        `(expected ${REPLAY_VERSION})`
+    );
+  }
+
+  let steps = 0;
+  let nextChange = 0;
+  let input = decodeInput(0);
+
+  return {
+    source() {
+      if (steps >= replay.steps) {
+        steps++;
+        return decodeInput(0);
+      }
+
+      while (nextChange < replay.inputs.length && replay.inputs[nextChange]![0] <= steps) {
+        input = decodeInput(replay.inputs[nextChange]![1]);
+        nextChange++;
+      }
+      steps++;
+      return input;
+    },
+
+    get steps() {
+      return Math.min(steps, replay.steps);
+    },
+
+    get finished() {
+      return steps >= replay.steps;
+    },
+  };
+}
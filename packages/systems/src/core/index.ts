@@ -1 +1,17 @@
-export { InputSystem } from './InputSystem';
+export {
+  InputSystem,
+  createInputSystem,
+  type InputSystemOptions,
+  type GameInput,
+} from './InputSystem';
+export {
+  REPLAY_VERSION,
+  type Replay,
+  type ReplayInfo,
+  type InputRecorder,
+  type InputPlayback,
+  encodeInput,
+  decodeInput,
+  createInputRecorder,
+  createInputPlayback,
+} from './Replay';
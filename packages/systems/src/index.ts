@@ -4,8 +4,23 @@ export * from './core';
 // Movement systems
 export * from './movement';
 
+// Physics systems
+export * from './physics';
+
+// Pathfinding for grid agents
+export * from './pathfinding';
+
+// Transform systems
+export * from './transform';
+
+// Tweens for animating component fields
+export * from './animation';
+
 // Rendering systems
 export * from './rendering';
 
 // Audio systems
 export * from './audio';
+
+// Run conditions
+export * from './conditions';
@@ -2,25 +2,21 @@ import { type System, SystemPriorities } from '@repo/ecs';
 import { Velocity, Gravity } from '@repo/components';
 
 /**
- * GravitySystem applies gravity to entities with Velocity and Gravity components.
+ * GravitySystem accelerates entities with Velocity and Gravity components
+ * downward, up to their terminal velocity.
  * Runs before VelocitySystem to update velocity before movement.
  */
 export const GravitySystem: System = {
   name: 'GravitySystem',
   priority: SystemPriorities.PRE_PHYSICS,
 
-  update(world, _deltaTime) {
-    const entities = world.query(Velocity, Gravity);
-
-    for (const entity of entities) {
-      const velocity = world.getComponent(entity, Velocity)!;
-      const gravity = world.getComponent(entity, Gravity)!;
-
+  update(world, deltaTime) {
+    for (const [entity, velocity, gravity] of world.view(Velocity, Gravity)) {
       if (!gravity.enabled) continue;
 
       // Apply gravity, capped at max fall speed
       const newVelY = Math.min(
-        velocity.y + gravity.strength,
+        velocity.y + gravity.strength * deltaTime,
         gravity.maxFallSpeed
       );
 
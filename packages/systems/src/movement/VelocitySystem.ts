@@ -1,26 +1,38 @@
-import { type System, SystemPriorities } from '@repo/ecs';
-import { Transform, Velocity } from '@repo/components';
+import { type System, SystemPriorities, optional } from '@repo/ecs';
+import { Transform, Velocity, RigidBody } from '@repo/components';
 
 /**
- * VelocitySystem applies velocity to transform each frame.
- * Entities with both Transform and Velocity will move.
+ * VelocitySystem moves entities by their velocity (pixels per second) over
+ * the step. Entities with both Transform and Velocity will move; resting
+ * entities are skipped so their Transform isn't marked changed.
+ *
+ * A RigidBody's friction slows the entity as drag, before it moves, and
+ * static bodies don't move. Together with GravitySystem (which runs
+ * earlier) this is semi-implicit Euler: velocity first, then position.
  */
 export const VelocitySystem: System = {
   name: 'VelocitySystem',
   priority: SystemPriorities.PHYSICS,
 
-  update(world, _deltaTime) {
-    const entities = world.query(Transform, Velocity);
+  update(world, deltaTime) {
+    const bodies = world.view(Transform, Velocity, optional(RigidBody));
+    for (const [entity, transform, velocity, rigidBody] of bodies) {
+      if (rigidBody?.isStatic) continue;
 
-    for (const entity of entities) {
-      const transform = world.getComponent(entity, Transform)!;
-      const velocity = world.getComponent(entity, Velocity)!;
+      let moved = velocity;
+      if (rigidBody && rigidBody.friction > 0) {
+        // Exponential decay, so the slowdown is the same at any step size
+        const damping = Math.exp(-rigidBody.friction * deltaTime);
+        moved = { x: velocity.x * damping, y: velocity.y * damping, z: velocity.z * damping };
+        world.updateComponent(entity, Velocity, moved);
+      }
 
-      world.addComponent(entity, Transform, {
-        ...transform,
-        x: transform.x + velocity.x,
-        y: transform.y + velocity.y,
-        z: transform.z + velocity.z,
+      if (moved.x === 0 && moved.y === 0 && moved.z === 0) continue;
+
+      world.updateComponent(entity, Transform, {
+        x: transform.x + moved.x * deltaTime,
+        y: transform.y + moved.y * deltaTime,
+        z: transform.z + moved.z * deltaTime,
       });
     }
   },
@@ -1,2 +1,3 @@
 export { VelocitySystem } from './VelocitySystem';
 export { GravitySystem } from './GravitySystem';
+export { perSecond, perSecondSquared } from './units';
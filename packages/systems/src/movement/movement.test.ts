@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld, SystemPriorities, type World, type Entity } from '@repo/ecs';
+import { Transform, Velocity, Gravity, RigidBody } from '@repo/components';
+import { VelocitySystem } from './VelocitySystem';
+import { GravitySystem } from './GravitySystem';
+import { perSecond, perSecondSquared } from './units';
+
+function createMovementWorld(): World {
+  const world = createWorld();
+  world.addSystem(GravitySystem);
+  world.addSystem(VelocitySystem);
+  return world;
+}
+
+function spawn(world: World, velocity: { x: number; y: number }): Entity {
+  const entity = world.entities.create();
+  world.addComponent(entity, Transform, { ...Transform.defaultValue });
+  world.addComponent(entity, Velocity, { ...Velocity.defaultValue, ...velocity });
+  return entity;
+}
+
+/** Run `seconds` of updates at a given step rate */
+function run(world: World, seconds: number, rate: number) {
+  for (let step = 0; step < seconds * rate; step++) world.update(1 / rate);
+}
+
+describe('movement', () => {
+  it('moves by velocity in pixels per second at any step rate', () => {
+    for (const rate of [30, 60, 144]) {
+      const world = createMovementWorld();
+      const entity = spawn(world, { x: 120, y: -60 });
+      run(world, 1, rate);
+
+      expect(world.getComponent(entity, Transform)!.x).toBeCloseTo(120);
+      expect(world.getComponent(entity, Transform)!.y).toBeCloseTo(-60);
+    }
+  });
+
+  it('slows bodies by friction the same at any step rate, and never moves static ones', () => {
+    const speeds = [30, 120].map((rate) => {
+      const world = createMovementWorld();
+      const entity = spawn(world, { x: 100, y: 0 });
+      world.addComponent(entity, RigidBody, { ...RigidBody.defaultValue, friction: 2 });
+      run(world, 1, rate);
+      return world.getComponent(entity, Velocity)!.x;
+    });
+    expect(speeds[0]).toBeCloseTo(100 * Math.exp(-2));
+    expect(speeds[1]).toBeCloseTo(100 * Math.exp(-2));
+
+    const world = createMovementWorld();
+    const wall = spawn(world, { x: 100, y: 0 });
+    world.addComponent(wall, RigidBody, { ...RigidBody.defaultValue, isStatic: true });
+    run(world, 1, 60);
+    expect(world.getComponent(wall, Transform)!.x).toBe(0);
+  });
+
+  it("doesn't mark resting bodies' transforms changed", () => {
+    const world = createMovementWorld();
+    const moving = spawn(world, { x: 10, y: 0 });
+    spawn(world, { x: 0, y: 0 });
+    const seen: Entity[][] = [];
+    world.addSystem({
+      name: 'Watcher',
+      priority: SystemPriorities.RENDER,
+      update: (w) => void seen.push(w.changed(Transform)),
+    });
+
+    world.update(1 / 60);
+    world.update(1 / 60);
+    expect(seen[1]).toEqual([moving]);
+  });
+
+  it('accelerates by gravity up to the terminal velocity', () => {
+    const world = createMovementWorld();
+    const entity = spawn(world, { x: 0, y: 0 });
+    world.addComponent(entity, Gravity, { strength: 600, maxFallSpeed: 300, enabled: true });
+
+    run(world, 0.25, 60);
+    expect(world.getComponent(entity, Velocity)!.y).toBeCloseTo(150);
+    run(world, 1, 60);
+    expect(world.getComponent(entity, Velocity)!.y).toBe(300);
+  });
+
+  it('converts per-step tuning at 60 Hz to per-second units', () => {
+    expect(perSecond(2)).toBe(120);
+    expect(perSecondSquared(0.5)).toBe(1800);
+  });
+});
@@ -0,0 +1,21 @@
+/** Step rate that per-step tuning was written for */
+const TUNING_STEP_RATE = 60;
+
+/**
+ * Convert a speed tuned in pixels per 60 Hz step to pixels per second,
+ * the unit of Velocity.
+ *
+ * @example
+ * pipes: { speed: perSecond(2) }, // 2 px per step at 60 Hz = 120 px/s
+ */
+export function perSecond(perStep: number): number {
+  return perStep * TUNING_STEP_RATE;
+}
+
+/**
+ * Convert an acceleration tuned in pixels per 60 Hz step per step to
+ * pixels per second squared, the unit of Gravity.strength.
+ */
+export function perSecondSquared(perStepSquared: number): number {
+  return perStepSquared * TUNING_STEP_RATE * TUNING_STEP_RATE;
+}
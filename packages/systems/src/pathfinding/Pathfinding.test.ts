@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { createTilemap, createTileLayer } from '@repo/components';
+import { findPath, createFlowField, tilemapPathGrid, type PathGrid } from './Pathfinding';
+
+/** A grid from rows of text, where '#' is a wall */
+function gridOf(rows: string[]): PathGrid {
+  return {
+    cols: rows[0]!.length,
+    rows: rows.length,
+    isWalkable: (col, row) => rows[row]![col] !== '#',
+  };
+}
+
+const loop = gridOf([
+  '#####', //
+  '#...#',
+  '#.#.#',
+  '#...#',
+  '#####',
+]);
+
+describe('findPath', () => {
+  it('finds a shortest path, taking the first direction on ties', () => {
+    const path = findPath(loop, { col: 1, row: 1 }, { col: 3, row: 3 });
+    expect(path).toEqual([
+      { col: 1, row: 2, direction: 'DOWN' },
+      { col: 1, row: 3, direction: 'DOWN' },
+      { col: 2, row: 3, direction: 'RIGHT' },
+      { col: 3, row: 3, direction: 'RIGHT' },
+    ]);
+    expect(findPath(loop, { col: 1, row: 1 }, { col: 1, row: 1 })).toEqual([]);
+    expect(findPath(loop, { col: 1, row: 1 }, { col: 2, row: 2 })).toBeNull();
+  });
+
+  it("goes the long way round rather than reverse an agent's heading", () => {
+    const start = { col: 2, row: 1 };
+    const goal = { col: 1, row: 1 };
+    expect(findPath(loop, start, goal, { heading: 'RIGHT' })).toHaveLength(1);
+
+    const path = findPath(loop, start, goal, { heading: 'RIGHT', noReverse: true });
+    expect(path?.map((step) => step.direction)).toEqual([
+      'RIGHT',
+      'DOWN',
+      'DOWN',
+      'LEFT',
+      'LEFT',
+      'UP',
+      'UP',
+    ]);
+  });
+
+  it('steps through tilemap tunnels and only the doors it is told to', () => {
+    const map = createTilemap({
+      cols: 6,
+      rows: 1,
+      cellWidth: 8,
+      cellHeight: 8,
+      tileset: { tunnel: { tunnel: true }, door: { solid: true } },
+      layers: { maze: createTileLayer(['T.D..T'], { T: 'tunnel', D: 'door', '.': null }) },
+    });
+
+    expect(findPath(tilemapPathGrid(map), { col: 0, row: 0 }, { col: 5, row: 0 })).toEqual([
+      { col: 5, row: 0, direction: 'LEFT' },
+    ]);
+    // Round through the tunnel, as the door is shut
+    const around = findPath(tilemapPathGrid(map), { col: 1, row: 0 }, { col: 3, row: 0 });
+    expect(around?.map((step) => step.col)).toEqual([0, 5, 4, 3]);
+    expect(
+      findPath(tilemapPathGrid(map, { through: ['door'] }), { col: 1, row: 0 }, { col: 3, row: 0 })
+    ).toHaveLength(2);
+  });
+});
+
+describe('createFlowField', () => {
+  it('measures every cell against the nearest goal', () => {
+    const field = createFlowField(loop, [
+      { col: 1, row: 1 },
+      { col: 3, row: 3 },
+    ]);
+    expect(field.distanceAt(1, 1)).toBe(0);
+    expect(field.distanceAt(2, 1)).toBe(1);
+    expect(field.distanceAt(3, 1)).toBe(2);
+    expect(field.distanceAt(2, 2)).toBe(Infinity);
+    expect(field.distanceAt(-1, 0)).toBe(Infinity);
+  });
+
+  it('points toward the goal, or elsewhere when told to avoid a direction', () => {
+    const field = createFlowField(loop, [{ col: 1, row: 1 }]);
+    expect(field.directionAt(3, 1)).toBe('LEFT');
+    expect(field.directionAt(3, 3)).toBe('UP');
+    expect(field.directionAt(3, 1, 'LEFT')).toBe('DOWN');
+    expect(field.directionAt(1, 1)).toBeNull();
+    expect(field.directionAt(2, 2)).toBeNull();
+  });
+});
@@ -0,0 +1,322 @@
+import {
+  getNeighbor,
+  isWalkable,
+  type Direction,
+  type Tilemap,
+  type WalkOptions,
+} from '@repo/components';
+
+/** A grid cell */
+export interface Cell {
+  col: number;
+  row: number;
+}
+
+/** A step of a path: the cell it enters and the direction taken */
+export interface PathStep extends Cell {
+  direction: Direction;
+}
+
+/**
+ * PathGrid is what pathfinding searches: a cols x rows grid, which cells
+ * agents can stand in, and where each step leads.
+ *
+ * @example
+ * const grid: PathGrid = {
+ *   cols: 10,
+ *   rows: 10,
+ *   isWalkable: (col, row) => !walls.has(`${col},${row}`),
+ * };
+ */
+export interface PathGrid {
+  cols: number;
+  rows: number;
+  /** Whether an agent can stand in a cell (called with on-grid cells only) */
+  isWalkable(col: number, row: number): boolean;
+  /**
+   * The cell one step away in a direction, or null off the grid. Defaults to
+   * the adjacent cell; grids with tunnels return the cell on the far side.
+   * Steps must be reversible: stepping back the opposite way returns.
+   */
+  neighbor?(col: number, row: number, direction: Direction): Cell | null;
+}
+
+export interface PathOptions {
+  /** The agent's current heading, which `noReverse` won't turn back from */
+  heading?: Direction | null;
+  /**
+   * Forbid turning around: no step goes opposite to the one before it,
+   * starting from `heading` (like Pac-Man's ghosts)
+   */
+  noReverse?: boolean;
+}
+
+/**
+ * FlowField holds the distance from every cell to the nearest of a set of
+ * goals, so any number of agents can head for them with one search.
+ */
+export interface FlowField {
+  /** Steps from a cell to the nearest goal, or Infinity if none can be reached */
+  distanceAt(col: number, row: number): number;
+  /**
+   * Direction of the next step toward the nearest goal, or null at a goal or
+   * where none can be reached. With `avoid` (e.g. an agent's reverse), the
+   * best other direction, even if it leads away.
+   */
+  directionAt(col: number, row: number, avoid?: Direction | null): Direction | null;
+}
+
+/** Directions in the order searches try them, which breaks ties */
+const DIRECTIONS: Direction[] = ['UP', 'DOWN', 'LEFT', 'RIGHT'];
+
+const OFFSETS: Record<Direction, Cell> = {
+  UP: { col: 0, row: -1 },
+  DOWN: { col: 0, row: 1 },
+  LEFT: { col: -1, row: 0 },
+  RIGHT: { col: 1, row: 0 },
+};
+
+const OPPOSITE: Record<Direction, Direction> = {
+  UP: 'DOWN',
+  DOWN: 'UP',
+  LEFT: 'RIGHT',
+  RIGHT: 'LEFT',
+};
+
+/** Index of "no heading" in search state keys */
+const NO_HEADING = DIRECTIONS.length;
+
+function stepFrom(grid: PathGrid, col: number, row: number, direction: Direction): Cell | null {
+  if (grid.neighbor) return grid.neighbor(col, row, direction);
+
+  const next = { col: col + OFFSETS[direction].col, row: row + OFFSETS[direction].row };
+  const onGrid = next.col >= 0 && next.col < grid.cols && next.row >= 0 && next.row < grid.rows;
+  return onGrid ? next : null;
+}
+
+/** Whether a step lands on a cell an agent can stand in */
+function canEnter(grid: PathGrid, cell: Cell | null): cell is Cell {
+  return cell !== null && grid.isWalkable(cell.col, cell.row);
+}
+
+/**
+ * Fewest steps between two cells, allowing for steps that wrap around the
+ * edges when the grid has custom neighbors (so A* stays exact with tunnels).
+ */
+function estimate(grid: PathGrid, from: Cell, to: Cell): number {
+  const dx = Math.abs(from.col - to.col);
+  const dy = Math.abs(from.row - to.row);
+  if (!grid.neighbor) return dx + dy;
+  return Math.min(dx, grid.cols - dx) + Math.min(dy, grid.rows - dy);
+}
+
+interface SearchNode {
+  col: number;
+  row: number;
+  heading: number;
+  cost: number;
+  priority: number;
+  /** Insertion order, so equal priorities pop first-in first-out */
+  order: number;
+}
+
+function before(a: SearchNode, b: SearchNode): boolean {
+  return a.priority < b.priority || (a.priority === b.priority && a.order < b.order);
+}
+
+/** Push onto a binary min-heap */
+function heapPush(heap: SearchNode[], node: SearchNode) {
+  heap.push(node);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (!before(heap[index]!, heap[parent]!)) break;
+    [heap[index], heap[parent]] = [heap[parent]!, heap[index]!];
+    index = parent;
+  }
+}
+
+/** Pop the smallest node off a binary min-heap */
+function heapPop(heap: SearchNode[]): SearchNode | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length === 0 || !last) return top;
+
+  heap[0] = last;
+  let index = 0;
+  for (;;) {
+    const left = index * 2 + 1;
+    const right = left + 1;
+    let smallest = index;
+    if (left < heap.length && before(heap[left]!, heap[smallest]!)) smallest = left;
+    if (right < heap.length && before(heap[right]!, heap[smallest]!)) smallest = right;
+    if (smallest === index) break;
+    [heap[index], heap[smallest]] = [heap[smallest]!, heap[index]!];
+    index = smallest;
+  }
+  return top;
+}
+
+/**
+ * Find a shortest path with A*. Returns the steps from `start` (not
+ * included) to `goal`: empty when already there, null when unreachable.
+ * Ties between equally short paths go to the direction tried first
+ * (UP, DOWN, LEFT, RIGHT), so the same search always finds the same path.
+ *
+ * @example
+ * const path = findPath(tilemapPathGrid(maze), ghostCell, home, {
+ *   heading: ghost.direction,
+ *   noReverse: true,
+ * });
+ * const direction = path?.[0]?.direction;
+ */
+export function findPath(
+  grid: PathGrid,
+  start: Cell,
+  goal: Cell,
+  options: PathOptions = {}
+): PathStep[] | null {
+  if (start.col === goal.col && start.row === goal.row) return [];
+
+  // With noReverse the heading is part of the search state, as which way a
+  // cell was entered decides where the agent can go next
+  const startHeading =
+    options.noReverse && options.heading ? DIRECTIONS.indexOf(options.heading) : NO_HEADING;
+  const keyOf = (col: number, row: number, heading: number) =>
+    (row * grid.cols + col) * (NO_HEADING + 1) + (options.noReverse ? heading : NO_HEADING);
+
+  const costs = new Map<number, number>();
+  const cameFrom = new Map<number, { key: number; step: PathStep }>();
+  const closed = new Set<number>();
+  const open: SearchNode[] = [];
+  let order = 0;
+
+  const startKey = keyOf(start.col, start.row, startHeading);
+  costs.set(startKey, 0);
+  heapPush(open, {
+    col: start.col,
+    row: start.row,
+    heading: startHeading,
+    cost: 0,
+    priority: estimate(grid, start, goal),
+    order: order++,
+  });
+
+  for (let node = heapPop(open); node; node = heapPop(open)) {
+    const key = keyOf(node.col, node.row, node.heading);
+    if (closed.has(key)) continue;
+    closed.add(key);
+
+    if (node.col === goal.col && node.row === goal.row) {
+      const path: PathStep[] = [];
+      for (let link = cameFrom.get(key); link; link = cameFrom.get(link.key)) {
+        path.push(link.step);
+      }
+      return path.reverse();
+    }
+
+    DIRECTIONS.forEach((direction, heading) => {
+      if (options.noReverse && node.heading !== NO_HEADING) {
+        if (OPPOSITE[direction] === DIRECTIONS[node.heading]) return;
+      }
+      const next = stepFrom(grid, node.col, node.row, direction);
+      if (!canEnter(grid, next)) return;
+
+      const nextKey = keyOf(next.col, next.row, heading);
+      const cost = node.cost + 1;
+      if (closed.has(nextKey) || cost >= (costs.get(nextKey) ?? Infinity)) return;
+
+      costs.set(nextKey, cost);
+      cameFrom.set(nextKey, { key, step: { ...next, direction } });
+      heapPush(open, {
+        ...next,
+        heading,
+        cost,
+        priority: cost + estimate(grid, next, goal),
+        order: order++,
+      });
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Build a flow field toward the nearest of `goals` with a breadth-first
+ * search out from them. Rebuild it when the grid or goals change.
+ *
+ * @example
+ * const field = createFlowField(tilemapPathGrid(map), exits);
+ * const direction = field.directionAt(pos.col, pos.row);
+ */
+export function createFlowField(grid: PathGrid, goals: readonly Cell[]): FlowField {
+  const distances = new Array<number>(grid.cols * grid.rows).fill(Infinity);
+  const indexOf = (col: number, row: number) => row * grid.cols + col;
+  const onGrid = (col: number, row: number) =>
+    col >= 0 && col < grid.cols && row >= 0 && row < grid.rows;
+
+  const queue: Cell[] = [];
+  for (const goal of goals) {
+    if (!onGrid(goal.col, goal.row) || distances[indexOf(goal.col, goal.row)] === 0) continue;
+    distances[indexOf(goal.col, goal.row)] = 0;
+    queue.push(goal);
+  }
+
+  // Walk out from the goals: a cell one step back from a reached cell is one
+  // step further from the goals
+  for (let head = 0; head < queue.length; head++) {
+    const cell = queue[head]!;
+    const distance = distances[indexOf(cell.col, cell.row)]! + 1;
+
+    for (const direction of DIRECTIONS) {
+      const previous = stepFrom(grid, cell.col, cell.row, OPPOSITE[direction]);
+      if (!canEnter(grid, previous)) continue;
+      if (distances[indexOf(previous.col, previous.row)]! <= distance) continue;
+
+      distances[indexOf(previous.col, previous.row)] = distance;
+      queue.push(previous);
+    }
+  }
+
+  function distanceAt(col: number, row: number): number {
+    return onGrid(col, row) ? distances[indexOf(col, row)]! : Infinity;
+  }
+
+  return {
+    distanceAt,
+
+    directionAt(col, row, avoid = null) {
+      const here = distanceAt(col, row);
+      if (here === 0 || here === Infinity) return null;
+
+      let best: Direction | null = null;
+      let bestDistance = Infinity;
+      for (const direction of DIRECTIONS) {
+        if (direction === avoid) continue;
+        const next = stepFrom(grid, col, row, direction);
+        if (!canEnter(grid, next)) continue;
+
+        const distance = distanceAt(next.col, next.row);
+        if (distance < bestDistance) {
+          best = direction;
+          bestDistance = distance;
+        }
+      }
+      return best;
+    },
+  };
+}
+
+/**
+ * A PathGrid over a tilemap: cells are walkable by isWalkable (with
+ * `options`, e.g. doors only some agents pass), and steps wrap through
+ * tunnel tiles.
+ */
+export function tilemapPathGrid(map: Tilemap, options: WalkOptions = {}): PathGrid {
+  return {
+    cols: map.cols,
+    rows: map.rows,
+    isWalkable: (col, row) => isWalkable(map, col, row, options),
+    neighbor: (col, row, direction) => getNeighbor(map, col, row, direction),
+  };
+}
@@ -0,0 +1,10 @@
+export {
+  findPath,
+  createFlowField,
+  tilemapPathGrid,
+  type Cell,
+  type PathStep,
+  type PathGrid,
+  type PathOptions,
+  type FlowField,
+} from './Pathfinding';
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld, type World, type Entity } from '@repo/ecs';
+import {
+  Transform,
+  Velocity,
+  Collider,
+  RigidBody,
+  CollisionEnterEvent,
+  CollisionExitEvent,
+  type ColliderData,
+  type RigidBodyData,
+} from '@repo/components';
+import { CollisionSystem, getContacts } from './CollisionSystem';
+
+function createCollisionWorld(): World {
+  const world = createWorld();
+  world.addSystem(CollisionSystem);
+  return world;
+}
+
+function spawn(
+  world: World,
+  x: number,
+  y: number,
+  collider: Partial<ColliderData> = {},
+  rigidBody?: Partial<RigidBodyData>
+): Entity {
+  const entity = world.entities.create();
+  world.addComponent(entity, Transform, { ...Transform.defaultValue, x, y });
+  world.addComponent(entity, Collider, { ...Collider.defaultValue, ...collider });
+  if (rigidBody) {
+    world.addComponent(entity, RigidBody, { ...RigidBody.defaultValue, ...rigidBody });
+  }
+  return entity;
+}
+
+describe('CollisionSystem', () => {
+  it('reports when colliders start and stop overlapping, once per pair', () => {
+    const world = createCollisionWorld();
+    const events: string[] = [];
+    world.on(CollisionEnterEvent, ({ a, b, trigger }) => events.push(`enter ${a} ${b} ${trigger}`));
+    world.on(CollisionExitEvent, ({ a, b }) => events.push(`exit ${a} ${b}`));
+    const a = spawn(world, 0, 0);
+    const b = spawn(world, 20, 0);
+
+    world.update(1 / 60);
+    world.update(1 / 60);
+    expect(getContacts(world, a)).toEqual([b]);
+
+    world.updateComponent(b, Transform, { x: 100 });
+    world.update(1 / 60);
+    expect(events).toEqual([`enter ${a} ${b} true`, `exit ${a} ${b}`]);
+    expect(getContacts(world, a)).toEqual([]);
+  });
+
+  it('tests circles against boxes and circles', () => {
+    const world = createCollisionWorld();
+    const circle = spawn(world, 0, 0, { type: 'circle', radius: 10 });
+    const touching = spawn(world, 15, 0, { type: 'circle', radius: 10 });
+    const boxNear = spawn(world, 8, -5, { width: 10, height: 10 });
+    spawn(world, 8, 8, { width: 10, height: 10 });
+
+    world.update(1 / 60);
+    expect(getContacts(world, circle).sort()).toEqual([touching, boxNear].sort());
+  });
+
+  it('only pairs colliders whose layer and mask match both ways', () => {
+    const world = createCollisionWorld();
+    const player = spawn(world, 0, 0, { layer: 1, mask: 2 });
+    const enemy = spawn(world, 10, 0, { layer: 2, mask: 1 });
+    const ghost = spawn(world, 10, 0, { layer: 4, mask: 0xffffffff });
+    const oneWay = spawn(world, 10, 0, { layer: 2, mask: 4 });
+
+    world.update(1 / 60);
+    expect(getContacts(world, player)).toEqual([enemy]);
+    expect(getContacts(world, ghost)).toEqual([oneWay]);
+  });
+
+  it('pushes solid bodies out of static ones and stops them moving in', () => {
+    const world = createCollisionWorld();
+    const wall = spawn(world, 30, 0, {}, { isStatic: true });
+    const ball = spawn(world, 0, 0, {}, {});
+    world.addComponent(ball, Velocity, { ...Velocity.defaultValue, x: 50 });
+
+    world.update(1 / 60);
+    expect(world.getComponent(wall, Transform)!.x).toBe(30);
+    expect(world.getComponent(ball, Transform)!.x).toBeCloseTo(-2, 1);
+    expect(world.getComponent(ball, Velocity)!.x).toBeCloseTo(0);
+  });
+
+  it('splits the push between movable bodies by mass', () => {
+    const world = createCollisionWorld();
+    const light = spawn(world, 0, 0, {}, { mass: 1 });
+    const heavy = spawn(world, 28, 0, {}, { mass: 3 });
+
+    world.update(1 / 60);
+    // 4px of overlap: the light body moves three times as far
+    expect(world.getComponent(light, Transform)!.x).toBeCloseTo(-3, 1);
+    expect(world.getComponent(heavy, Transform)!.x).toBeCloseTo(29, 1);
+  });
+});
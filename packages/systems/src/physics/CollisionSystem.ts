@@ -0,0 +1,363 @@
+import {
+  type System,
+  type World,
+  type Entity,
+  SystemPriorities,
+  defineResource,
+  optional,
+} from '@repo/ecs';
+import {
+  Transform,
+  WorldTransform,
+  Velocity,
+  Collider,
+  RigidBody,
+  CollisionEnterEvent,
+  CollisionExitEvent,
+  type ColliderData,
+  type RigidBodyData,
+  type VelocityData,
+} from '@repo/components';
+
+/**
+ * Colliders touching each entity, as of the last CollisionSystem run.
+ * Every pair is listed under both entities.
+ */
+export const CollisionContactsResource = defineResource(
+  'collision:contacts',
+  new Map<Entity, Set<Entity>>()
+);
+
+/**
+ * Get the colliders an entity touched in the last collision step.
+ */
+export function getContacts(world: World, entity: Entity): Entity[] {
+  const contacts = world.getResource(CollisionContactsResource).get(entity);
+  return contacts ? Array.from(contacts) : [];
+}
+
+export interface CollisionSystemOptions {
+  /** Size of the spatial hash cells in pixels (default 64) */
+  cellSize?: number;
+}
+
+/**
+ * Penetration left in place when separating solid bodies, so resting
+ * contacts keep touching (and don't exit and re-enter every step)
+ */
+const SLOP = 0.01;
+
+interface Body {
+  entity: Entity;
+  collider: ColliderData;
+  rigidBody: RigidBodyData | undefined;
+  velocity: VelocityData | undefined;
+  velocityChanged: boolean;
+  /** Position the collider is offset from (moved by resolution) */
+  x: number;
+  y: number;
+  startX: number;
+  startY: number;
+  hasWorldTransform: boolean;
+}
+
+interface Contact {
+  /** Unit normal pointing from the first body to the second */
+  nx: number;
+  ny: number;
+  /** Penetration along the normal */
+  depth: number;
+}
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** Box colliders are offset from the position by their top-left corner */
+function getBox(body: Body): Bounds {
+  const minX = body.x + body.collider.offsetX;
+  const minY = body.y + body.collider.offsetY;
+  return { minX, minY, maxX: minX + body.collider.width, maxY: minY + body.collider.height };
+}
+
+/** Circle colliders are offset from the position by their center */
+function getCircle(body: Body) {
+  return {
+    x: body.x + body.collider.offsetX,
+    y: body.y + body.collider.offsetY,
+    radius: body.collider.radius,
+  };
+}
+
+function getBounds(body: Body): Bounds {
+  if (body.collider.type === 'box') return getBox(body);
+  const { x, y, radius } = getCircle(body);
+  return { minX: x - radius, minY: y - radius, maxX: x + radius, maxY: y + radius };
+}
+
+function boxBox(a: Bounds, b: Bounds): Contact | null {
+  const overlapX = Math.min(a.maxX, b.maxX) - Math.max(a.minX, b.minX);
+  const overlapY = Math.min(a.maxY, b.maxY) - Math.max(a.minY, b.minY);
+  if (overlapX <= 0 || overlapY <= 0) return null;
+
+  // Separate along the axis of least penetration
+  if (overlapX < overlapY) {
+    const nx = b.minX + b.maxX >= a.minX + a.maxX ? 1 : -1;
+    return { nx, ny: 0, depth: overlapX };
+  }
+  const ny = b.minY + b.maxY >= a.minY + a.maxY ? 1 : -1;
+  return { nx: 0, ny, depth: overlapY };
+}
+
+function circleCircle(a: ReturnType<typeof getCircle>, b: ReturnType<typeof getCircle>) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const radii = a.radius + b.radius;
+  const distanceSq = dx * dx + dy * dy;
+  if (distanceSq >= radii * radii) return null;
+
+  const distance = Math.sqrt(distanceSq);
+  if (distance === 0) return { nx: 1, ny: 0, depth: radii };
+  return { nx: dx / distance, ny: dy / distance, depth: radii - distance };
+}
+
+function boxCircle(box: Bounds, circle: ReturnType<typeof getCircle>): Contact | null {
+  // Closest point of the box to the circle's center
+  const closestX = Math.min(Math.max(circle.x, box.minX), box.maxX);
+  const closestY = Math.min(Math.max(circle.y, box.minY), box.maxY);
+  const dx = circle.x - closestX;
+  const dy = circle.y - closestY;
+  const distanceSq = dx * dx + dy * dy;
+
+  if (distanceSq > 0) {
+    if (distanceSq >= circle.radius * circle.radius) return null;
+    const distance = Math.sqrt(distanceSq);
+    return { nx: dx / distance, ny: dy / distance, depth: circle.radius - distance };
+  }
+
+  // Center inside the box: push out through the nearest edge
+  const edges: Contact[] = [
+    { nx: -1, ny: 0, depth: circle.x - box.minX },
+    { nx: 1, ny: 0, depth: box.maxX - circle.x },
+    { nx: 0, ny: -1, depth: circle.y - box.minY },
+    { nx: 0, ny: 1, depth: box.maxY - circle.y },
+  ];
+  const nearest = edges.reduce((best, edge) => (edge.depth < best.depth ? edge : best));
+  return { ...nearest, depth: nearest.depth + circle.radius };
+}
+
+/** Narrow phase: the contact between two colliders, if they overlap */
+function collide(a: Body, b: Body): Contact | null {
+  if (a.collider.type === 'box' && b.collider.type === 'box') {
+    return boxBox(getBox(a), getBox(b));
+  }
+  if (a.collider.type === 'circle' && b.collider.type === 'circle') {
+    return circleCircle(getCircle(a), getCircle(b));
+  }
+  if (a.collider.type === 'box') {
+    return boxCircle(getBox(a), getCircle(b));
+  }
+  const contact = boxCircle(getBox(b), getCircle(a));
+  return contact && { nx: -contact.nx, ny: -contact.ny, depth: contact.depth };
+}
+
+function isSolid(body: Body): boolean {
+  return body.rigidBody !== undefined && !body.rigidBody.isTrigger;
+}
+
+function getInverseMass(body: Body): number {
+  if (!body.rigidBody || body.rigidBody.isStatic) return 0;
+  return body.rigidBody.mass > 0 ? 1 / body.rigidBody.mass : 1;
+}
+
+/** Push two solid bodies apart and remove their approaching velocity */
+function resolve(a: Body, b: Body, contact: Contact) {
+  const inverseA = getInverseMass(a);
+  const inverseB = getInverseMass(b);
+  const inverseTotal = inverseA + inverseB;
+  if (inverseTotal === 0) return;
+
+  const correction = Math.max(contact.depth - SLOP, 0) / inverseTotal;
+  a.x -= contact.nx * correction * inverseA;
+  a.y -= contact.ny * correction * inverseA;
+  b.x += contact.nx * correction * inverseB;
+  b.y += contact.ny * correction * inverseB;
+
+  const velocityA = a.velocity ?? { x: 0, y: 0, z: 0 };
+  const velocityB = b.velocity ?? { x: 0, y: 0, z: 0 };
+  const approach =
+    (velocityB.x - velocityA.x) * contact.nx + (velocityB.y - velocityA.y) * contact.ny;
+  if (approach >= 0) return;
+
+  const restitution = Math.max(a.rigidBody!.restitution, b.rigidBody!.restitution);
+  const impulse = (-(1 + restitution) * approach) / inverseTotal;
+  if (a.velocity && inverseA > 0) {
+    a.velocityChanged = true;
+    a.velocity = {
+      ...a.velocity,
+      x: a.velocity.x - contact.nx * impulse * inverseA,
+      y: a.velocity.y - contact.ny * impulse * inverseA,
+    };
+  }
+  if (b.velocity && inverseB > 0) {
+    b.velocityChanged = true;
+    b.velocity = {
+      ...b.velocity,
+      x: b.velocity.x + contact.nx * impulse * inverseB,
+      y: b.velocity.y + contact.ny * impulse * inverseB,
+    };
+  }
+}
+
+function addContact(contacts: Map<Entity, Set<Entity>>, a: Entity, b: Entity) {
+  let set = contacts.get(a);
+  if (!set) {
+    set = new Set();
+    contacts.set(a, set);
+  }
+  set.add(b);
+}
+
+/**
+ * Create a collision system for entities with a Collider and a Transform
+ * (or WorldTransform, preferred when present).
+ *
+ * Each step it finds overlapping pairs (a spatial hash for the broad phase,
+ * then box/circle tests), keeps pairs whose layer and mask match both ways,
+ * and emits CollisionEnterEvent/CollisionExitEvent when pairs start and stop
+ * touching. Pairs of solid bodies (a RigidBody that isn't a trigger) are
+ * pushed apart by mass, static bodies never move, and their approaching
+ * velocity is removed (bouncing by restitution). Colliders without a
+ * RigidBody, and triggers, only report overlaps.
+ */
+export function createCollisionSystem(options: CollisionSystemOptions = {}): System {
+  const cellSize = options.cellSize ?? 64;
+
+  return {
+    name: 'CollisionSystem',
+    priority: SystemPriorities.POST_PHYSICS,
+    // Collide at this step's positions
+    after: ['VelocitySystem', 'TransformPropagationSystem'],
+
+    update(world) {
+      const bodies: Body[] = [];
+      const colliders = world.view(
+        Collider,
+        optional(WorldTransform),
+        optional(Transform),
+        optional(RigidBody),
+        optional(Velocity)
+      );
+      for (const [entity, collider, worldTransform, transform, rigidBody, velocity] of colliders) {
+        const position = worldTransform ?? transform;
+        if (!position) continue;
+        bodies.push({
+          entity,
+          collider,
+          rigidBody,
+          velocity,
+          velocityChanged: false,
+          x: position.x,
+          y: position.y,
+          startX: position.x,
+          startY: position.y,
+          hasWorldTransform: worldTransform !== undefined,
+        });
+      }
+
+      // Broad phase: bucket bodies by the cells their bounds cover
+      const cells = new Map<string, number[]>();
+      bodies.forEach((body, index) => {
+        const bounds = getBounds(body);
+        const maxCellX = Math.floor(bounds.maxX / cellSize);
+        const maxCellY = Math.floor(bounds.maxY / cellSize);
+        for (let cx = Math.floor(bounds.minX / cellSize); cx <= maxCellX; cx++) {
+          for (let cy = Math.floor(bounds.minY / cellSize); cy <= maxCellY; cy++) {
+            const key = `${cx},${cy}`;
+            const cell = cells.get(key);
+            if (cell) cell.push(index);
+            else cells.set(key, [index]);
+          }
+        }
+      });
+
+      const previous = world.getResource(CollisionContactsResource);
+      const contacts = new Map<Entity, Set<Entity>>();
+      const tested = new Set<string>();
+      const entered: { a: Entity; b: Entity; trigger: boolean }[] = [];
+
+      for (const cell of cells.values()) {
+        for (let i = 0; i < cell.length; i++) {
+          for (let j = i + 1; j < cell.length; j++) {
+            let a = bodies[cell[i]!]!;
+            let b = bodies[cell[j]!]!;
+            if (b.entity < a.entity) [a, b] = [b, a];
+
+            const key = `${a.entity},${b.entity}`;
+            if (tested.has(key)) continue;
+            tested.add(key);
+
+            if ((a.collider.layer & b.collider.mask) === 0) continue;
+            if ((b.collider.layer & a.collider.mask) === 0) continue;
+            if (a.rigidBody?.isStatic && b.rigidBody?.isStatic) continue;
+
+            const contact = collide(a, b);
+            if (!contact) continue;
+
+            const solid = isSolid(a) && isSolid(b);
+            if (solid) resolve(a, b, contact);
+
+            addContact(contacts, a.entity, b.entity);
+            addContact(contacts, b.entity, a.entity);
+            if (!previous.get(a.entity)?.has(b.entity)) {
+              entered.push({ a: a.entity, b: b.entity, trigger: !solid });
+            }
+          }
+        }
+      }
+
+      // Write back what resolution changed
+      for (const body of bodies) {
+        const dx = body.x - body.startX;
+        const dy = body.y - body.startY;
+        if (dx !== 0 || dy !== 0) {
+          const transform = world.getComponent(body.entity, Transform);
+          if (transform) {
+            world.updateComponent(body.entity, Transform, {
+              x: transform.x + dx,
+              y: transform.y + dy,
+            });
+          }
+          if (body.hasWorldTransform) {
+            world.updateComponent(body.entity, WorldTransform, { x: body.x, y: body.y });
+          }
+        }
+
+        if (body.velocity && body.velocityChanged) {
+          world.updateComponent(body.entity, Velocity, body.velocity);
+        }
+      }
+
+      world.setResource(CollisionContactsResource, contacts);
+
+      for (const [a, touching] of previous) {
+        for (const b of touching) {
+          if (a < b && !contacts.get(a)?.has(b)) {
+            world.emit(CollisionExitEvent, { a, b });
+          }
+        }
+      }
+      for (const pair of entered) {
+        world.emit(CollisionEnterEvent, pair);
+      }
+    },
+  };
+}
+
+/**
+ * CollisionSystem with the default options.
+ */
+export const CollisionSystem: System = createCollisionSystem();
@@ -0,0 +1,7 @@
+export {
+  CollisionSystem,
+  createCollisionSystem,
+  type CollisionSystemOptions,
+  CollisionContactsResource,
+  getContacts,
+} from './CollisionSystem';
@@ -0,0 +1,143 @@
+/** Source rect of a frame in its atlas image, in pixels */
+export interface AtlasFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * AtlasDefinition describes an image atlas as data (JSON-compatible):
+ * the image and its named frames.
+ *
+ * @example
+ * const knight: AtlasDefinition = {
+ *   image: '/sprites/knight.png',
+ *   frames: gridFrames({ frameWidth: 24, frameHeight: 32, columns: 4, names: ['idle', 'walk1'] }),
+ * };
+ */
+export interface AtlasDefinition {
+  /** Image URL */
+  image: string;
+  /** Frames by name */
+  frames: Record<string, AtlasFrame>;
+}
+
+/** A loaded atlas, ready to draw from */
+export interface Atlas {
+  image: CanvasImageSource;
+  frames: Record<string, AtlasFrame>;
+}
+
+export interface GridFramesOptions {
+  frameWidth: number;
+  frameHeight: number;
+  /** Frames per row of the sheet */
+  columns: number;
+  /** Frame names, row by row from the top-left frame */
+  names: string[];
+}
+
+/**
+ * Frames of a sheet laid out as a grid of equal cells, with no padding.
+ */
+export function gridFrames(options: GridFramesOptions): Record<string, AtlasFrame> {
+  const frames: Record<string, AtlasFrame> = {};
+  options.names.forEach((name, index) => {
+    frames[name] = {
+      x: (index % options.columns) * options.frameWidth,
+      y: Math.floor(index / options.columns) * options.frameHeight,
+      width: options.frameWidth,
+      height: options.frameHeight,
+    };
+  });
+  return frames;
+}
+
+/**
+ * Load an image in the browser, resolving once it can be drawn.
+ */
+export async function loadImage(src: string): Promise<HTMLImageElement> {
+  const image = new Image();
+  image.src = src;
+  await image.decode();
+  return image;
+}
+
+export interface AtlasCacheOptions {
+  /** Image loader (defaults to loadImage) */
+  loadImage?: (src: string) => Promise<CanvasImageSource>;
+}
+
+/**
+ * AtlasCache loads atlases once and keeps them by id, for render systems
+ * to draw Sprite frames from.
+ *
+ * @example
+ * const atlases = createAtlasCache();
+ * void atlases.load('knight', knightAtlas);
+ * world.addSystem(createCanvas2DRenderSystem({ canvas, width, height, atlases }));
+ */
+export interface AtlasCache {
+  /**
+   * Load an atlas under an id. Loading an id again returns the first load;
+   * a failed load rejects and can be retried.
+   */
+  load(id: string, definition: AtlasDefinition): Promise<Atlas>;
+  /** A loaded atlas, or undefined while it's loading or if it was never loaded */
+  get(id: string): Atlas | undefined;
+  /** Bumped whenever an atlas finishes loading, so renderers know to redraw */
+  readonly version: number;
+  /** Forget an atlas */
+  delete(id: string): void;
+}
+
+/**
+ * Create an empty atlas cache.
+ */
+export function createAtlasCache(options: AtlasCacheOptions = {}): AtlasCache {
+  const load = options.loadImage ?? loadImage;
+  const loaded = new Map<string, Atlas>();
+  const pending = new Map<string, Promise<Atlas>>();
+  let version = 0;
+
+  return {
+    load(id, definition) {
+      const existing = pending.get(id);
+      if (existing) return existing;
+
+      const promise = load(definition.image).then(
+        (image) => {
+          // Dropped while loading
+          if (pending.get(id) !== promise) return { image, frames: definition.frames };
+
+          const atlas = { image, frames: definition.frames };
+          loaded.set(id, atlas);
+          version++;
+          return atlas;
+        },
+        (error: unknown) => {
+          if (pending.get(id) === promise) pending.delete(id);
+          throw new Error(`Failed to load atlas "${id}" from ${definition.image}`, {
+            cause: error,
+          });
+        }
+      );
+      pending.set(id, promise);
+      return promise;
+    },
+
+    get(id) {
+      return loaded.get(id);
+    },
+
+    get version() {
+      return version;
+    },
+
+    delete(id) {
+      pending.delete(id);
+      if (loaded.delete(id)) version++;
+    },
+  };
+}
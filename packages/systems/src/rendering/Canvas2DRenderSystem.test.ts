@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createWorld, type World, type Entity } from '@repo/ecs';
+import {
+  Transform,
+  Sprite,
+  TilemapResource,
+  createTilemap,
+  createTileLayer,
+  setTile,
+  type SpriteData,
+} from '@repo/components';
+import { createCanvas2DRenderSystem } from './Canvas2DRenderSystem';
+import { createAtlasCache, gridFrames, type AtlasCache } from './Atlas';
+
+/** A drawImage or fillRect call, with the image or fill it used */
+type DrawCall = [method: 'drawImage' | 'fillRect', ...args: unknown[]];
+
+/**
+ * A 2D context that records draws. Other methods do nothing, and
+ * properties keep whatever is assigned.
+ */
+function createRecordingContext() {
+  const draws: DrawCall[] = [];
+  const state: Record<string | symbol, unknown> = {};
+  const ctx = new Proxy(state, {
+    get(target, key) {
+      if (key in target) return target[key];
+      if (key === 'drawImage') return (...args: unknown[]) => draws.push(['drawImage', ...args]);
+      if (key === 'fillRect') {
+        return (...args: unknown[]) => draws.push(['fillRect', target.fillStyle, ...args]);
+      }
+      return () => {};
+    },
+  });
+  return { ctx, draws };
+}
+
+function createCanvas() {
+  const { ctx, draws } = createRecordingContext();
+  return { canvas: { getContext: () => ctx } as unknown as HTMLCanvasElement, draws };
+}
+
+function createRenderWorld(atlases: AtlasCache, tilemapLayers?: string[]) {
+  const { canvas, draws } = createCanvas();
+  const world = createWorld();
+  world.addSystem(
+    createCanvas2DRenderSystem({ canvas, width: 64, height: 64, atlases, tilemapLayers })
+  );
+  return { world, draws };
+}
+
+function spawnSprite(world: World, sprite: Partial<SpriteData>): Entity {
+  const entity = world.entities.create();
+  world.addComponent(entity, Transform, { ...Transform.defaultValue });
+  world.addComponent(entity, Sprite, { ...Sprite.defaultValue, width: 16, height: 16, ...sprite });
+  return entity;
+}
+
+const knight = {
+  image: '/knight.png',
+  frames: gridFrames({ frameWidth: 8, frameHeight: 8, columns: 2, names: ['idle', 'walk'] }),
+};
+
+/** Resolves each image load with a stand-in image named by its URL */
+const loadImage = (src: string) => Promise.resolve({ src } as unknown as CanvasImageSource);
+
+describe('Canvas2DRenderSystem', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it("draws a sprite's atlas frame once loaded, and its shape until then", async () => {
+    const atlases = createAtlasCache({ loadImage });
+    const { world, draws } = createRenderWorld(atlases);
+    spawnSprite(world, { color: '#f00', atlas: 'knight', frame: 'walk' });
+
+    const loading = atlases.load('knight', knight);
+    world.update(1 / 60);
+    expect(draws).toContainEqual(['fillRect', '#f00', -8, -8, 16, 16]);
+
+    const atlas = await loading;
+    draws.length = 0;
+    world.update(1 / 60);
+    expect(draws).toContainEqual(['drawImage', atlas.image, 8, 0, 8, 8, -8, -8, 16, 16]);
+    expect(draws).not.toContainEqual(['fillRect', '#f00', -8, -8, 16, 16]);
+  });
+
+  it('warns once about a missing frame and draws the shape instead', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const atlases = createAtlasCache({ loadImage });
+    await atlases.load('knight', knight);
+    const { world, draws } = createRenderWorld(atlases);
+    const sprite = spawnSprite(world, { color: '#0f0', atlas: 'knight', frame: 'jump' });
+    spawnSprite(world, { color: '#0f0', atlas: 'knight', frame: 'jump' });
+
+    world.update(1 / 60);
+    world.updateComponent(sprite, Transform, { x: 1 });
+    world.update(1 / 60);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      'Atlas "knight" has no frame "jump"; drawing a shape instead'
+    );
+    expect(draws.filter(([method]) => method === 'drawImage')).toEqual([]);
+    expect(draws).toContainEqual(['fillRect', '#0f0', -8, -8, 16, 16]);
+  });
+
+  it("batches each layer's sprites by atlas", async () => {
+    const atlases = createAtlasCache({ loadImage });
+    await atlases.load('a', { ...knight, image: 'a.png' });
+    await atlases.load('b', { ...knight, image: 'b.png' });
+    const { world, draws } = createRenderWorld(atlases);
+    spawnSprite(world, { atlas: 'b', frame: 'idle', layer: 1 });
+    spawnSprite(world, { atlas: 'b', frame: 'idle' });
+    spawnSprite(world, { atlas: 'a', frame: 'idle' });
+    spawnSprite(world, { atlas: 'b', frame: 'idle' });
+
+    world.update(1 / 60);
+    const images = draws
+      .filter(([method]) => method === 'drawImage')
+      .map(([, image]) => (image as { src: string }).src);
+    expect(images).toEqual(['a.png', 'b.png', 'b.png', 'b.png']);
+  });
+
+  it('pre-renders tilemap layers once, until a tile changes', () => {
+    const layer = createCanvas();
+    vi.stubGlobal('document', { createElement: () => layer.canvas });
+    const { world, draws } = createRenderWorld(createAtlasCache({ loadImage }), ['floor']);
+    const map = createTilemap({
+      cols: 2,
+      rows: 1,
+      cellWidth: 8,
+      cellHeight: 8,
+      tileset: { wall: { color: '#00f' } },
+      layers: { floor: createTileLayer(['#.'], { '#': 'wall', '.': null }) },
+    });
+    world.setResource(TilemapResource, map);
+    spawnSprite(world, {});
+
+    world.update(1 / 60);
+    expect(layer.draws).toEqual([['fillRect', '#00f', 0, 0, 8, 8]]);
+    expect(draws).toContainEqual(['drawImage', layer.canvas, 0, 0]);
+
+    // Redrawn for a moving sprite, from the cached layer
+    world.updateComponent(world.view(Sprite).first()![0], Transform, { x: 1 });
+    world.update(1 / 60);
+    expect(layer.draws).toHaveLength(1);
+
+    setTile(map, 'floor', 1, 0, 'wall');
+    world.update(1 / 60);
+    expect(layer.draws.slice(1)).toEqual([
+      ['fillRect', '#00f', 0, 0, 8, 8],
+      ['fillRect', '#00f', 8, 0, 8, 8],
+    ]);
+  });
+});
+
+describe('atlas cache', () => {
+  it('loads each atlas once, and can retry a failed load', async () => {
+    let fail = true;
+    const load = vi.fn((src: string) => (fail ? Promise.reject(new Error('404')) : loadImage(src)));
+    const atlases = createAtlasCache({ loadImage: load });
+
+    await expect(atlases.load('knight', knight)).rejects.toThrow(
+      'Failed to load atlas "knight" from /knight.png'
+    );
+    expect(atlases.get('knight')).toBeUndefined();
+    expect(atlases.version).toBe(0);
+
+    fail = false;
+    const first = atlases.load('knight', knight);
+    expect(atlases.load('knight', knight)).toBe(first);
+    await first;
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(atlases.get('knight')?.frames).toBe(knight.frames);
+    expect(atlases.version).toBe(1);
+
+    atlases.delete('knight');
+    expect(atlases.get('knight')).toBeUndefined();
+    expect(atlases.version).toBe(2);
+  });
+
+  it('lays out grid frames row by row', () => {
+    expect(
+      gridFrames({ frameWidth: 4, frameHeight: 6, columns: 2, names: ['a', 'b', 'c'] })
+    ).toEqual({
+      a: { x: 0, y: 0, width: 4, height: 6 },
+      b: { x: 4, y: 0, width: 4, height: 6 },
+      c: { x: 0, y: 6, width: 4, height: 6 },
+    });
+  });
+});
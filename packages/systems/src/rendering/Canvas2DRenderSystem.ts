@@ -1,5 +1,15 @@
-import { type System, type World, SystemPriorities } from '@repo/ecs';
-import { Transform, GridPosition, Sprite } from '@repo/components';
+import { type System, type World, SystemPriorities, optional } from '@repo/ecs';
+import {
+  Transform,
+  GridPosition,
+  Sprite,
+  TilemapResource,
+  getTile,
+  type SpriteData,
+  type Tilemap,
+} from '@repo/components';
+import type { Atlas, AtlasCache, AtlasFrame } from './Atlas';
+import { drawParticles, type ParticlePool } from './Particles';
 
 export interface Canvas2DRenderConfig {
   /** Canvas element to render to */
@@ -18,18 +28,175 @@ export interface Canvas2DRenderConfig {
   gridColor?: string;
   /** Grid cell size (if different from GridPosition cellWidth/Height) */
   gridSize?: number;
+  /** Atlases that sprites with an `atlas` draw their frames from */
+  atlases?: AtlasCache;
+  /**
+   * TilemapResource layers to draw below the sprites, bottom first. Each
+   * layer is pre-rendered once and redrawn only when the map changes;
+   * layers the map doesn't have are skipped.
+   */
+  tilemapLayers?: string[];
+  /** Particles to draw above the sprites (see createParticleSystem) */
+  particles?: ParticlePool;
+}
+
+interface RenderItem {
+  sprite: SpriteData;
+  atlas: Atlas | undefined;
+  x: number;
+  y: number;
+  rotation: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+/** Draw a sprite's shape centered on the origin */
+function drawShape(ctx: CanvasRenderingContext2D, sprite: SpriteData) {
+  const left = -sprite.width / 2;
+  const top = -sprite.height / 2;
+  ctx.fillStyle = sprite.color;
+
+  switch (sprite.shape) {
+    case 'rect':
+      ctx.fillRect(left, top, sprite.width, sprite.height);
+      break;
+
+    case 'circle': {
+      const radius = Math.min(sprite.width, sprite.height) / 2;
+      ctx.beginPath();
+      ctx.arc(0, 0, radius, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    }
+
+    case 'roundRect':
+      ctx.beginPath();
+      ctx.roundRect(left, top, sprite.width, sprite.height, sprite.cornerRadius);
+      ctx.fill();
+      break;
+  }
+
+  // Draw border if specified
+  if (sprite.borderColor && sprite.borderWidth > 0) {
+    ctx.strokeStyle = sprite.borderColor;
+    ctx.lineWidth = sprite.borderWidth;
+    ctx.stroke();
+  }
+}
+
+/**
+ * Look up an atlas frame. A missing frame is warned about once (tracked in
+ * `warned`) instead of thrown, so one bad name can't stop the render loop;
+ * callers draw the sprite's shape or the tile's color in its place.
+ */
+function findFrame(
+  atlas: Atlas,
+  atlasId: string,
+  name: string,
+  warned: Set<string>
+): AtlasFrame | undefined {
+  const frame = atlas.frames[name];
+  const key = `${atlasId}/${name}`;
+  if (!frame && !warned.has(key)) {
+    warned.add(key);
+    console.warn(`Atlas "${atlasId}" has no frame "${name}"; drawing a shape instead`);
+  }
+  return frame;
+}
+
+/** Draw a sprite's atlas frame centered on the origin */
+function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  sprite: SpriteData,
+  atlas: Atlas,
+  frame: AtlasFrame
+) {
+  ctx.drawImage(
+    atlas.image,
+    frame.x,
+    frame.y,
+    frame.width,
+    frame.height,
+    -sprite.width / 2,
+    -sprite.height / 2,
+    sprite.width,
+    sprite.height
+  );
+}
+
+/** A tilemap layer pre-rendered to an offscreen canvas */
+interface CachedLayer {
+  canvas: HTMLCanvasElement;
+  map: Tilemap;
+  version: number;
+  atlasVersion: number;
+}
+
+/** Draw a tilemap layer's tiles in their color or atlas frame */
+function drawTileLayer(
+  ctx: CanvasRenderingContext2D,
+  map: Tilemap,
+  layer: string,
+  atlases: AtlasCache | undefined,
+  warnedFrames: Set<string>
+) {
+  const { cellWidth, cellHeight } = map;
+
+  for (let row = 0; row < map.rows; row++) {
+    for (let col = 0; col < map.cols; col++) {
+      const tile = getTile(map, layer, col, row);
+      if (tile === null) continue;
+
+      const type = map.tileset[tile]!;
+      const atlas = type.atlas ? atlases?.get(type.atlas) : undefined;
+      const frame =
+        atlas && type.atlas
+          ? findFrame(atlas, type.atlas, type.frame ?? '', warnedFrames)
+          : undefined;
+      if (atlas && frame) {
+        ctx.drawImage(
+          atlas.image,
+          frame.x,
+          frame.y,
+          frame.width,
+          frame.height,
+          col * cellWidth,
+          row * cellHeight,
+          cellWidth,
+          cellHeight
+        );
+      } else if (type.color) {
+        ctx.fillStyle = type.color;
+        ctx.fillRect(col * cellWidth, row * cellHeight, cellWidth, cellHeight);
+      }
+    }
+  }
 }
 
 /**
  * Creates a Canvas2D render system for drawing sprites to a canvas.
  * Supports both Transform (continuous) and GridPosition (discrete) positioning.
+ * Sprites with an `atlas` draw its frame, and are drawn as their shape
+ * until the atlas has loaded or if it has no such frame. Within a layer,
+ * sprites are batched by atlas.
+ * Tilemap layers (see `tilemapLayers`) are drawn first, and `particles` last.
+ * The canvas is only redrawn when a Sprite, position or the tilemap changed
+ * since the last frame, an atlas loaded, or particles are alive.
  */
 export function createCanvas2DRenderSystem(config: Canvas2DRenderConfig): System {
   let ctx: CanvasRenderingContext2D | null = null;
+  let hasDrawn = false;
+  let atlasVersion = 0;
+  let drawnMap: Tilemap | null = null;
+  let drawnMapVersion = 0;
+  let drawnParticles = 0;
+  const cachedLayers = new Map<string, CachedLayer>();
+  const warnedFrames = new Set<string>();
 
   return {
     name: 'Canvas2DRenderSystem',
     priority: SystemPriorities.RENDER,
+    phase: 'render',
 
     init(_world: World) {
       ctx = config.canvas.getContext('2d');
@@ -43,11 +210,35 @@ export function createCanvas2DRenderSystem(config: Canvas2DRenderConfig): System
       if (config.pixelPerfect) {
         ctx.imageSmoothingEnabled = false;
       }
+      hasDrawn = false;
+      cachedLayers.clear();
     },
 
     update(world, _deltaTime) {
       if (!ctx) return;
 
+      const map = world.getResource(TilemapResource);
+      const tilemapChanged =
+        config.tilemapLayers !== undefined &&
+        (map !== drawnMap || map.version !== drawnMapVersion);
+
+      // Keep the previous frame when nothing visible changed
+      const dirty =
+        [Sprite, GridPosition, Transform].some(
+          (type) => world.changed(type).length > 0 || world.removed(type).length > 0
+        ) ||
+        (config.atlases !== undefined && config.atlases.version !== atlasVersion) ||
+        tilemapChanged ||
+        // Particles move every frame, and the last ones must be erased
+        (config.particles?.count ?? 0) > 0 ||
+        drawnParticles > 0;
+      if (hasDrawn && !dirty) return;
+      hasDrawn = true;
+      atlasVersion = config.atlases?.version ?? 0;
+      drawnMap = map;
+      drawnMapVersion = map.version;
+      drawnParticles = config.particles?.count ?? 0;
+
       // Clear canvas
       ctx.fillStyle = config.backgroundColor || '#000000';
       ctx.fillRect(0, 0, config.width, config.height);
@@ -70,79 +261,106 @@ export function createCanvas2DRenderSystem(config: Canvas2DRenderConfig): System
         }
       }
 
+      // Draw tilemap layers, re-rendering the cached ones that are stale
+      for (const layer of config.tilemapLayers ?? []) {
+        if (!map.layers[layer]) continue;
+
+        let cached = cachedLayers.get(layer);
+        if (
+          !cached ||
+          cached.map !== map ||
+          cached.version !== map.version ||
+          cached.atlasVersion !== atlasVersion
+        ) {
+          const canvas = cached?.canvas ?? document.createElement('canvas');
+          canvas.width = map.cols * map.cellWidth;
+          canvas.height = map.rows * map.cellHeight;
+          const layerCtx = canvas.getContext('2d');
+          if (!layerCtx) {
+            throw new Error('Failed to get 2D rendering context');
+          }
+          layerCtx.imageSmoothingEnabled = !config.pixelPerfect;
+          drawTileLayer(layerCtx, map, layer, config.atlases, warnedFrames);
+
+          cached = { canvas, map, version: map.version, atlasVersion };
+          cachedLayers.set(layer, cached);
+        }
+        ctx.drawImage(cached.canvas, 0, 0);
+      }
+
       // Get all renderable entities
-      const entities = world.query(Sprite);
+      const entities = world.view(Sprite, optional(GridPosition), optional(Transform));
 
       // Build render list with position data
-      const renderList: Array<{
-        sprite: typeof Sprite.defaultValue;
-        x: number;
-        y: number;
-      }> = [];
+      const renderList: RenderItem[] = [];
 
-      for (const entity of entities) {
-        const sprite = world.getComponent(entity, Sprite);
-        if (!sprite || !sprite.visible) continue;
+      for (const [, sprite, gridPos, transform] of entities) {
+        if (!sprite.visible) continue;
 
-        let x: number, y: number;
+        const atlas = sprite.atlas ? config.atlases?.get(sprite.atlas) : undefined;
 
         // Prefer GridPosition over Transform
-        const gridPos = world.getComponent(entity, GridPosition);
         if (gridPos) {
-          x = gridPos.col * gridPos.cellWidth;
-          y = gridPos.row * gridPos.cellHeight;
-        } else {
-          const transform = world.getComponent(entity, Transform);
-          if (transform) {
-            x = transform.x;
-            y = transform.y;
-          } else {
-            continue;
-          }
+          renderList.push({
+            sprite,
+            atlas,
+            x: gridPos.col * gridPos.cellWidth,
+            y: gridPos.row * gridPos.cellHeight,
+            rotation: 0,
+            scaleX: 1,
+            scaleY: 1,
+          });
+        } else if (transform) {
+          renderList.push({
+            sprite,
+            atlas,
+            x: transform.x,
+            y: transform.y,
+            rotation: transform.rotation,
+            scaleX: transform.scaleX,
+            scaleY: transform.scaleY,
+          });
         }
-
-        renderList.push({ sprite, x, y });
       }
 
-      // Sort by layer (lower = behind)
-      renderList.sort((a, b) => a.sprite.layer - b.sprite.layer);
+      // Sort by layer (lower = behind), then batch each layer's sprites by
+      // atlas so draws from the same image run back to back
+      renderList.sort(
+        (a, b) =>
+          a.sprite.layer - b.sprite.layer ||
+          (a.sprite.atlas < b.sprite.atlas ? -1 : a.sprite.atlas > b.sprite.atlas ? 1 : 0)
+      );
 
-      // Render each sprite
-      for (const { sprite, x, y } of renderList) {
-        ctx.save();
+      // Render each sprite, positioned by its top-left corner and rotated
+      // and scaled around its center
+      for (const { sprite, atlas, x, y, rotation, scaleX, scaleY } of renderList) {
+        const radians = (rotation * Math.PI) / 180;
+        const cos = Math.cos(radians);
+        const sin = Math.sin(radians);
+        const sx = scaleX * (sprite.flipX ? -1 : 1);
+        const sy = scaleY * (sprite.flipY ? -1 : 1);
+        ctx.setTransform(
+          cos * sx,
+          sin * sx,
+          -sin * sy,
+          cos * sy,
+          x + sprite.width / 2,
+          y + sprite.height / 2
+        );
         ctx.globalAlpha = sprite.opacity;
-        ctx.fillStyle = sprite.color;
-
-        switch (sprite.shape) {
-          case 'rect':
-            ctx.fillRect(x, y, sprite.width, sprite.height);
-            break;
-
-          case 'circle': {
-            const centerX = x + sprite.width / 2;
-            const centerY = y + sprite.height / 2;
-            const radius = Math.min(sprite.width, sprite.height) / 2;
-            ctx.beginPath();
-            ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
-            ctx.fill();
-            break;
-          }
 
-          case 'roundRect':
-            ctx.beginPath();
-            ctx.roundRect(x, y, sprite.width, sprite.height, sprite.cornerRadius);
-            ctx.fill();
-            break;
-        }
-
-        // Draw border if specified
-        if (sprite.borderColor && sprite.borderWidth > 0) {
-          ctx.strokeStyle = sprite.borderColor;
-          ctx.lineWidth = sprite.borderWidth;
-          ctx.stroke();
+        const frame = atlas && findFrame(atlas, sprite.atlas, sprite.frame, warnedFrames);
+        if (atlas && frame) {
+          drawFrame(ctx, sprite, atlas, frame);
+        } else {
+          drawShape(ctx, sprite);
         }
+      }
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.globalAlpha = 1;
 
-        ctx.restore();
+      if (config.particles) {
+        drawParticles(ctx, config.particles);
       }
 
       // Optional: CRT scanline effect
@@ -154,6 +372,7 @@ export function createCanvas2DRenderSystem(config: Canvas2DRenderConfig): System
 
     cleanup() {
       ctx = null;
+      cachedLayers.clear();
     },
   };
 }
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld, createRandom, TimeResource, type World } from '@repo/ecs';
+import {
+  Transform,
+  ParticleEmitter,
+  ParticleBurstEvent,
+  type ParticleEffect,
+} from '@repo/components';
+import { createParticlePool, createParticleSystem, type ParticlePool } from './Particles';
+
+/** Particles that fly straight right at 10 px/s for a second */
+const dart: ParticleEffect = {
+  count: 4,
+  lifetime: 1,
+  speedMin: 10,
+  speedMax: 10,
+  spread: 0,
+  colorStart: '#000',
+  colorEnd: '#ffffff',
+  sizeStart: 4,
+  sizeEnd: 2,
+};
+
+function particlesOf(pool: ParticlePool) {
+  const particles: { x: number; y: number; size: number; color: string; alpha: number }[] = [];
+  pool.forEach((x, y, size, color, alpha) => particles.push({ x, y, size, color, alpha }));
+  return particles;
+}
+
+function createParticleWorld(pool: ParticlePool, delta: number): World {
+  const world = createWorld();
+  world.setResource(TimeResource, { step: 1 / 60, alpha: 0, delta });
+  world.addSystem(createParticleSystem({ pool, effects: { dart } }));
+  return world;
+}
+
+describe('particle pool', () => {
+  it('moves particles and blends how they look over their life', () => {
+    const pool = createParticlePool();
+    pool.emit({ ...dart, gravity: 8 }, 0, 0, 1, createRandom(1));
+    pool.update(0.5);
+
+    expect(particlesOf(pool)).toEqual([
+      { x: 5, y: 2, size: 3, color: 'rgb(128, 128, 128)', alpha: 0.5 },
+    ]);
+  });
+
+  it('drops emits past capacity, and frees expired particles', () => {
+    const pool = createParticlePool(3);
+    const random = createRandom(1);
+    pool.emit(dart, 0, 0, 2, random);
+    pool.emit({ ...dart, lifetime: 2, colorStart: '#fff' }, 0, 0, 2, random);
+    expect(pool.count).toBe(3);
+
+    pool.update(1.5);
+    expect(particlesOf(pool).map(({ color }) => color)).toEqual(['rgb(255, 255, 255)']);
+
+    pool.clear();
+    expect(pool.count).toBe(0);
+  });
+
+  it('refuses colors that are not hex', () => {
+    const pool = createParticlePool();
+    expect(() => pool.emit({ ...dart, colorStart: 'red' }, 0, 0, 1, createRandom(1))).toThrow(
+      'Particle color "red" is not a hex color'
+    );
+  });
+});
+
+describe('ParticleSystem', () => {
+  it("bursts for events and new emitters, then emits at the emitter's rate", () => {
+    const pool = createParticlePool();
+    const world = createParticleWorld(pool, 0.25);
+    const entity = world.entities.create();
+    world.addComponent(entity, Transform, { ...Transform.defaultValue });
+    world.addComponent(entity, ParticleEmitter, {
+      ...ParticleEmitter.defaultValue,
+      effect: 'dart',
+      rate: 6,
+      burst: 2,
+    });
+    world.emit(ParticleBurstEvent, { effect: 'dart', x: 0, y: 0 });
+
+    // 4 from the event, 2 from the burst and 1 of the 1.5 owed by the rate
+    world.update(1 / 60);
+    expect(pool.count).toBe(7);
+    // The half particle carried over makes 2 this time
+    world.update(1 / 60);
+    expect(pool.count).toBe(9);
+  });
+
+  it('ages particles in game time, so they hold still while paused', () => {
+    const pool = createParticlePool();
+    const world = createParticleWorld(pool, 0);
+    world.emit(ParticleBurstEvent, { effect: 'dart', x: 0, y: 0, count: 1 });
+
+    world.update(1 / 60);
+    world.update(1 / 60);
+    expect(particlesOf(pool)[0]!.x).toBe(0);
+
+    world.setResource(TimeResource, { step: 1 / 60, alpha: 0, delta: 0.5 });
+    world.update(1 / 60);
+    expect(particlesOf(pool)[0]!.x).toBe(5);
+  });
+
+  it('throws for effects it was not given', () => {
+    const world = createParticleWorld(createParticlePool(), 0);
+    world.emit(ParticleBurstEvent, { effect: 'smoke', x: 0, y: 0 });
+    expect(() => world.update(1 / 60)).toThrow('Unknown particle effect "smoke"');
+  });
+});
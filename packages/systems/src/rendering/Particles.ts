@@ -0,0 +1,277 @@
+import {
+  type System,
+  type Entity,
+  type Random,
+  SystemPriorities,
+  TimeResource,
+  getRandom,
+  optional,
+} from '@repo/ecs';
+import {
+  Transform,
+  WorldTransform,
+  ParticleEmitter,
+  ParticleBurstEvent,
+  type ParticleEffect,
+} from '@repo/components';
+
+/**
+ * ParticlePool holds live particles in flat preallocated storage, so
+ * emitting and expiring them never allocates. The ParticleSystem fills and
+ * ages it; renderers draw it with drawParticles.
+ */
+export interface ParticlePool {
+  /** Most particles alive at once; emits past it are dropped */
+  readonly capacity: number;
+  /** Particles alive now */
+  readonly count: number;
+  /** Launch `count` particles of an effect from a point */
+  emit(effect: ParticleEffect, x: number, y: number, count: number, random: Random): void;
+  /** Age and move every particle by `deltaTime` seconds, expiring old ones */
+  update(deltaTime: number): void;
+  /** Visit every particle with how it looks now (color is a CSS color) */
+  forEach(
+    visit: (x: number, y: number, size: number, color: string, alpha: number) => void
+  ): void;
+  /** Remove every particle */
+  clear(): void;
+}
+
+/** An effect with defaults applied and colors parsed */
+interface ResolvedEffect {
+  lifetime: number;
+  gravity: number;
+  sizeStart: number;
+  sizeEnd: number;
+  alphaStart: number;
+  alphaEnd: number;
+  colorStart: [number, number, number];
+  colorEnd: [number, number, number];
+}
+
+/** Floats stored per particle */
+const STRIDE = 17;
+const X = 0;
+const Y = 1;
+const VX = 2;
+const VY = 3;
+const AGE = 4;
+const LIFETIME = 5;
+const GRAVITY = 6;
+const SIZE_START = 7;
+const SIZE_END = 8;
+const ALPHA_START = 9;
+const ALPHA_END = 10;
+/** Start color at COLOR..COLOR+2, end color at COLOR+3..COLOR+5 */
+const COLOR = 11;
+
+/** Parse '#rgb' or '#rrggbb' into channels */
+function parseColor(color: string): [number, number, number] {
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color)?.[1];
+  if (!hex) {
+    throw new Error(`Particle color "${color}" is not a hex color`);
+  }
+  const full = hex.length === 3 ? [...hex].map((digit) => digit + digit).join('') : hex;
+  return [0, 2, 4].map((start) => parseInt(full.slice(start, start + 2), 16)) as [
+    number,
+    number,
+    number,
+  ];
+}
+
+/**
+ * Create an empty particle pool.
+ */
+export function createParticlePool(capacity = 512): ParticlePool {
+  const data = new Float32Array(capacity * STRIDE);
+  const resolved = new WeakMap<ParticleEffect, ResolvedEffect>();
+  let count = 0;
+
+  function resolve(effect: ParticleEffect): ResolvedEffect {
+    let style = resolved.get(effect);
+    if (!style) {
+      style = {
+        lifetime: effect.lifetime,
+        gravity: effect.gravity ?? 0,
+        sizeStart: effect.sizeStart,
+        sizeEnd: effect.sizeEnd ?? effect.sizeStart,
+        alphaStart: effect.alphaStart ?? 1,
+        alphaEnd: effect.alphaEnd ?? 0,
+        colorStart: parseColor(effect.colorStart),
+        colorEnd: parseColor(effect.colorEnd ?? effect.colorStart),
+      };
+      resolved.set(effect, style);
+    }
+    return style;
+  }
+
+  return {
+    capacity,
+
+    get count() {
+      return count;
+    },
+
+    emit(effect, x, y, emitCount, random) {
+      const style = resolve(effect);
+      const spread = effect.spread ?? 360;
+      const width = effect.width ?? 0;
+      const height = effect.height ?? 0;
+
+      for (let i = 0; i < emitCount && count < capacity; i++) {
+        const angle = (((effect.angle ?? 0) + random.range(-spread / 2, spread / 2)) * Math.PI) / 180;
+        const speed = random.range(effect.speedMin, effect.speedMax);
+        const base = count * STRIDE;
+
+        data[base + X] = x + random.range(-width / 2, width / 2);
+        data[base + Y] = y + random.range(-height / 2, height / 2);
+        data[base + VX] = Math.cos(angle) * speed;
+        data[base + VY] = Math.sin(angle) * speed;
+        data[base + AGE] = 0;
+        data[base + LIFETIME] = style.lifetime;
+        data[base + GRAVITY] = style.gravity;
+        data[base + SIZE_START] = style.sizeStart;
+        data[base + SIZE_END] = style.sizeEnd;
+        data[base + ALPHA_START] = style.alphaStart;
+        data[base + ALPHA_END] = style.alphaEnd;
+        data.set(style.colorStart, base + COLOR);
+        data.set(style.colorEnd, base + COLOR + 3);
+        count++;
+      }
+    },
+
+    update(deltaTime) {
+      for (let i = 0; i < count; i++) {
+        const base = i * STRIDE;
+        data[base + AGE] = data[base + AGE]! + deltaTime;
+
+        if (data[base + AGE]! >= data[base + LIFETIME]!) {
+          // Expire by moving the last particle into this slot
+          count--;
+          data.copyWithin(base, count * STRIDE, (count + 1) * STRIDE);
+          i--;
+          continue;
+        }
+
+        data[base + VY] = data[base + VY]! + data[base + GRAVITY]! * deltaTime;
+        data[base + X] = data[base + X]! + data[base + VX]! * deltaTime;
+        data[base + Y] = data[base + Y]! + data[base + VY]! * deltaTime;
+      }
+    },
+
+    forEach(visit) {
+      for (let i = 0; i < count; i++) {
+        const base = i * STRIDE;
+        const t = data[base + AGE]! / data[base + LIFETIME]!;
+        const mix = (start: number, end: number) =>
+          data[base + start]! + (data[base + end]! - data[base + start]!) * t;
+
+        const r = Math.round(mix(COLOR, COLOR + 3));
+        const g = Math.round(mix(COLOR + 1, COLOR + 4));
+        const b = Math.round(mix(COLOR + 2, COLOR + 5));
+        visit(
+          data[base + X]!,
+          data[base + Y]!,
+          mix(SIZE_START, SIZE_END),
+          `rgb(${r}, ${g}, ${b})`,
+          mix(ALPHA_START, ALPHA_END)
+        );
+      }
+    },
+
+    clear() {
+      count = 0;
+    },
+  };
+}
+
+/**
+ * Draw a pool's particles as squares centered on their positions.
+ */
+export function drawParticles(ctx: CanvasRenderingContext2D, pool: ParticlePool): void {
+  pool.forEach((x, y, size, color, alpha) => {
+    ctx.globalAlpha = alpha;
+    ctx.fillStyle = color;
+    ctx.fillRect(x - size / 2, y - size / 2, size, size);
+  });
+  ctx.globalAlpha = 1;
+}
+
+export interface ParticleSystemConfig {
+  /** Pool the particles live in (shared with the renderer that draws them) */
+  pool: ParticlePool;
+  /** Effects by name, for ParticleEmitter components and ParticleBurstEvents */
+  effects: Record<string, ParticleEffect>;
+}
+
+/**
+ * Creates a system that emits and ages particles each frame, in the render
+ * phase: particles are visual only, so they're drawn from the cosmetic
+ * random stream and never change how the game plays out. They age by
+ * TimeResource's `delta`, keeping pace with the game's timeScale.
+ *
+ * Emits a burst for each ParticleBurstEvent, and from each entity with a
+ * ParticleEmitter and a Transform (or WorldTransform): its `burst` when the
+ * emitter is added, then `rate` particles per second while `emitting`.
+ */
+export function createParticleSystem(config: ParticleSystemConfig): System {
+  const { pool } = config;
+  /** Fractions of a particle each emitter is owed, carried between frames */
+  const owed = new Map<Entity, number>();
+
+  function getEffect(name: string): ParticleEffect {
+    const effect = config.effects[name];
+    if (!effect) {
+      throw new Error(`Unknown particle effect "${name}"`);
+    }
+    return effect;
+  }
+
+  return {
+    name: 'ParticleSystem',
+    priority: SystemPriorities.PRE_RENDER,
+    phase: 'render',
+
+    update(world) {
+      const { delta } = world.getResource(TimeResource);
+      pool.update(delta);
+      const random = getRandom(world, 'cosmetic');
+
+      for (const burst of world.read(ParticleBurstEvent)) {
+        const effect = getEffect(burst.effect);
+        pool.emit(effect, burst.x, burst.y, burst.count ?? effect.count, random);
+      }
+
+      for (const entity of world.removed(ParticleEmitter)) {
+        owed.delete(entity);
+      }
+
+      // Usually empty, and only a few entries when emitters are spawned
+      const added = world.added(ParticleEmitter);
+      const emitters = world.view(ParticleEmitter, optional(WorldTransform), optional(Transform));
+      for (const [entity, emitter, worldTransform, localTransform] of emitters) {
+        const transform = worldTransform ?? localTransform;
+        if (!transform) continue;
+
+        const effect = getEffect(emitter.effect);
+        const x = transform.x + emitter.offsetX;
+        const y = transform.y + emitter.offsetY;
+
+        if (added.includes(entity)) {
+          pool.emit(effect, x, y, emitter.burst, random);
+        }
+        if (emitter.emitting && emitter.rate > 0) {
+          const due = (owed.get(entity) ?? 0) + emitter.rate * delta;
+          const whole = Math.floor(due);
+          pool.emit(effect, x, y, whole, random);
+          owed.set(entity, due - whole);
+        }
+      }
+    },
+
+    cleanup() {
+      pool.clear();
+      owed.clear();
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createWorld, type Entity } from '@repo/ecs';
+import { Transform, Mesh } from '@repo/components';
+import {
+  Scene,
+  Group,
+  BoxGeometry,
+  MeshBasicMaterial,
+  Mesh as ThreeMesh,
+  PerspectiveCamera,
+  type Camera,
+  type Object3D,
+} from 'three';
+import { createThreeJSRenderSystem, createMeshRegistry } from './ThreeJSRenderSystem';
+
+const camera = new PerspectiveCamera();
+
+function createSceneWorld(renderer?: { render(scene: Object3D, camera: Camera): void }) {
+  const scene = new Scene();
+  const meshes = createMeshRegistry();
+  meshes.register('box', () => new ThreeMesh(new BoxGeometry(), new MeshBasicMaterial()));
+  meshes.register('big', () => {
+    const group = new Group();
+    group.scale.set(2, 2, 2);
+    return group;
+  });
+  const world = createWorld();
+  world.addSystem(createThreeJSRenderSystem({ scene, meshes, scale: 0.5, renderer, camera }));
+  return { world, scene };
+}
+
+function colorOf(object: Object3D): number {
+  return ((object as ThreeMesh).material as MeshBasicMaterial).color.getHex();
+}
+
+describe('ThreeJSRenderSystem', () => {
+  it("places each entity's object by its transform, with y up", () => {
+    const { world, scene } = createSceneWorld();
+    const entity: Entity = world.entities.create();
+    world.addComponent(entity, Mesh, { meshId: 'big', color: 0xffffff, visible: true });
+    world.addComponent(entity, Transform, {
+      ...Transform.defaultValue,
+      x: 10,
+      y: 20,
+      z: 4,
+      rotation: 90,
+      scaleX: 3,
+    });
+
+    world.update(1 / 60);
+    const [object] = scene.children;
+    expect(object!.position.toArray()).toEqual([5, -10, 2]);
+    expect(object!.rotation.z).toBeCloseTo(-Math.PI / 2);
+    expect(object!.scale.toArray()).toEqual([6, 2, 2]);
+  });
+
+  it('follows color and visibility changes, and swaps objects for a new meshId', () => {
+    const { world, scene } = createSceneWorld();
+    const entity = world.entities.create();
+    world.addComponent(entity, Mesh, { meshId: 'box', color: 0xff0000, visible: true });
+    world.addComponent(entity, Transform, { ...Transform.defaultValue });
+
+    world.update(1 / 60);
+    const box = scene.children[0]!;
+    expect(colorOf(box)).toBe(0xff0000);
+
+    world.updateComponent(entity, Mesh, { color: 0x00ff00, visible: false });
+    world.update(1 / 60);
+    expect(scene.children).toEqual([box]);
+    expect(colorOf(box)).toBe(0x00ff00);
+    expect(box.visible).toBe(false);
+
+    world.updateComponent(entity, Mesh, { meshId: 'big' });
+    world.update(1 / 60);
+    expect(scene.children).toHaveLength(1);
+    expect(scene.children[0]).toBeInstanceOf(Group);
+  });
+
+  it('removes objects when their entity loses its Mesh or is despawned', () => {
+    const { world, scene } = createSceneWorld();
+    const [, stripped, despawned] = [0, 1, 2].map(() => {
+      const entity = world.entities.create();
+      world.addComponent(entity, Mesh, { ...Mesh.defaultValue, meshId: 'box' });
+      world.addComponent(entity, Transform, { ...Transform.defaultValue });
+      return entity;
+    }) as [Entity, Entity, Entity];
+    world.update(1 / 60);
+    const keptObject = scene.children[0];
+    expect(scene.children).toHaveLength(3);
+
+    world.removeComponent(stripped, Mesh);
+    world.despawn(despawned);
+    world.update(1 / 60);
+    expect(scene.children).toEqual([keptObject]);
+
+    world.removeSystem('ThreeJSRenderSystem');
+    expect(scene.children).toEqual([]);
+  });
+
+  it('renders the scene each frame when given a renderer', () => {
+    const render = vi.fn();
+    const { world, scene } = createSceneWorld({ render });
+    world.update(1 / 60);
+    world.update(1 / 60);
+    expect(render).toHaveBeenCalledTimes(2);
+    expect(render).toHaveBeenCalledWith(scene, camera);
+  });
+
+  it('throws for meshIds that were never registered', () => {
+    const { world } = createSceneWorld();
+    const entity = world.entities.create();
+    world.addComponent(entity, Mesh, { ...Mesh.defaultValue, meshId: 'crate' });
+    world.addComponent(entity, Transform, { ...Transform.defaultValue });
+    expect(() => world.update(1 / 60)).toThrow(
+      'Cannot create mesh "crate", which is not registered'
+    );
+  });
+});
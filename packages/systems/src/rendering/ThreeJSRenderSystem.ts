@@ -0,0 +1,162 @@
+import { type System, type Entity, SystemPriorities, optional } from '@repo/ecs';
+import { Transform, WorldTransform, Mesh, type MeshData } from '@repo/components';
+import { type Camera, type Object3D, Color, Mesh as ThreeMesh } from 'three';
+
+/**
+ * MeshRegistry maps Mesh component `meshId`s to factories for Three.js
+ * objects. Each entity gets its own object from the factory.
+ *
+ * @example
+ * const meshes = createMeshRegistry();
+ * meshes.register('crate', () => new Mesh(crateGeometry, new MeshStandardMaterial()));
+ */
+export interface MeshRegistry {
+  /** Register a factory for a meshId (replacing any earlier one) */
+  register(meshId: string, create: () => Object3D): void;
+  has(meshId: string): boolean;
+  /** Create an object for a meshId. Throws for unregistered ids. */
+  create(meshId: string): Object3D;
+}
+
+/**
+ * Create an empty mesh registry.
+ */
+export function createMeshRegistry(): MeshRegistry {
+  const factories = new Map<string, () => Object3D>();
+
+  return {
+    register(meshId, create) {
+      factories.set(meshId, create);
+    },
+
+    has(meshId) {
+      return factories.has(meshId);
+    },
+
+    create(meshId) {
+      const create = factories.get(meshId);
+      if (!create) {
+        throw new Error(`Cannot create mesh "${meshId}", which is not registered`);
+      }
+      return create();
+    },
+  };
+}
+
+export interface ThreeJSRenderConfig {
+  /** Scene (or any group in one) the entities' objects are added to */
+  scene: Object3D;
+  /** Factories for the entities' meshIds */
+  meshes: MeshRegistry;
+  /** Scene units per ECS unit (default 1) */
+  scale?: number;
+  /**
+   * Renderer to draw the scene with each frame, from `camera`. Leave both
+   * out when something else renders the scene (e.g. React Three Fiber).
+   */
+  renderer?: { render(scene: Object3D, camera: Camera): void };
+  camera?: Camera;
+}
+
+interface SyncedObject {
+  object: Object3D;
+  meshId: string;
+  /** The factory's scale, multiplied by the Transform's */
+  baseScaleX: number;
+  baseScaleY: number;
+}
+
+/** Set the color of every material in the object that has one */
+function applyMesh(object: Object3D, mesh: MeshData) {
+  object.visible = mesh.visible;
+  const color = new Color(mesh.color);
+  object.traverse((child) => {
+    if (!(child instanceof ThreeMesh)) return;
+    const materials = Array.isArray(child.material) ? child.material : [child.material];
+    for (const material of materials) {
+      if ('color' in material && material.color instanceof Color) material.color.copy(color);
+    }
+  });
+}
+
+/**
+ * Creates a render system that mirrors entities with a Mesh and a Transform
+ * (or WorldTransform, preferred when present) into a Three.js scene graph.
+ *
+ * Each entity gets an object from the mesh registry, added to `scene`. Its
+ * position, rotation and scale follow the entity's transform each frame:
+ * y points down in the ECS and up in Three.js, and the rotation (degrees)
+ * turns around the z axis. Color and visibility follow the Mesh component
+ * when it changes. Objects are removed when their entity loses its Mesh or
+ * is despawned; the system doesn't dispose of geometries or materials, as
+ * factories may share them.
+ *
+ * Materials are recolored in place, so factories for meshes whose color
+ * varies per entity should create a material per object.
+ */
+export function createThreeJSRenderSystem(config: ThreeJSRenderConfig): System {
+  const scale = config.scale ?? 1;
+  const objects = new Map<Entity, SyncedObject>();
+
+  return {
+    name: 'ThreeJSRenderSystem',
+    priority: SystemPriorities.RENDER,
+    phase: 'render',
+
+    update(world) {
+      const recolored = new Set(world.changed(Mesh));
+      const seen = new Set<Entity>();
+
+      const entities = world.view(Mesh, optional(WorldTransform), optional(Transform));
+      for (const [entity, mesh, worldTransform, localTransform] of entities) {
+        const transform = worldTransform ?? localTransform;
+        if (!transform) continue;
+        seen.add(entity);
+
+        let synced = objects.get(entity);
+        if (synced && synced.meshId !== mesh.meshId) {
+          config.scene.remove(synced.object);
+          synced = undefined;
+        }
+        if (!synced) {
+          const object = config.meshes.create(mesh.meshId);
+          synced = {
+            object,
+            meshId: mesh.meshId,
+            baseScaleX: object.scale.x,
+            baseScaleY: object.scale.y,
+          };
+          objects.set(entity, synced);
+          config.scene.add(object);
+          applyMesh(object, mesh);
+        } else if (recolored.has(entity)) {
+          applyMesh(synced.object, mesh);
+        }
+
+        const { object } = synced;
+        object.position.set(transform.x * scale, -transform.y * scale, transform.z * scale);
+        object.rotation.z = (-transform.rotation * Math.PI) / 180;
+        object.scale.x = synced.baseScaleX * transform.scaleX;
+        object.scale.y = synced.baseScaleY * transform.scaleY;
+      }
+
+      // Entities that lost their Mesh or were despawned
+      for (const [entity, { object }] of objects) {
+        if (seen.has(entity)) continue;
+        config.scene.remove(object);
+        objects.delete(entity);
+      }
+
+      if (config.renderer && config.camera) {
+        config.renderer.render(config.scene, config.camera);
+      }
+    },
+
+    cleanup() {
+      for (const { object } of objects.values()) {
+        config.scene.remove(object);
+      }
+      objects.clear();
+    },
+  };
+}
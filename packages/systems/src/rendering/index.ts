@@ -1 +1,25 @@
 export { createCanvas2DRenderSystem, type Canvas2DRenderConfig } from './Canvas2DRenderSystem';
+export {
+  createThreeJSRenderSystem,
+  createMeshRegistry,
+  type ThreeJSRenderConfig,
+  type MeshRegistry,
+} from './ThreeJSRenderSystem';
+export {
+  createAtlasCache,
+  gridFrames,
+  loadImage,
+  type Atlas,
+  type AtlasCache,
+  type AtlasCacheOptions,
+  type AtlasDefinition,
+  type AtlasFrame,
+  type GridFramesOptions,
+} from './Atlas';
+export {
+  createParticlePool,
+  createParticleSystem,
+  drawParticles,
+  type ParticlePool,
+  type ParticleSystemConfig,
+} from './Particles';
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { createWorld } from '@repo/ecs';
+import { Transform, WorldTransform } from '@repo/components';
+import { TransformPropagationSystem } from './TransformPropagationSystem';
+
+describe('TransformPropagationSystem', () => {
+  it('places children relative to their parent, through entities without a Transform', () => {
+    const world = createWorld();
+    world.addSystem(TransformPropagationSystem);
+
+    const parent = world.entities.create();
+    world.addComponent(parent, Transform, {
+      ...Transform.defaultValue,
+      x: 10,
+      y: 20,
+      rotation: 90,
+    });
+    world.addComponent(parent, WorldTransform, { ...WorldTransform.defaultValue });
+    // A grouping entity with no Transform of its own
+    const group = world.entities.create();
+    world.setParent(group, parent);
+    const child = world.entities.create();
+    world.addComponent(child, Transform, { ...Transform.defaultValue, x: 5, scaleX: 2 });
+    world.addComponent(child, WorldTransform, { ...WorldTransform.defaultValue });
+    world.setParent(child, group);
+
+    world.update(1 / 60);
+    const placed = world.getComponent(child, WorldTransform)!;
+    expect(placed.x).toBeCloseTo(10);
+    expect(placed.y).toBeCloseTo(25);
+    expect(placed).toMatchObject({ rotation: 90, scaleX: 2 });
+    expect(world.getComponent(parent, WorldTransform)).toMatchObject({ x: 10, y: 20 });
+  });
+
+  it('only writes world transforms that changed', () => {
+    const world = createWorld();
+    world.addSystem(TransformPropagationSystem);
+    const entity = world.entities.create();
+    world.addComponent(entity, Transform, { ...Transform.defaultValue, x: 1 });
+    world.addComponent(entity, WorldTransform, { ...WorldTransform.defaultValue });
+
+    world.update(1 / 60);
+    world.update(1 / 60);
+    expect(world.changed(WorldTransform)).toEqual([]);
+
+    world.updateComponent(entity, Transform, { x: 2 });
+    world.update(1 / 60);
+    expect(world.changed(WorldTransform)).toEqual([entity]);
+  });
+});
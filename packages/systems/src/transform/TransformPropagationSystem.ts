@@ -0,0 +1,67 @@
+import { type System, type World, type Entity, SystemPriorities, Parent } from '@repo/ecs';
+import { Transform, WorldTransform, type TransformData } from '@repo/components';
+
+/** Combine a parent's world transform with a child's local transform */
+function compose(parent: TransformData, local: TransformData): TransformData {
+  const radians = (parent.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const x = local.x * parent.scaleX;
+  const y = local.y * parent.scaleY;
+
+  return {
+    x: parent.x + x * cos - y * sin,
+    y: parent.y + x * sin + y * cos,
+    z: parent.z + local.z,
+    rotation: parent.rotation + local.rotation,
+    scaleX: parent.scaleX * local.scaleX,
+    scaleY: parent.scaleY * local.scaleY,
+  };
+}
+
+function isSameTransform(a: TransformData, b: TransformData): boolean {
+  return (
+    a.x === b.x &&
+    a.y === b.y &&
+    a.z === b.z &&
+    a.rotation === b.rotation &&
+    a.scaleX === b.scaleX &&
+    a.scaleY === b.scaleY
+  );
+}
+
+/** Write an entity's world transform and continue down to its children */
+function propagate(world: World, entity: Entity, parentWorld: TransformData | null) {
+  const local = world.getComponent(entity, Transform);
+  const resolved = local ? (parentWorld ? compose(parentWorld, local) : local) : parentWorld;
+
+  const current = world.getComponent(entity, WorldTransform);
+  if (current && resolved && !isSameTransform(current, resolved)) {
+    world.addComponent(entity, WorldTransform, { ...resolved });
+  }
+
+  for (const child of world.getChildren(entity)) {
+    propagate(world, child, resolved);
+  }
+}
+
+/**
+ * TransformPropagationSystem computes WorldTransform from Transform down
+ * each hierarchy (starting at entities with a Transform and no parent), so
+ * children follow their parent. Entities without a Transform pass their
+ * parent's on to their children.
+ * Only entities that have a WorldTransform are written, and only when it
+ * changes.
+ */
+export const TransformPropagationSystem: System = {
+  name: 'TransformPropagationSystem',
+  priority: SystemPriorities.PHYSICS,
+  // Propagate this step's movement
+  after: ['VelocitySystem'],
+
+  update(world) {
+    for (const [entity] of world.view(Transform).without(Parent)) {
+      propagate(world, entity, null);
+    }
+  },
+};
@@ -0,0 +1 @@
+export { TransformPropagationSystem } from './TransformPropagationSystem';
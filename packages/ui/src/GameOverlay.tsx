@@ -1,21 +1,27 @@
 'use client';
 
+import { useState } from 'react';
+import type { Profiler } from '@repo/ecs';
 import { useGameStore, useFPS } from '@repo/hooks';
 import { useInputStore } from '@repo/input';
+import { ProfilerOverlay } from './ProfilerOverlay';
 
 interface GameOverlayProps {
   score?: number;
   onExit?: () => void;
   showFPS?: boolean;
+  /** Profiler of the running game's world; adds a toggle for the profiler panel */
+  profiler?: Profiler | null;
 }
 
-export function GameOverlay({ score = 0, onExit, showFPS = true }: GameOverlayProps) {
+export function GameOverlay({ score = 0, onExit, showFPS = true, profiler }: GameOverlayProps) {
   const mode = useGameStore((state) => state.mode);
   const activeCabinet = useGameStore((state) => state.activeCabinet);
   const stopPlaying = useGameStore((state) => state.stopPlaying);
   const isTouchDevice = useInputStore((state) => state.isTouchDevice);
   const activeSource = useInputStore((state) => state.activeSource);
   const fps = useFPS({ enabled: mode === 'playing' && showFPS });
+  const [showProfiler, setShowProfiler] = useState(false);
 
   if (mode !== 'playing' || !activeCabinet) return null;
 
@@ -36,48 +42,67 @@ export function GameOverlay({ score = 0, onExit, showFPS = true }: GameOverlayPr
   };
 
   return (
-    <div
-      style={{
-        position: 'fixed',
-        top: '20px',
-        left: '50%',
-        transform: 'translateX(-50%)',
-        display: 'flex',
-        gap: '40px',
-        padding: '12px 24px',
-        background: 'rgba(0, 0, 0, 0.8)',
-        border: '2px solid #ff00ff',
-        borderRadius: '8px',
-        fontFamily: '"Press Start 2P", "Courier New", monospace',
-        fontSize: '12px',
-        zIndex: 1000,
-      }}
-    >
-      <div style={{ color: '#00ffff' }}>
-        {activeCabinet.game.toUpperCase()}
-      </div>
-      <div style={{ color: '#ffff00' }}>
-        SCORE: {score.toString().padStart(6, '0')}
-      </div>
-      {showFPS && (
-        <div style={{ color: '#00ff00' }}>
-          FPS: {fps.toString().padStart(3, ' ')}
-        </div>
-      )}
-      <button
-        onClick={handleExit}
+    <>
+      <div
         style={{
-          background: 'transparent',
-          border: '1px solid #ff4444',
-          color: '#ff4444',
-          padding: '4px 12px',
-          cursor: 'pointer',
-          fontFamily: 'inherit',
-          fontSize: '10px',
+          position: 'fixed',
+          top: '20px',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          display: 'flex',
+          gap: '40px',
+          padding: '12px 24px',
+          background: 'rgba(0, 0, 0, 0.8)',
+          border: '2px solid #ff00ff',
+          borderRadius: '8px',
+          fontFamily: '"Press Start 2P", "Courier New", monospace',
+          fontSize: '12px',
+          zIndex: 1000,
         }}
       >
-        {getExitText()}
-      </button>
-    </div>
+        <div style={{ color: '#00ffff' }}>
+          {activeCabinet.game.toUpperCase()}
+        </div>
+        <div style={{ color: '#ffff00' }}>
+          SCORE: {score.toString().padStart(6, '0')}
+        </div>
+        {showFPS && (
+          <div style={{ color: '#00ff00' }}>
+            FPS: {fps.toString().padStart(3, ' ')}
+          </div>
+        )}
+        {profiler && (
+          <button
+            onClick={() => setShowProfiler((shown) => !shown)}
+            style={{
+              background: showProfiler ? '#00ff00' : 'transparent',
+              border: '1px solid #00ff00',
+              color: showProfiler ? '#000000' : '#00ff00',
+              padding: '4px 12px',
+              cursor: 'pointer',
+              fontFamily: 'inherit',
+              fontSize: '10px',
+            }}
+          >
+            PROFILE
+          </button>
+        )}
+        <button
+          onClick={handleExit}
+          style={{
+            background: 'transparent',
+            border: '1px solid #ff4444',
+            color: '#ff4444',
+            padding: '4px 12px',
+            cursor: 'pointer',
+            fontFamily: 'inherit',
+            fontSize: '10px',
+          }}
+        >
+          {getExitText()}
+        </button>
+      </div>
+      {profiler && showProfiler && <ProfilerOverlay profiler={profiler} />}
+    </>
   );
 }
@@ -0,0 +1,86 @@
+'use client';
+
+import type { Profiler, ProfileStats } from '@repo/ecs';
+import { useProfileReport } from './hooks/useProfileReport';
+
+interface ProfilerOverlayProps {
+  profiler: Profiler;
+  /** Rows shown per section. Default: 6 */
+  maxRows?: number;
+}
+
+const formatMs = (stats: ProfileStats) =>
+  `${stats.avg.toFixed(2)} / ${stats.p95.toFixed(2)} ms`;
+
+const rowStyle = { display: 'flex', justifyContent: 'space-between', gap: '16px' };
+const headingStyle = { color: '#ff00ff', marginTop: '8px' };
+
+/**
+ * Dev panel showing the slowest systems, the largest queries and the most
+ * frequent events of a world (avg / p95 per frame over the last 2 seconds).
+ */
+export function ProfilerOverlay({ profiler, maxRows = 6 }: ProfilerOverlayProps) {
+  const report = useProfileReport(profiler);
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: '80px',
+        right: '20px',
+        width: '360px',
+        padding: '12px',
+        background: 'rgba(0, 0, 0, 0.85)',
+        border: '2px solid #00ff00',
+        borderRadius: '8px',
+        fontFamily: '"Courier New", monospace',
+        fontSize: '11px',
+        color: '#ffffff',
+        zIndex: 1000,
+      }}
+    >
+      {!report || report.frames === 0 ? (
+        <div>Collecting frames...</div>
+      ) : (
+        <>
+          <div style={rowStyle}>
+            <span style={{ color: '#00ff00' }}>FRAME</span>
+            <span>{formatMs(report.frame)}</span>
+          </div>
+          <div style={rowStyle}>
+            <span>Steps per frame</span>
+            <span>{report.steps.avg.toFixed(1)}</span>
+          </div>
+
+          <div style={headingStyle}>SYSTEMS (avg / p95)</div>
+          {report.systems.slice(0, maxRows).map((system) => (
+            <div key={system.name} style={rowStyle}>
+              <span>{system.name}</span>
+              <span>{formatMs(system.time)}</span>
+            </div>
+          ))}
+
+          <div style={headingStyle}>QUERIES (entities)</div>
+          {report.queries.slice(0, maxRows).map((query) => (
+            <div key={query.query} style={rowStyle}>
+              <span>{query.query}</span>
+              <span>{query.entities}</span>
+            </div>
+          ))}
+
+          {report.events.length > 0 && (
+            <>
+              <div style={headingStyle}>EVENTS (per frame)</div>
+              {report.events.slice(0, maxRows).map((event) => (
+                <div key={event.name} style={rowStyle}>
+                  <span>{event.name}</span>
+                  <span>{event.count.avg.toFixed(2)}</span>
+                </div>
+              ))}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
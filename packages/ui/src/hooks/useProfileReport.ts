@@ -0,0 +1,43 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Profiler, ProfileReport } from '@repo/ecs';
+
+export interface ProfileReportOptions {
+  /** How often to refresh the report (in ms). Default: 500 */
+  updateInterval?: number;
+  /** Whether to record and report. Default: true */
+  enabled?: boolean;
+}
+
+/**
+ * Hook to read a world's profiler report.
+ * Turns the profiler on while enabled (back off afterwards) and refreshes
+ * the report on an interval.
+ */
+export function useProfileReport(
+  profiler: Profiler | null | undefined,
+  options: ProfileReportOptions = {}
+): ProfileReport | null {
+  const { updateInterval = 500, enabled = true } = options;
+
+  const [report, setReport] = useState<ProfileReport | null>(null);
+
+  useEffect(() => {
+    if (!profiler || !enabled) {
+      setReport(null);
+      return;
+    }
+
+    profiler.reset();
+    profiler.enabled = true;
+    const interval = setInterval(() => setReport(profiler.report()), updateInterval);
+
+    return () => {
+      clearInterval(interval);
+      profiler.enabled = false;
+    };
+  }, [profiler, enabled, updateInterval]);
+
+  return report;
+}
@@ -1,5 +1,6 @@
 export { InteractionPrompt } from './InteractionPrompt';
 export { GameOverlay } from './GameOverlay';
+export { ProfilerOverlay } from './ProfilerOverlay';
 
 // Responsive utilities
 export {
@@ -11,6 +12,11 @@ export {
   type SafeAreaInsets,
 } from './hooks/useViewport';
 
+export {
+  useProfileReport,
+  type ProfileReportOptions,
+} from './hooks/useProfileReport';
+
 export {
   useResponsiveValue,
   getResponsiveValue,